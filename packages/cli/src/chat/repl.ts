@@ -1,27 +1,86 @@
 import * as readline from 'readline';
+import * as fs from 'fs';
+import { spawnSync } from 'child_process';
+import { randomUUID } from 'crypto';
 import chalk from 'chalk';
 import ora from 'ora';
 import {
+  AGENT_TOOLS,
   analyzeSqlExecutionError,
+  describeClassification,
+  describeTableForAgent,
+  findJoinPathForAgent,
+  formatJoinPaths,
+  formatExecutionForAgent,
+  getToolStringArgument,
   DatabaseConnector,
   SchemaEngine,
   LLMClient,
   ContextBuilder,
   QueryExecutor,
+  createConversation,
+  saveConversation,
+  loadConversation,
+  listConversations,
+  appendConversationEntry,
+  addConversationUsage,
+  appendUsageRecord,
+  checkUsageBudget,
+  buildUsageReport,
+  toConversationResult,
+  diffSchemas,
+  generateMigrationSql,
+  parseSchemaRef,
+  loadSchemaRef,
+  loadSemanticLayer,
+  saveSemanticLayer,
+  parseSemanticLayer,
+  semanticLayerPath,
+  isSemanticLayerEmpty,
+  formatMetricDefinition,
+  DataMasker,
+  classifyColumns,
+  getConnections,
+  updateConnectionPrivacy,
+  updateConnectionAccess,
+  parseAccessPolicy,
+  isSensitivityTag,
+  isMaskMode,
+  SENSITIVITY_TAGS,
+  type Conversation,
+  type ConversationEntry,
   type ExecutionResult,
+  type WritePreview,
+  type LLMToolCall,
+  type LLMToolResult,
+  type LLMResponse,
+  type SemanticLayer,
+  type DiffChange,
+  formatForeignKeyTarget,
   log,
 } from '@agentdb/core';
 
+const MAX_TOOL_ROUNDS = 5;
+const RESULT_SAMPLE_SIZE = 20;
+const HISTORY_LIST_LIMIT = 15;
+const RESUME_RECAP_ENTRIES = 6;
+const CONTEXT_RECENT_MESSAGES = 6;
+const CONTEXT_TABLES_SHOWN = 8;
+
 export class ChatREPL {
   private db: DatabaseConnector;
   private schemaEngine: SchemaEngine;
   private llmClient: LLMClient;
   private contextBuilder: ContextBuilder;
   private executor: QueryExecutor;
+  private connectionName: string;
+  private conversation: Conversation | null = null;
   private isRunning: boolean = false;
   private rl: readline.Interface | null = null;
   private lastResult: ExecutionResult | null = null;
   private totalTokens: number = 0;
+  private runId: string = '';
+  private runTokens: number = 0;
 
   constructor(deps: {
     db: DatabaseConnector;
@@ -29,16 +88,19 @@ export class ChatREPL {
     llmClient: LLMClient;
     contextBuilder: ContextBuilder;
     executor: QueryExecutor;
+    connectionName: string;
   }) {
     this.db = deps.db;
     this.schemaEngine = deps.schemaEngine;
     this.llmClient = deps.llmClient;
     this.contextBuilder = deps.contextBuilder;
     this.executor = deps.executor;
+    this.connectionName = deps.connectionName;
   }
 
   async start(): Promise<void> {
     this.isRunning = true;
+    this.refreshMasker();
 
     const schema = this.schemaEngine.getSchemaMap();
     if (schema) {
@@ -104,141 +166,108 @@ export class ChatREPL {
   }
 
   private async processInput(input: string): Promise<void> {
+    if (!this.conversation) {
+      this.conversation = createConversation(this.connectionName, input);
+    }
+    this.record({ type: 'user', content: input });
+    this.refreshContext(input);
+    this.runId = randomUUID();
+    this.runTokens = 0;
+
+    const budgetReason = this.checkBudget();
+    if (budgetReason) {
+      log.error(budgetReason);
+      return;
+    }
+
     const spinner = ora({
       text: chalk.dim('Pensando...'),
       spinner: 'dots',
       color: 'cyan',
     }).start();
 
+    let stream = this.createTextStream(spinner);
+
     try {
-      const response = await this.llmClient.chat(input);
+      let response = await this.llmClient.chat(input, { tools: AGENT_TOOLS, onDelta: stream.onDelta });
       spinner.stop();
 
-      this.totalTokens += response.tokensUsed.total;
+      for (let round = 1; ; round++) {
+        this.trackUsage(response);
 
-      const sql = this.executor.extractSQL(response.content);
-
-      if (sql) {
-        const textWithoutSQL = response.content
-          .replace(/```sql\s*\n[\s\S]*?```/gi, '')
-          .replace(/```\s*\n[\s\S]*?```/g, '')
-          .trim();
-
-        if (textWithoutSQL) {
-          log.agent(textWithoutSQL);
+        const text = response.content.trim();
+        const streamed = stream.finish();
+        if (text) {
+          if (!streamed) log.agent(text);
+          this.record({ type: 'text', content: text });
         }
 
-        log.sql(sql);
+        if (response.toolCalls.length === 0) return;
 
-        if (this.executor.isDestructiveQuery(sql)) {
-          if (this.executor.isReadOnly()) {
-            log.warn(
-              'Modo somente leitura ativo. Use /write para habilitar escrita.'
-            );
-            return;
-          }
+        const results: LLMToolResult[] = [];
+        let stopped = false;
 
-          const confirmed = await this.askConfirmation(
-            'Executar esta query destrutiva? (s/n): '
-          );
-          if (!confirmed) {
-            log.dim('Execução cancelada.');
-            return;
+        for (const call of response.toolCalls) {
+          if (stopped) {
+            results.push({
+              toolCallId: call.id,
+              content: 'Chamada nao executada: a execucao anterior foi interrompida.',
+            });
+            continue;
           }
-        }
 
-        const execSpinner = ora({
-          text: chalk.dim('Executando query...'),
-          spinner: 'dots',
-          color: 'yellow',
-        }).start();
-
-        const result = await this.executor.execute(sql);
-        execSpinner.stop();
-
-        this.lastResult = result;
-
-        if (result.error) {
-          log.error(`Erro SQL: ${result.error}`);
+          const outcome = await this.runToolCall(call);
+          results.push(outcome.result);
+          stopped = outcome.stop;
+        }
 
-          const guidance = analyzeSqlExecutionError(result.error);
-          let shouldRetry = guidance.shouldAutoRetry;
-          const recoveryInstruction =
-            guidance.recoveryInstruction ||
-            'Corrija a query mantendo o objetivo original do usuario.';
+        const budgetReason = stopped ? null : this.checkBudget();
+        if (budgetReason) log.error(budgetReason);
 
-          if (guidance.shouldAskUser && guidance.userQuestion) {
-            const followUp = `${guidance.userQuestion}\nPosso tentar automaticamente uma alternativa agora.`;
-            log.agent(followUp);
+        if (stopped || budgetReason) {
+          for (const result of results) {
             this.llmClient.addToHistory({
-              role: 'assistant',
-              content: followUp,
+              role: 'tool',
+              content: result.content,
+              toolCallId: result.toolCallId,
             });
-
-            shouldRetry = await this.askConfirmation(
-              'Tentar alternativa automatica agora? (s/n): '
-            );
-
-            if (!shouldRetry) {
-              log.dim('Sem problemas. Nao vou tentar automaticamente.');
-              return;
-            }
-          }
-
-          if (!shouldRetry) {
-            return;
           }
+          return;
+        }
 
-          const retryPrompt = this.buildGuidedRetryPrompt({
-            userInput: input,
-            failedSQL: sql,
-            errorMessage: result.error,
-            instruction: recoveryInstruction,
-          });
+        const isLastRound = round >= MAX_TOOL_ROUNDS;
+        const analyzeSpinner = ora({
+          text: chalk.dim('Analisando resultados...'),
+          spinner: 'dots',
+          color: 'cyan',
+        }).start();
+        stream = this.createTextStream(analyzeSpinner);
 
-          const retrySpinner = ora({
-            text: chalk.dim('Analisando erro e tentando corrigir...'),
-            spinner: 'dots',
-            color: 'yellow',
-          }).start();
+        try {
+          response = await this.llmClient.submitToolResults(
+            results,
+            { tools: AGENT_TOOLS, toolChoice: isLastRound ? 'none' : 'auto', onDelta: stream.onDelta },
+            isLastRound
+              ? 'Limite de etapas atingido. Responda agora apenas em texto, sem novas queries.'
+              : undefined
+          );
+        } finally {
+          analyzeSpinner.stop();
+        }
 
-          try {
-            const fixResponse = await this.llmClient.chat(retryPrompt);
-            retrySpinner.stop();
-
-            this.totalTokens += fixResponse.tokensUsed.total;
-
-            const fixedSQL = this.executor.extractSQL(fixResponse.content);
-            if (fixedSQL) {
-              log.agent('Tentando query corrigida:');
-              log.sql(fixedSQL);
-
-              const fixResult = await this.executor.execute(fixedSQL);
-              this.lastResult = fixResult;
-
-              if (fixResult.error) {
-                log.error(`Erro persistente: ${fixResult.error}`);
-              } else {
-                this.showQueryResult(fixResult);
-                await this.sendResultToLLM(fixResult);
-              }
-            } else {
-              log.agent(fixResponse.content);
-            }
-          } catch (retryError) {
-            retrySpinner.stop();
-            const msg = retryError instanceof Error ? retryError.message : 'Erro';
-            log.error(`Não foi possível corrigir: ${msg}`);
+        if (isLastRound) {
+          this.trackUsage(response);
+          const streamed = stream.finish();
+          if (response.content.trim()) {
+            if (!streamed) log.agent(response.content.trim());
+            this.record({ type: 'text', content: response.content.trim() });
           }
-        } else {
-          this.showQueryResult(result);
-          await this.sendResultToLLM(result);
+          return;
         }
-      } else {
-        log.agent(response.content);
       }
     } catch (error) {
       spinner.stop();
+      stream.finish();
 
       if (error instanceof Error) {
         if (
@@ -258,7 +287,149 @@ export class ChatREPL {
       } else {
         log.error('Erro inesperado ao processar mensagem.');
       }
+    } finally {
+      this.persistConversation();
+    }
+  }
+
+  /**
+   * Escreve o texto do agente conforme chega. O spinner para no primeiro
+   * trecho; finish() fecha a linha e diz se algo foi exibido.
+   */
+  private createTextStream(spinner: { stop(): unknown }): {
+    onDelta: (text: string) => void;
+    finish: () => boolean;
+  } {
+    let started = false;
+    let open = false;
+
+    return {
+      onDelta: (text: string) => {
+        if (!started) {
+          spinner.stop();
+          process.stdout.write(chalk.cyan('🤖') + ' ');
+          started = true;
+          open = true;
+        }
+        process.stdout.write(text);
+      },
+      finish: () => {
+        if (open) {
+          process.stdout.write('\n');
+          open = false;
+        }
+        return started;
+      },
+    };
+  }
+
+  private async runToolCall(
+    call: LLMToolCall
+  ): Promise<{ result: LLMToolResult; stop: boolean }> {
+    if (call.name === 'describe_table') {
+      const tableRef = getToolStringArgument(call, 'table') ?? '';
+      log.dim(`Consultando estrutura de ${tableRef || '(sem tabela)'}...`);
+      return {
+        result: {
+          toolCallId: call.id,
+          content: describeTableForAgent(this.schemaEngine, tableRef, this.executor.getMasker()?.sensitiveColumns()),
+        },
+        stop: false,
+      };
+    }
+
+    if (call.name === 'find_join_path') {
+      const from = getToolStringArgument(call, 'from') ?? '';
+      const to = getToolStringArgument(call, 'to') ?? '';
+      log.dim(`Procurando caminho de JOIN entre ${from} e ${to}...`);
+      return {
+        result: { toolCallId: call.id, content: findJoinPathForAgent(this.schemaEngine, from, to) },
+        stop: false,
+      };
+    }
+
+    if (call.name !== 'run_sql') {
+      return {
+        result: { toolCallId: call.id, content: `Ferramenta desconhecida: ${call.name}.` },
+        stop: false,
+      };
+    }
+
+    const sql = getToolStringArgument(call, 'sql');
+    if (!sql) {
+      return {
+        result: { toolCallId: call.id, content: 'Argumento "sql" ausente.' },
+        stop: false,
+      };
+    }
+
+    log.sql(sql);
+    this.record({ type: 'sql', content: sql });
+
+    const gate = await this.checkStatementGate(sql);
+    if (gate === 'blocked') {
+      return {
+        result: { toolCallId: call.id, content: 'Bloqueado: modo somente leitura ativo.' },
+        stop: true,
+      };
+    }
+    if (gate === 'declined') {
+      return {
+        result: { toolCallId: call.id, content: 'Execucao cancelada pelo usuario.' },
+        stop: true,
+      };
+    }
+
+    const execSpinner = ora({
+      text: chalk.dim('Executando query...'),
+      spinner: 'dots',
+      color: 'yellow',
+    }).start();
+
+    const result = await this.executor.execute(sql);
+    execSpinner.stop();
+
+    this.lastResult = result;
+
+    if (!result.error) {
+      this.showQueryResult(result);
+      this.record({ type: 'result', result: toConversationResult(result) });
+      return {
+        result: {
+          toolCallId: call.id,
+          content: formatExecutionForAgent(this.executor.maskForAgent(result), { sampleSize: RESULT_SAMPLE_SIZE }),
+        },
+        stop: false,
+      };
+    }
+
+    log.error(`Erro SQL: ${result.error}`);
+    this.record({ type: 'error', content: `Erro SQL: ${result.error}` });
+
+    const guidance = analyzeSqlExecutionError(result.error, result.errorCode);
+    const toolResult: LLMToolResult = {
+      toolCallId: call.id,
+      content: formatExecutionForAgent(result, {
+        recoveryInstruction:
+          guidance.recoveryInstruction ||
+          'Corrija a query mantendo o objetivo original do usuario.',
+      }),
+    };
+
+    if (guidance.shouldAskUser && guidance.userQuestion) {
+      log.agent(`${guidance.userQuestion}\nPosso tentar automaticamente uma alternativa agora.`);
+
+      const shouldRetry = await this.askConfirmation(
+        'Tentar alternativa automatica agora? (s/n): '
+      );
+
+      if (!shouldRetry) {
+        log.dim('Sem problemas. Nao vou tentar automaticamente.');
+      }
+      return { result: toolResult, stop: !shouldRetry };
     }
+
+    return { result: toolResult, stop: !guidance.shouldAutoRetry };
   }
 
   private showQueryResult(result: ExecutionResult): void {
@@ -268,28 +439,13 @@ export class ChatREPL {
     log.dim(
       `${result.rowCount} linha${result.rowCount !== 1 ? 's' : ''} | ${result.duration}ms`
     );
+    this.showMaskedColumns(result);
   }
 
-  private async sendResultToLLM(result: ExecutionResult): Promise<void> {
-    if (result.rows.length === 0) return;
-
-    const rowsToSend = result.rows.slice(0, 20);
-    const message = `Resultado da query (${result.rowCount} linhas, ${result.duration}ms):\n${JSON.stringify(rowsToSend, null, 2)}`;
-
-    const spinner = ora({
-      text: chalk.dim('Analisando resultados...'),
-      spinner: 'dots',
-      color: 'cyan',
-    }).start();
-
-    try {
-      const summaryResponse = await this.llmClient.chat(message);
-      spinner.stop();
-
-      this.totalTokens += summaryResponse.tokensUsed.total;
-      log.agent(summaryResponse.content);
-    } catch {
-      spinner.stop();
+  private showMaskedColumns(result: ExecutionResult): void {
+    const masked = Object.entries(result.maskedColumns ?? {});
+    if (masked.length > 0) {
+      log.dim(`Mascaradas (PII): ${masked.map(([column, tag]) => `${column} (${tag})`).join(', ')}`);
     }
   }
 
@@ -313,6 +469,9 @@ export class ChatREPL {
       case 'rel':
         this.showRelations(args);
         break;
+      case 'join':
+        this.showJoinPath(args);
+        break;
       case 'search':
         this.searchSchema(args);
         break;
@@ -325,12 +484,33 @@ export class ChatREPL {
       case 'clear':
         this.clearHistory();
         break;
+      case 'history':
+        this.showConversations(args);
+        break;
+      case 'diff':
+        await this.showDiff(args);
+        break;
+      case 'profile':
+        await this.profileTables(args);
+        break;
+      case 'semantic':
+        this.semanticCommand(args);
+        break;
+      case 'access':
+        this.accessCommand(args);
+        break;
+      case 'pii':
+        this.piiCommand(args);
+        break;
       case 'reconnect':
-        await this.reconnect();
+        await this.reconnect(args.trim() === '--cache');
         break;
       case 'export':
         this.exportResult(args);
         break;
+      case 'usage':
+        this.showUsage(args);
+        break;
       case 'stats':
         this.showStats();
         break;
@@ -352,13 +532,21 @@ export class ChatREPL {
     console.log(`  ${chalk.bold('/tables')}                  Lista todas as tabelas`);
     console.log(`  ${chalk.bold('/describe')} ${chalk.dim('<tabela>')}        Mostra estrutura de uma tabela`);
     console.log(`  ${chalk.bold('/relations')} ${chalk.dim('<tabela>')}       Mostra tabelas relacionadas`);
+    console.log(`  ${chalk.bold('/join')} ${chalk.dim('<origem> <destino>')} Caminho de JOIN pelas FKs`);
     console.log(`  ${chalk.bold('/search')} ${chalk.dim('<termo>')}           Busca tabelas/colunas`);
     console.log(`  ${chalk.bold('/sql')} ${chalk.dim('<query>')}              Executa SQL direto (sem LLM)`);
     console.log(`  ${chalk.bold('/write')}                   Toggle modo escrita`);
     console.log(`  ${chalk.bold('/clear')}                   Limpa histórico de conversa`);
-    console.log(`  ${chalk.bold('/reconnect')}               Reconecta e remapeia schema`);
+    console.log(`  ${chalk.bold('/history')} ${chalk.dim('[n|id]')}         Lista conversas salvas ou retoma uma`);
+    console.log(`  ${chalk.bold('/diff')} ${chalk.dim('<conexão[@data]> [--sql]')} Compara outro schema com o atual`);
+    console.log(`  ${chalk.bold('/profile')} ${chalk.dim('[tabelas...]')}    Perfila valores das colunas (pg_stats/amostra)`);
+    console.log(`  ${chalk.bold('/semantic')} ${chalk.dim('[edit|metric|term|rm]')} Glossário e métricas do time`);
+    console.log(`  ${chalk.bold('/pii')} ${chalk.dim('[set|mask]')}         Etiquetas de dados sensíveis e mascaramento`);
+    console.log(`  ${chalk.bold('/access')} ${chalk.dim('[allow|deny|rm|clear]')} Schemas, tabelas e colunas liberados/bloqueados`);
+    console.log(`  ${chalk.bold('/reconnect')} ${chalk.dim('[--cache]')}     Reconecta e remapeia schema (--cache: só tabelas alteradas)`);
     console.log(`  ${chalk.bold('/export')} ${chalk.dim('<json|csv>')}        Exporta último resultado`);
     console.log(`  ${chalk.bold('/stats')}                   Mostra estatísticas da sessão`);
+    console.log(`  ${chalk.bold('/usage')} ${chalk.dim('[dias]')}            Tokens e custo estimado por dia, modelo e conexão`);
     console.log(`  ${chalk.bold('/quit')}                    Sai do Shibuy.ai`);
     log.blank();
   }
@@ -420,8 +608,8 @@ export class ChatREPL {
     for (const col of table.columns) {
       const markers: string[] = [];
       if (col.isPrimaryKey) markers.push(chalk.yellow('PK'));
-      const fk = table.foreignKeys.find((f) => f.column === col.name);
-      if (fk) markers.push(chalk.blue(`FK→${fk.referencedTable}.${fk.referencedColumn}`));
+      const fk = table.foreignKeys.find((f) => f.columns.length === 1 && f.columns[0] === col.name);
+      if (fk) markers.push(chalk.blue(`FK→${fk.referencedTable}.${fk.referencedColumns[0]}`));
       if (!col.nullable && !col.isPrimaryKey) markers.push(chalk.red('NOT NULL'));
       if (col.defaultValue) markers.push(chalk.dim(`default=${col.defaultValue}`));
 
@@ -446,9 +634,8 @@ export class ChatREPL {
       log.blank();
       console.log(chalk.bold('  Foreign Keys (saída):'));
       for (const fk of table.foreignKeys) {
-        console.log(
-          `    → ${chalk.white(fk.column)} → ${fk.referencedSchema}.${fk.referencedTable}.${fk.referencedColumn}`
-        );
+        const columns = fk.columns.length === 1 ? fk.columns[0] : `(${fk.columns.join(', ')})`;
+        console.log(`    → ${chalk.white(columns)} → ${formatForeignKeyTarget(fk)} ${chalk.dim(fk.name)}`);
       }
     }
 
@@ -456,9 +643,16 @@ export class ChatREPL {
       log.blank();
       console.log(chalk.bold('  Referenciada por:'));
       for (const ref of table.referencedBy) {
-        console.log(
-          `    ← ${ref.referencedSchema}.${ref.referencedTable}.${ref.referencedColumn}`
-        );
+        console.log(`    ← ${formatForeignKeyTarget(ref)}`);
+      }
+    }
+
+    const profile = this.schemaEngine.formatProfileSummary(table);
+    if (profile.length > 0) {
+      log.blank();
+      console.log(chalk.bold('  Perfil de dados:'));
+      for (const line of profile) {
+        console.log(`    ${chalk.dim(line.trim())}`);
       }
     }
 
@@ -470,6 +664,44 @@ export class ChatREPL {
     log.blank();
   }
 
+  private showJoinPath(args: string): void {
+    const [fromRef, toRef] = args.split(/\s+/).filter(Boolean);
+    if (!fromRef || !toRef) {
+      log.warn('Uso: /join <tabela_origem> <tabela_destino>');
+      return;
+    }
+
+    const resolved = [fromRef, toRef].map((ref) => {
+      const matches = this.schemaEngine.findTables(ref);
+      if (matches.length === 0) log.warn(`Tabela "${ref}" não encontrada.`);
+      if (matches.length > 1) {
+        log.warn(`Nome ambíguo "${ref}": ${matches.map((t) => `${t.schema}.${t.name}`).join(', ')}`);
+      }
+      return matches.length === 1 ? `${matches[0].schema}.${matches[0].name}` : null;
+    });
+    const [from, to] = resolved;
+    if (!from || !to) return;
+
+    const paths = this.schemaEngine.findJoinPath(from, to);
+
+    log.blank();
+    if (paths.length === 0) {
+      log.dim(`Nenhum caminho por foreign keys entre ${from} e ${to}.`);
+      log.blank();
+      return;
+    }
+
+    console.log(chalk.bold.cyan(`  Caminho de ${from} até ${to}:`));
+    if (paths.length > 1) {
+      log.warn(`${paths.length} caminhos de mesmo tamanho: o JOIN é ambíguo.`);
+    }
+    log.blank();
+    for (const line of formatJoinPaths(paths).split('\n')) {
+      console.log(line.startsWith('FROM') || line.startsWith('JOIN') ? `    ${chalk.white(line)}` : `  ${chalk.dim(line)}`);
+    }
+    log.blank();
+  }
+
   private showRelations(tableName: string): void {
     if (!tableName) {
       log.warn('Uso: /relations <nome_da_tabela>');
@@ -510,6 +742,97 @@ export class ChatREPL {
     log.blank();
   }
 
+  /**
+   * /diff <origem> [destino] [--sql]. Destino padrao: schema atual desta sessao.
+   * Refs aceitam "conexao@AAAA-MM-DD" para usar o historico de snapshots.
+   */
+  private async showDiff(args: string): Promise<void> {
+    const tokens = args.split(/\s+/).filter(Boolean);
+    const withSql = tokens.includes('--sql');
+    const refs = tokens.filter((t) => t !== '--sql');
+    if (refs.length === 0) {
+      log.warn('Uso: /diff <conexão[@AAAA-MM-DD]> [destino] [--sql]');
+      return;
+    }
+
+    const fromLabel = refs[0];
+    const toLabel = refs[1] ?? this.connectionName;
+    const live = { connection: this.connectionName, engine: this.schemaEngine };
+
+    const spinner = ora({
+      text: chalk.dim('Carregando schemas...'),
+      spinner: 'dots',
+      color: 'cyan',
+    }).start();
+
+    let diff;
+    try {
+      const from = await loadSchemaRef(parseSchemaRef(fromLabel), live);
+      const to = await loadSchemaRef(parseSchemaRef(toLabel), live);
+      diff = diffSchemas(from, to, { from: fromLabel, to: toLabel });
+      spinner.stop();
+    } catch (error) {
+      spinner.stop();
+      const msg = error instanceof Error ? error.message : 'Erro ao comparar schemas';
+      log.error(msg);
+      return;
+    }
+
+    const marks: Record<DiffChange, string> = {
+      added: chalk.green('+'),
+      removed: chalk.red('-'),
+      changed: chalk.yellow('~'),
+    };
+
+    log.blank();
+    console.log(chalk.bold.cyan(`  Diff ${fromLabel} → ${toLabel}:`));
+    log.blank();
+
+    if (diff.tables.length === 0) {
+      log.dim('Nenhuma diferença de schema.');
+      log.blank();
+      return;
+    }
+
+    for (const table of diff.tables) {
+      const kind = table.type === 'view' ? chalk.dim(' (view)') : '';
+      console.log(`    ${marks[table.change]} ${chalk.white(`${table.schema}.${table.name}`)}${kind}`);
+
+      for (const col of table.columns) {
+        let detail = '';
+        if (col.change === 'added') detail = chalk.dim(` ${col.to?.type}`);
+        if (col.change === 'changed') {
+          detail = chalk.dim(
+            ' ' + col.fields
+              .map((f) => `${f}: ${String(col.from?.[f] ?? 'null')} → ${String(col.to?.[f] ?? 'null')}`)
+              .join(', ')
+          );
+        }
+        console.log(`        ${marks[col.change]} ${col.name}${detail}`);
+      }
+      for (const idx of table.indexes) {
+        const cols = (idx.to ?? idx.from)?.columns.join(', ') ?? '';
+        console.log(`        ${marks[idx.change]} ${chalk.dim('índice')} ${idx.name} (${cols})`);
+      }
+      for (const { change, foreignKey: fk } of table.foreignKeys) {
+        console.log(
+          `        ${marks[change]} ${chalk.dim('FK')} (${fk.columns.join(', ')}) → ${fk.referencedTable} (${fk.referencedColumns.join(', ')})`
+        );
+      }
+    }
+
+    log.blank();
+    log.dim(
+      `${diff.summary.added} adicionada(s), ${diff.summary.removed} removida(s), ${diff.summary.changed} alterada(s)`
+    );
+
+    if (withSql) {
+      log.blank();
+      log.sql(generateMigrationSql(diff));
+    }
+    log.blank();
+  }
+
   private searchSchema(query: string): void {
     if (!query) {
       log.warn('Uso: /search <termo>');
@@ -545,6 +868,8 @@ export class ChatREPL {
 
     log.sql(sql);
 
+    if ((await this.checkStatementGate(sql)) !== 'allowed') return;
+
     const spinner = ora({
       text: chalk.dim('Executando...'),
       spinner: 'dots',
@@ -558,7 +883,7 @@ export class ChatREPL {
 
     if (result.error) {
       log.error(`Erro SQL: ${result.error}`);
-      const guidance = analyzeSqlExecutionError(result.error);
+      const guidance = analyzeSqlExecutionError(result.error, result.errorCode);
       if (guidance.shouldAskUser && guidance.userQuestion) {
         log.agent(guidance.userQuestion);
       }
@@ -567,6 +892,82 @@ export class ChatREPL {
     }
   }
 
+  /**
+   * Classifica o SQL e aplica o modo somente leitura e a confirmacao
+   * para statements que nao sao de leitura pura.
+   */
+  private async checkStatementGate(sql: string): Promise<'allowed' | 'blocked' | 'declined'> {
+    const classification = await this.executor.classify(sql);
+
+    if (this.executor.isBlockedByReadOnly(classification)) {
+      log.warn(
+        `Query contém ${describeClassification(classification)}. Modo somente leitura ativo — use /write para habilitar escrita.`
+      );
+      return 'blocked';
+    }
+
+    if (!this.executor.requiresConfirmation(classification)) {
+      return 'allowed';
+    }
+
+    log.warn(`Esta query contém ${describeClassification(classification)}.`);
+
+    if (this.executor.canPreview(classification)) {
+      const spinner = ora({
+        text: chalk.dim('Gerando preview (com rollback)...'),
+        spinner: 'dots',
+        color: 'yellow',
+      }).start();
+      const preview = await this.executor.preview(sql);
+      spinner.stop();
+      this.showPreview(preview);
+    }
+
+    const confirmed = await this.askConfirmation('Executar mesmo assim? (s/n): ');
+    if (!confirmed) {
+      log.dim('Execução cancelada.');
+      return 'declined';
+    }
+    return 'allowed';
+  }
+
+  private showPreview(preview: WritePreview): void {
+    if (preview.error) {
+      log.error(`Preview falhou: ${preview.error}`);
+      return;
+    }
+
+    log.blank();
+    console.log(chalk.bold.cyan('  Preview (transação revertida):'));
+    for (const statement of preview.statements) {
+      log.info(
+        `${statement.command}${statement.relation ? ` ${statement.relation}` : ''}: ` +
+          chalk.bold(`${statement.rowsAffected} linha${statement.rowsAffected !== 1 ? 's' : ''}`) +
+          ' seriam afetadas'
+      );
+
+      // Em UPDATE mostra so as chaves e as colunas que mudam
+      let visible = statement.columns;
+      if (statement.command === 'UPDATE' && statement.keyColumns.length > 0 && statement.before.length > 0) {
+        const changed = statement.columns.filter((col) =>
+          statement.after.some((row, i) => String(row[col]) !== String(statement.before[i][col]))
+        );
+        visible = [...statement.keyColumns, ...changed.filter((c) => !statement.keyColumns.includes(c))];
+      }
+      const pick = (rows: Record<string, unknown>[]) =>
+        rows.map((row) => Object.fromEntries(visible.map((col) => [col, row[col]])));
+
+      if (statement.before.length > 0) {
+        log.dim('Antes:');
+        log.table(pick(statement.before));
+      }
+      if (statement.after.length > 0) {
+        log.dim('Depois:');
+        log.table(pick(statement.after));
+      }
+    }
+  }
+
   private toggleWriteMode(): void {
     const newMode = !this.executor.isReadOnly();
     this.executor.setReadOnlyMode(newMode);
@@ -580,10 +981,459 @@ export class ChatREPL {
 
   private clearHistory(): void {
     this.llmClient.clearHistory();
+    // A conversa anterior continua salva; a proxima mensagem abre outra
+    this.conversation = null;
     log.success('Histórico de conversa limpo.');
   }
 
-  private async reconnect(): Promise<void> {
+  /**
+   * Recalcula o schema enviado ao agente para a pergunta atual e mostra o que entrou.
+   */
+  private refreshContext(question: string): void {
+    const recentText = this.llmClient
+      .getHistory()
+      .slice(-CONTEXT_RECENT_MESSAGES)
+      .map((m) => m.content)
+      .join('\n');
+    const { prompt, selection } = this.contextBuilder.buildContext(question, {
+      recentText,
+      sensitiveColumns: this.executor.getMasker()?.sensitiveColumns(),
+    });
+    this.llmClient.setSystemPrompt(prompt);
+
+    const shown = selection.detailed.slice(0, CONTEXT_TABLES_SHOWN).join(', ');
+    const more = selection.detailed.length > CONTEXT_TABLES_SHOWN
+      ? ` +${selection.detailed.length - CONTEXT_TABLES_SHOWN}`
+      : '';
+    const others = selection.namesOnly + selection.omitted;
+    const metrics = selection.metrics.length > 0 ? ` | metricas: ${selection.metrics.join(', ')}` : '';
+    log.dim(
+      `Contexto: ${shown}${more}${others > 0 ? ` (${others} outra(s) so pelo nome/omitidas)` : ''}${metrics} — ~${selection.estimatedTokens} tokens`
+    );
+  }
+
+  // ─── Conversas salvas ───
+
+  private record(entry: Omit<ConversationEntry, 'timestamp'>): void {
+    if (this.conversation) {
+      appendConversationEntry(this.conversation, entry);
+    }
+  }
+
+  private trackUsage(response: LLMResponse): void {
+    this.totalTokens += response.tokensUsed.total;
+    this.runTokens += response.tokensUsed.total;
+    if (this.conversation) {
+      addConversationUsage(this.conversation, response.tokensUsed);
+    }
+
+    try {
+      appendUsageRecord({
+        runId: this.runId,
+        conversationId: this.conversation?.id ?? null,
+        connection: this.connectionName,
+        provider: this.llmClient.getProvider(),
+        model: this.llmClient.getModel(),
+        ...response.tokensUsed,
+      });
+    } catch (error) {
+      log.dim(`Não foi possível registrar o uso de tokens: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  // Verificado antes de cada chamada ao LLM; null = pode seguir
+  private checkBudget(): string | null {
+    return checkUsageBudget({
+      runTokens: this.runTokens,
+      conversationTokens: this.conversation?.tokensUsed.total ?? 0,
+    });
+  }
+
+  private persistConversation(): void {
+    if (!this.conversation) return;
+    this.conversation.history = this.llmClient.getHistory();
+    try {
+      saveConversation(this.conversation);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Erro desconhecido';
+      log.warn(`Não foi possível salvar a conversa: ${msg}`);
+    }
+  }
+
+  private showConversations(selector: string): void {
+    const conversations = listConversations(this.connectionName);
+
+    if (selector) {
+      const index = parseInt(selector, 10);
+      const summary = /^\d+$/.test(selector)
+        ? conversations[index - 1]
+        : conversations.find((c) => c.id === selector || c.id.startsWith(selector));
+      if (!summary) {
+        log.warn(`Conversa "${selector}" não encontrada. Use /history para listar.`);
+        return;
+      }
+      this.resumeConversation(summary.id);
+      return;
+    }
+
+    log.blank();
+    if (conversations.length === 0) {
+      log.dim('Nenhuma conversa salva para esta conexão.');
+      log.blank();
+      return;
+    }
+
+    console.log(chalk.bold.cyan(`  Conversas salvas (${this.connectionName}):`));
+    conversations.slice(0, HISTORY_LIST_LIMIT).forEach((c, i) => {
+      const active = this.conversation?.id === c.id ? chalk.green(' (atual)') : '';
+      const date = new Date(c.updatedAt).toLocaleString('pt-BR');
+      console.log(
+        `  ${chalk.dim(String(i + 1).padStart(2))}. ${chalk.white(c.title)}${active} ${chalk.dim(`— ${date}, ${c.messageCount} msg`)}`
+      );
+    });
+    if (conversations.length > HISTORY_LIST_LIMIT) {
+      log.dim(`... e mais ${conversations.length - HISTORY_LIST_LIMIT} conversa(s).`);
+    }
+    log.blank();
+    log.dim(`Use ${chalk.bold('/history <n>')} para retomar uma conversa.`);
+    log.blank();
+  }
+
+  private resumeConversation(id: string): void {
+    const conversation = loadConversation(id);
+    if (!conversation) {
+      log.error('Não foi possível ler a conversa salva.');
+      return;
+    }
+
+    this.persistConversation();
+    this.conversation = conversation;
+    this.llmClient.setHistory(conversation.history);
+
+    log.blank();
+    log.success(`Conversa retomada: ${chalk.bold(conversation.title)}`);
+    for (const entry of conversation.entries.slice(-RESUME_RECAP_ENTRIES)) {
+      if (entry.type === 'user') {
+        console.log(chalk.white(`  ▶ ${entry.content}`));
+      } else if (entry.type === 'text' && entry.content) {
+        log.agent(entry.content);
+      } else if (entry.type === 'sql' && entry.content) {
+        log.sql(entry.content);
+      } else if (entry.type === 'result' && entry.result) {
+        log.dim(`${entry.result.rowCount} linha(s) | ${entry.result.duration}ms`);
+      } else if (entry.type === 'error' && entry.content) {
+        log.error(entry.content);
+      }
+    }
+    log.blank();
+  }
+
+  /**
+   * Sem cache, remapeia o banco inteiro. Com cache, mantem o snapshot e rele
+   * so as tabelas cujo DDL mudou desde o ultimo mapeamento.
+   */
+  private async profileTables(args: string): Promise<void> {
+    const tables = args.split(/\s+/).filter(Boolean);
+    const spinner = ora({
+      text: chalk.dim(tables.length > 0 ? 'Perfilando colunas...' : 'Perfilando todas as tabelas...'),
+      spinner: 'dots',
+      color: 'cyan',
+    }).start();
+
+    try {
+      const result = await this.schemaEngine.profileTables(tables.length > 0 ? tables : undefined);
+      spinner.stop();
+
+      for (const name of result.notFound) log.warn(`Tabela "${name}" não encontrada.`);
+      for (const name of result.failed) log.warn(`Sem estatísticas e sem amostra para ${name}.`);
+      if (result.profiled.length > 0) {
+        this.refreshMasker();
+        log.success(`${result.profiled.length} tabela(s) perfilada(s). Os valores entram no contexto quando a tabela for citada.`);
+      }
+
+      if (tables.length > 0) {
+        for (const key of result.profiled) {
+          const [table] = this.schemaEngine.findTables(key);
+          if (!table) continue;
+          log.blank();
+          console.log(chalk.bold.cyan(`  ${key}`));
+          for (const line of this.schemaEngine.formatProfileSummary(table)) {
+            console.log(`  ${chalk.dim(line.trim())}`);
+          }
+        }
+        log.blank();
+      }
+    } catch (error) {
+      spinner.stop();
+      log.error(error instanceof Error ? error.message : 'Erro ao perfilar tabelas');
+    }
+  }
+
+  // ─── Camada semantica ───
+
+  /**
+   * /semantic              mostra glossario, metricas e joins
+   * /semantic edit         abre o arquivo JSON no $EDITOR
+   * /semantic metric <nome> = <expressao> [where <filtro>]
+   * /semantic term <termo> = <definicao>
+   * /semantic rm <nome>    remove metrica ou termo
+   */
+  private semanticCommand(args: string): void {
+    const [sub = '', ...rest] = args.split(/\s+/);
+    const body = rest.join(' ').trim();
+
+    switch (sub.toLowerCase()) {
+      case '':
+        this.showSemanticLayer();
+        break;
+      case 'edit':
+        this.editSemanticLayer();
+        break;
+      case 'metric':
+      case 'term':
+        this.addSemanticEntry(sub.toLowerCase() as 'metric' | 'term', body);
+        break;
+      case 'rm':
+        this.removeSemanticEntry(body);
+        break;
+      default:
+        log.warn('Uso: /semantic [edit | metric <nome> = <expressão> [where <filtro>] | term <termo> = <definição> | rm <nome>]');
+        break;
+    }
+  }
+
+  private showSemanticLayer(): void {
+    const layer = loadSemanticLayer(this.connectionName);
+    if (isSemanticLayerEmpty(layer)) {
+      log.dim('Nenhuma definição semântica para esta conexão. Use /semantic metric, /semantic term ou /semantic edit.');
+      return;
+    }
+
+    log.blank();
+    if (layer.metrics.length > 0) {
+      console.log(chalk.bold.cyan('  Métricas:'));
+      for (const metric of layer.metrics) {
+        console.log(`    ${chalk.bold(metric.name)} ${chalk.dim(formatMetricDefinition(metric).slice(metric.name.length))}`);
+      }
+    }
+    if (layer.glossary.length > 0) {
+      console.log(chalk.bold.cyan('  Glossário:'));
+      for (const term of layer.glossary) {
+        console.log(`    ${chalk.bold(term.term)}: ${chalk.dim(term.definition)}`);
+      }
+    }
+    if (layer.joins.length > 0) {
+      console.log(chalk.bold.cyan('  Joins preferidos:'));
+      for (const join of layer.joins) {
+        console.log(`    ${join.from} → ${join.to} ${chalk.dim(`ON ${join.on}`)}`);
+      }
+    }
+    log.blank();
+  }
+
+  private editSemanticLayer(): void {
+    const file = semanticLayerPath(this.connectionName);
+    if (!fs.existsSync(file)) {
+      saveSemanticLayer(this.connectionName, loadSemanticLayer(this.connectionName));
+    }
+
+    const editor = process.env.VISUAL || process.env.EDITOR || (process.platform === 'win32' ? 'notepad' : 'vi');
+    this.rl?.pause();
+    const result = spawnSync(editor, [file], { stdio: 'inherit', shell: true });
+    this.rl?.resume();
+
+    if (result.status !== 0) {
+      log.error(`Editor "${editor}" encerrou com erro.`);
+      return;
+    }
+
+    try {
+      const layer = parseSemanticLayer(JSON.parse(fs.readFileSync(file, 'utf-8')));
+      this.applySemanticLayer(saveSemanticLayer(this.connectionName, layer));
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'JSON inválido';
+      log.error(`Camada semântica inválida: ${msg}`);
+      log.dim(`Corrija o arquivo com /semantic edit (${file}).`);
+    }
+  }
+
+  private addSemanticEntry(kind: 'metric' | 'term', body: string): void {
+    const match = body.match(/^(.+?)\s*=\s*(.+)$/);
+    if (!match) {
+      log.warn(kind === 'metric'
+        ? 'Uso: /semantic metric <nome> = <expressão> [where <filtro>]'
+        : 'Uso: /semantic term <termo> = <definição>');
+      return;
+    }
+
+    const name = match[1].trim();
+    const layer = loadSemanticLayer(this.connectionName);
+
+    if (kind === 'metric') {
+      const [, expression, filter] = match[2].match(/^(.+?)(?:\s+where\s+(.+))?$/i) ?? [];
+      layer.metrics = layer.metrics.filter((m) => m.name.toLowerCase() !== name.toLowerCase());
+      layer.metrics.push({ name, expression: expression.trim(), filter: filter?.trim() });
+    } else {
+      layer.glossary = layer.glossary.filter((t) => t.term.toLowerCase() !== name.toLowerCase());
+      layer.glossary.push({ term: name, definition: match[2].trim() });
+    }
+
+    this.applySemanticLayer(saveSemanticLayer(this.connectionName, layer));
+  }
+
+  private removeSemanticEntry(name: string): void {
+    if (!name) {
+      log.warn('Uso: /semantic rm <nome>');
+      return;
+    }
+
+    const layer = loadSemanticLayer(this.connectionName);
+    const key = name.toLowerCase();
+    const before = layer.metrics.length + layer.glossary.length;
+    layer.metrics = layer.metrics.filter((m) => m.name.toLowerCase() !== key);
+    layer.glossary = layer.glossary.filter((t) => t.term.toLowerCase() !== key);
+
+    if (layer.metrics.length + layer.glossary.length === before) {
+      log.warn(`Nenhuma métrica ou termo chamado "${name}".`);
+      return;
+    }
+    this.applySemanticLayer(saveSemanticLayer(this.connectionName, layer));
+  }
+
+  private applySemanticLayer(layer: SemanticLayer): void {
+    this.contextBuilder.setSemanticLayer(layer);
+    log.success(
+      `Camada semântica salva: ${layer.metrics.length} métrica(s), ${layer.glossary.length} termo(s), ${layer.joins.length} join(s). Vale a partir da próxima pergunta.`
+    );
+  }
+
+  // ─── Dados sensiveis ───
+
+  /**
+   * Recalcula as etiquetas de PII (nome, formato dos valores perfilados e
+   * overrides salvos na conexao) e aplica a politica no executor.
+   */
+  private refreshMasker(): void {
+    const connection = getConnections().find((c) => c.name === this.connectionName) ?? null;
+    this.executor.setMasker(DataMasker.fromSchema(this.schemaEngine, connection));
+  }
+
+  /**
+   * /pii                                   lista colunas sensiveis e a politica
+   * /pii set <schema.tabela.coluna> <tag|none|auto>
+   * /pii mask <results|llm> <none|partial|redact>
+   */
+  private piiCommand(args: string): void {
+    const [sub = '', target = '', value = ''] = args.split(/\s+/);
+
+    try {
+      if (sub === '') {
+        this.showSensitivity();
+      } else if (sub === 'set' && target && value) {
+        const dot = target.lastIndexOf('.');
+        const [table] = dot > 0 ? this.schemaEngine.findTables(target.slice(0, dot)) : [];
+        const column = table?.columns.find((c) => c.name === target.slice(dot + 1));
+        if (!table || !column) {
+          log.warn(`Coluna "${target}" não encontrada. Use schema.tabela.coluna.`);
+          return;
+        }
+        if (value !== 'auto' && value !== 'none' && !isSensitivityTag(value)) {
+          log.warn(`Etiqueta inválida. Use: ${SENSITIVITY_TAGS.join(', ')}, none ou auto.`);
+          return;
+        }
+        const key = `${table.schema}.${table.name}.${column.name}`;
+        updateConnectionPrivacy(this.connectionName, { sensitivity: { [key]: value === 'auto' ? null : value } });
+        this.refreshMasker();
+        log.success(`${key}: ${value === 'auto' ? 'sugestão automática' : value}.`);
+      } else if (sub === 'mask' && (target === 'results' || target === 'llm') && isMaskMode(value)) {
+        updateConnectionPrivacy(this.connectionName, { masking: { [target]: value } });
+        this.refreshMasker();
+        log.success(`Mascaramento de ${target === 'llm' ? 'dados enviados ao LLM' : 'resultados'}: ${value}.`);
+      } else {
+        log.warn('Uso: /pii | /pii set <schema.tabela.coluna> <etiqueta|none|auto> | /pii mask <results|llm> <none|partial|redact>');
+      }
+    } catch (error) {
+      log.error(error instanceof Error ? error.message : 'Erro ao salvar etiquetas');
+    }
+  }
+
+  private showSensitivity(): void {
+    const connection = getConnections().find((c) => c.name === this.connectionName) ?? null;
+    const columns = classifyColumns(this.schemaEngine, connection);
+    const policy = this.executor.getMasker()?.policy;
+
+    log.blank();
+    if (policy) {
+      console.log(`  ${chalk.bold('Política:')} resultados=${policy.results} | LLM=${policy.llm}`);
+      log.blank();
+    }
+    if (columns.length === 0) {
+      log.dim('Nenhuma coluna sensível detectada.');
+      return;
+    }
+    for (const column of columns) {
+      const tag = column.tag ? chalk.yellow(column.tag) : chalk.dim('não sensível');
+      const source = column.source === 'override' ? 'definida' : column.source === 'pattern' ? 'formato' : 'nome';
+      console.log(`  ${column.key.padEnd(40)} ${tag} ${chalk.dim(`(${source})`)}`);
+    }
+    log.blank();
+  }
+
+  /**
+   * /access                        mostra a politica de acesso da conexao
+   * /access <allow|deny> <padrao>  schema, schema.tabela ou schema.tabela.coluna
+   * /access rm <padrao>
+   * /access clear
+   */
+  private accessCommand(args: string): void {
+    const [sub = '', pattern = ''] = args.split(/\s+/);
+    const current = getConnections().find((c) => c.name === this.connectionName)?.access ?? {};
+    const allow = current.allow ?? [];
+    const deny = current.deny ?? [];
+
+    if (sub === '') {
+      const lines = this.schemaEngine.getAccessGuard()?.describe() ?? [];
+      if (lines.length === 0) {
+        log.dim('Sem política de acesso: todos os objetos estão liberados.');
+        return;
+      }
+      log.blank();
+      for (const line of lines) console.log(`  ${line}`);
+      log.blank();
+      return;
+    }
+
+    let next: { allow?: string[]; deny?: string[] } | null;
+    if ((sub === 'allow' || sub === 'deny') && pattern) {
+      next = sub === 'allow' ? { allow: [...allow, pattern], deny } : { allow, deny: [...deny, pattern] };
+    } else if (sub === 'rm' && pattern) {
+      if (!allow.includes(pattern) && !deny.includes(pattern)) {
+        log.warn(`Padrão "${pattern}" não está na política.`);
+        return;
+      }
+      next = { allow: allow.filter((p) => p !== pattern), deny: deny.filter((p) => p !== pattern) };
+    } else if (sub === 'clear') {
+      next = null;
+    } else {
+      log.warn('Uso: /access | /access <allow|deny> <schema[.tabela[.coluna]]> | /access rm <padrão> | /access clear');
+      return;
+    }
+
+    try {
+      const connection = updateConnectionAccess(this.connectionName, next && parseAccessPolicy(next));
+      this.schemaEngine.setAccessPolicy(connection.access ?? null);
+      this.executor.setAccessGuard(this.schemaEngine.getAccessGuard());
+      this.refreshMasker();
+      this.llmClient.setSystemPrompt(this.contextBuilder.buildSystemPrompt());
+
+      const tables = this.schemaEngine.getSchemaMap()?.tables.length ?? 0;
+      log.success(`Política de acesso atualizada — ${tables} tabelas visíveis.`);
+    } catch (error) {
+      log.error(error instanceof Error ? error.message : 'Erro ao salvar política de acesso');
+    }
+  }
+
+  private async reconnect(useCache = false): Promise<void> {
     const spinner = ora({
       text: chalk.dim('Reconectando...'),
       spinner: 'dots',
@@ -598,15 +1448,26 @@ export class ChatREPL {
 
     try {
       const info = await this.db.connect();
-      spinner.text = chalk.dim('Remapeando schema...');
-      const schema = await this.schemaEngine.mapDatabase();
+      spinner.text = chalk.dim(useCache ? 'Verificando alterações no schema...' : 'Remapeando schema...');
+
+      let detail = '';
+      if (useCache) {
+        const refresh = await this.schemaEngine.refreshSchema();
+        detail = refresh.full
+          ? ' (sem cache, mapeamento completo)'
+          : ` (cache: ${refresh.refreshed.length} alterada(s), ${refresh.added.length} nova(s), ${refresh.removed.length} removida(s))`;
+      } else {
+        await this.schemaEngine.mapDatabase();
+      }
+      const schema = this.schemaEngine.getSchemaMap()!;
+      this.refreshMasker();
 
       const systemPrompt = this.contextBuilder.buildSystemPrompt();
       this.llmClient.setSystemPrompt(systemPrompt);
 
       spinner.stop();
       log.success(
-        `Reconectado a ${info.database} — ${schema.tables.length} tabelas mapeadas.`
+        `Reconectado a ${info.database} — ${schema.tables.length} tabelas mapeadas${detail}.`
       );
     } catch (error) {
       spinner.stop();
@@ -627,6 +1488,7 @@ export class ChatREPL {
       const json = JSON.stringify(this.lastResult.rows, null, 2);
       console.log(json);
       log.dim(`${this.lastResult.rows.length} linhas exportadas como JSON.`);
+      this.showMaskedColumns(this.lastResult);
     } else if (fmt === 'csv') {
       const headers = Object.keys(this.lastResult.rows[0]);
       const lines = [headers.join(',')];
@@ -643,11 +1505,57 @@ export class ChatREPL {
       }
       console.log(lines.join('\n'));
       log.dim(`${this.lastResult.rows.length} linhas exportadas como CSV.`);
+      this.showMaskedColumns(this.lastResult);
     } else {
       log.warn(`Formato "${fmt}" não suportado. Use: json ou csv`);
     }
   }
 
+  /**
+   * /usage [dias]  consumo do ledger (todas as sessoes, CLI e web)
+   */
+  private showUsage(args: string): void {
+    const days = args.trim() ? Number(args.trim()) : 30;
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      log.warn('Uso: /usage [dias]  (1 a 365)');
+      return;
+    }
+
+    const report = buildUsageReport(days);
+    const cost = (totals: { costUsd: number; unpricedCalls: number }) =>
+      `US$ ${totals.costUsd.toFixed(4)}${totals.unpricedCalls > 0 ? chalk.dim(` (+${totals.unpricedCalls} sem preço)`) : ''}`;
+    const line = (label: string, totals: { calls: number; total: number; costUsd: number; unpricedCalls: number }) =>
+      console.log(`    ${label.padEnd(24)} ${String(totals.total).padStart(10)} tokens  ${String(totals.calls).padStart(4)} chamada(s)  ${cost(totals)}`);
+
+    log.blank();
+    console.log(chalk.bold.cyan(`  Uso de tokens desde ${report.since}:`));
+    log.blank();
+    line('Hoje', report.today);
+    line(`Últimos ${days} dia(s)`, report.totals);
+
+    if (report.byModel.length > 0) {
+      log.blank();
+      console.log(chalk.bold('  Por modelo'));
+      for (const item of report.byModel) line(item.model, item);
+    }
+    if (report.byConnection.length > 0) {
+      log.blank();
+      console.log(chalk.bold('  Por conexão'));
+      for (const item of report.byConnection) line(item.connection, item);
+    }
+
+    const budgets = report.budgets;
+    const limits = [
+      budgets.runTokens && `pergunta ${budgets.runTokens} tokens`,
+      budgets.conversationTokens && `conversa ${budgets.conversationTokens} tokens`,
+      budgets.dailyTokens && `dia ${budgets.dailyTokens} tokens`,
+      budgets.dailyCostUsd && `dia US$ ${budgets.dailyCostUsd.toFixed(2)}`,
+    ].filter(Boolean);
+    log.blank();
+    console.log(`  ${chalk.bold('Orçamentos:')} ${limits.length > 0 ? limits.join(' | ') : chalk.dim('sem limite')}`);
+    log.blank();
+  }
+
   private showStats(): void {
     const history = this.llmClient.getHistory();
 
@@ -682,28 +1590,6 @@ export class ChatREPL {
     this.rl?.close();
   }
 
-  private buildGuidedRetryPrompt(args: {
-    userInput: string;
-    failedSQL: string;
-    errorMessage: string;
-    instruction: string;
-  }): string {
-    return [
-      'A consulta SQL abaixo falhou e precisa ser ajustada.',
-      `Pergunta original do usuario: ${JSON.stringify(args.userInput)}`,
-      '',
-      'SQL que falhou:',
-      '```sql',
-      args.failedSQL,
-      '```',
-      '',
-      `Erro retornado: ${args.errorMessage}`,
-      '',
-      `Instrucao obrigatoria: ${args.instruction}`,
-      'Responda com exatamente um bloco ```sql``` completo, executavel e sem placeholders.',
-    ].join('\n');
-  }
-
   private askConfirmation(question: string): Promise<boolean> {
     return new Promise((resolve) => {
       const rl = readline.createInterface({
@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import {
+  EvalRunner,
+  loadEvalSuite,
+  formatEvalMarkdown,
+  DataMasker,
+  log,
+  type ConnectionConfig,
+  type ContextBuilder,
+  type EvalCaseResult,
+  type LLMClient,
+  type QueryExecutor,
+  type SchemaEngine,
+} from '@agentdb/core';
+
+// ─── Interfaces ───
+
+export interface EvalArgs {
+  suiteFile: string;
+  models: string[];
+  connection?: string;
+  jsonOut?: string;
+  mdOut?: string;
+}
+
+interface EvalDeps {
+  llmClient: LLMClient;
+  executor: QueryExecutor;
+  schemaEngine: SchemaEngine;
+  contextBuilder: ContextBuilder;
+  connection: ConnectionConfig | null;
+  connectionName: string;
+  database: string;
+}
+
+// ─── Helpers ───
+
+function readFlag(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function writeReport(file: string, content: string): void {
+  const dir = path.dirname(path.resolve(file));
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  fs.writeFileSync(file, content, 'utf-8');
+  log.dim(`Relatório salvo em ${file}`);
+}
+
+function printCase(result: EvalCaseResult): void {
+  const mark = result.passed ? chalk.green('✓') : chalk.red('✗');
+  const stats = chalk.dim(`${result.steps} passo(s) | ${result.tokens.total} tokens | ${result.latencyMs}ms`);
+  console.log(`  ${mark} ${chalk.white(result.id)} ${result.question} ${stats}`);
+  if (!result.passed && result.detail) {
+    console.log(chalk.dim(`      ${result.detail}`));
+  }
+}
+
+// ─── Funções exportadas ───
+
+/**
+ * agentdb eval <suite.json|suite.yaml> [--model m1,m2] [--connection nome] [--json saida.json] [--md saida.md]
+ */
+export function parseEvalArgs(args: string[]): EvalArgs | null {
+  const suiteFile = args[1];
+  if (!suiteFile || suiteFile.startsWith('--')) return null;
+
+  return {
+    suiteFile,
+    models: (readFlag(args, '--model') ?? '').split(',').map((m) => m.trim()).filter(Boolean),
+    connection: readFlag(args, '--connection'),
+    jsonOut: readFlag(args, '--json'),
+    mdOut: readFlag(args, '--md'),
+  };
+}
+
+/**
+ * Roda a suite e imprime o resumo por modelo. Retorna true se todas as
+ * perguntas passaram (o chamador usa no exit code).
+ */
+export async function runEvalCommand(evalArgs: EvalArgs, deps: EvalDeps): Promise<boolean> {
+  const suite = loadEvalSuite(evalArgs.suiteFile);
+  deps.executor.setReadOnlyMode(true);
+  deps.executor.setMasker(DataMasker.fromSchema(deps.schemaEngine, deps.connection));
+
+  const runner = new EvalRunner({
+    llmClient: deps.llmClient,
+    executor: deps.executor,
+    schemaEngine: deps.schemaEngine,
+    contextBuilder: deps.contextBuilder,
+  });
+
+  log.blank();
+  log.info(`Suíte "${suite.name}": ${suite.questions.length} pergunta(s)`);
+
+  let currentModel = '';
+  const report = await runner.run(
+    suite,
+    evalArgs.models,
+    { connection: deps.connectionName, database: deps.database },
+    (result) => {
+      if (result.model !== currentModel) {
+        currentModel = result.model;
+        log.blank();
+        console.log(chalk.bold.cyan(`  Modelo ${currentModel}`));
+      }
+      printCase(result);
+    }
+  );
+
+  log.blank();
+  for (const summary of report.models) {
+    const accuracy = `${(summary.accuracy * 100).toFixed(1)}%`;
+    const color = summary.passed === summary.total ? chalk.green : chalk.yellow;
+    console.log(
+      `  ${chalk.white(summary.model)}: ${color(`${summary.passed}/${summary.total} (${accuracy})`)} ` +
+        chalk.dim(
+          `| ${summary.avgSteps.toFixed(1)} passo(s) em média | ${summary.totalTokens} tokens | ${summary.avgLatencyMs}ms em média`
+        )
+    );
+  }
+  log.blank();
+
+  if (evalArgs.jsonOut) writeReport(evalArgs.jsonOut, JSON.stringify(report, null, 2));
+  if (evalArgs.mdOut) writeReport(evalArgs.mdOut, formatEvalMarkdown(report));
+
+  return report.models.every((m) => m.passed === m.total);
+}
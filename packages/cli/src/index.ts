@@ -7,15 +7,24 @@ import {
   DatabaseConnector,
   SchemaEngine,
   OpenAIAuth,
+  LocalLLMAuth,
+  ApiKeyAuth,
+  ReplayLLMAuth,
+  DEFAULT_OLLAMA_URL,
   LLMClient,
   ContextBuilder,
   QueryExecutor,
+  loadSemanticLayer,
   log,
   loadConfig,
   getDefaultConnection,
+  getConnections,
   addConnection,
+  getAuth,
 } from '@agentdb/core';
+import type { IAuthProvider, LocalApiFlavor } from '@agentdb/core';
 import { ChatREPL } from './chat/repl.js';
+import { parseEvalArgs, runEvalCommand } from './eval.js';
 
 // ─── Banner ───
 
@@ -71,7 +80,14 @@ async function main(): Promise<void> {
     }
     log.blank();
     console.log(chalk.bold('  Autenticação:'));
-    if (config.auth) {
+    if (config.auth?.apiKey && config.auth.provider !== 'ollama') {
+      console.log(`    Provider: ${config.auth.provider} (API key)`);
+      console.log(`    Chave: ${chalk.green('✓ presente')}`);
+    } else if (config.auth?.provider === 'ollama') {
+      console.log(`    Provider: ${config.auth.provider} (${config.auth.localApi ?? 'ollama'})`);
+      console.log(`    URL: ${config.auth.baseUrl ?? chalk.red('ausente')}`);
+      console.log(`    Modelo: ${config.auth.model ?? chalk.dim('padrão')}`);
+    } else if (config.auth) {
       console.log(`    Provider: ${config.auth.provider}`);
       console.log(
         `    Token: ${config.auth.accessToken ? chalk.green('✓ presente') : chalk.red('✗ ausente')}`
@@ -83,40 +99,121 @@ async function main(): Promise<void> {
     return;
   }
 
+  const evalArgs = command === 'eval' ? parseEvalArgs(args) : null;
+  if (command === 'eval' && !evalArgs) {
+    log.error('Uso: agentdb eval <suite.json|suite.yaml> [--model m1,m2] [--connection nome] [--json saida.json] [--md saida.md]');
+    process.exit(1);
+  }
+
   console.log(BANNER);
 
   // ─── 1. Autenticação ───
-  const auth = new OpenAIAuth();
-
-  if (command === 'auth') {
-    log.info('Iniciando autenticação OAuth...');
+  if (command === 'auth' && args[1] === 'local') {
+    // agentdb auth local [url] [ollama|openai] [modelo]
+    const api: LocalApiFlavor = args[3] === 'openai' ? 'openai' : 'ollama';
+    const localAuth = new LocalLLMAuth();
     try {
-      const tokenData = await auth.login();
-      log.success(`Autenticado com sucesso! (account: ${tokenData.accountId})`);
+      const models = await localAuth.configure({
+        baseUrl: args[2] || DEFAULT_OLLAMA_URL,
+        api,
+        apiKey: process.env.LOCAL_LLM_API_KEY,
+        model: args[4],
+      });
+      log.success(`Modelo: ${localAuth.getSettings()?.model}`);
+      log.dim(`Disponíveis: ${models.join(', ')}`);
     } catch (error) {
-      const msg = error instanceof Error ? error.message : 'Erro de autenticação';
+      const msg = error instanceof Error ? error.message : 'Erro desconhecido';
       log.error(msg);
       process.exit(1);
     }
     return;
   }
 
-  const hasAuth = auth.loadFromConfig();
+  if (command === 'auth' && args[1] === 'apikey') {
+    // agentdb auth apikey <openai|anthropic> [chave] (ou OPENAI_API_KEY / ANTHROPIC_API_KEY)
+    const provider = args[2] === 'anthropic' ? 'anthropic' : 'openai';
+    const key = args[3] || (provider === 'anthropic' ? process.env.ANTHROPIC_API_KEY : process.env.OPENAI_API_KEY);
+    if (!key) {
+      log.error('Informe a chave: agentdb auth apikey <openai|anthropic> <chave>');
+      process.exit(1);
+    }
+    const apiKeyAuth = new ApiKeyAuth();
+    try {
+      const models = await apiKeyAuth.configure(provider, key);
+      log.dim(`Modelos disponíveis: ${models.join(', ')}`);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Erro desconhecido';
+      log.error(msg);
+      process.exit(1);
+    }
+    return;
+  }
 
-  if (!hasAuth) {
-    log.info('Nenhum token encontrado. Iniciando autenticação...');
-    log.blank();
+  let auth: IAuthProvider;
+  const apiKeyAuth = new ApiKeyAuth();
+  const replayAuth = new ReplayLLMAuth();
+  let replayLoaded = false;
+  if (command !== 'auth') {
     try {
-      const tokenData = await auth.login();
-      log.success(`Autenticado! (account: ${tokenData.accountId})`);
+      replayLoaded = replayAuth.loadFromConfig();
     } catch (error) {
-      const msg = error instanceof Error ? error.message : 'Erro de autenticação';
-      log.error(`Falha na autenticação: ${msg}`);
-      log.dim('Você pode tentar novamente com: agentdb auth');
+      const msg = error instanceof Error ? error.message : 'Erro desconhecido';
+      log.error(`Configuração inválida de AGENTDB_LLM_REPLAY: ${msg}`);
       process.exit(1);
     }
+  }
+
+  if (replayLoaded) {
+    // Respostas gravadas (AGENTDB_LLM_REPLAY): roda sem rede nem credenciais
+    log.success(`Reproduzindo respostas gravadas (${replayAuth.getAccountId()}).`);
+    auth = replayAuth;
+  } else if (getAuth()?.provider === 'ollama' && command !== 'auth') {
+    // Provider local: nada de OAuth, tudo roda sem acesso externo
+    const localAuth = new LocalLLMAuth();
+    if (!localAuth.loadFromConfig()) {
+      log.error('Provider local sem URL configurada.');
+      log.dim('Configure com: agentdb auth local http://localhost:11434');
+      process.exit(1);
+    }
+    log.success(`Provider local carregado (${localAuth.getAccountId()}).`);
+    auth = localAuth;
+  } else if (command !== 'auth' && apiKeyAuth.loadFromConfig()) {
+    log.success(`API key carregada (${apiKeyAuth.getAccountId()}).`);
+    auth = apiKeyAuth;
   } else {
-    log.success('Autenticação carregada.');
+    const openaiAuth = new OpenAIAuth();
+
+    if (command === 'auth') {
+      log.info('Iniciando autenticação OAuth...');
+      try {
+        const tokenData = await openaiAuth.login();
+        log.success(`Autenticado com sucesso! (account: ${tokenData.accountId})`);
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : 'Erro de autenticação';
+        log.error(msg);
+        process.exit(1);
+      }
+      return;
+    }
+
+    const hasAuth = openaiAuth.loadFromConfig();
+
+    if (!hasAuth) {
+      log.info('Nenhum token encontrado. Iniciando autenticação...');
+      log.blank();
+      try {
+        const tokenData = await openaiAuth.login();
+        log.success(`Autenticado! (account: ${tokenData.accountId})`);
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : 'Erro de autenticação';
+        log.error(`Falha na autenticação: ${msg}`);
+        log.dim('Você pode tentar novamente com: agentdb auth');
+        process.exit(1);
+      }
+    } else {
+      log.success('Autenticação carregada.');
+    }
+    auth = openaiAuth;
   }
 
   // ─── 2. Conexão com banco ───
@@ -126,6 +223,20 @@ async function main(): Promise<void> {
     connectionUrl = args[1];
     const connName = connectionUrl.match(/\/([^/?]+)(\?|$)/)?.[1] || 'default';
     addConnection(connName, connectionUrl);
+  } else if (evalArgs) {
+    // Avaliacao roda sem perguntas: conexao informada ou a padrao
+    const conn = evalArgs.connection
+      ? getConnections().find((c) => c.name === evalArgs.connection)
+      : getDefaultConnection();
+    if (!conn) {
+      log.error(
+        evalArgs.connection
+          ? `Conexão "${evalArgs.connection}" não encontrada.`
+          : 'Nenhuma conexão padrão. Use --connection <nome>.'
+      );
+      process.exit(1);
+    }
+    connectionUrl = conn.url;
   } else {
     const defaultConn = getDefaultConnection();
 
@@ -171,7 +282,11 @@ async function main(): Promise<void> {
     color: 'cyan',
   }).start();
 
-  const db = new DatabaseConnector(connectionUrl);
+  const savedConnection = getConnections().find((c) => c.url === connectionUrl);
+  const db = new DatabaseConnector(connectionUrl, {
+    statementTimeoutMs: savedConnection?.statementTimeoutMs,
+    maxQueryCost: savedConnection?.maxQueryCost,
+  });
 
   let dbInfo;
   try {
@@ -196,16 +311,22 @@ async function main(): Promise<void> {
     color: 'cyan',
   }).start();
 
-  const schemaEngine = new SchemaEngine(db);
+  const schemaEngine = new SchemaEngine(db, { accessPolicy: savedConnection?.access });
+  const connectionName = savedConnection?.name ?? 'default';
 
   try {
-    const schema = await schemaEngine.mapDatabase();
+    // Snapshot em disco: so tabelas com DDL alterado sao relidas
+    const { schema, fromCache, refresh } = await schemaEngine.mapDatabaseCached(connectionName);
     const tableCount = schema.tables.filter((t) => t.type === 'table').length;
     const viewCount = schema.tables.filter((t) => t.type === 'view').length;
 
     let mapMsg = `${tableCount} tabelas`;
     if (viewCount > 0) mapMsg += ` e ${viewCount} views`;
     mapMsg += ` mapeadas em ${schema.schemas.length} schema${schema.schemas.length > 1 ? 's' : ''}`;
+    if (fromCache && refresh) {
+      const changed = refresh.refreshed.length + refresh.added.length + refresh.removed.length;
+      mapMsg += changed > 0 ? ` (cache, ${changed} alterada(s))` : ' (cache)';
+    }
 
     schemaSpinner.succeed(chalk.green(mapMsg));
   } catch (error) {
@@ -217,13 +338,28 @@ async function main(): Promise<void> {
   }
 
   // ─── 5. Configurar agente ───
-  const contextBuilder = new ContextBuilder(schemaEngine);
+  const contextBuilder = new ContextBuilder(schemaEngine, loadSemanticLayer(connectionName));
   const systemPrompt = contextBuilder.buildSystemPrompt();
 
   const llmClient = new LLMClient(auth);
   llmClient.setSystemPrompt(systemPrompt);
 
   const executor = new QueryExecutor(db);
+  executor.setAccessGuard(schemaEngine.getAccessGuard());
+
+  if (evalArgs) {
+    const allPassed = await runEvalCommand(evalArgs, {
+      llmClient,
+      executor,
+      schemaEngine,
+      contextBuilder,
+      connection: savedConnection ?? null,
+      connectionName,
+      database: dbInfo.database,
+    });
+    await db.disconnect();
+    process.exit(allPassed ? 0 : 1);
+  }
 
   // ─── 6. Iniciar chat ───
   const chatRepl = new ChatREPL({
@@ -232,6 +368,7 @@ async function main(): Promise<void> {
     llmClient,
     contextBuilder,
     executor,
+    connectionName,
   });
 
   await chatRepl.start();
@@ -1,17 +1,449 @@
 import { SchemaEngine } from '../db/schema-engine.js';
+import type { RoutineInfo, TableInfo } from '../db/schema-engine.js';
+import { formatMetricDefinition, isSemanticLayerEmpty } from '../utils/semantic-layer.js';
+import type { SemanticLayer } from '../utils/semantic-layer.js';
+
+// Interfaces
+
+export interface ContextOptions {
+  tokenBudget?: number; // tokens reservados para a secao de schema
+  recentText?: string; // trechos recentes da conversa; pesam menos que a pergunta
+  sensitiveColumns?: Set<string>; // schema.tabela.coluna com PII: valores do perfil nao entram
+}
+
+/**
+ * Quais tabelas entraram no contexto de um run.
+ */
+export interface ContextSelection {
+  detailed: string[]; // schema.tabela com colunas completas, em ordem de relevancia
+  namesOnly: number; // listadas apenas pelo nome
+  omitted: number; // nem o nome coube no orcamento
+  estimatedTokens: number;
+  tokenBudget: number;
+  metrics: string[]; // metricas da camada semantica que casaram com a pergunta
+}
+
+export interface BuiltContext {
+  prompt: string;
+  selection: ContextSelection;
+}
+
+// Constants
+
+const DEFAULT_CONTEXT_TOKEN_BUDGET = 8000;
+const CHARS_PER_TOKEN = 4;
+const NAMES_BUDGET_SHARE = 0.25; // fatia maxima do orcamento para a lista de nomes
+const ROUTINES_BUDGET_SHARE = 0.1; // fatia maxima para extensoes e funcoes
+const SEMANTIC_BUDGET_SHARE = 0.15; // fatia maxima para glossario, metricas e joins
+const RECENT_TEXT_WEIGHT = 0.3;
+const FK_PROXIMITY_WEIGHT = 0.3;
+
+const MENTION_SCORE = 100;
+const SCHEMA_MENTION_SCORE = 20;
+const FULL_NAME_SCORE = 30;
+const NAME_PART_SCORE = 10;
+const COLUMN_SCORE = 3;
+const MAX_COLUMN_SCORE = 15;
+const COMMENT_SCORE = 2;
+const MAX_COMMENT_SCORE = 8;
+
+const STOPWORDS = new Set([
+  'que', 'com', 'para', 'por', 'dos', 'das', 'uma', 'uns', 'umas', 'como', 'qual', 'quais',
+  'quanto', 'quantos', 'quantas', 'onde', 'quando', 'mais', 'menos', 'entre', 'sobre',
+  'cada', 'todos', 'todas', 'esse', 'essa', 'este', 'esta', 'isso', 'nos', 'nas', 'pelo',
+  'pela', 'mostre', 'mostrar', 'liste', 'listar', 'me', 'tabela', 'tabelas', 'banco',
+  'the', 'and', 'for', 'from', 'with', 'show', 'list', 'all', 'how', 'many', 'what', 'which',
+]);
+
+// Helpers
+
+/**
+ * Estimativa barata (~4 caracteres por token); suficiente para orcamento.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+// Plural simples (pt/en): "pedidos" casa com "pedido", "orders" com "order"
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('es')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s')) return word.slice(0, -1);
+  return word;
+}
+
+function extractTerms(text: string): Set<string> {
+  const terms = new Set<string>();
+  for (const word of normalize(text).split(/[^a-z0-9]+/)) {
+    if (word.length < 3 || STOPWORDS.has(word)) continue;
+    terms.add(stem(word));
+  }
+  return terms;
+}
+
+// Mencoes do autocomplete do chat: @schema ou @schema.tabela
+function extractMentions(text: string): string[] {
+  const mentions: string[] = [];
+  for (const match of text.matchAll(/(?:^|\s)@([\w$]+(?:\.[\w$]+)?)/g)) {
+    mentions.push(match[1].toLowerCase());
+  }
+  return mentions;
+}
+
+function splitIdentifier(name: string): string[] {
+  return normalize(name).split(/[^a-z0-9]+/).filter(Boolean).map(stem);
+}
+
+function tableKey(table: TableInfo): string {
+  return `${table.schema}.${table.name}`;
+}
+
+function scoreTerms(table: TableInfo, terms: Set<string>): number {
+  if (terms.size === 0) return 0;
+
+  let score = 0;
+  const fullName = stem(normalize(table.name));
+  if (terms.has(fullName)) {
+    score += FULL_NAME_SCORE;
+  }
+  for (const part of splitIdentifier(table.name)) {
+    if (part !== fullName && terms.has(part)) score += NAME_PART_SCORE;
+  }
+
+  let columnScore = 0;
+  let commentScore = 0;
+  for (const column of table.columns) {
+    if (splitIdentifier(column.name).some((part) => terms.has(part))) {
+      columnScore += COLUMN_SCORE;
+    }
+    if (column.comment && [...extractTerms(column.comment)].some((t) => terms.has(t))) {
+      commentScore += COMMENT_SCORE;
+    }
+  }
+  if (table.comment) {
+    for (const term of extractTerms(table.comment)) {
+      if (terms.has(term)) commentScore += COMMENT_SCORE;
+    }
+  }
+
+  return score + Math.min(columnScore, MAX_COLUMN_SCORE) + Math.min(commentScore, MAX_COMMENT_SCORE);
+}
+
+function scoreRoutine(routine: RoutineInfo, terms: Set<string>): number {
+  return splitIdentifier(routine.name).filter((part) => terms.has(part)).length;
+}
+
+function scoreSemanticEntry(names: string[], terms: Set<string>): number {
+  let score = 0;
+  for (const name of names) {
+    const parts = [...extractTerms(name)];
+    if (parts.length > 0 && parts.every((part) => terms.has(part))) score += parts.length;
+  }
+  return score;
+}
+
+function scoreMentions(table: TableInfo, mentions: string[]): number {
+  const key = tableKey(table).toLowerCase();
+  const name = table.name.toLowerCase();
+  const schema = table.schema.toLowerCase();
+
+  let score = 0;
+  for (const mention of mentions) {
+    if (mention === key || mention === name) score += MENTION_SCORE;
+    else if (mention === schema) score += SCHEMA_MENTION_SCORE;
+  }
+  return score;
+}
 
 // Class
 
 export class ContextBuilder {
   private schemaEngine: SchemaEngine;
+  private semanticLayer: SemanticLayer | null;
 
-  constructor(schemaEngine: SchemaEngine) {
+  constructor(schemaEngine: SchemaEngine, semanticLayer: SemanticLayer | null = null) {
     this.schemaEngine = schemaEngine;
+    this.semanticLayer = semanticLayer;
   }
 
+  /**
+   * Troca a camada semantica (glossario/metricas) depois que o usuario a edita.
+   */
+  setSemanticLayer(semanticLayer: SemanticLayer | null): void {
+    this.semanticLayer = semanticLayer;
+  }
+
+  /**
+   * Prompt sem pergunta: as tabelas mais conectadas entram primeiro.
+   */
   buildSystemPrompt(): string {
-    const schemaSummary = this.schemaEngine.generateContextSummary();
+    return this.buildContext('').prompt;
+  }
+
+  /**
+   * Monta o prompt dentro do orcamento de tokens: detalhe completo para as
+   * tabelas mais relevantes a pergunta e so o nome para as demais.
+   */
+  buildContext(question: string, options: ContextOptions = {}): BuiltContext {
+    const tokenBudget = options.tokenBudget
+      ?? (Number(process.env.AGENTDB_CONTEXT_TOKENS) || DEFAULT_CONTEXT_TOKEN_BUDGET);
+    const schemaMap = this.schemaEngine.getSchemaMap();
+    const semantic = this.buildSemanticLines(question, Math.floor(tokenBudget * SEMANTIC_BUDGET_SHARE));
+    const semanticSection = semantic.lines.join('\n');
+
+    if (!schemaMap) {
+      const summary = this.schemaEngine.generateContextSummary();
+      return {
+        prompt: this.buildPrompt(summary, semanticSection),
+        selection: {
+          detailed: [],
+          namesOnly: 0,
+          omitted: 0,
+          estimatedTokens: estimateTokens(summary) + estimateTokens(semanticSection),
+          tokenBudget,
+          metrics: semantic.metrics,
+        },
+      };
+    }
+
+    const ranked = this.rankTables(question, options.recentText);
+    const mentions = extractMentions(question);
+    const questionTerms = extractTerms(question);
+    const header = this.schemaEngine.formatContextHeader();
+
+    const allNames = ranked.map(tableKey).join(', ');
+    const namesReserve = Math.min(estimateTokens(allNames), Math.floor(tokenBudget * NAMES_BUDGET_SHARE));
+    const routineLines = this.buildRoutineLines(question, Math.floor(tokenBudget * ROUTINES_BUDGET_SHARE));
+    const detailBudget = tokenBudget
+      - estimateTokens(header.join('\n'))
+      - namesReserve
+      - estimateTokens(routineLines.join('\n'))
+      - estimateTokens(semanticSection);
+
+    const detailedLines: string[] = [];
+    const detailed: string[] = [];
+    const rest: TableInfo[] = [];
+    let detailTokens = 0;
+
+    for (const table of ranked) {
+      // Tabela citada com @ entra sempre, mesmo estourando o orcamento
+      const mentioned = scoreMentions(table, mentions) >= MENTION_SCORE;
+      const lines = this.schemaEngine.formatTableSummary(table);
+
+      // Valores reais (perfil) so para as tabelas que a pergunta cita
+      if (mentioned || questionTerms.has(stem(normalize(table.name)))) {
+        const hidden = new Set(
+          table.columns
+            .map((c) => c.name)
+            .filter((name) => options.sensitiveColumns?.has(`${tableKey(table)}.${name}`))
+        );
+        const profileLines = this.schemaEngine.formatProfileSummary(table, hidden);
+        if (profileLines.length > 0) {
+          if (lines[lines.length - 1] === '') lines.pop();
+          lines.push(...profileLines, '');
+        }
+      }
+      const cost = estimateTokens(lines.join('\n'));
+
+      if (mentioned || detailTokens + cost <= detailBudget) {
+        detailedLines.push(...lines);
+        detailed.push(tableKey(table));
+        detailTokens += cost;
+      } else {
+        rest.push(table);
+      }
+    }
+
+    const sectionLines = [...header, ...detailedLines];
+    let namesOnly = 0;
+
+    if (rest.length > 0) {
+      const names: string[] = [];
+      let namesTokens = 0;
+      for (const table of rest) {
+        const cost = estimateTokens(`${tableKey(table)}, `);
+        if (namesTokens + cost > namesReserve) break;
+        names.push(tableKey(table));
+        namesTokens += cost;
+      }
+      namesOnly = names.length;
+
+      sectionLines.push('');
+      sectionLines.push('Outras tabelas (apenas nomes; use describe_table para ver colunas):');
+      if (names.length > 0) {
+        sectionLines.push(names.join(', '));
+      }
+      if (rest.length > names.length) {
+        sectionLines.push(
+          `... e mais ${rest.length - names.length} tabela(s) nao listadas. Use describe_table com o nome exato se precisar.`
+        );
+      }
+    }
+
+    if (routineLines.length > 0 && sectionLines[sectionLines.length - 1] === '') sectionLines.pop();
+    sectionLines.push(...routineLines);
+
+    const summary = sectionLines.join('\n');
+
+    return {
+      prompt: this.buildPrompt(summary, semanticSection),
+      selection: {
+        detailed,
+        namesOnly,
+        omitted: rest.length - namesOnly,
+        estimatedTokens: estimateTokens(summary) + estimateTokens(semanticSection),
+        tokenBudget,
+        metrics: semantic.metrics,
+      },
+    };
+  }
 
+  /**
+   * Ordena as tabelas por relevancia: mencoes @, nome/colunas/comentarios que
+   * casam com a pergunta e proximidade por FK das tabelas que casaram.
+   */
+  rankTables(question: string, recentText = ''): TableInfo[] {
+    const tables = this.schemaEngine.getSchemaMap()?.tables ?? [];
+    const questionTerms = extractTerms(question);
+    const recentTerms = extractTerms(recentText);
+    const mentions = extractMentions(question);
+
+    const baseScores = new Map<string, number>();
+    for (const table of tables) {
+      baseScores.set(
+        tableKey(table),
+        scoreMentions(table, mentions) +
+          scoreTerms(table, questionTerms) +
+          RECENT_TEXT_WEIGHT * scoreTerms(table, recentTerms)
+      );
+    }
+
+    const finalScores = new Map<string, number>();
+    for (const table of tables) {
+      const neighbors = [
+        ...table.foreignKeys.map((fk) => `${fk.referencedSchema}.${fk.referencedTable}`),
+        ...table.referencedBy.map((ref) => `${ref.referencedSchema}.${ref.referencedTable}`),
+      ];
+      const bestNeighbor = Math.max(0, ...neighbors.map((key) => baseScores.get(key) ?? 0));
+      finalScores.set(tableKey(table), (baseScores.get(tableKey(table)) ?? 0) + FK_PROXIMITY_WEIGHT * bestNeighbor);
+    }
+
+    const degree = (t: TableInfo) => t.foreignKeys.length + t.referencedBy.length;
+
+    return [...tables].sort((a, b) =>
+      (finalScores.get(tableKey(b)) ?? 0) - (finalScores.get(tableKey(a)) ?? 0) ||
+      degree(b) - degree(a) ||
+      b.estimatedRowCount - a.estimatedRowCount ||
+      tableKey(a).localeCompare(tableKey(b))
+    );
+  }
+
+  /**
+   * Extensoes e funcoes do banco dentro de `budget` tokens; funcoes cujo nome
+   * casa com a pergunta entram primeiro.
+   */
+  private buildRoutineLines(question: string, budget: number): string[] {
+    const schemaMap = this.schemaEngine.getSchemaMap();
+    if (!schemaMap) return [];
+
+    const lines: string[] = [];
+    const extensions = this.schemaEngine.formatExtensionsLine();
+    if (extensions) lines.push('', extensions);
+
+    if (schemaMap.routines.length === 0) return lines;
+
+    const terms = extractTerms(question);
+    const routines = [...schemaMap.routines].sort((a, b) => scoreRoutine(b, terms) - scoreRoutine(a, terms));
+
+    lines.push('', 'Functions:');
+    let tokens = estimateTokens(lines.join('\n'));
+    let listed = 0;
+    for (const routine of routines) {
+      const line = `  ${this.schemaEngine.formatRoutineSummary(routine)}`;
+      const cost = estimateTokens(line);
+      if (tokens + cost > budget) break;
+      lines.push(line);
+      tokens += cost;
+      listed++;
+    }
+    if (routines.length > listed) {
+      lines.push(`  ... e mais ${routines.length - listed} funcao(oes) nao listadas.`);
+    }
+    return lines;
+  }
+
+  /**
+   * Glossario, metricas e joins preferidos do time dentro de `budget` tokens.
+   * Entradas cujo nome (ou sinonimo) aparece na pergunta entram sempre e primeiro.
+   */
+  private buildSemanticLines(question: string, budget: number): { lines: string[]; metrics: string[] } {
+    const layer = this.semanticLayer;
+    if (!layer || isSemanticLayerEmpty(layer)) return { lines: [], metrics: [] };
+
+    const terms = extractTerms(question);
+    const rank = <T>(entries: T[], names: (entry: T) => string[]) =>
+      entries
+        .map((entry) => ({ entry, score: scoreSemanticEntry(names(entry), terms) }))
+        .sort((a, b) => b.score - a.score);
+
+    const lines: string[] = [];
+    const matchedMetrics: string[] = [];
+    let tokens = 0;
+    let skipped = 0;
+
+    const addGroup = <T>(
+      title: string,
+      ranked: { entry: T; score: number }[],
+      format: (entry: T) => string,
+      onMatch?: (entry: T) => void
+    ) => {
+      if (ranked.length === 0) return;
+      const group: string[] = [title];
+      let groupTokens = estimateTokens(title);
+      for (const { entry, score } of ranked) {
+        const line = `  ${format(entry)}`;
+        const cost = estimateTokens(line);
+        if (score === 0 && tokens + groupTokens + cost > budget) {
+          skipped++;
+          continue;
+        }
+        group.push(line);
+        groupTokens += cost;
+        if (score > 0) onMatch?.(entry);
+      }
+      if (group.length > 1) {
+        lines.push(...group);
+        tokens += groupTokens;
+      }
+    };
+
+    addGroup(
+      'Metricas (definicao oficial; cite a que usar):',
+      rank(layer.metrics, (m) => [m.name, ...(m.synonyms ?? [])]),
+      formatMetricDefinition,
+      (m) => matchedMetrics.push(m.name)
+    );
+    addGroup(
+      'Glossario:',
+      rank(layer.glossary, (t) => [t.term, ...(t.synonyms ?? [])]),
+      (t) => `${t.term}${t.synonyms?.length ? ` (${t.synonyms.join(', ')})` : ''}: ${t.definition}`
+    );
+    addGroup(
+      'Joins preferidos:',
+      rank(layer.joins, (j) => [j.from, j.to]),
+      (j) => `${j.from} → ${j.to} ON ${j.on}${j.note ? ` -- ${j.note}` : ''}`
+    );
+
+    if (skipped > 0) {
+      lines.push(`... e mais ${skipped} definicao(oes) fora do orcamento de contexto.`);
+    }
+    return { lines, metrics: matchedMetrics };
+  }
+
+  private buildPrompt(schemaSummary: string, semanticSection = ''): string {
     return `Voce e o Shibuy.ai, um agente especialista em banco de dados PostgreSQL.
 Voce tem acesso completo ao schema do banco e pode executar queries.
 
@@ -24,21 +456,25 @@ Voce tem acesso completo ao schema do banco e pode executar queries.
 - Gerar DDL (CREATE, ALTER) quando solicitado
 
 ## Regras IMPORTANTES:
-1. Quando precisar executar SQL, responda com UM bloco SQL completo e executavel, neste formato:
-   \`\`\`sql
-   SELECT coluna_1, coluna_2
-   FROM schema.tabela
-   LIMIT 50;
-   \`\`\`
-   O sistema vai detectar o bloco SQL, executar, e te enviar o resultado.
+1. Quando precisar executar SQL, chame a ferramenta \`run_sql\` com UMA query completa e executavel.
+   O sistema executa a query e te devolve o resultado como retorno da ferramenta.
+   SQL escrito no texto da resposta NUNCA e executado; use sempre a ferramenta.
    Nunca use placeholders como "...", "..", "<coluna>", "[tabela]", "(...)" ou "TODO".
    Se faltar contexto para montar SQL executavel, faca uma pergunta curta para o usuario.
+   Use \`describe_table\` quando precisar de detalhes de uma tabela (defaults, comentarios, indices, relacoes, triggers).
+   Para juntar tabelas sem FK direta entre elas, use \`find_join_path\` e copie as clausulas ON devolvidas.
+   Linhas VALUES/RANGE trazem valores reais das colunas: use esses literais exatos nos filtros.
+   As funcoes listadas no schema podem ser chamadas no SQL (ex.: SELECT schema.funcao(...)); respeite a assinatura.
+   Metricas da camada semantica sao a definicao oficial do time: use a expressao e o filtro exatos, prefira os joins listados
+   e cite na resposta final qual definicao usou (ex.: "Metrica usada: receita").
+   Valores como [oculto:email] ou j***@dominio.com foram mascarados por politica de privacidade:
+   nao tente contornar o mascaramento nem use esses valores em filtros.
 
 2. Se a pergunta pode ser respondida apenas com o schema (sem executar query), responda direto.
 
 3. NUNCA execute DROP, TRUNCATE ou DELETE sem que o usuario tenha pedido explicitamente.
 
-4. Para INSERT/UPDATE/DELETE, SEMPRE mostre o SQL primeiro e pergunte se deve executar.
+4. Para INSERT/UPDATE/DELETE, chame run_sql normalmente: o sistema gera um preview com rollback (linhas afetadas, antes/depois) e o usuario aprova a execucao real.
 
 5. Limite resultados com LIMIT 50 por padrao, a menos que o usuario peca mais.
 
@@ -52,7 +488,11 @@ Voce tem acesso completo ao schema do banco e pode executar queries.
 
 10. Nao pergunte "posso continuar?" em tarefas analiticas que ja podem ser executadas. Continue sozinho ate entregar resposta final completa.
 
-## Schema do banco conectado:
+${semanticSection ? `## Camada semantica (definicoes do time):
+
+${semanticSection}
+
+` : ''}## Schema do banco conectado:
 
 ${schemaSummary}`;
   }
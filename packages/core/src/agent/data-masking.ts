@@ -0,0 +1,342 @@
+import type { SchemaEngine, TableInfo } from '../db/schema-engine.js';
+import type { TableProfile } from '../db/column-profiler.js';
+import type { ConnectionConfig } from '../utils/config.js';
+import type { ExecutionResult, WritePreview } from './executor.js';
+
+// ─── Interfaces ───
+
+export type SensitivityTag =
+  | 'email'
+  | 'document'
+  | 'phone'
+  | 'name'
+  | 'address'
+  | 'birthdate'
+  | 'financial'
+  | 'secret';
+
+/**
+ * none = valor original, partial = preserva o formato (j***@empresa.com),
+ * redact = troca pelo marcador [oculto:tag].
+ */
+export type MaskMode = 'none' | 'partial' | 'redact';
+
+/**
+ * Onde cada modo vale: `results` no que o usuario ve (tabelas, previews e
+ * exports, que partem das mesmas linhas) e `llm` no que vai para o modelo.
+ */
+export interface MaskingPolicy {
+  results: MaskMode;
+  llm: MaskMode;
+}
+
+export interface ColumnSensitivity {
+  key: string; // schema.tabela.coluna
+  tag: SensitivityTag | null; // etiqueta efetiva
+  suggested: SensitivityTag | null; // sugestao automatica, antes do override
+  source: 'name' | 'pattern' | 'override' | null;
+}
+
+// ─── Constantes ───
+
+export const SENSITIVITY_TAGS: SensitivityTag[] = [
+  'email', 'document', 'phone', 'name', 'address', 'birthdate', 'financial', 'secret',
+];
+
+export const MASK_MODES: MaskMode[] = ['none', 'partial', 'redact'];
+
+export const DEFAULT_MASKING_POLICY: MaskingPolicy = { results: 'partial', llm: 'redact' };
+
+const REDACTED_PREFIX = '[oculto:';
+
+// Ordem importa: "senha_hash" e secret antes de qualquer outra regra
+const NAME_PATTERNS: [SensitivityTag, RegExp][] = [
+  ['secret', /(senha|password|passwd|(^|_)pwd($|_)|secret|segredo|token|api_?key|(^|_)hash($|_)|(^|_)salt($|_))/],
+  ['document', /(^|_)(cpf|cnpj|rg|ssn|nif|passaporte|passport|documento|tax_?id)($|_)/],
+  ['email', /e_?mail/],
+  ['phone', /(telefone|celular|phone|mobile|(^|_)fone($|_)|whatsapp)/],
+  ['birthdate', /(nascimento|birth|(^|_)dob($|_)|data_nasc)/],
+  ['financial', /(cartao|card_?number|(^|_)cc_?num|iban|conta_?bancaria|bank_?account|(^|_)cvv($|_))/],
+  ['address', /(endereco|address|logradouro|(^|_)cep($|_)|zip_?code|postal_?code)/],
+  ['name', /(nome_completo|full_?name|first_?name|last_?name|sobrenome|nome_(cliente|usuario|pessoa|mae|pai|social))/],
+];
+
+// "nome"/"name" sozinho so e pessoal em tabelas de pessoas (products.name nao e)
+const PERSON_TABLE = /(user|usuario|client|customer|pessoa|person|funcionario|employee|paciente|patient|aluno|student|contato|contact|member|membro)/;
+const BARE_NAME = /^(nome|name)$/;
+
+const VALUE_PATTERNS: [SensitivityTag, RegExp][] = [
+  ['email', /^[^\s@]+@[^\s@]+\.[^\s@]+$/],
+  ['document', /^(\d{3}\.\d{3}\.\d{3}-\d{2}|\d{2}\.\d{3}\.\d{3}\/\d{4}-\d{2})$/], // CPF/CNPJ formatados
+  ['phone', /^(\+\d{1,3}\s?)?\(\d{2}\)\s?\d{4,5}-?\d{4}$/],
+  ['financial', /^\d{4}([ -]\d{4}){3}$/],
+];
+
+const MIN_PATTERN_SAMPLES = 3;
+const PATTERN_MATCH_SHARE = 0.8;
+const MAX_PATTERN_SAMPLES = 50;
+
+// ─── Helpers ───
+
+function normalizeName(name: string): string {
+  return name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+function suggestByName(column: string, table = ''): SensitivityTag | null {
+  const name = normalizeName(column);
+  for (const [tag, pattern] of NAME_PATTERNS) {
+    if (pattern.test(name)) return tag;
+  }
+  if (BARE_NAME.test(name) && PERSON_TABLE.test(normalizeName(table))) return 'name';
+  return null;
+}
+
+function suggestByValues(values: unknown[]): SensitivityTag | null {
+  const samples = values
+    .filter((v): v is string => typeof v === 'string' && v !== '')
+    .slice(0, MAX_PATTERN_SAMPLES);
+  if (samples.length < MIN_PATTERN_SAMPLES) return null;
+
+  for (const [tag, pattern] of VALUE_PATTERNS) {
+    const matches = samples.filter((v) => pattern.test(v.trim())).length;
+    if (matches / samples.length >= PATTERN_MATCH_SHARE) return tag;
+  }
+  return null;
+}
+
+function toText(value: unknown): string {
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function maskDigits(text: string, keep: number): string {
+  const total = (text.match(/\d/g) ?? []).length;
+  let seen = 0;
+  return text.replace(/\d/g, (d) => (++seen > total - keep ? d : '*'));
+}
+
+function maskPartial(text: string, tag: SensitivityTag): string | null {
+  switch (tag) {
+    case 'email': {
+      const at = text.indexOf('@');
+      return at > 0 ? `${text[0]}***${text.slice(at)}` : null;
+    }
+    case 'document':
+    case 'financial':
+      return /\d/.test(text) ? maskDigits(text, 2) : null;
+    case 'phone':
+      return /\d/.test(text) ? maskDigits(text, 4) : null;
+    case 'birthdate': {
+      const year = text.match(/\b(\d{4})\b/);
+      return year ? `${year[1]}-**-**` : null;
+    }
+    case 'name':
+    case 'address':
+      return text.split(/\s+/).filter(Boolean).map((word) => `${word[0]}***`).join(' ');
+    case 'secret':
+      return null;
+  }
+}
+
+function redact(tag: SensitivityTag): string {
+  return `${REDACTED_PREFIX}${tag}]`;
+}
+
+// ─── Funções exportadas ───
+
+export function isSensitivityTag(value: unknown): value is SensitivityTag {
+  return typeof value === 'string' && (SENSITIVITY_TAGS as string[]).includes(value);
+}
+
+export function isMaskMode(value: unknown): value is MaskMode {
+  return typeof value === 'string' && (MASK_MODES as string[]).includes(value);
+}
+
+export function resolveMaskingPolicy(connection: ConnectionConfig | null): MaskingPolicy {
+  return { ...DEFAULT_MASKING_POLICY, ...(connection?.masking ?? {}) };
+}
+
+/**
+ * Mascara um valor conforme a etiqueta. Segredos nunca aparecem parcialmente
+ * e valores ja ocultos nao sao mascarados de novo.
+ */
+export function maskValue(value: unknown, tag: SensitivityTag, mode: MaskMode): unknown {
+  if (mode === 'none' || value === null || value === undefined) return value;
+
+  const text = toText(value);
+  if (text.startsWith(REDACTED_PREFIX)) return text;
+  if (mode === 'redact') return redact(tag);
+  return maskPartial(text, tag) ?? redact(tag);
+}
+
+/**
+ * Sugere etiquetas pelo nome da coluna e, se a tabela foi perfilada, pelo
+ * formato dos valores mais comuns (email, CPF/CNPJ, telefone, cartao).
+ */
+export function suggestTableSensitivity(
+  table: TableInfo,
+  profile?: TableProfile
+): Record<string, { tag: SensitivityTag; source: 'name' | 'pattern' }> {
+  const suggestions: Record<string, { tag: SensitivityTag; source: 'name' | 'pattern' }> = {};
+  for (const column of table.columns) {
+    const byName = suggestByName(column.name, table.name);
+    if (byName) {
+      suggestions[column.name] = { tag: byName, source: 'name' };
+      continue;
+    }
+    const stats = profile?.columns[column.name];
+    const values = [...(stats?.commonValues.map((v) => v.value) ?? []), ...(stats?.histogram ?? [])];
+    const byPattern = suggestByValues(values);
+    if (byPattern) suggestions[column.name] = { tag: byPattern, source: 'pattern' };
+  }
+  return suggestions;
+}
+
+/**
+ * Etiquetas efetivas de todas as colunas com sugestao ou override da conexao.
+ * Override 'none' desmarca uma sugestao errada.
+ */
+export function classifyColumns(
+  schemaEngine: SchemaEngine,
+  connection: ConnectionConfig | null
+): ColumnSensitivity[] {
+  const overrides = connection?.sensitivity ?? {};
+  const columns: ColumnSensitivity[] = [];
+
+  for (const table of schemaEngine.getSchemaMap()?.tables ?? []) {
+    const suggestions = suggestTableSensitivity(table, schemaEngine.getProfile(table.schema, table.name));
+    for (const column of table.columns) {
+      const key = `${table.schema}.${table.name}.${column.name}`;
+      const suggested = suggestions[column.name] ?? null;
+      const override = overrides[key];
+
+      if (override !== undefined) {
+        columns.push({
+          key,
+          tag: override === 'none' ? null : override,
+          suggested: suggested?.tag ?? null,
+          source: 'override',
+        });
+      } else if (suggested) {
+        columns.push({ key, tag: suggested.tag, suggested: suggested.tag, source: suggested.source });
+      }
+    }
+  }
+
+  return columns;
+}
+
+// ─── Classe ───
+
+/**
+ * Aplica a politica de mascaramento em linhas de resultado. O resultado de
+ * uma query nao diz de qual tabela veio cada coluna, entao a etiqueta vale
+ * pelo nome da coluna em qualquer tabela (na duvida, mascara). Colunas sem
+ * etiqueta ainda passam pela sugestao por nome e pelo formato dos valores,
+ * o que pega aliases como `SELECT email AS contato`.
+ */
+export class DataMasker {
+  readonly policy: MaskingPolicy;
+  private byName = new Map<string, SensitivityTag>();
+  private cleared = new Set<string>(); // nomes desmarcados por override e sem outra etiqueta
+  private byKey = new Map<string, SensitivityTag>();
+
+  constructor(columns: ColumnSensitivity[], policy: MaskingPolicy = DEFAULT_MASKING_POLICY) {
+    this.policy = policy;
+    for (const column of columns) {
+      const name = column.key.slice(column.key.lastIndexOf('.') + 1).toLowerCase();
+      if (column.tag) {
+        this.byName.set(name, column.tag);
+        this.byKey.set(column.key, column.tag);
+      } else {
+        this.cleared.add(name);
+      }
+    }
+    for (const name of this.byName.keys()) this.cleared.delete(name);
+  }
+
+  static fromSchema(schemaEngine: SchemaEngine, connection: ConnectionConfig | null): DataMasker {
+    return new DataMasker(classifyColumns(schemaEngine, connection), resolveMaskingPolicy(connection));
+  }
+
+  /**
+   * Colunas etiquetadas (schema.tabela.coluna): valores delas nao entram no contexto do LLM.
+   */
+  sensitiveColumns(): Set<string> {
+    return new Set(this.byKey.keys());
+  }
+
+  tagForColumn(column: string, values: unknown[] = []): SensitivityTag | null {
+    const name = column.toLowerCase();
+    const tagged = this.byName.get(name);
+    if (tagged) return tagged;
+    if (this.cleared.has(name)) return null;
+    return suggestByName(column) ?? suggestByValues(values);
+  }
+
+  maskRows<T extends Record<string, unknown>>(
+    columns: string[],
+    rows: T[],
+    mode: MaskMode
+  ): { rows: T[]; masked: Record<string, SensitivityTag> } {
+    const masked: Record<string, SensitivityTag> = {};
+    if (mode === 'none') return { rows, masked };
+
+    for (const column of columns) {
+      const tag = this.tagForColumn(column, rows.map((row) => row[column]));
+      if (tag) masked[column] = tag;
+    }
+    if (Object.keys(masked).length === 0) return { rows, masked };
+
+    return {
+      rows: rows.map((row) => {
+        const copy: Record<string, unknown> = { ...row };
+        for (const [column, tag] of Object.entries(masked)) {
+          copy[column] = maskValue(row[column], tag, mode);
+        }
+        return copy as T;
+      }),
+      masked,
+    };
+  }
+
+  maskResult(result: ExecutionResult, mode: MaskMode): ExecutionResult {
+    if (result.error || result.rows.length === 0) return result;
+
+    const columns = result.columns ?? Object.keys(result.rows[0]);
+    const { rows, masked } = this.maskRows(columns, result.rows, mode);
+    return Object.keys(masked).length > 0 ? { ...result, rows, maskedColumns: masked } : result;
+  }
+
+  maskPreview(preview: WritePreview, mode: MaskMode): WritePreview {
+    return {
+      ...preview,
+      statements: preview.statements.map((statement) => ({
+        ...statement,
+        before: this.maskRows(statement.columns, statement.before, mode).rows,
+        after: this.maskRows(statement.columns, statement.after, mode).rows,
+      })),
+    };
+  }
+
+  /**
+   * Valores comuns e histograma do perfil passam pela mesma politica dos resultados.
+   */
+  maskProfile(schema: string, table: string, profile: TableProfile, mode: MaskMode): TableProfile {
+    if (mode === 'none') return profile;
+
+    const columns: TableProfile['columns'] = {};
+    for (const [column, stats] of Object.entries(profile.columns)) {
+      const tag = this.byKey.get(`${schema}.${table}.${column}`);
+      columns[column] = tag
+        ? {
+            ...stats,
+            commonValues: stats.commonValues.map((v) => ({ ...v, value: String(maskValue(v.value, tag, mode)) })),
+            histogram: stats.histogram?.map((v) => String(maskValue(v, tag, mode))),
+          }
+        : stats;
+    }
+    return { ...profile, columns };
+  }
+}
@@ -1,5 +1,8 @@
+import type { ExecutionErrorCode } from './executor.js';
+
 export type SqlErrorKind =
   | 'permission'
+  | 'access_policy'
   | 'read_only'
   | 'missing_object'
   | 'timeout'
@@ -42,11 +45,28 @@ function extractMissingObjectTarget(errorMessage: string): string | null {
   return null;
 }
 
+/**
+ * `code` vem de `ExecutionResult.errorCode`: recusas do proprio AgentDB sao
+ * identificadas por ele, nunca pelo texto da mensagem.
+ */
 export function analyzeSqlExecutionError(
-  errorMessage: string
+  errorMessage: string,
+  code?: ExecutionErrorCode
 ): SqlErrorGuidance {
   const normalized = errorMessage.toLowerCase();
 
+  if (code === 'access_policy') {
+    return {
+      kind: 'access_policy',
+      actionable: true,
+      shouldAskUser: false,
+      shouldAutoRetry: true,
+      userQuestion: null,
+      recoveryInstruction:
+        'O objeto citado esta bloqueado pela politica de acesso da conexao; variacoes da mesma consulta tambem serao recusadas. Reescreva usando apenas tabelas e colunas do schema disponivel, listando as colunas em vez de usar *. Se a pergunta depender do objeto bloqueado, diga ao usuario que ele nao esta liberado nesta conexao.',
+    };
+  }
+
   const isPermissionError =
     normalized.includes('permission denied') ||
     normalized.includes('insufficient privilege') ||
@@ -68,10 +88,10 @@ export function analyzeSqlExecutionError(
     };
   }
 
+  // O conector prefixa toda falha de leitura com "query read-only": so o erro
+  // do proprio Postgres dentro do BEGIN READ ONLY conta como bloqueio de escrita
   const isReadOnlyError =
-    normalized.includes('read-only') ||
-    normalized.includes('read only') ||
-    normalized.includes('modo somente leitura') ||
+    code === 'read_only' ||
     (normalized.includes('cannot execute') &&
       normalized.includes('read-only transaction'));
 
@@ -110,6 +130,7 @@ export function analyzeSqlExecutionError(
   }
 
   const isTimeoutError =
+    code === 'cost_ceiling' ||
     normalized.includes('statement timeout') ||
     normalized.includes('canceling statement due to statement timeout') ||
     normalized.includes('timeout');
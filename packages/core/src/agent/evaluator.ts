@@ -0,0 +1,475 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { ContextBuilder } from './context.js';
+import type { ExecutionResult, QueryExecutor } from './executor.js';
+import type { LLMClient, LLMResponse, LLMToolResult } from './llm.js';
+import type { SchemaEngine } from '../db/schema-engine.js';
+import { analyzeSqlExecutionError } from './error-guidance.js';
+import {
+  AGENT_TOOLS,
+  describeTableForAgent,
+  findJoinPathForAgent,
+  formatExecutionForAgent,
+  getToolStringArgument,
+} from './tools.js';
+
+// ─── Interfaces ───
+
+/**
+ * Pergunta de referencia. O gabarito e `expectedSql` (executado na mesma
+ * conexao) ou `expectedRows` (objetos ou listas de valores).
+ */
+export interface EvalQuestion {
+  id: string;
+  question: string;
+  expectedSql?: string;
+  expectedRows?: Array<Record<string, unknown> | unknown[]>;
+  tags?: string[];
+}
+
+export interface EvalSuite {
+  name: string;
+  questions: EvalQuestion[];
+}
+
+export interface EvalCaseResult {
+  id: string;
+  question: string;
+  model: string;
+  passed: boolean;
+  sql: string | null; // ultimo SELECT bem-sucedido do agente, usado na comparacao
+  steps: number; // chamadas ao LLM
+  tokens: { prompt: number; completion: number; total: number };
+  latencyMs: number;
+  expectedRowCount?: number;
+  actualRowCount?: number;
+  detail?: string; // motivo da falha
+}
+
+export interface EvalModelSummary {
+  model: string;
+  total: number;
+  passed: number;
+  accuracy: number; // 0..1
+  avgSteps: number;
+  totalTokens: number;
+  avgLatencyMs: number;
+}
+
+export interface EvalReport {
+  suite: string;
+  connection: string;
+  database: string;
+  startedAt: string; // ISO
+  finishedAt: string; // ISO
+  models: EvalModelSummary[];
+  cases: EvalCaseResult[];
+}
+
+export interface EvalRunnerOptions {
+  llmClient: LLMClient;
+  executor: QueryExecutor;
+  schemaEngine: SchemaEngine;
+  contextBuilder: ContextBuilder;
+  maxSteps?: number;
+}
+
+export interface ResultSetComparison {
+  equal: boolean;
+  reason?: string;
+}
+
+// ─── Constantes ───
+
+const DEFAULT_MAX_STEPS = 5;
+const RESULT_SAMPLE_SIZE = 5;
+const DECIMAL_PLACES = 6;
+
+const FORCED_FINAL_PROMPT =
+  '[Sistema] Limite de etapas atingido. Entregue a resposta final agora, apenas em texto claro.';
+
+// ─── Helpers ───
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function normalizeNumber(value: number): string {
+  return String(Number(value.toFixed(DECIMAL_PLACES)));
+}
+
+/**
+ * Valor canonico para comparacao: numeric e bigint chegam do pg como texto,
+ * o gabarito em JSON costuma trazer numeros.
+ */
+function normalizeValue(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'number') return normalizeNumber(value);
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value === 'boolean') return String(value);
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (/^-?\d+(\.\d+)?(e[+-]?\d+)?$/i.test(trimmed)) {
+      const parsed = Number(trimmed);
+      if (Number.isFinite(parsed)) return normalizeNumber(parsed);
+    }
+    return trimmed;
+  }
+  return JSON.stringify(value);
+}
+
+// Nomes e ordem das colunas nao importam: o agente pode usar outros aliases
+function rowKey(row: Record<string, unknown> | unknown[]): string {
+  const values = Array.isArray(row) ? row : Object.values(row);
+  return values.map(normalizeValue).sort().join('\u0001');
+}
+
+function countRows(rows: Array<Record<string, unknown> | unknown[]>): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    const key = rowKey(row);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function addTokens(target: EvalCaseResult['tokens'], response: LLMResponse): void {
+  target.prompt += response.tokensUsed.prompt;
+  target.completion += response.tokensUsed.completion;
+  target.total += response.tokensUsed.total;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+// ─── Funções exportadas ───
+
+/**
+ * Valida uma suite vinda de arquivo. Lanca Error com mensagem legivel no
+ * primeiro problema.
+ */
+export function parseEvalSuite(input: unknown, fallbackName = 'eval'): EvalSuite {
+  const record = Array.isArray(input) ? { questions: input } : input;
+  if (!isRecord(record) || !Array.isArray(record.questions)) {
+    throw new Error('A suíte deve ser uma lista de perguntas ou um objeto com "questions".');
+  }
+
+  const seen = new Set<string>();
+  const questions = record.questions.map((entry, i): EvalQuestion => {
+    const label = `Pergunta #${i + 1}`;
+    if (!isRecord(entry) || typeof entry.question !== 'string' || !entry.question.trim()) {
+      throw new Error(`${label}: campo "question" é obrigatório.`);
+    }
+    const hasSql = typeof entry.expectedSql === 'string' && entry.expectedSql.trim() !== '';
+    const hasRows = Array.isArray(entry.expectedRows);
+    if (!hasSql && !hasRows) {
+      throw new Error(`${label}: informe "expectedSql" ou "expectedRows".`);
+    }
+    if (hasRows && !(entry.expectedRows as unknown[]).every((row) => isRecord(row) || Array.isArray(row))) {
+      throw new Error(`${label}: "expectedRows" deve ser uma lista de objetos ou de listas de valores.`);
+    }
+
+    const id = typeof entry.id === 'string' && entry.id.trim() ? entry.id.trim() : `q${i + 1}`;
+    if (seen.has(id)) throw new Error(`${label}: id "${id}" repetido.`);
+    seen.add(id);
+
+    return {
+      id,
+      question: entry.question.trim(),
+      expectedSql: hasSql ? (entry.expectedSql as string).trim() : undefined,
+      expectedRows: hasRows ? (entry.expectedRows as EvalQuestion['expectedRows']) : undefined,
+      tags: Array.isArray(entry.tags) ? entry.tags.filter((t): t is string => typeof t === 'string') : undefined,
+    };
+  });
+
+  if (questions.length === 0) {
+    throw new Error('A suíte não tem perguntas.');
+  }
+
+  const name = typeof record.name === 'string' && record.name.trim() ? record.name.trim() : fallbackName;
+  return { name, questions };
+}
+
+/**
+ * Le a suite de um arquivo JSON ou YAML (.yaml/.yml), no mesmo formato.
+ */
+export function loadEvalSuite(file: string): EvalSuite {
+  const isYaml = /\.ya?ml$/i.test(file);
+
+  let data: unknown;
+  try {
+    const text = fs.readFileSync(file, 'utf-8');
+    data = isYaml ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Erro desconhecido';
+    throw new Error(`Não foi possível ler a suíte ${file}: ${msg}`);
+  }
+  return parseEvalSuite(data, path.basename(file).replace(/\.(json|ya?ml)$/i, ''));
+}
+
+/**
+ * Compara dois conjuntos de linhas sem considerar ordem de linhas, ordem ou
+ * nome de colunas. Linhas repetidas contam (multiconjunto).
+ */
+export function compareResultSets(
+  actual: Array<Record<string, unknown> | unknown[]>,
+  expected: Array<Record<string, unknown> | unknown[]>
+): ResultSetComparison {
+  if (actual.length !== expected.length) {
+    return { equal: false, reason: `esperava ${expected.length} linha(s), obteve ${actual.length}` };
+  }
+
+  const actualCounts = countRows(actual);
+  let missing = 0;
+  for (const [key, count] of countRows(expected)) {
+    missing += Math.max(0, count - (actualCounts.get(key) ?? 0));
+  }
+  return missing === 0
+    ? { equal: true }
+    : { equal: false, reason: `${missing} linha(s) esperada(s) ausente(s) no resultado` };
+}
+
+export function summarizeEval(cases: EvalCaseResult[]): EvalModelSummary[] {
+  const models = Array.from(new Set(cases.map((c) => c.model)));
+  return models.map((model) => {
+    const own = cases.filter((c) => c.model === model);
+    const passed = own.filter((c) => c.passed).length;
+    return {
+      model,
+      total: own.length,
+      passed,
+      accuracy: own.length > 0 ? passed / own.length : 0,
+      avgSteps: average(own.map((c) => c.steps)),
+      totalTokens: own.reduce((sum, c) => sum + c.tokens.total, 0),
+      avgLatencyMs: Math.round(average(own.map((c) => c.latencyMs))),
+    };
+  });
+}
+
+export function formatEvalMarkdown(report: EvalReport): string {
+  const lines = [
+    `# Avaliação: ${report.suite}`,
+    '',
+    `Conexão \`${report.connection}\` (${report.database}), ${new Date(report.startedAt).toLocaleString('pt-BR')}.`,
+    '',
+    '| Modelo | Acertos | Precisão | Passos (média) | Tokens | Latência média |',
+    '|--------|---------|----------|----------------|--------|----------------|',
+    ...report.models.map(
+      (m) =>
+        `| ${escapeCell(m.model)} | ${m.passed}/${m.total} | ${(m.accuracy * 100).toFixed(1)}% | ` +
+        `${m.avgSteps.toFixed(1)} | ${m.totalTokens} | ${m.avgLatencyMs}ms |`
+    ),
+  ];
+
+  for (const model of report.models) {
+    lines.push(
+      '',
+      `## ${model.model}`,
+      '',
+      '| Id | Pergunta | Resultado | Passos | Tokens | Latência | Detalhe |',
+      '|----|----------|-----------|--------|--------|----------|---------|'
+    );
+    for (const c of report.cases.filter((item) => item.model === model.model)) {
+      lines.push(
+        `| ${escapeCell(c.id)} | ${escapeCell(c.question)} | ${c.passed ? 'ok' : 'falhou'} | ${c.steps} | ` +
+          `${c.tokens.total} | ${c.latencyMs}ms | ${escapeCell(c.detail ?? '')} |`
+      );
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+// ─── Classe ───
+
+/**
+ * Roda perguntas de referencia pelo mesmo ciclo do agente (LLM + ferramentas)
+ * e compara o ultimo resultado com o gabarito. Sem interacao: erros que pedem
+ * confirmacao sao tratados como retry automatico.
+ */
+export class EvalRunner {
+  private llmClient: LLMClient;
+  private executor: QueryExecutor;
+  private schemaEngine: SchemaEngine;
+  private contextBuilder: ContextBuilder;
+  private maxSteps: number;
+  private expectedCache = new Map<string, ExecutionResult>();
+
+  constructor(options: EvalRunnerOptions) {
+    this.llmClient = options.llmClient;
+    this.executor = options.executor;
+    this.schemaEngine = options.schemaEngine;
+    this.contextBuilder = options.contextBuilder;
+    this.maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+  }
+
+  /**
+   * Roda a suite uma vez por modelo. Sem modelos, usa o modelo atual do cliente.
+   */
+  async run(
+    suite: EvalSuite,
+    models: string[],
+    info: { connection: string; database: string },
+    onCase?: (result: EvalCaseResult) => void
+  ): Promise<EvalReport> {
+    const startedAt = new Date().toISOString();
+    const cases: EvalCaseResult[] = [];
+
+    for (const model of models.length > 0 ? models : [this.llmClient.getModel()]) {
+      this.llmClient.setModel(model);
+      for (const question of suite.questions) {
+        const result = await this.runQuestion(question);
+        cases.push(result);
+        onCase?.(result);
+      }
+    }
+
+    return {
+      suite: suite.name,
+      connection: info.connection,
+      database: info.database,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      models: summarizeEval(cases),
+      cases,
+    };
+  }
+
+  async runQuestion(question: EvalQuestion): Promise<EvalCaseResult> {
+    const result: EvalCaseResult = {
+      id: question.id,
+      question: question.question,
+      model: this.llmClient.getModel(),
+      passed: false,
+      sql: null,
+      steps: 0,
+      tokens: { prompt: 0, completion: 0, total: 0 },
+      latencyMs: 0,
+    };
+
+    const start = performance.now();
+    try {
+      const expected = await this.loadExpected(question);
+      result.expectedRowCount = expected.length;
+
+      const answer = await this.askAgent(question.question, result);
+      if (!answer) {
+        result.detail = result.detail ?? 'o agente não executou nenhuma consulta bem-sucedida';
+      } else {
+        result.sql = answer.sql;
+        result.actualRowCount = answer.rows.length;
+        const comparison = compareResultSets(answer.rows, expected);
+        result.passed = comparison.equal;
+        result.detail = comparison.reason;
+      }
+    } catch (error) {
+      result.detail = error instanceof Error ? error.message : 'Erro desconhecido';
+    }
+
+    result.latencyMs = Math.round(performance.now() - start);
+    return result;
+  }
+
+  private async loadExpected(question: EvalQuestion): Promise<Array<Record<string, unknown> | unknown[]>> {
+    if (question.expectedRows) return question.expectedRows;
+
+    // O gabarito nao depende do modelo: executa uma vez por pergunta
+    let expected = this.expectedCache.get(question.id);
+    if (!expected) {
+      expected = await this.executor.execute(question.expectedSql ?? '');
+      if (expected.error) {
+        throw new Error(`SQL esperado falhou: ${expected.error}`);
+      }
+      this.expectedCache.set(question.id, expected);
+    }
+    return expected.rows;
+  }
+
+  /**
+   * Conversa isolada por pergunta. Devolve o ultimo resultado bem-sucedido
+   * de run_sql, ou null se o agente nao chegou a consultar o banco.
+   */
+  private async askAgent(question: string, result: EvalCaseResult): Promise<ExecutionResult | null> {
+    const masker = this.executor.getMasker();
+    this.llmClient.clearHistory();
+    this.llmClient.setSystemPrompt(
+      this.contextBuilder.buildContext(question, { sensitiveColumns: masker?.sensitiveColumns() }).prompt
+    );
+
+    let answer: ExecutionResult | null = null;
+    let response = await this.llmClient.chat(question, { tools: AGENT_TOOLS });
+
+    for (let step = 1; ; step++) {
+      result.steps = step;
+      addTokens(result.tokens, response);
+      if (response.toolCalls.length === 0 || step >= this.maxSteps) return answer;
+
+      const results: LLMToolResult[] = [];
+      for (const call of response.toolCalls) {
+        if (call.name === 'describe_table') {
+          const tableRef = getToolStringArgument(call, 'table') ?? '';
+          results.push({
+            toolCallId: call.id,
+            content: describeTableForAgent(this.schemaEngine, tableRef, masker?.sensitiveColumns()),
+          });
+          continue;
+        }
+        if (call.name === 'find_join_path') {
+          const from = getToolStringArgument(call, 'from') ?? '';
+          const to = getToolStringArgument(call, 'to') ?? '';
+          results.push({ toolCallId: call.id, content: findJoinPathForAgent(this.schemaEngine, from, to) });
+          continue;
+        }
+        if (call.name !== 'run_sql') {
+          results.push({ toolCallId: call.id, content: `Ferramenta desconhecida: ${call.name}.` });
+          continue;
+        }
+
+        const sql = getToolStringArgument(call, 'sql');
+        if (!sql) {
+          results.push({ toolCallId: call.id, content: 'Argumento "sql" ausente.' });
+          continue;
+        }
+
+        const execution = await this.executor.execute(sql);
+        if (!execution.error) {
+          answer = execution;
+          results.push({
+            toolCallId: call.id,
+            content: formatExecutionForAgent(this.executor.maskForAgent(execution), {
+              sampleSize: RESULT_SAMPLE_SIZE,
+            }),
+          });
+          continue;
+        }
+
+        const guidance = analyzeSqlExecutionError(execution.error, execution.errorCode);
+        if (!guidance.shouldAutoRetry && !guidance.shouldAskUser) {
+          result.detail = `Erro SQL: ${execution.error}`;
+          return null;
+        }
+        results.push({
+          toolCallId: call.id,
+          content: formatExecutionForAgent(execution, {
+            recoveryInstruction:
+              guidance.recoveryInstruction || 'Corrija a query mantendo o objetivo original do usuario.',
+          }),
+        });
+      }
+
+      const isLastStep = step + 1 >= this.maxSteps;
+      response = await this.llmClient.submitToolResults(
+        results,
+        { tools: AGENT_TOOLS, toolChoice: isLastStep ? 'none' : 'auto' },
+        isLastStep ? FORCED_FINAL_PROMPT : undefined
+      );
+    }
+  }
+}
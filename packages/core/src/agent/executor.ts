@@ -1,7 +1,35 @@
-import { DatabaseConnector } from '../db/connector.js';
+import {
+  DatabaseConnector,
+  type QueryCursor,
+  type QueryOptions,
+  type QueryResultData,
+} from '../db/connector.js';
+import {
+  classifySql,
+  describeClassification,
+  type SqlClassification,
+  type StatementVerdict,
+} from './sql-classifier.js';
+import type { DataMasker, SensitivityTag } from './data-masking.js';
+import {
+  formatAccessViolation,
+  type AccessGuard,
+  type AccessViolation,
+  type ViewDependency,
+} from '../db/access-policy.js';
 
 // ─── Interfaces ───
 
+/**
+ * Recusas do proprio AgentDB, antes de a query chegar ao banco.
+ */
+export type ExecutionErrorCode = 'read_only' | 'access_policy' | 'cost_ceiling';
+
+export interface ExecutionRefusal {
+  code: ExecutionErrorCode;
+  message: string;
+}
+
 export interface ExecutionResult {
   sql: string;
   rows: Record<string, unknown>[];
@@ -9,19 +37,40 @@ export interface ExecutionResult {
   duration: number;
   columns?: string[];
   error?: string;
+  errorCode?: ExecutionErrorCode; // presente quando o erro e uma recusa do AgentDB
+  hasMore?: boolean; // resultado paginado: ha linhas alem das retornadas
+  maskedColumns?: Record<string, SensitivityTag>; // colunas mascaradas pela politica de PII
+}
+
+export interface PagedExecution {
+  result: ExecutionResult;
+  cursor: QueryCursor | null; // aberto apenas quando ainda ha paginas a ler
+}
+
+export interface PreviewStatement {
+  command: string;
+  sql: string;
+  relation: string | null;
+  rowsAffected: number;
+  keyColumns: string[];
+  columns: string[];
+  before: Record<string, unknown>[]; // em UPDATE, alinhado por indice com `after`
+  after: Record<string, unknown>[];
+}
+
+export interface WritePreview {
+  sql: string;
+  statements: PreviewStatement[];
+  totalRowsAffected: number;
+  duration: number;
+  error?: string;
 }
 
 // ─── Classe ───
 
-const DESTRUCTIVE_KEYWORDS = [
-  'INSERT',
-  'UPDATE',
-  'DELETE',
-  'DROP',
-  'ALTER',
-  'TRUNCATE',
-  'CREATE',
-];
+const PREVIEW_SAMPLE_SIZE = 5;
+const PREVIEW_COMMANDS = new Set(['INSERT', 'UPDATE', 'DELETE']);
+const EXPLAINABLE_COMMANDS = new Set(['SELECT', 'INSERT', 'UPDATE', 'DELETE']);
 
 const INCOMPLETE_SQL_PATTERNS: RegExp[] = [
   /\.{3,}/,       // "...", "...."
@@ -35,58 +84,147 @@ const INCOMPLETE_SQL_PATTERNS: RegExp[] = [
 export class QueryExecutor {
   private db: DatabaseConnector;
   private readOnlyMode: boolean = true;
+  private functionVolatility: Promise<Map<string, boolean>> | null = null;
+  private searchPath: Promise<string> | null = null;
+  private masker: DataMasker | null = null;
+  private accessGuard: AccessGuard | null = null;
 
   constructor(db: DatabaseConnector) {
     this.db = db;
   }
 
-  extractSQL(llmResponse: string): string | null {
-    const sqlBlockRegex = /```sql\s*\n([\s\S]*?)```/i;
-    const blockMatch = llmResponse.match(sqlBlockRegex);
-    if (blockMatch) {
-      const sql = blockMatch[1].trim();
-      if (sql.length > 0) return sql;
-    }
+  /**
+   * Politica de PII da conexao: resultados e previews saem mascarados daqui.
+   */
+  setMasker(masker: DataMasker | null): void {
+    this.masker = masker;
+  }
 
-    const genericBlockRegex = /```\s*\n([\s\S]*?)```/;
-    const genericMatch = llmResponse.match(genericBlockRegex);
-    if (genericMatch) {
-      const content = genericMatch[1].trim();
-      if (this.looksLikeSQL(content)) {
-        return content;
-      }
+  getMasker(): DataMasker | null {
+    return this.masker;
+  }
+
+  /**
+   * Politica de acesso da conexao: statements que citam objetos bloqueados
+   * sao recusados antes de chegar ao banco.
+   */
+  setAccessGuard(guard: AccessGuard | null): void {
+    this.accessGuard = guard;
+  }
+
+  /**
+   * Versao do resultado que pode ir para o LLM (modo `llm` da politica).
+   */
+  maskForAgent(result: ExecutionResult): ExecutionResult {
+    return this.masker ? this.masker.maskResult(result, this.masker.policy.llm) : result;
+  }
+
+  /**
+   * Paginas seguintes de um cursor aberto por `executePaged`.
+   */
+  maskPage<T extends { columns: string[]; rows: Record<string, unknown>[] }>(page: T): T {
+    if (!this.masker) return page;
+    return { ...page, rows: this.masker.maskRows(page.columns, page.rows, this.masker.policy.results).rows };
+  }
+
+  private maskResult(result: ExecutionResult): ExecutionResult {
+    return this.masker ? this.masker.maskResult(result, this.masker.policy.results) : result;
+  }
+
+  async classify(sql: string): Promise<SqlClassification> {
+    const volatility = await this.loadFunctionVolatility();
+    return classifySql(sql, {
+      isNonVolatileFunction: (name) => volatility.get(name),
+    });
+  }
+
+  /**
+   * Em modo somente leitura, statements 'unknown' rodam dentro de BEGIN READ ONLY,
+   * entao o proprio Postgres bloqueia qualquer escrita; so write/ddl/dcl sao recusados.
+   * O que poderia sair do BEGIN READ ONLY (COMMIT, DO, CALL, SET do modo de
+   * transacao) ja e classificado como write.
+   */
+  isBlockedByReadOnly(classification: SqlClassification): boolean {
+    return this.readOnlyMode && classification.kind !== 'read' && classification.kind !== 'unknown';
+  }
+
+  /**
+   * Preview so faz sentido para lotes de INSERT/UPDATE/DELETE (com SELECTs opcionais).
+   */
+  canPreview(classification: SqlClassification): boolean {
+    const { statements } = classification;
+    return (
+      statements.some((s) => PREVIEW_COMMANDS.has(s.command)) &&
+      statements.every((s) => s.kind === 'read' || PREVIEW_COMMANDS.has(s.command))
+    );
+  }
+
+  /**
+   * Executa o SQL numa transacao que sempre sofre rollback e devolve as linhas
+   * afetadas com amostras de antes/depois obtidas via RETURNING.
+   */
+  async preview(sql: string, options: QueryOptions = {}): Promise<WritePreview> {
+    const start = performance.now();
+    const empty: WritePreview = { sql, statements: [], totalRowsAffected: 0, duration: 0 };
+
+    const invalidReason = this.getInvalidSQLReason(sql);
+    if (invalidReason) {
+      return { ...empty, error: invalidReason };
     }
 
-    const lines = llmResponse.split('\n');
-    const sqlLines: string[] = [];
-    let inSQL = false;
+    const classification = await this.classify(sql);
+    if (this.isBlockedByReadOnly(classification)) {
+      return {
+        ...empty,
+        error: 'Modo somente leitura ativo. Desabilite read-only para executar.',
+      };
+    }
+    if (!this.canPreview(classification)) {
+      return { ...empty, error: 'Preview disponivel apenas para INSERT, UPDATE e DELETE.' };
+    }
 
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (!inSQL && this.looksLikeSQL(trimmed)) {
-        inSQL = true;
+    try {
+      const refusal = await this.checkAccess(classification);
+      if (refusal) {
+        return { ...empty, error: refusal.message };
       }
-      if (inSQL) {
-        if (trimmed.length === 0 && sqlLines.length > 0) {
-          sqlLines.push(trimmed);
-        } else if (trimmed.length > 0) {
-          sqlLines.push(trimmed);
-        } else if (sqlLines.length > 0) {
-          break;
+
+      const runOptions = await this.pinSearchPath(options);
+      const statements = await this.db.withRollback(async (query) => {
+        const previews: PreviewStatement[] = [];
+        for (const statement of classification.statements) {
+          if (!PREVIEW_COMMANDS.has(statement.command)) {
+            await query(statement.sql);
+            continue;
+          }
+          previews.push(await this.previewStatement(statement, query));
         }
-      }
-    }
+        return previews;
+      }, runOptions);
 
-    if (sqlLines.length > 0) {
-      const sql = sqlLines.join('\n').trim();
-      if (sql.endsWith(';')) return sql;
-      if (this.looksLikeSQL(sql)) return sql;
+      const preview: WritePreview = {
+        sql,
+        statements,
+        totalRowsAffected: statements.reduce((acc, s) => acc + s.rowsAffected, 0),
+        duration: Math.round((performance.now() - start) * 100) / 100,
+      };
+      return this.masker ? this.masker.maskPreview(preview, this.masker.policy.results) : preview;
+    } catch (error) {
+      const msg =
+        error instanceof Error ? error.message : 'Erro desconhecido na query';
+      return {
+        ...empty,
+        duration: Math.round((performance.now() - start) * 100) / 100,
+        error: msg,
+      };
     }
+  }
 
-    return null;
+  requiresConfirmation(classification: SqlClassification): boolean {
+    return classification.kind !== 'read';
   }
 
-  async execute(sql: string): Promise<ExecutionResult> {
+  async execute(sql: string, options: QueryOptions = {}): Promise<ExecutionResult> {
     const invalidReason = this.getInvalidSQLReason(sql);
     if (invalidReason) {
       return {
@@ -98,37 +236,47 @@ export class QueryExecutor {
       };
     }
 
-    if (this.isDestructiveQuery(sql) && this.readOnlyMode) {
+    const classification = await this.classify(sql);
+
+    if (this.isBlockedByReadOnly(classification)) {
       return {
         sql,
         rows: [],
         rowCount: 0,
         duration: 0,
         error:
-          'Modo somente leitura ativo. Desabilite read-only para executar.',
+          `Modo somente leitura ativo. A query contem ${describeClassification(classification)}. Desabilite read-only para executar.`,
+        errorCode: 'read_only',
       };
     }
 
     try {
-      if (!this.isDestructiveQuery(sql)) {
-        const result = await this.db.readOnlyQuery(sql);
-        return {
+      const runOptions = await this.pinSearchPath(options);
+      const refusal =
+        (await this.checkAccess(classification)) ?? (await this.checkCostCeiling(classification, runOptions));
+      if (refusal) {
+        return refusedResult(sql, refusal);
+      }
+
+      if (classification.kind === 'read' || this.readOnlyMode) {
+        const result = await this.db.readOnlyQuery(sql, undefined, runOptions);
+        return this.maskResult({
           sql,
           rows: result.rows,
           rowCount: result.rowCount,
           duration: result.duration,
           columns: result.columns,
-        };
+        });
       }
 
-      const result = await this.db.query(sql);
-      return {
+      const result = await this.db.query(sql, undefined, runOptions);
+      return this.maskResult({
         sql,
         rows: result.rows,
         rowCount: result.rowCount,
         duration: result.duration,
         columns: result.columns,
-      };
+      });
     } catch (error) {
       const msg =
         error instanceof Error ? error.message : 'Erro desconhecido na query';
@@ -142,21 +290,66 @@ export class QueryExecutor {
     }
   }
 
-  isDestructiveQuery(sql: string): boolean {
-    const cleaned = sql
-      .replace(/--.*$/gm, '')
-      .replace(/\/\*[\s\S]*?\*\//g, '')
-      .trim()
-      .toUpperCase();
+  /**
+   * SELECT unico e lido via cursor, devolvendo so a primeira pagina; o restante
+   * fica no cursor retornado. Demais statements caem no `execute` normal.
+   */
+  async executePaged(
+    sql: string,
+    pageSize: number,
+    options: QueryOptions = {}
+  ): Promise<PagedExecution> {
+    if (this.getInvalidSQLReason(sql)) {
+      return { result: await this.execute(sql, options), cursor: null };
+    }
 
-    for (const keyword of DESTRUCTIVE_KEYWORDS) {
-      const regex = new RegExp(`(^|;)\\s*${keyword}\\b`);
-      if (regex.test(cleaned)) {
-        return true;
-      }
+    const classification = await this.classify(sql);
+    const [statement] = classification.statements;
+    const streamable =
+      classification.kind === 'read' &&
+      classification.statements.length === 1 &&
+      statement.command === 'SELECT';
+
+    if (!streamable) {
+      return { result: await this.execute(sql, options), cursor: null };
     }
 
-    return false;
+    let cursor: QueryCursor | null = null;
+    try {
+      const runOptions = await this.pinSearchPath(options);
+      const refusal =
+        (await this.checkAccess(classification)) ?? (await this.checkCostCeiling(classification, runOptions));
+      if (refusal) {
+        return { result: refusedResult(sql, refusal), cursor: null };
+      }
+
+      const start = performance.now();
+      cursor = await this.db.openCursor(statement.sql.replace(/;\s*$/, ''), undefined, runOptions);
+      const page = await cursor.fetch(0, pageSize, options.signal);
+      if (!page.hasMore) {
+        await cursor.close();
+      }
+
+      return {
+        result: this.maskResult({
+          sql,
+          rows: page.rows,
+          rowCount: page.rows.length,
+          duration: Math.round((performance.now() - start) * 100) / 100,
+          columns: page.columns,
+          hasMore: page.hasMore,
+        }),
+        cursor: page.hasMore ? cursor : null,
+      };
+    } catch (error) {
+      await cursor?.close();
+      const msg =
+        error instanceof Error ? error.message : 'Erro desconhecido na query';
+      return {
+        result: { sql, rows: [], rowCount: 0, duration: 0, error: msg },
+        cursor: null,
+      };
+    }
   }
 
   setReadOnlyMode(enabled: boolean): void {
@@ -167,22 +360,306 @@ export class QueryExecutor {
     return this.readOnlyMode;
   }
 
-  private looksLikeSQL(text: string): boolean {
-    const upper = text.toUpperCase().trim();
-    const sqlStarters = [
-      'SELECT',
-      'INSERT',
-      'UPDATE',
-      'DELETE',
-      'CREATE',
-      'ALTER',
-      'DROP',
-      'TRUNCATE',
-      'WITH',
-      'EXPLAIN',
-      'BEGIN',
-    ];
-    return sqlStarters.some((kw) => upper.startsWith(kw));
+  /**
+   * EXPLAIN sem ANALYZE antes de executar: recusa statements cujo custo estimado
+   * passe do teto configurado na conexao.
+   */
+  private async checkCostCeiling(
+    classification: SqlClassification,
+    options: QueryOptions
+  ): Promise<ExecutionRefusal | null> {
+    const maxCost = this.db.getOptions().maxQueryCost;
+    if (!maxCost) return null;
+
+    for (const statement of classification.statements) {
+      if (!EXPLAINABLE_COMMANDS.has(statement.command)) continue;
+
+      const plan = await this.db.readOnlyQuery<{ 'QUERY PLAN': Array<{ Plan: { 'Total Cost': number } }> }>(
+        `EXPLAIN (FORMAT JSON) ${statement.sql}`,
+        undefined,
+        { signal: options.signal, searchPath: options.searchPath }
+      );
+      const totalCost = plan.rows[0]?.['QUERY PLAN']?.[0]?.Plan?.['Total Cost'] ?? 0;
+      if (totalCost > maxCost) {
+        return {
+          code: 'cost_ceiling',
+          message: `Custo estimado da query (${Math.round(totalCost)}) excede o limite configurado (${maxCost}). Consulta nao executada.`,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Confere tabelas, colunas e funcoes citadas contra a politica de acesso.
+   * Relacoes e funcoes sem schema sao resolvidas num unico client, com o
+   * search_path padrao da conexao (o mesmo fixado na execucao); views sao
+   * seguidas ate as relacoes e funcoes de que dependem.
+   */
+  private async checkAccess(classification: SqlClassification): Promise<ExecutionRefusal | null> {
+    const guard = this.accessGuard;
+    if (!guard) return null;
+
+    const refuse = (violation: AccessViolation): ExecutionRefusal => ({
+      code: 'access_policy',
+      message: formatAccessViolation(violation),
+    });
+
+    // O corpo de um DO e texto: nao ha como conferir o que ele le
+    if (classification.statements.some((s) => s.command === 'DO')) {
+      return refuse({ kind: 'function', object: 'DO (bloco anonimo)' });
+    }
+
+    const unqualified = new Set<string>();
+    const unqualifiedFunctions = new Set<string>();
+    const created = new Set<string>(); // citadas por DDL: podem ainda nao existir
+    for (const statement of classification.statements) {
+      for (const relation of statement.references.relations) {
+        if (relation.schema) continue;
+        unqualified.add(relation.name);
+        if (statement.kind === 'ddl') created.add(relation.name);
+      }
+      for (const fn of statement.references.functions) {
+        if (!fn.schema) unqualifiedFunctions.add(fn.name);
+      }
+    }
+
+    const schemas = new Map<string, string>();
+    const functionSchemas = new Map<string, string[]>();
+    const searchPath = await this.loadSearchPath();
+    await this.db.withRollback(async (query) => {
+      if (unqualified.size > 0) {
+        const result = await query(
+          `SELECT ref.name, n.nspname AS schema
+           FROM unnest($1::text[]) AS ref(name)
+           JOIN pg_catalog.pg_class c ON c.oid = to_regclass(quote_ident(ref.name))
+           JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace`,
+          [Array.from(unqualified)]
+        );
+        for (const row of result.rows) schemas.set(row.name as string, row.schema as string);
+      }
+
+      // Relacao criada pelo proprio DDL vai para o primeiro schema do search_path
+      const pending = Array.from(created).filter((name) => !schemas.has(name));
+      if (pending.length > 0) {
+        const result = await query('SELECT current_schema() AS schema');
+        const schema = result.rows[0]?.schema as string | null;
+        if (schema) for (const name of pending) schemas.set(name, schema);
+      }
+
+      if (unqualifiedFunctions.size > 0) {
+        const result = await query(
+          `SELECT DISTINCT p.proname AS name, n.nspname AS schema
+           FROM pg_catalog.pg_proc p
+           JOIN pg_catalog.pg_namespace n ON n.oid = p.pronamespace
+           WHERE p.proname = ANY($1::text[])
+             AND n.nspname = ANY(current_schemas(true))`,
+          [Array.from(unqualifiedFunctions, (name) => name.toLowerCase())]
+        );
+        for (const row of result.rows) {
+          const name = row.name as string;
+          functionSchemas.set(name, [...(functionSchemas.get(name) ?? []), row.schema as string]);
+        }
+      }
+    }, { searchPath });
+
+    const relations: Array<{ schema: string; name: string }> = [];
+    for (const statement of classification.statements) {
+      const violation = guard.checkReferences(
+        statement.references,
+        (name) => schemas.get(name) ?? null,
+        (name) => functionSchemas.get(name.toLowerCase()) ?? []
+      );
+      if (violation) return refuse(violation);
+
+      for (const relation of statement.references.relations) {
+        const schema = relation.schema ?? schemas.get(relation.name);
+        if (schema) relations.push({ schema, name: relation.name });
+      }
+    }
+
+    if (relations.length === 0) return null;
+    const dependencies = await this.readViewDependencies(relations);
+    const violation = guard.checkViewDependencies(dependencies);
+    return violation ? refuse(violation) : null;
+  }
+
+  /**
+   * Objetos lidos pelas views (e views materializadas) citadas, seguindo
+   * views aninhadas. Dependencias de coluna vem de pg_depend.refobjsubid.
+   */
+  private async readViewDependencies(
+    relations: Array<{ schema: string; name: string }>
+  ): Promise<ViewDependency[]> {
+    const result = await this.db.query<{
+      view: string;
+      kind: 'relation' | 'function';
+      schema: string;
+      name: string;
+      column: string | null;
+    }>(
+      `WITH RECURSIVE views(view, rel_oid) AS (
+         SELECT ref.schema || '.' || ref.name, c.oid
+         FROM unnest($1::text[], $2::text[]) AS ref(schema, name)
+         JOIN pg_catalog.pg_class c ON c.oid = to_regclass(quote_ident(ref.schema) || '.' || quote_ident(ref.name))
+         WHERE c.relkind IN ('v', 'm')
+         UNION
+         SELECT v.view, dep.refobjid
+         FROM views v
+         JOIN pg_catalog.pg_rewrite r ON r.ev_class = v.rel_oid
+         JOIN pg_catalog.pg_depend dep
+           ON dep.classid = 'pg_catalog.pg_rewrite'::regclass AND dep.objid = r.oid
+          AND dep.refclassid = 'pg_catalog.pg_class'::regclass AND dep.refobjid <> v.rel_oid
+       ),
+       deps AS (
+         SELECT v.view, dep.refclassid, dep.refobjid, dep.refobjsubid
+         FROM views v
+         JOIN pg_catalog.pg_rewrite r ON r.ev_class = v.rel_oid
+         JOIN pg_catalog.pg_depend dep ON dep.classid = 'pg_catalog.pg_rewrite'::regclass AND dep.objid = r.oid
+         WHERE dep.refobjid <> v.rel_oid
+       )
+       SELECT DISTINCT d.view, 'relation' AS kind, n.nspname AS schema, c.relname AS name, a.attname AS "column"
+       FROM deps d
+       JOIN pg_catalog.pg_class c ON d.refclassid = 'pg_catalog.pg_class'::regclass AND c.oid = d.refobjid
+       JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+       LEFT JOIN pg_catalog.pg_attribute a ON a.attrelid = c.oid AND a.attnum = d.refobjsubid AND d.refobjsubid > 0
+       UNION
+       SELECT DISTINCT d.view, 'function' AS kind, n.nspname AS schema, p.proname AS name, NULL AS "column"
+       FROM deps d
+       JOIN pg_catalog.pg_proc p ON d.refclassid = 'pg_catalog.pg_proc'::regclass AND p.oid = d.refobjid
+       JOIN pg_catalog.pg_namespace n ON n.oid = p.pronamespace`,
+      [relations.map((r) => r.schema), relations.map((r) => r.name)]
+    );
+    return result.rows;
+  }
+
+  private async previewStatement(
+    statement: StatementVerdict,
+    query: (sql: string, params?: unknown[]) => Promise<QueryResultData>
+  ): Promise<PreviewStatement> {
+    const relation = statement.relation ? quoteRelation(statement.relation) : null;
+    const body = statement.sql.replace(/;\s*$/, '');
+    const keyColumns =
+      relation && statement.command === 'UPDATE' ? await this.primaryKeyColumns(relation, query) : [];
+
+    if (keyColumns.length > 0 && !statement.hasReturning) {
+      await query('SAVEPOINT agentdb_preview');
+    }
+
+    const result = await query(statement.hasReturning ? body : `${body}\nRETURNING *`);
+    const sample = result.rows.slice(0, PREVIEW_SAMPLE_SIZE);
+
+    let before: Record<string, unknown>[] = [];
+    let after: Record<string, unknown>[] = sample;
+
+    if (statement.command === 'DELETE') {
+      before = sample;
+      after = [];
+    } else if (statement.command === 'UPDATE' && keyColumns.length > 0 && !statement.hasReturning) {
+      // Desfaz o UPDATE para ler os valores antigos pelas PKs e reaplica
+      // para que os statements seguintes vejam o mesmo estado
+      await query('ROLLBACK TO SAVEPOINT agentdb_preview');
+      if (sample.length > 0 && keyColumns.every((c) => c in sample[0])) {
+        const cols = keyColumns.map((c) => `"${c.replace(/"/g, '""')}"`).join(', ');
+        const params: unknown[] = [];
+        const tuples = sample.map((row) => {
+          const placeholders = keyColumns.map((c) => {
+            params.push(row[c]);
+            return `$${params.length}`;
+          });
+          return `(${placeholders.join(', ')})`;
+        });
+        const beforeResult = await query(
+          `SELECT * FROM ${relation} WHERE (${cols}) IN (${tuples.join(', ')})`,
+          params
+        );
+        // Alinha com a ordem da amostra; se a PK mudou nao ha como parear
+        const keyOf = (row: Record<string, unknown>) => JSON.stringify(keyColumns.map((c) => row[c]));
+        const byKey = new Map(beforeResult.rows.map((row) => [keyOf(row), row]));
+        const aligned = sample.map((row) => byKey.get(keyOf(row)));
+        before = aligned.every((row) => row !== undefined)
+          ? (aligned as Record<string, unknown>[])
+          : [];
+      }
+      await query(body);
+    }
+
+    return {
+      command: statement.command,
+      sql: statement.sql,
+      relation,
+      rowsAffected: result.rowCount,
+      keyColumns,
+      columns: result.columns ?? Object.keys(result.rows[0] || {}),
+      before,
+      after,
+    };
+  }
+
+  private async primaryKeyColumns(
+    relation: string,
+    query: (sql: string, params?: unknown[]) => Promise<QueryResultData>
+  ): Promise<string[]> {
+    try {
+      await query('SAVEPOINT agentdb_pk');
+      const result = await query(
+        `SELECT a.attname
+         FROM pg_index i
+         JOIN pg_attribute a ON a.attrelid = i.indrelid AND a.attnum = ANY(i.indkey)
+         WHERE i.indrelid = $1::regclass AND i.indisprimary`,
+        [relation]
+      );
+      await query('RELEASE SAVEPOINT agentdb_pk');
+      return result.rows.map((r) => r.attname as string);
+    } catch {
+      await query('ROLLBACK TO SAVEPOINT agentdb_pk');
+      return [];
+    }
+  }
+
+  /**
+   * search_path padrao da conexao (papel/banco), lido uma vez: SET na sessao
+   * nao muda o reset_val.
+   */
+  private loadSearchPath(): Promise<string> {
+    if (!this.searchPath) {
+      this.searchPath = this.db
+        .query<{ reset_val: string }>(`SELECT reset_val FROM pg_catalog.pg_settings WHERE name = 'search_path'`)
+        .then((result) => result.rows[0]?.reset_val ?? '"$user", public')
+        .catch((error: unknown) => {
+          this.searchPath = null;
+          throw error;
+        });
+    }
+    return this.searchPath;
+  }
+
+  /**
+   * Com politica ativa, a query roda com o search_path usado para resolver
+   * os nomes em `checkAccess`.
+   */
+  private async pinSearchPath(options: QueryOptions): Promise<QueryOptions> {
+    if (!this.accessGuard) return options;
+    return { ...options, searchPath: await this.loadSearchPath() };
+  }
+
+  private loadFunctionVolatility(): Promise<Map<string, boolean>> {
+    if (!this.functionVolatility) {
+      this.functionVolatility = this.db
+        .query<{ proname: string; non_volatile: boolean }>(
+          `SELECT proname, bool_and(provolatile <> 'v') AS non_volatile
+           FROM pg_catalog.pg_proc
+           GROUP BY proname`
+        )
+        .then((result) => new Map(result.rows.map((r) => [r.proname.toLowerCase(), r.non_volatile])))
+        .catch(() => {
+          // Sem catalogo, funcoes nao listadas ficam como 'unknown'
+          this.functionVolatility = null;
+          return new Map<string, boolean>();
+        });
+    }
+    return this.functionVolatility;
   }
 
   private getInvalidSQLReason(sql: string): string | null {
@@ -208,3 +685,14 @@ export class QueryExecutor {
     return null;
   }
 }
+
+// ─── Helpers ───
+
+function refusedResult(sql: string, refusal: ExecutionRefusal): ExecutionResult {
+  return { sql, rows: [], rowCount: 0, duration: 0, error: refusal.message, errorCode: refusal.code };
+}
+
+function quoteRelation(relation: { schema: string | null; name: string }): string {
+  const quote = (ident: string) => `"${ident.replace(/"/g, '""')}"`;
+  return relation.schema ? `${quote(relation.schema)}.${quote(relation.name)}` : quote(relation.name);
+}
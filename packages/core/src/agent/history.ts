@@ -0,0 +1,218 @@
+import { estimateTokens } from './context.js';
+import { getToolStringArgument } from './tools.js';
+import type { LLMMessage } from './llm.js';
+
+// ─── Interfaces ───
+
+type SummaryField = 'question' | 'table' | 'sql' | 'outcome' | 'answer';
+
+interface SummaryEntry {
+  field: SummaryField;
+  text: string;
+}
+
+// ─── Constantes ───
+
+export const DEFAULT_HISTORY_TOKEN_BUDGET = 12000;
+
+const SUMMARY_HEADER = '[Resumo da conversa anterior]';
+const SUMMARY_INTRO =
+  'Turnos antigos condensados. Tabelas e SQL executado estao na integra, com o resultado de cada consulta; ' +
+  'definicoes e filtros combinados aqui continuam valendo.';
+const SUMMARY_BUDGET_SHARE = 0.3; // fatia alvo do orcamento para o resumo fixado
+
+// O resumo fixado e relido a cada compactacao: cada linha e reconhecida pelo prefixo
+const FIELD_PREFIXES: Record<SummaryField, string> = {
+  question: 'Usuario: ',
+  table: 'Tabela consultada: ',
+  sql: 'SQL executado: ',
+  outcome: '  -> ',
+  answer: 'Resposta: ',
+};
+
+/**
+ * Limite de caracteres de cada campo por nivel de compressao (null = campo
+ * removido). Tabelas e SQL nunca encolhem: sao os fatos de que os turnos
+ * seguintes dependem. So a prosa (pergunta e resposta) e a amostra encolhem.
+ */
+const SHRINK_LEVELS: Array<Record<SummaryField, number | null>> = [
+  { question: 1000, table: Infinity, sql: Infinity, outcome: 300, answer: 600 },
+  { question: 300, table: Infinity, sql: Infinity, outcome: 160, answer: 160 },
+  { question: 120, table: Infinity, sql: Infinity, outcome: 80, answer: null },
+];
+
+// ─── Helpers ───
+
+function messageTokens(message: LLMMessage): number {
+  const calls = message.toolCalls?.length ? JSON.stringify(message.toolCalls) : '';
+  return estimateTokens(message.content) + estimateTokens(calls);
+}
+
+function turnTokens(turn: LLMMessage[]): number {
+  return turn.reduce((sum, message) => sum + messageTokens(message), 0);
+}
+
+// Linhas em branco separam os blocos do resumo; dentro de um bloco viram quebra simples
+function flatten(text: string): string {
+  return text.trim().replace(/\n\s*\n/g, '\n');
+}
+
+function clip(text: string, max: number): string {
+  const flat = flatten(text);
+  return flat.length > max ? `${flat.slice(0, max).trimEnd()}...` : flat;
+}
+
+/**
+ * Um turno comeca em cada mensagem do usuario. Cortar so entre turnos
+ * garante que nenhuma chamada de ferramenta fique sem o seu resultado.
+ */
+function splitTurns(messages: LLMMessage[]): LLMMessage[][] {
+  const turns: LLMMessage[][] = [];
+  for (const message of messages) {
+    if (message.role === 'user' || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+  return turns;
+}
+
+/**
+ * Resultado de run_sql em uma linha: resumo (linhas, tempo) e amostra,
+ * sem as instrucoes de continuacao que o servidor anexa.
+ */
+function describeOutcome(content: string): string {
+  const lines = content.trim().split('\n');
+  const sample = lines.find((line) => line.startsWith('Amostra'));
+  return sample && sample !== lines[0] ? `${lines[0]} ${sample}` : lines[0];
+}
+
+function condenseTurn(turn: LLMMessage[]): SummaryEntry[] {
+  const outcomes = new Map<string, string>();
+  for (const message of turn) {
+    if (message.role === 'tool' && message.toolCallId) {
+      outcomes.set(message.toolCallId, describeOutcome(message.content));
+    }
+  }
+
+  const entries: SummaryEntry[] = [];
+  let answer = '';
+  for (const message of turn) {
+    if (message.role === 'user' && message.content.trim()) {
+      entries.push({ field: 'question', text: flatten(message.content) });
+    }
+    if (message.role !== 'assistant') continue;
+
+    for (const call of message.toolCalls ?? []) {
+      const table = getToolStringArgument(call, 'table');
+      if (call.name === 'describe_table' && table) {
+        entries.push({ field: 'table', text: table });
+        continue;
+      }
+      const sql = getToolStringArgument(call, 'sql');
+      if (!sql) continue;
+      entries.push({ field: 'sql', text: flatten(sql) });
+      const outcome = outcomes.get(call.id);
+      if (outcome) entries.push({ field: 'outcome', text: outcome });
+    }
+    if (message.content.trim()) answer = message.content;
+  }
+
+  if (answer) entries.push({ field: 'answer', text: flatten(answer) });
+  return entries;
+}
+
+/**
+ * Le de volta um bloco do resumo fixado. Linhas sem prefixo continuam o
+ * campo anterior (SQL e perguntas podem ter varias linhas).
+ */
+function parseBlock(block: string): SummaryEntry[] {
+  const entries: SummaryEntry[] = [];
+  const fields = Object.entries(FIELD_PREFIXES) as Array<[SummaryField, string]>;
+  for (const line of block.split('\n')) {
+    const match = fields.find(([, prefix]) => line.startsWith(prefix));
+    if (match) {
+      entries.push({ field: match[0], text: line.slice(match[1].length) });
+    } else if (entries.length > 0) {
+      entries[entries.length - 1].text += `\n${line}`;
+    }
+  }
+  return entries;
+}
+
+function renderBlock(entries: SummaryEntry[], level: number): string {
+  const limits = SHRINK_LEVELS[level];
+  const lines: string[] = [];
+  for (const entry of entries) {
+    const max = limits[entry.field];
+    if (max === null) continue;
+    lines.push(`${FIELD_PREFIXES[entry.field]}${clip(entry.text, max)}`);
+  }
+  return lines.join('\n');
+}
+
+function renderSummary(blocks: string[]): string {
+  return [`${SUMMARY_HEADER}\n${SUMMARY_INTRO}`, ...blocks].join('\n\n');
+}
+
+/**
+ * Encolhe a prosa dos blocos mais antigos primeiro, um nivel por vez, ate o
+ * resumo caber em `budget`. Nenhum bloco e descartado: se nem no ultimo nivel
+ * couber, o resumo passa da sua fatia e sobra menos para os turnos recentes.
+ */
+function fitSummary(blocks: SummaryEntry[][], budget: number): string {
+  const levels = blocks.map(() => 0);
+  const render = (): string => renderSummary(blocks.map((entries, i) => renderBlock(entries, levels[i])));
+
+  let summary = render();
+  while (estimateTokens(summary) > budget) {
+    const oldest = levels.findIndex((level) => level < SHRINK_LEVELS.length - 1);
+    if (oldest === -1) break;
+    levels[oldest] += 1;
+    summary = render();
+  }
+  return summary;
+}
+
+// ─── Funções exportadas ───
+
+export function isHistorySummary(message: LLMMessage | undefined): boolean {
+  return message?.role === 'user' && message.content.startsWith(SUMMARY_HEADER);
+}
+
+/**
+ * Mantem o historico dentro de `tokenBudget`: os turnos mais recentes ficam
+ * inteiros e os antigos sao condensados num resumo fixado no inicio (uma
+ * mensagem do usuario). O resumo e cumulativo e guarda tabelas, SQL e
+ * resultados de todos os turnos; para caber na sua fatia, so a prosa encolhe.
+ * O turno atual nunca e condensado, mesmo que sozinho passe do orcamento.
+ */
+export function compactHistory(messages: LLMMessage[], tokenBudget: number): LLMMessage[] {
+  const total = messages.reduce((sum, message) => sum + messageTokens(message), 0);
+  if (total <= tokenBudget) return messages;
+
+  const pinned = isHistorySummary(messages[0]) ? messages[0] : null;
+  const turns = splitTurns(pinned ? messages.slice(1) : messages);
+  const summaryBudget = Math.floor(tokenBudget * SUMMARY_BUDGET_SHARE);
+  const recentBudget = tokenBudget - summaryBudget;
+
+  let start = turns.length;
+  let used = 0;
+  while (start > 0) {
+    const cost = turnTokens(turns[start - 1]);
+    if (start < turns.length && used + cost > recentBudget) break;
+    used += cost;
+    start--;
+  }
+  if (start === 0) return messages;
+
+  const blocks = [
+    ...(pinned ? pinned.content.split('\n\n').slice(1).map(parseBlock) : []),
+    ...turns.slice(0, start).map(condenseTurn),
+  ].filter((entries) => entries.length > 0);
+
+  const recent = turns.slice(start).flat();
+  if (blocks.length === 0) return recent;
+  return [{ role: 'user', content: fitSummary(blocks, summaryBudget) }, ...recent];
+}
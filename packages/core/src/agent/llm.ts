@@ -1,18 +1,54 @@
+import * as http from 'http';
 import * as https from 'https';
 import { spawn } from 'child_process';
 import type { IncomingHttpHeaders, IncomingMessage } from 'http';
 import type { IAuthProvider } from '../auth/oauth.js';
+import { LocalLLMAuth } from '../auth/local-llm.js';
+import { ApiKeyAuth } from '../auth/api-key.js';
+import { ReplayLLMAuth, appendLLMFixtureTurn, getLLMRecordFile } from '../auth/replay-llm.js';
+import type { LLMFixture, LLMFixtureTurn } from '../auth/replay-llm.js';
 import { getAuth } from '../utils/config.js';
+import { compactHistory, DEFAULT_HISTORY_TOKEN_BUDGET } from './history.js';
 
 // ─── Interfaces ───
 
 export interface LLMMessage {
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
+  toolCalls?: LLMToolCall[]; // assistant: chamadas de ferramenta emitidas
+  toolCallId?: string; // tool: chamada a que este resultado responde
+}
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema dos argumentos
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface LLMToolResult {
+  toolCallId: string;
+  content: string;
+}
+
+export interface LLMChatOptions {
+  tools?: LLMToolDefinition[];
+  toolChoice?: 'auto' | 'none';
+  onDelta?: (text: string) => void;
+}
+
+export interface LLMClientOptions {
+  historyTokenBudget?: number; // teto do historico enviado; padrao AGENTDB_HISTORY_TOKENS ou 12000
 }
 
 export interface LLMResponse {
   content: string;
+  toolCalls: LLMToolCall[];
   tokensUsed: {
     prompt: number;
     completion: number;
@@ -23,71 +59,38 @@ export interface LLMResponse {
 // ─── Helpers ───
 
 /**
- * Makes an HTTPS request and buffers the entire response (used by Anthropic).
- */
-function httpsRequest(
-  url: string,
-  options: https.RequestOptions,
-  body: string
-): Promise<{ statusCode: number; data: string; headers: IncomingHttpHeaders }> {
-  return new Promise((resolve, reject) => {
-    const urlObj = new URL(url);
-    const reqOptions: https.RequestOptions = {
-      ...options,
-      hostname: urlObj.hostname,
-      port: urlObj.port || 443,
-      path: urlObj.pathname + urlObj.search,
-      timeout: 120000,
-    };
-
-    const req = https.request(reqOptions, (res) => {
-      let data = '';
-      res.on('data', (chunk: Buffer) => {
-        data += chunk.toString();
-      });
-      res.on('end', () => {
-        resolve({ statusCode: res.statusCode ?? 0, data, headers: res.headers });
-      });
-    });
-
-    req.on('error', reject);
-    req.on('timeout', () => {
-      req.destroy();
-      reject(new Error('Timeout na chamada ao LLM (120s)'));
-    });
-
-    req.write(body);
-    req.end();
-  });
-}
-
-/**
- * Makes an HTTPS request and returns the raw response stream.
+ * Makes an HTTP(S) request and returns the raw response stream.
  * Does NOT buffer the response — caller handles the stream.
+ * Plain http is only used by local providers (Ollama etc.).
  */
-function httpsRequestRaw(
+function requestRaw(
   url: string,
   options: https.RequestOptions,
-  body: string
+  body: string,
+  timeoutMs = 120000
 ): Promise<{ statusCode: number; stream: IncomingMessage; headers: IncomingHttpHeaders }> {
   return new Promise((resolve, reject) => {
     const urlObj = new URL(url);
+    const isPlainHttp = urlObj.protocol === 'http:';
     const reqOptions: https.RequestOptions = {
       ...options,
       hostname: urlObj.hostname,
-      port: urlObj.port || 443,
+      port: urlObj.port || (isPlainHttp ? 80 : 443),
       path: urlObj.pathname + urlObj.search,
-      timeout: 120000,
+      timeout: timeoutMs,
     };
 
-    const req = https.request(reqOptions, (res) => {
+    const onResponse = (res: IncomingMessage) => {
       resolve({ statusCode: res.statusCode ?? 0, stream: res, headers: res.headers });
-    });
+    };
+    const req = isPlainHttp
+      ? http.request(reqOptions, onResponse)
+      : https.request(reqOptions, onResponse);
 
     req.on('error', reject);
     req.on('timeout', () => {
       req.destroy();
-      reject(new Error('Timeout na chamada ao LLM (120s)'));
+      reject(new Error(`Timeout na chamada ao LLM (${Math.round(timeoutMs / 1000)}s)`));
     });
 
     req.write(body);
@@ -114,17 +117,45 @@ function readBody(stream: IncomingMessage, maxBytes = 8192): Promise<string> {
 }
 
 /**
- * Parse SSE stream incrementally — only accumulates text content.
+ * Tool arguments arrive as a JSON string (OpenAI) or an object (Anthropic).
+ */
+function parseToolArguments(raw: unknown): Record<string, unknown> {
+  if (raw && typeof raw === 'object' && !Array.isArray(raw)) {
+    return raw as Record<string, unknown>;
+  }
+  if (typeof raw === 'string' && raw.trim()) {
+    try {
+      const parsed = JSON.parse(raw) as unknown;
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed as Record<string, unknown>;
+      }
+    } catch {
+      // Argumentos malformados viram objeto vazio; o dispatcher reporta o erro
+    }
+  }
+  return {};
+}
+
+function toToolCall(item: Record<string, unknown>): LLMToolCall | null {
+  const id = (item.call_id ?? item.id) as string | undefined;
+  const name = item.name as string | undefined;
+  if (!id || !name) return null;
+  return { id, name, arguments: parseToolArguments(item.arguments) };
+}
+
+/**
+ * Parse SSE stream incrementally — only accumulates text content and function calls.
  * Reasoning tokens and other large payloads are discarded immediately.
  */
 function parseSSEStream(
   stream: IncomingMessage,
   onDelta?: (text: string) => void
-): Promise<{ content: string; usage: { input: number; output: number; total: number } }> {
+): Promise<{ content: string; toolCalls: LLMToolCall[]; usage: { input: number; output: number; total: number } }> {
   return new Promise((resolve, reject) => {
     let content = '';
     let usage = { input: 0, output: 0, total: 0 };
     let buffer = '';
+    const toolCalls = new Map<string, LLMToolCall>();
 
     stream.on('data', (chunk: Buffer) => {
       buffer += chunk.toString();
@@ -149,6 +180,15 @@ function parseSSEStream(
             if (onDelta) onDelta(event.delta);
           }
 
+          // Function calls are complete once their output item is done
+          if (eventType === 'response.output_item.done') {
+            const item = event.item as Record<string, unknown> | undefined;
+            if (item?.type === 'function_call') {
+              const call = toToolCall(item);
+              if (call) toolCalls.set(call.id, call);
+            }
+          }
+
           // On response.completed, extract final text and usage (overrides deltas)
           if (eventType === 'response.completed' || eventType === 'response.done') {
             const response = event.response as Record<string, unknown> | undefined;
@@ -157,6 +197,10 @@ function parseSSEStream(
               const output = response.output as Array<Record<string, unknown>> | undefined;
               if (output) {
                 for (const item of output) {
+                  if (item.type === 'function_call') {
+                    const call = toToolCall(item);
+                    if (call) toolCalls.set(call.id, call);
+                  }
                   if (item.type === 'message' && item.role === 'assistant') {
                     const contentArr = item.content as Array<Record<string, unknown>> | undefined;
                     if (contentArr) {
@@ -189,7 +233,7 @@ function parseSSEStream(
     });
 
     stream.on('end', () => {
-      resolve({ content, usage });
+      resolve({ content, toolCalls: Array.from(toolCalls.values()), usage });
     });
 
     stream.on('error', (err) => {
@@ -203,6 +247,13 @@ function parseSSEStream(
 const CHATGPT_BASE_URL = 'https://chatgpt.com/backend-api';
 const CODEX_RESPONSES_PATH = '/codex/responses';
 
+// ─── Constantes OpenAI Platform (API key) ───
+
+const OPENAI_RESPONSES_URL = 'https://api.openai.com/v1/responses';
+const DEFAULT_OPENAI_API_MODEL = 'gpt-5';
+// Apenas modelos de raciocinio aceitam o parametro "reasoning"
+const OPENAI_REASONING_PATTERN = /^(o\d|gpt-5)/;
+
 // ─── Constantes Anthropic ───
 
 const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
@@ -210,7 +261,6 @@ const DEFAULT_ANTHROPIC_MODEL = 'claude-sonnet-4-6';
 
 // ─── Classe ───
 
-const MAX_HISTORY_MESSAGES = 20;
 const DEFAULT_MODEL = 'gpt-5-codex';
 const OPENAI_CODEX_AUTH_MODELS = new Set(['gpt-5-codex', 'gpt-5']);
 
@@ -232,48 +282,172 @@ function resolveOpenAICodexModel(model: string): string {
 
 // ─── Responses API Helpers ───
 
-interface ResponsesInputItem {
-  type: 'message';
-  role: 'user' | 'assistant' | 'developer';
-  content: { type: string; text: string }[];
-}
+type ResponsesInputItem =
+  | {
+      type: 'message';
+      role: 'user' | 'assistant' | 'developer';
+      content: { type: string; text: string }[];
+    }
+  | { type: 'function_call'; call_id: string; name: string; arguments: string }
+  | { type: 'function_call_output'; call_id: string; output: string };
 
 function convertToResponsesInput(messages: LLMMessage[]): ResponsesInputItem[] {
   const input: ResponsesInputItem[] = [];
   for (const msg of messages) {
     if (msg.role === 'system') continue;
-    input.push({
-      type: 'message',
-      role: msg.role === 'user' ? 'user' : 'assistant',
-      content: [{
-        type: msg.role === 'assistant' ? 'output_text' : 'input_text',
-        text: msg.content,
-      }],
-    });
+
+    if (msg.role === 'tool') {
+      input.push({
+        type: 'function_call_output',
+        call_id: msg.toolCallId ?? '',
+        output: msg.content,
+      });
+      continue;
+    }
+
+    if (msg.content || !msg.toolCalls?.length) {
+      input.push({
+        type: 'message',
+        role: msg.role === 'user' ? 'user' : 'assistant',
+        content: [{
+          type: msg.role === 'assistant' ? 'output_text' : 'input_text',
+          text: msg.content,
+        }],
+      });
+    }
+
+    for (const call of msg.toolCalls ?? []) {
+      input.push({
+        type: 'function_call',
+        call_id: call.id,
+        name: call.name,
+        arguments: JSON.stringify(call.arguments),
+      });
+    }
   }
   return input;
 }
 
+function convertToResponsesTools(options: LLMChatOptions): Record<string, unknown> {
+  if (!options.tools?.length) return {};
+  return {
+    tools: options.tools.map(t => ({
+      type: 'function',
+      name: t.name,
+      description: t.description,
+      parameters: t.parameters,
+      strict: false,
+    })),
+    tool_choice: options.toolChoice ?? 'auto',
+  };
+}
+
+// ─── Anthropic Messages Helpers ───
+
+type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; tool_use_id: string; content: string; is_error?: boolean };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicContentBlock[];
+}
+
+/**
+ * Tool results travel as user turns in the Messages API, so consecutive
+ * tool/user messages are merged into one turn (tool_result blocks first).
+ */
+function convertToAnthropicMessages(messages: LLMMessage[]): AnthropicMessage[] {
+  const result: AnthropicMessage[] = [];
+  for (const msg of messages) {
+    const role = msg.role === 'assistant' ? 'assistant' : 'user';
+    const blocks: AnthropicContentBlock[] = [];
+
+    if (msg.role === 'tool') {
+      blocks.push({ type: 'tool_result', tool_use_id: msg.toolCallId ?? '', content: msg.content });
+    } else {
+      if (msg.content) {
+        blocks.push({ type: 'text', text: msg.content });
+      }
+      for (const call of msg.toolCalls ?? []) {
+        blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
+      }
+    }
+
+    if (blocks.length === 0) continue;
+
+    const last = result[result.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      result.push({ role, content: blocks });
+    }
+  }
+  return result;
+}
+
+function convertToAnthropicTools(options: LLMChatOptions): Record<string, unknown> {
+  if (!options.tools?.length) return {};
+  return {
+    tools: options.tools.map(t => ({
+      name: t.name,
+      description: t.description,
+      input_schema: t.parameters,
+    })),
+    tool_choice: { type: options.toolChoice ?? 'auto' },
+  };
+}
+
 // ─── Anthropic SSE Parser ───
 
-function extractTextFromAnthropicSSE(sseData: string): { content: string; usage: { input: number; output: number; total: number } } {
+/**
+ * Reads the Anthropic SSE stream incrementally, forwarding text deltas as they
+ * arrive. A plain JSON body (non-streaming response) is still accepted.
+ */
+async function parseAnthropicStream(
+  stream: IncomingMessage,
+  onDelta?: (text: string) => void
+): Promise<{ content: string; toolCalls: LLMToolCall[]; usage: { input: number; output: number; total: number } }> {
   let content = '';
-  let usage = { input: 0, output: 0, total: 0 };
+  let plainBody = '';
+  const usage = { input: 0, output: 0, total: 0 };
+  const toolBlocks = new Map<number, { id: string; name: string; json: string }>();
 
-  for (const line of sseData.split('\n')) {
-    if (!line.startsWith('data: ')) continue;
-    const jsonStr = line.substring(6).trim();
-    if (!jsonStr || jsonStr === '[DONE]') continue;
+  await readStreamLines(stream, (line) => {
+    if (!line.startsWith('data:')) {
+      if (!line.startsWith('event:')) plainBody += line;
+      return;
+    }
+    const jsonStr = line.substring(5).trim();
+    if (!jsonStr || jsonStr === '[DONE]') return;
 
     try {
       const event = JSON.parse(jsonStr) as Record<string, unknown>;
       const eventType = event.type as string | undefined;
 
-      // content_block_delta - streaming text
+      // content_block_start - tool_use blocks carry id and name up front
+      if (eventType === 'content_block_start') {
+        const block = event.content_block as Record<string, unknown> | undefined;
+        if (block?.type === 'tool_use' && typeof event.index === 'number') {
+          toolBlocks.set(event.index, {
+            id: block.id as string,
+            name: block.name as string,
+            json: '',
+          });
+        }
+      }
+
+      // content_block_delta - streaming text and tool input JSON
       if (eventType === 'content_block_delta') {
         const delta = event.delta as Record<string, unknown> | undefined;
         if (delta?.type === 'text_delta' && typeof delta.text === 'string') {
           content += delta.text;
+          if (onDelta) onDelta(delta.text);
+        }
+        if (delta?.type === 'input_json_delta' && typeof delta.partial_json === 'string') {
+          const block = toolBlocks.get(event.index as number);
+          if (block) block.json += delta.partial_json;
         }
       }
 
@@ -296,18 +470,29 @@ function extractTextFromAnthropicSSE(sseData: string): { content: string; usage:
     } catch {
       // ignore
     }
-  }
+  });
+
+  const toolCalls: LLMToolCall[] = Array.from(toolBlocks.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, block]) => ({ id: block.id, name: block.name, arguments: parseToolArguments(block.json) }));
 
   // If no streaming content found, try non-streaming response format
-  if (!content) {
+  if (!content && toolCalls.length === 0 && plainBody) {
     try {
-      const parsed = JSON.parse(sseData) as Record<string, unknown>;
+      const parsed = JSON.parse(plainBody) as Record<string, unknown>;
       const contentArr = parsed.content as Array<Record<string, unknown>> | undefined;
       if (contentArr) {
         for (const block of contentArr) {
           if (block.type === 'text' && typeof block.text === 'string') {
             content += block.text;
           }
+          if (block.type === 'tool_use') {
+            toolCalls.push({
+              id: block.id as string,
+              name: block.name as string,
+              arguments: parseToolArguments(block.input),
+            });
+          }
         }
       }
       const msgUsage = parsed.usage as Record<string, number> | undefined;
@@ -321,7 +506,254 @@ function extractTextFromAnthropicSSE(sseData: string): { content: string; usage:
   }
 
   usage.total = usage.input + usage.output;
-  return { content, usage };
+  return { content, toolCalls, usage };
+}
+
+// ─── Local Providers (Ollama / OpenAI-compatible) ───
+
+const DEFAULT_LOCAL_MODEL = 'llama3.1';
+// Modelos locais podem levar minutos para carregar na primeira chamada
+const LOCAL_REQUEST_TIMEOUT_MS = 300000;
+
+type LocalStreamResult = {
+  content: string;
+  toolCalls: LLMToolCall[];
+  usage: { input: number; output: number; total: number };
+};
+
+function convertToLocalTools(options: LLMChatOptions): Record<string, unknown>[] | undefined {
+  if (!options.tools?.length || options.toolChoice === 'none') return undefined;
+  return options.tools.map(t => ({
+    type: 'function',
+    function: {
+      name: t.name,
+      description: t.description,
+      parameters: t.parameters,
+    },
+  }));
+}
+
+/**
+ * Chat Completions format: tool calls carry ids and JSON-string arguments.
+ */
+function convertToChatCompletionsMessages(
+  systemPrompt: string,
+  messages: LLMMessage[]
+): Record<string, unknown>[] {
+  const result: Record<string, unknown>[] = [];
+  if (systemPrompt) {
+    result.push({ role: 'system', content: systemPrompt });
+  }
+
+  for (const msg of messages) {
+    if (msg.role === 'system') continue;
+
+    if (msg.role === 'tool') {
+      result.push({ role: 'tool', tool_call_id: msg.toolCallId ?? '', content: msg.content });
+      continue;
+    }
+
+    if (msg.role === 'assistant' && msg.toolCalls?.length) {
+      result.push({
+        role: 'assistant',
+        content: msg.content || null,
+        tool_calls: msg.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      });
+      continue;
+    }
+
+    result.push({ role: msg.role, content: msg.content });
+  }
+  return result;
+}
+
+/**
+ * Ollama format: tool calls have no ids, results are matched by tool name.
+ */
+function convertToOllamaMessages(
+  systemPrompt: string,
+  messages: LLMMessage[]
+): Record<string, unknown>[] {
+  const result: Record<string, unknown>[] = [];
+  const toolNames = new Map<string, string>();
+  if (systemPrompt) {
+    result.push({ role: 'system', content: systemPrompt });
+  }
+
+  for (const msg of messages) {
+    if (msg.role === 'system') continue;
+
+    if (msg.role === 'tool') {
+      result.push({
+        role: 'tool',
+        content: msg.content,
+        tool_name: toolNames.get(msg.toolCallId ?? '') ?? '',
+      });
+      continue;
+    }
+
+    const entry: Record<string, unknown> = { role: msg.role, content: msg.content };
+    if (msg.toolCalls?.length) {
+      for (const call of msg.toolCalls) toolNames.set(call.id, call.name);
+      entry.tool_calls = msg.toolCalls.map(call => ({
+        function: { name: call.name, arguments: call.arguments },
+      }));
+    }
+    result.push(entry);
+  }
+  return result;
+}
+
+/**
+ * Reads a stream line by line; shared by SSE (Chat Completions) and NDJSON (Ollama).
+ */
+function readStreamLines(
+  stream: IncomingMessage,
+  onLine: (line: string) => void
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let buffer = '';
+    stream.on('data', (chunk: Buffer) => {
+      buffer += chunk.toString();
+      let newlineIdx: number;
+      while ((newlineIdx = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.substring(0, newlineIdx).trim();
+        buffer = buffer.substring(newlineIdx + 1);
+        if (line) onLine(line);
+      }
+    });
+    stream.on('end', () => {
+      if (buffer.trim()) onLine(buffer.trim());
+      resolve();
+    });
+    stream.on('error', reject);
+  });
+}
+
+async function parseChatCompletionsStream(
+  stream: IncomingMessage,
+  onDelta?: (text: string) => void
+): Promise<LocalStreamResult> {
+  let content = '';
+  const usage = { input: 0, output: 0, total: 0 };
+  // Tool call fragments arrive keyed by index; id and name only on the first fragment
+  const partialCalls = new Map<number, { id: string; name: string; args: string }>();
+
+  await readStreamLines(stream, (line) => {
+    if (!line.startsWith('data:')) return;
+    const jsonStr = line.substring(5).trim();
+    if (!jsonStr || jsonStr === '[DONE]') return;
+
+    try {
+      const event = JSON.parse(jsonStr) as {
+        choices?: Array<{
+          delta?: {
+            content?: string | null;
+            tool_calls?: Array<{ index?: number; id?: string; function?: { name?: string; arguments?: string } }>;
+          };
+        }>;
+        usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+      };
+
+      const delta = event.choices?.[0]?.delta;
+      if (typeof delta?.content === 'string' && delta.content) {
+        content += delta.content;
+        if (onDelta) onDelta(delta.content);
+      }
+
+      for (const fragment of delta?.tool_calls ?? []) {
+        const index = fragment.index ?? 0;
+        const partial = partialCalls.get(index) ?? { id: '', name: '', args: '' };
+        if (fragment.id) partial.id = fragment.id;
+        if (fragment.function?.name) partial.name += fragment.function.name;
+        if (fragment.function?.arguments) partial.args += fragment.function.arguments;
+        partialCalls.set(index, partial);
+      }
+
+      if (event.usage) {
+        usage.input = event.usage.prompt_tokens ?? 0;
+        usage.output = event.usage.completion_tokens ?? 0;
+        usage.total = event.usage.total_tokens ?? usage.input + usage.output;
+      }
+    } catch {
+      // Ignore malformed SSE lines
+    }
+  });
+
+  const toolCalls: LLMToolCall[] = [];
+  for (const [index, partial] of partialCalls) {
+    if (!partial.name) continue;
+    toolCalls.push({
+      id: partial.id || `call_${Date.now()}_${index}`,
+      name: partial.name,
+      arguments: parseToolArguments(partial.args),
+    });
+  }
+
+  return { content, toolCalls, usage };
+}
+
+async function parseOllamaStream(
+  stream: IncomingMessage,
+  onDelta?: (text: string) => void
+): Promise<LocalStreamResult> {
+  let content = '';
+  const usage = { input: 0, output: 0, total: 0 };
+  const toolCalls: LLMToolCall[] = [];
+  let streamError: string | null = null;
+
+  await readStreamLines(stream, (line) => {
+    try {
+      const event = JSON.parse(line) as {
+        message?: {
+          content?: string;
+          tool_calls?: Array<{ function?: { name?: string; arguments?: unknown } }>;
+        };
+        done?: boolean;
+        error?: string;
+        prompt_eval_count?: number;
+        eval_count?: number;
+      };
+
+      if (event.error) {
+        streamError = event.error;
+        return;
+      }
+
+      const text = event.message?.content;
+      if (text) {
+        content += text;
+        if (onDelta) onDelta(text);
+      }
+
+      for (const call of event.message?.tool_calls ?? []) {
+        if (!call.function?.name) continue;
+        toolCalls.push({
+          id: `call_${Date.now()}_${toolCalls.length}`,
+          name: call.function.name,
+          arguments: parseToolArguments(call.function.arguments),
+        });
+      }
+
+      if (event.done) {
+        usage.input = event.prompt_eval_count ?? 0;
+        usage.output = event.eval_count ?? 0;
+        usage.total = usage.input + usage.output;
+      }
+    } catch {
+      // Ignore malformed NDJSON lines
+    }
+  });
+
+  if (streamError) {
+    throw new Error(`Erro no Ollama: ${streamError}`);
+  }
+
+  return { content, toolCalls, usage };
 }
 
 export class LLMClient {
@@ -329,9 +761,13 @@ export class LLMClient {
   private conversationHistory: LLMMessage[] = [];
   private systemPrompt: string = '';
   private modelOverride: string | null = null;
+  private replayCursor = 0;
+  private historyTokenBudget: number;
 
-  constructor(auth: IAuthProvider) {
+  constructor(auth: IAuthProvider, options: LLMClientOptions = {}) {
     this.auth = auth;
+    this.historyTokenBudget = options.historyTokenBudget
+      ?? (Number(process.env.AGENTDB_HISTORY_TOKENS) || DEFAULT_HISTORY_TOKEN_BUDGET);
   }
 
   setSystemPrompt(prompt: string): void {
@@ -339,28 +775,73 @@ export class LLMClient {
   }
 
   setModel(model: string): void {
-    if (this.auth.getProvider() === 'openai') {
+    if (this.auth.getProvider() === 'openai' && !this.usesApiKey()) {
       this.modelOverride = resolveOpenAICodexModel(model);
       return;
     }
     this.modelOverride = model;
   }
 
+  getProvider(): 'openai' | 'anthropic' | 'ollama' {
+    return this.auth.getProvider();
+  }
+
+  setHistoryTokenBudget(tokens: number): void {
+    this.historyTokenBudget = tokens;
+  }
+
+  getHistoryTokenBudget(): number {
+    return this.historyTokenBudget;
+  }
+
   getModel(): string {
+    if (this.auth instanceof ReplayLLMAuth) {
+      return this.modelOverride || this.auth.getModel();
+    }
     const provider = this.auth.getProvider();
+    if (provider === 'ollama') {
+      return this.modelOverride || process.env.OLLAMA_MODEL || getAuth()?.model || DEFAULT_LOCAL_MODEL;
+    }
     if (provider === 'anthropic') {
       if (this.modelOverride) return this.modelOverride;
       return process.env.ANTHROPIC_MODEL || getAuth()?.model || DEFAULT_ANTHROPIC_MODEL;
     }
+    if (this.usesApiKey()) {
+      return this.modelOverride || process.env.OPENAI_MODEL || getAuth()?.model || DEFAULT_OPENAI_API_MODEL;
+    }
 
     const configured = this.modelOverride || process.env.OPENAI_MODEL || getAuth()?.model || DEFAULT_MODEL;
     return resolveOpenAICodexModel(configured);
   }
 
-  async chat(userMessage: string, onDelta?: (text: string) => void): Promise<LLMResponse> {
+  async chat(userMessage: string, options: LLMChatOptions = {}): Promise<LLMResponse> {
+    this.closePendingToolCalls();
     this.conversationHistory.push({ role: 'user', content: userMessage });
     this.trimHistory();
-    return this.doChat(false, onDelta);
+    return this.runChat(options);
+  }
+
+  /**
+   * Answers the tool calls of the last assistant turn and lets the model continue.
+   * An optional follow-up is sent as a user message right after the results.
+   */
+  async submitToolResults(
+    results: LLMToolResult[],
+    options: LLMChatOptions = {},
+    followUp?: string
+  ): Promise<LLMResponse> {
+    for (const result of results) {
+      this.conversationHistory.push({
+        role: 'tool',
+        content: result.content,
+        toolCallId: result.toolCallId,
+      });
+    }
+    if (followUp) {
+      this.conversationHistory.push({ role: 'user', content: followUp });
+    }
+    this.trimHistory();
+    return this.runChat(options);
   }
 
   clearHistory(): void {
@@ -371,7 +852,16 @@ export class LLMClient {
     return [...this.conversationHistory];
   }
 
+  /**
+   * Restaura o historico de uma conversa salva para retoma-la.
+   */
+  setHistory(messages: LLMMessage[]): void {
+    this.conversationHistory = [...messages];
+    this.trimHistory();
+  }
+
   addToHistory(message: LLMMessage): void {
+    if (message.role !== 'tool') this.closePendingToolCalls();
     this.conversationHistory.push(message);
     this.trimHistory();
   }
@@ -380,7 +870,7 @@ export class LLMClient {
     const cmd = process.env.CODEX_CLI_CMD || 'codex';
 
     const prompt = messages.map(m => {
-      const roleMap: Record<string, string> = { system: 'System', user: 'User', assistant: 'Assistant' };
+      const roleMap: Record<string, string> = { system: 'System', user: 'User', assistant: 'Assistant', tool: 'Tool' };
       return `${roleMap[m.role] || m.role}: ${m.content}`;
     }).join('\n\n') + '\n\nAssistant:';
 
@@ -423,6 +913,7 @@ export class LLMClient {
 
         resolve({
           content: cleanOutput || 'Sem resposta do Codex CLI.',
+          toolCalls: [],
           tokensUsed: { prompt: 0, completion: 0, total: 0 }
         });
       });
@@ -432,7 +923,98 @@ export class LLMClient {
     });
   }
 
-  private async doChat(isRetry: boolean, onDelta?: (text: string) => void): Promise<LLMResponse> {
+  /**
+   * Entry point of every model call: replays a fixture when the provider is
+   * ReplayLLMAuth and records real calls when AGENTDB_LLM_RECORD is set.
+   */
+  private async runChat(options: LLMChatOptions): Promise<LLMResponse> {
+    if (this.auth instanceof ReplayLLMAuth) {
+      return this.doChatReplay(this.auth, options);
+    }
+
+    const recordFile = getLLMRecordFile();
+    if (!recordFile) {
+      return this.doChat(false, options);
+    }
+
+    const header = { provider: this.auth.getProvider(), model: this.getModel() };
+    const input = this.conversationHistory[this.conversationHistory.length - 1]?.content;
+    let response: LLMResponse;
+    try {
+      response = await this.doChat(false, options);
+    } catch (error) {
+      this.recordTurn(recordFile, header, {
+        input,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+    this.recordTurn(recordFile, header, { input, response });
+    return response;
+  }
+
+  /**
+   * Recording is a side channel: a fixture that cannot be written must not
+   * fail the question that produced it.
+   */
+  private recordTurn(
+    file: string,
+    header: Pick<LLMFixture, 'provider' | 'model'>,
+    turn: LLMFixtureTurn
+  ): void {
+    try {
+      appendLLMFixtureTurn(file, header, turn);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      console.warn(`[LLM] Não foi possível gravar a fixture ${file}: ${msg}`);
+    }
+  }
+
+  /**
+   * Next scripted response. Text is re-emitted word by word through onDelta
+   * so streaming consumers behave as with a live provider.
+   */
+  private async doChatReplay(auth: ReplayLLMAuth, options: LLMChatOptions): Promise<LLMResponse> {
+    const turns = auth.getFixture()?.turns ?? [];
+    const index = this.replayCursor;
+    const turn = turns[index];
+    if (!turn) {
+      throw new Error(`Fixture de LLM esgotada: ${turns.length} resposta(s) gravada(s).`);
+    }
+    this.replayCursor += 1;
+
+    const lastMessage = this.conversationHistory[this.conversationHistory.length - 1]?.content ?? '';
+    if (turn.expect && !lastMessage.toLowerCase().includes(turn.expect.toLowerCase())) {
+      throw new Error(
+        `Fixture de LLM fora de sincronia na resposta #${index + 1}: esperava uma mensagem contendo "${turn.expect}".`
+      );
+    }
+    if (turn.error) {
+      throw new Error(turn.error);
+    }
+
+    const content = turn.response?.content ?? '';
+    const toolCalls = turn.response?.toolCalls ?? [];
+    if (options.onDelta) {
+      for (const chunk of content.match(/\S+\s*|\s+/g) ?? []) {
+        options.onDelta(chunk);
+      }
+    }
+
+    this.conversationHistory.push({
+      role: 'assistant',
+      content,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    });
+
+    return {
+      content,
+      toolCalls,
+      tokensUsed: turn.response?.tokensUsed ?? { prompt: 0, completion: 0, total: 0 },
+    };
+  }
+
+  private async doChat(isRetry: boolean, options: LLMChatOptions): Promise<LLMResponse> {
     if (process.env.USE_LOCAL_CODEX === 'true') {
       const messages: LLMMessage[] = [];
       if (this.systemPrompt) {
@@ -443,20 +1025,31 @@ export class LLMClient {
     }
 
     const provider = this.auth.getProvider();
+    if (provider === 'ollama') {
+      return this.doChatLocal(options);
+    }
     if (provider === 'anthropic') {
-      return this.doChatAnthropic(isRetry);
+      return this.doChatAnthropic(isRetry, options);
     }
-    return this.doChatOpenAI(isRetry, onDelta);
+    if (this.usesApiKey()) {
+      return this.doChatOpenAIApiKey(options);
+    }
+    return this.doChatOpenAI(isRetry, options);
+  }
+
+  /**
+   * API key vai direto nas APIs publicas; OAuth usa os backends das assinaturas.
+   */
+  private usesApiKey(): boolean {
+    return this.auth instanceof ApiKeyAuth;
   }
 
-  private async doChatAnthropic(isRetry: boolean): Promise<LLMResponse> {
+  private async doChatAnthropic(isRetry: boolean, options: LLMChatOptions): Promise<LLMResponse> {
     const accessToken = await this.auth.getAccessToken();
+    const apiKeyMode = this.usesApiKey();
 
     // Convert messages to Anthropic format
-    const messages = this.conversationHistory.map(m => ({
-      role: m.role === 'system' ? 'user' as const : m.role,
-      content: m.content,
-    }));
+    const messages = convertToAnthropicMessages(this.conversationHistory);
 
     const model = this.modelOverride || process.env.ANTHROPIC_MODEL || getAuth()?.model || DEFAULT_ANTHROPIC_MODEL;
 
@@ -466,64 +1059,176 @@ export class LLMClient {
       stream: true,
       system: this.systemPrompt || undefined,
       messages,
+      ...convertToAnthropicTools(options),
     });
 
-    const response = await httpsRequest(
+    const response = await requestRaw(
       ANTHROPIC_API_URL,
       {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${accessToken}`,
+          ...(apiKeyMode
+            ? { 'x-api-key': accessToken }
+            : { 'Authorization': `Bearer ${accessToken}`, 'anthropic-beta': 'oauth-2025-04-20' }),
           'Content-Type': 'application/json',
           'Content-Length': Buffer.byteLength(requestBody).toString(),
           'anthropic-version': '2023-06-01',
-          'anthropic-beta': 'oauth-2025-04-20',
         },
       },
       requestBody
     );
 
-    if (response.statusCode === 401) {
+    if (response.statusCode !== 200) {
+      // Error bodies are small; drain the stream before a possible retry
+      const errorBody = await readBody(response.stream);
+      return this.handleAnthropicError(response.statusCode, errorBody, isRetry, options);
+    }
+
+    const { content, toolCalls, usage } = await parseAnthropicStream(response.stream, options.onDelta);
+
+    if (!content && toolCalls.length === 0) {
+      throw new Error('Resposta vazia do Anthropic. Tente novamente.');
+    }
+
+    this.conversationHistory.push({
+      role: 'assistant',
+      content,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    });
+
+    return {
+      content,
+      toolCalls,
+      tokensUsed: {
+        prompt: usage.input,
+        completion: usage.output,
+        total: usage.total,
+      },
+    };
+  }
+
+  private async handleAnthropicError(
+    statusCode: number,
+    data: string,
+    isRetry: boolean,
+    options: LLMChatOptions
+  ): Promise<LLMResponse> {
+    const apiKeyMode = this.usesApiKey();
+
+    if (statusCode === 401) {
+      if (apiKeyMode) {
+        throw new Error('API key Anthropic inválida ou revogada. Configure uma nova chave.');
+      }
       if (!isRetry) {
         await this.auth.getAccessToken();
-        return this.doChatAnthropic(true);
+        return this.doChatAnthropic(true, options);
       }
       throw new Error('Token Anthropic inválido ou expirado. Faça login novamente.');
     }
 
-    if (response.statusCode === 429) {
+    if (statusCode === 429) {
       throw new Error('Limite de uso Anthropic atingido. Aguarde um momento.');
     }
 
-    if (response.statusCode && response.statusCode >= 500) {
+    if (statusCode >= 500) {
       throw new Error('Serviço Anthropic indisponível. Tente novamente.');
     }
 
+    let errorMsg = `Erro na API Anthropic (HTTP ${statusCode})`;
+    try {
+      const errorData = JSON.parse(data) as { error?: { message?: string } };
+      if (errorData.error?.message) {
+        errorMsg += `: ${errorData.error.message}`;
+      }
+    } catch {
+      if (data.length < 500) {
+        errorMsg += `: ${data}`;
+      }
+    }
+    throw new Error(errorMsg);
+  }
+
+  private async doChatLocal(options: LLMChatOptions): Promise<LLMResponse> {
+    const settings = this.auth instanceof LocalLLMAuth ? this.auth.getSettings() : null;
+    if (!settings) {
+      throw new Error('Provider local nao configurado. Informe a URL do servidor primeiro.');
+    }
+
+    const apiKey = await this.auth.getAccessToken();
+    const model = this.getModel();
+    const tools = convertToLocalTools(options);
+    const isOllama = settings.api === 'ollama';
+
+    const url = isOllama
+      ? `${settings.baseUrl}/api/chat`
+      : `${settings.baseUrl}/v1/chat/completions`;
+
+    const requestBody = JSON.stringify(
+      isOllama
+        ? {
+            model,
+            stream: true,
+            messages: convertToOllamaMessages(this.systemPrompt, this.conversationHistory),
+            tools,
+          }
+        : {
+            model,
+            stream: true,
+            stream_options: { include_usage: true },
+            messages: convertToChatCompletionsMessages(this.systemPrompt, this.conversationHistory),
+            tools,
+            tool_choice: tools ? 'auto' : undefined,
+          }
+    );
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Content-Length': Buffer.byteLength(requestBody).toString(),
+    };
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    let response: Awaited<ReturnType<typeof requestRaw>>;
+    try {
+      response = await requestRaw(url, { method: 'POST', headers }, requestBody, LOCAL_REQUEST_TIMEOUT_MS);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Erro desconhecido';
+      throw new Error(`Servidor local inacessivel em ${settings.baseUrl}: ${msg}`);
+    }
+
     if (response.statusCode !== 200) {
-      let errorMsg = `Erro na API Anthropic (HTTP ${response.statusCode})`;
+      const errorBody = await readBody(response.stream);
+      let errorMsg = `Erro no servidor local (HTTP ${response.statusCode})`;
       try {
-        const errorData = JSON.parse(response.data) as { error?: { message?: string } };
-        if (errorData.error?.message) {
-          errorMsg += `: ${errorData.error.message}`;
-        }
+        const errorData = JSON.parse(errorBody) as { error?: string | { message?: string } };
+        const detail = typeof errorData.error === 'string' ? errorData.error : errorData.error?.message;
+        if (detail) errorMsg += `: ${detail}`;
       } catch {
-        if (response.data.length < 500) {
-          errorMsg += `: ${response.data}`;
+        if (errorBody.length < 500) {
+          errorMsg += `: ${errorBody}`;
         }
       }
       throw new Error(errorMsg);
     }
 
-    const { content, usage } = extractTextFromAnthropicSSE(response.data);
+    const { content, toolCalls, usage } = isOllama
+      ? await parseOllamaStream(response.stream, options.onDelta)
+      : await parseChatCompletionsStream(response.stream, options.onDelta);
 
-    if (!content) {
-      throw new Error('Resposta vazia do Anthropic. Tente novamente.');
+    if (!content && toolCalls.length === 0) {
+      throw new Error(`Resposta vazia do modelo local (${model}). Tente novamente.`);
     }
 
-    this.conversationHistory.push({ role: 'assistant', content });
+    this.conversationHistory.push({
+      role: 'assistant',
+      content,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    });
 
     return {
       content,
+      toolCalls,
       tokensUsed: {
         prompt: usage.input,
         completion: usage.output,
@@ -534,7 +1239,7 @@ export class LLMClient {
 
   private async doChatOpenAI(
     isRetry: boolean,
-    onDelta?: (text: string) => void,
+    options: LLMChatOptions,
     forcedModel?: string
   ): Promise<LLMResponse> {
     const accessToken = await this.auth.getAccessToken();
@@ -558,11 +1263,12 @@ export class LLMClient {
       instructions: this.systemPrompt || undefined,
       input,
       reasoning: { effort: 'medium', summary: 'auto' },
+      ...convertToResponsesTools(options),
     });
 
     const url = `${CHATGPT_BASE_URL}${CODEX_RESPONSES_PATH}`;
 
-    const response = await httpsRequestRaw(
+    const response = await requestRaw(
       url,
       {
         method: 'POST',
@@ -584,7 +1290,7 @@ export class LLMClient {
       response.stream.resume(); // drain
       if (!isRetry) {
         await this.auth.getAccessToken();
-        return this.doChatOpenAI(true, onDelta, forcedModel);
+        return this.doChatOpenAI(true, options, forcedModel);
       }
       throw new Error('Token invalido ou expirado. Faca login novamente.');
     }
@@ -608,7 +1314,7 @@ export class LLMClient {
         /not supported when using Codex/i.test(errorBody);
 
       if (unsupportedCodexModel && model !== DEFAULT_MODEL && forcedModel !== DEFAULT_MODEL) {
-        return this.doChatOpenAI(isRetry, onDelta, DEFAULT_MODEL);
+        return this.doChatOpenAI(isRetry, options, DEFAULT_MODEL);
       }
 
       try {
@@ -630,9 +1336,9 @@ export class LLMClient {
     }
 
     // Stream SSE - parse incrementally, only accumulate text
-    const { content, usage } = await parseSSEStream(response.stream, onDelta);
+    const { content, toolCalls, usage } = await parseSSEStream(response.stream, options.onDelta);
 
-    if (!content) {
+    if (!content && toolCalls.length === 0) {
       throw new Error('Resposta vazia do ChatGPT. Tente novamente.');
     }
 
@@ -642,15 +1348,132 @@ export class LLMClient {
       total: usage.total,
     };
 
-    this.conversationHistory.push({ role: 'assistant', content });
+    this.conversationHistory.push({
+      role: 'assistant',
+      content,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    });
 
-    return { content, tokensUsed };
+    return { content, toolCalls, tokensUsed };
   }
+
+  /**
+   * OpenAI Platform com API key: mesma Responses API do Codex, mas no endpoint
+   * publico e sem restricao de modelo.
+   */
+  private async doChatOpenAIApiKey(options: LLMChatOptions): Promise<LLMResponse> {
+    const apiKey = await this.auth.getAccessToken();
+    const model = this.getModel();
+
+    const requestBody = JSON.stringify({
+      model,
+      store: false,
+      stream: true,
+      instructions: this.systemPrompt || undefined,
+      input: convertToResponsesInput(this.conversationHistory),
+      ...(OPENAI_REASONING_PATTERN.test(model) ? { reasoning: { effort: 'medium' } } : {}),
+      ...convertToResponsesTools(options),
+    });
+
+    const response = await requestRaw(
+      OPENAI_RESPONSES_URL,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(requestBody).toString(),
+          'accept': 'text/event-stream',
+        },
+      },
+      requestBody
+    );
+
+    if (response.statusCode === 401) {
+      response.stream.resume();
+      throw new Error('API key OpenAI invalida ou revogada. Configure uma nova chave.');
+    }
+
+    if (response.statusCode === 429) {
+      response.stream.resume();
+      throw new Error('Limite de uso ou credito da API OpenAI atingido. Aguarde ou verifique o billing.');
+    }
+
+    if (response.statusCode && response.statusCode >= 500) {
+      response.stream.resume();
+      throw new Error('Servico indisponivel. Tente novamente em alguns instantes.');
+    }
+
+    if (response.statusCode !== 200) {
+      const errorBody = await readBody(response.stream);
+      let errorMsg = `Erro na API OpenAI (HTTP ${response.statusCode})`;
+      try {
+        const errorData = JSON.parse(errorBody) as { error?: { message?: string } };
+        if (errorData.error?.message) {
+          errorMsg += `: ${errorData.error.message}`;
+        }
+      } catch {
+        if (errorBody.length < 500) {
+          errorMsg += `: ${errorBody}`;
+        }
+      }
+      throw new Error(errorMsg);
+    }
+
+    const { content, toolCalls, usage } = await parseSSEStream(response.stream, options.onDelta);
+
+    if (!content && toolCalls.length === 0) {
+      throw new Error('Resposta vazia da OpenAI. Tente novamente.');
+    }
+
+    this.conversationHistory.push({
+      role: 'assistant',
+      content,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    });
+
+    return {
+      content,
+      toolCalls,
+      tokensUsed: {
+        prompt: usage.input,
+        completion: usage.output,
+        total: usage.total,
+      },
+    };
+  }
+
+  /**
+   * A run canceled mid-flight can leave tool calls without results,
+   * which both APIs reject on the next turn.
+   */
+  private closePendingToolCalls(): void {
+    const answered = new Set(
+      this.conversationHistory
+        .filter(m => m.role === 'tool' && m.toolCallId)
+        .map(m => m.toolCallId as string)
+    );
+
+    const lastAssistant = [...this.conversationHistory].reverse().find(m => m.role === 'assistant');
+    for (const call of lastAssistant?.toolCalls ?? []) {
+      if (!answered.has(call.id)) {
+        this.conversationHistory.push({
+          role: 'tool',
+          content: 'Chamada nao executada (execucao interrompida).',
+          toolCallId: call.id,
+        });
+      }
+    }
+  }
+
   private trimHistory(): void {
-    if (this.conversationHistory.length > MAX_HISTORY_MESSAGES) {
-      const excess = this.conversationHistory.length - MAX_HISTORY_MESSAGES;
-      this.conversationHistory.splice(0, excess);
+    // Never start on an orphan tool result or assistant turn: both APIs reject it
+    while (
+      this.conversationHistory.length > 0 &&
+      this.conversationHistory[0].role !== 'user'
+    ) {
+      this.conversationHistory.shift();
     }
+    this.conversationHistory = compactHistory(this.conversationHistory, this.historyTokenBudget);
   }
 }
-
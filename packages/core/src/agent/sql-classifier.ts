@@ -0,0 +1,517 @@
+import { loadModule, parseSync } from 'libpg-query';
+
+// ─── Interfaces ───
+
+export type StatementKind = 'read' | 'write' | 'ddl' | 'dcl' | 'unknown';
+
+export interface RelationReference {
+  schema: string | null; // null = resolvido pelo search_path
+  name: string;
+  alias: string | null;
+}
+
+export interface ColumnReference {
+  qualifier: string | null; // tabela ou alias
+  name: string; // '*' em SELECT * e t.*
+}
+
+export interface FunctionReference {
+  schema: string | null; // null = resolvido pelo search_path
+  name: string;
+}
+
+/**
+ * Objetos citados no statement, para a politica de acesso. CTEs ficam de fora.
+ */
+export interface StatementReferences {
+  relations: RelationReference[];
+  columns: ColumnReference[];
+  functions: FunctionReference[]; // chamadas, inclusive em FROM e CALL
+  settings: string[]; // parametros alterados (SET, RESET, set_config); '*' = qualquer um
+}
+
+export interface StatementVerdict {
+  kind: StatementKind;
+  command: string; // ex.: SELECT, UPDATE, CREATE TABLE
+  sql: string;
+  reason: string | null;
+  relation: { schema: string | null; name: string } | null; // alvo de INSERT/UPDATE/DELETE
+  hasReturning: boolean;
+  references: StatementReferences;
+}
+
+export interface SqlClassification {
+  kind: StatementKind; // veredito mais severo entre os statements
+  statements: StatementVerdict[];
+  parseError: string | null;
+}
+
+export interface ClassifyOptions {
+  /**
+   * Retorna true se todas as sobrecargas da funcao forem IMMUTABLE/STABLE,
+   * false se alguma for VOLATILE e undefined se a funcao nao for conhecida.
+   */
+  isNonVolatileFunction?: (name: string) => boolean | undefined;
+}
+
+type AstNode = Record<string, unknown>;
+
+// ─── Regras ───
+
+const KIND_SEVERITY: Record<StatementKind, number> = {
+  read: 0,
+  unknown: 1,
+  write: 2,
+  ddl: 3,
+  dcl: 4,
+};
+
+export const STATEMENT_KIND_LABELS: Record<StatementKind, string> = {
+  read: 'leitura',
+  write: 'escrita',
+  ddl: 'DDL',
+  dcl: 'DCL (permissoes)',
+  unknown: 'efeitos colaterais desconhecidos',
+};
+
+const WRITE_NODES = new Set([
+  'InsertStmt',
+  'UpdateStmt',
+  'DeleteStmt',
+  'MergeStmt',
+  'TruncateStmt',
+  'LockStmt',
+  'RefreshMatViewStmt',
+]);
+
+const DCL_NODES = new Set([
+  'GrantStmt',
+  'GrantRoleStmt',
+  'CreateRoleStmt',
+  'AlterRoleStmt',
+  'AlterRoleSetStmt',
+  'DropRoleStmt',
+  'AlterDefaultPrivilegesStmt',
+  'ReassignOwnedStmt',
+  'AlterOwnerStmt',
+  'CreatePolicyStmt',
+  'AlterPolicyStmt',
+]);
+
+const MAINTENANCE_NODES = new Set([
+  'VacuumStmt',
+  'ClusterStmt',
+  'ReindexStmt',
+  'CheckPointStmt',
+  'LoadStmt',
+]);
+
+const READ_NODES = new Set(['VariableShowStmt']);
+
+// Parametros que desligam ou contornam o BEGIN READ ONLY do modo somente leitura
+const READ_ONLY_GUARD_SETTINGS = new Set([
+  'session characteristics',
+  'transaction',
+  'default_transaction_read_only',
+  'transaction_read_only',
+  'role',
+  'session_authorization',
+]);
+
+const DDL_PREFIXES = ['Create', 'Alter', 'Drop', 'Define', 'Rename', 'Comment', 'SecLabel', 'Import'];
+const DDL_NODES = new Set(['IndexStmt', 'ViewStmt', 'RuleStmt', 'CompositeTypeStmt']);
+
+const COMMAND_LABELS: Record<string, string> = {
+  CreateStmt: 'CREATE TABLE',
+  IndexStmt: 'CREATE INDEX',
+  ViewStmt: 'CREATE VIEW',
+  CreateTableAsStmt: 'CREATE TABLE AS',
+  RuleStmt: 'CREATE RULE',
+  CompositeTypeStmt: 'CREATE TYPE',
+  DefineStmt: 'CREATE',
+  VariableSetStmt: 'SET',
+  VariableShowStmt: 'SHOW',
+  TransactionStmt: 'TRANSACTION',
+  RefreshMatViewStmt: 'REFRESH MATERIALIZED VIEW',
+  CheckPointStmt: 'CHECKPOINT',
+};
+
+// Funcoes nativas que alteram estado mesmo dentro de um SELECT
+const MUTATING_FUNCTIONS = new Set([
+  'nextval',
+  'setval',
+  'set_config',
+  'txid_current',
+  'pg_current_xact_id',
+  'pg_notify',
+  'pg_terminate_backend',
+  'pg_cancel_backend',
+  'pg_reload_conf',
+  'pg_rotate_logfile',
+  'pg_switch_wal',
+  'pg_create_restore_point',
+  'pg_advisory_lock',
+  'pg_advisory_xact_lock',
+  'pg_try_advisory_lock',
+  'pg_try_advisory_xact_lock',
+  'pg_advisory_unlock',
+  'pg_advisory_unlock_all',
+  'pg_stat_reset',
+  'pg_stat_reset_shared',
+  'pg_stat_reset_single_table_counters',
+  'pg_create_physical_replication_slot',
+  'pg_create_logical_replication_slot',
+  'pg_drop_replication_slot',
+  'pg_logical_emit_message',
+  'pg_file_write',
+  'lo_create',
+  'lo_creat',
+  'lo_import',
+  'lo_export',
+  'lo_unlink',
+  'lo_put',
+  'lo_from_bytea',
+  'dblink_exec',
+  'dblink',
+]);
+
+// Funcoes VOLATILE sem efeito colateral no banco
+const HARMLESS_VOLATILE_FUNCTIONS = new Set([
+  'random',
+  'clock_timestamp',
+  'timeofday',
+  'gen_random_uuid',
+  'uuid_generate_v4',
+  'pg_sleep',
+  'generate_series',
+]);
+
+// ─── Parser ───
+
+let modulePromise: Promise<void> | null = null;
+
+function ensureParser(): Promise<void> {
+  if (!modulePromise) {
+    modulePromise = loadModule().catch((error: unknown) => {
+      modulePromise = null;
+      throw error;
+    });
+  }
+  return modulePromise;
+}
+
+function severest(kinds: StatementKind[]): StatementKind {
+  return kinds.reduce<StatementKind>(
+    (acc, kind) => (KIND_SEVERITY[kind] > KIND_SEVERITY[acc] ? kind : acc),
+    'read'
+  );
+}
+
+function nodeType(node: unknown): string | null {
+  if (!node || typeof node !== 'object' || Array.isArray(node)) return null;
+  const keys = Object.keys(node);
+  return keys.length === 1 ? keys[0] : null;
+}
+
+function commandLabel(type: string): string {
+  if (COMMAND_LABELS[type]) return COMMAND_LABELS[type];
+  return type
+    .replace(/Stmt$/, '')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toUpperCase();
+}
+
+/**
+ * Percorre a arvore coletando statements de escrita aninhados (CTEs)
+ * e chamadas de funcao.
+ */
+function collect(
+  node: unknown,
+  found: { nestedWrites: string[]; functions: string[] }
+): void {
+  if (Array.isArray(node)) {
+    for (const item of node) collect(item, found);
+    return;
+  }
+  if (!node || typeof node !== 'object') return;
+
+  for (const [key, value] of Object.entries(node as AstNode)) {
+    if (WRITE_NODES.has(key)) {
+      found.nestedWrites.push(commandLabel(key));
+    }
+    if (key === 'FuncCall') {
+      const funcname = (value as AstNode).funcname as AstNode[] | undefined;
+      const last = funcname?.[funcname.length - 1]?.String as AstNode | undefined;
+      if (typeof last?.sval === 'string') {
+        found.functions.push(last.sval.toLowerCase());
+      }
+    }
+    collect(value, found);
+  }
+}
+
+function classifyFunctions(
+  functions: string[],
+  options: ClassifyOptions
+): { kind: StatementKind; reason: string | null } {
+  const mutating = functions.filter((f) => MUTATING_FUNCTIONS.has(f));
+  if (mutating.length > 0) {
+    return { kind: 'write', reason: `Chama funcao que altera estado: ${mutating.join(', ')}` };
+  }
+
+  const unsafe = functions.filter(
+    (f) =>
+      !HARMLESS_VOLATILE_FUNCTIONS.has(f) && options.isNonVolatileFunction?.(f) !== true
+  );
+  if (unsafe.length > 0) {
+    return {
+      kind: 'unknown',
+      reason: `Chama funcao VOLATILE ou desconhecida: ${Array.from(new Set(unsafe)).join(', ')}`,
+    };
+  }
+
+  return { kind: 'read', reason: null };
+}
+
+function classifyNode(
+  type: string,
+  body: AstNode,
+  options: ClassifyOptions
+): { kind: StatementKind; reason: string | null } {
+  if (type === 'ExplainStmt') {
+    const explainOptions = (body.options as AstNode[] | undefined) ?? [];
+    const analyze = explainOptions.some(
+      (opt) => ((opt.DefElem as AstNode | undefined)?.defname as string | undefined) === 'analyze'
+    );
+    if (!analyze) return { kind: 'read', reason: null };
+
+    const inner = body.query as AstNode;
+    const innerType = nodeType(inner);
+    if (!innerType) return { kind: 'unknown', reason: 'EXPLAIN ANALYZE sem statement reconhecido' };
+    const verdict = classifyNode(innerType, inner[innerType] as AstNode, options);
+    return {
+      kind: verdict.kind,
+      reason: verdict.kind === 'read' ? null : `EXPLAIN ANALYZE executa o statement: ${verdict.reason ?? commandLabel(innerType)}`,
+    };
+  }
+
+  if (type === 'PrepareStmt') {
+    const inner = body.query as AstNode;
+    const innerType = nodeType(inner);
+    return innerType
+      ? classifyNode(innerType, inner[innerType] as AstNode, options)
+      : { kind: 'unknown', reason: 'PREPARE sem statement reconhecido' };
+  }
+
+  if (type === 'CopyStmt') {
+    if (body.is_program) return { kind: 'write', reason: 'COPY ... PROGRAM executa comando no servidor' };
+    if (body.is_from) return { kind: 'write', reason: 'COPY FROM insere dados' };
+    if (body.filename) return { kind: 'write', reason: 'COPY TO grava arquivo no servidor' };
+  }
+
+  if (DCL_NODES.has(type)) return { kind: 'dcl', reason: null };
+  if (MAINTENANCE_NODES.has(type)) return { kind: 'ddl', reason: 'Comando de manutencao' };
+  if (WRITE_NODES.has(type)) return { kind: 'write', reason: null };
+  if (DDL_NODES.has(type) || DDL_PREFIXES.some((prefix) => type.startsWith(prefix))) {
+    return { kind: 'ddl', reason: null };
+  }
+  if (READ_NODES.has(type)) return { kind: 'read', reason: null };
+
+  if (type === 'SelectStmt' || type === 'CopyStmt') {
+    if (body.intoClause) return { kind: 'ddl', reason: 'SELECT INTO cria uma tabela' };
+    if (body.lockingClause) return { kind: 'write', reason: 'SELECT ... FOR UPDATE/SHARE bloqueia linhas' };
+
+    const found = { nestedWrites: [] as string[], functions: [] as string[] };
+    collect(body, found);
+    if (found.nestedWrites.length > 0) {
+      return { kind: 'write', reason: `Contem ${found.nestedWrites.join(', ')} aninhado` };
+    }
+    return classifyFunctions(found.functions, options);
+  }
+
+  // COMMIT/ROLLBACK encerram o BEGIN READ ONLY e o resto do lote roda fora dele
+  if (type === 'TransactionStmt') {
+    return { kind: 'write', reason: 'Controle de transacao encerra a protecao somente leitura' };
+  }
+  if (type === 'DoStmt') return { kind: 'write', reason: 'DO executa codigo procedural arbitrario' };
+  if (type === 'CallStmt') return { kind: 'write', reason: 'CALL executa uma procedure' };
+  if (type === 'VariableSetStmt') {
+    const name = typeof body.name === 'string' ? body.name.toLowerCase() : '';
+    if (body.kind === 'VAR_RESET_ALL' || READ_ONLY_GUARD_SETTINGS.has(name)) {
+      return { kind: 'write', reason: `${name ? `SET ${name}` : 'RESET ALL'} altera o modo de transacao ou o papel da sessao` };
+    }
+  }
+
+  // SET comum, LISTEN/NOTIFY, EXECUTE...
+  return { kind: 'unknown', reason: null };
+}
+
+function dmlRelation(body: AstNode): StatementVerdict['relation'] {
+  const relation = body.relation as AstNode | undefined;
+  if (typeof relation?.relname !== 'string') return null;
+  return {
+    schema: typeof relation.schemaname === 'string' ? relation.schemaname : null,
+    name: relation.relname,
+  };
+}
+
+function toRelationReference(node: AstNode): RelationReference | null {
+  if (typeof node.relname !== 'string') return null;
+  const alias = (node.alias as AstNode | undefined)?.aliasname;
+  return {
+    schema: typeof node.schemaname === 'string' ? node.schemaname : null,
+    name: node.relname,
+    alias: typeof alias === 'string' ? alias : null,
+  };
+}
+
+function toFunctionReference(node: AstNode): FunctionReference | null {
+  const parts = ((node.funcname as AstNode[] | undefined) ?? [])
+    .map((part) => (part.String as AstNode | undefined)?.sval)
+    .filter((part): part is string => typeof part === 'string');
+  if (parts.length === 0) return null;
+  return {
+    schema: parts.length > 1 ? parts[parts.length - 2] : null,
+    name: parts[parts.length - 1],
+  };
+}
+
+/**
+ * Parametro alterado por SET/RESET, set_config() ou UPDATE em pg_settings;
+ * '*' quando nao da para saber qual (RESET ALL, nome calculado).
+ */
+function changedSetting(key: string, body: AstNode): string | null {
+  if (key === 'VariableSetStmt') {
+    if (body.kind === 'VAR_RESET_ALL') return '*';
+    return typeof body.name === 'string' ? body.name.toLowerCase() : null;
+  }
+  if (key === 'FuncCall') {
+    if (toFunctionReference(body)?.name.toLowerCase() !== 'set_config') return null;
+    const [first] = (body.args as AstNode[] | undefined) ?? [];
+    const name = ((first?.A_Const as AstNode | undefined)?.sval as AstNode | undefined)?.sval;
+    return typeof name === 'string' ? name.toLowerCase() : '*';
+  }
+  if (key === 'UpdateStmt') {
+    return (body.relation as AstNode | undefined)?.relname === 'pg_settings' ? '*' : null;
+  }
+  return null;
+}
+
+/**
+ * Coleta RangeVars (FROM, JOIN, alvo de DML/DDL), ColumnRefs, chamadas de
+ * funcao e nomes de CTE. Alvos de DML e DDL vem sem o wrapper RangeVar, na
+ * chave `relation`; a funcao de um CALL vem na chave `funccall`.
+ */
+function collectReferences(node: unknown, refs: StatementReferences, ctes: Set<string>): void {
+  if (Array.isArray(node)) {
+    for (const item of node) collectReferences(item, refs, ctes);
+    return;
+  }
+  if (!node || typeof node !== 'object') return;
+
+  for (const [key, value] of Object.entries(node as AstNode)) {
+    const body = value as AstNode;
+    if (key === 'CommonTableExpr' && typeof body.ctename === 'string') {
+      ctes.add(body.ctename);
+    }
+    if (key === 'RangeVar' || key === 'relation') {
+      const relation = body && typeof body === 'object' ? toRelationReference(body) : null;
+      if (relation) refs.relations.push(relation);
+    }
+    if ((key === 'FuncCall' || key === 'funccall') && body && typeof body === 'object') {
+      const fn = toFunctionReference(body);
+      if (fn) refs.functions.push(fn);
+    }
+    const setting = body && typeof body === 'object' ? changedSetting(key, body) : null;
+    if (setting) refs.settings.push(setting);
+    if (key === 'ColumnRef') {
+      const fields = ((body.fields as AstNode[] | undefined) ?? []).map((field) =>
+        field.A_Star ? '*' : ((field.String as AstNode | undefined)?.sval as string | undefined) ?? null
+      );
+      const name = fields[fields.length - 1];
+      if (name) {
+        refs.columns.push({ qualifier: fields.length > 1 ? fields[fields.length - 2] : null, name });
+      }
+    }
+    collectReferences(value, refs, ctes);
+  }
+}
+
+function statementReferences(type: string, body: AstNode): StatementReferences {
+  const refs: StatementReferences = { relations: [], columns: [], functions: [], settings: [] };
+  const ctes = new Set<string>();
+  // Embrulhado pelo tipo para que SET e UPDATE de nivel superior passem por changedSetting
+  collectReferences({ [type]: body }, refs, ctes);
+
+  // Colunas escritas por INSERT (lista de colunas) e UPDATE (SET)
+  const target = typeof (body.relation as AstNode | undefined)?.relname === 'string'
+    ? toRelationReference(body.relation as AstNode)
+    : null;
+  const written = type === 'InsertStmt' ? body.cols : type === 'UpdateStmt' ? body.targetList : undefined;
+  if (target && Array.isArray(written)) {
+    for (const item of written as AstNode[]) {
+      const name = (item.ResTarget as AstNode | undefined)?.name;
+      if (typeof name === 'string') {
+        refs.columns.push({ qualifier: target.alias ?? target.name, name });
+      }
+    }
+  }
+
+  refs.relations = refs.relations.filter((r) => r.schema !== null || !ctes.has(r.name));
+  return refs;
+}
+
+function statementText(sql: string, location: number, length: number | undefined): string {
+  const text = length === undefined ? sql.slice(location) : sql.slice(location, location + length);
+  return text.trim();
+}
+
+// ─── API ───
+
+export async function classifySql(
+  sql: string,
+  options: ClassifyOptions = {}
+): Promise<SqlClassification> {
+  await ensureParser();
+
+  let parsed: { stmts?: Array<{ stmt: AstNode; stmt_location?: number; stmt_len?: number }> };
+  try {
+    parsed = parseSync(sql);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Erro desconhecido';
+    return { kind: 'unknown', statements: [], parseError: msg };
+  }
+
+  const statements: StatementVerdict[] = (parsed.stmts ?? []).map((entry) => {
+    const type = nodeType(entry.stmt) ?? 'Unknown';
+    const body = (entry.stmt[type] as AstNode) ?? {};
+    const verdict = classifyNode(type, body, options);
+    const isDml = type === 'InsertStmt' || type === 'UpdateStmt' || type === 'DeleteStmt';
+    return {
+      kind: verdict.kind,
+      command: commandLabel(type),
+      sql: statementText(sql, entry.stmt_location ?? 0, entry.stmt_len),
+      reason: verdict.reason,
+      relation: isDml ? dmlRelation(body) : null,
+      hasReturning: Array.isArray(body.returningList) && body.returningList.length > 0,
+      references: statementReferences(type, body),
+    };
+  });
+
+  return {
+    kind: severest(statements.map((s) => s.kind)),
+    statements,
+    parseError: null,
+  };
+}
+
+export function describeClassification(classification: SqlClassification): string {
+  if (classification.parseError) {
+    return `Nao foi possivel analisar o SQL: ${classification.parseError}`;
+  }
+
+  return classification.statements
+    .filter((s) => s.kind !== 'read')
+    .map((s) => `${s.command} (${STATEMENT_KIND_LABELS[s.kind]}${s.reason ? `: ${s.reason}` : ''})`)
+    .join('; ');
+}
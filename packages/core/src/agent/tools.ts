@@ -0,0 +1,265 @@
+import { formatForeignKeyTarget } from '../db/schema-engine.js';
+import type { JoinPath, SchemaEngine, TableInfo } from '../db/schema-engine.js';
+import type { ExecutionResult } from './executor.js';
+import type { LLMToolCall, LLMToolDefinition } from './llm.js';
+
+// ─── Definicoes ───
+
+export type AgentToolName = 'run_sql' | 'describe_table' | 'find_join_path';
+
+export const AGENT_TOOLS: LLMToolDefinition[] = [
+  {
+    name: 'run_sql',
+    description:
+      'Executa UMA query SQL completa no banco PostgreSQL conectado e devolve colunas, contagem de linhas e uma amostra do resultado.',
+    parameters: {
+      type: 'object',
+      properties: {
+        sql: {
+          type: 'string',
+          description: 'SQL completo e executavel, sem placeholders.',
+        },
+      },
+      required: ['sql'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'describe_table',
+    description:
+      'Retorna a estrutura detalhada de uma tabela ou view: colunas, tipos, defaults, comentarios, indices e relacoes.',
+    parameters: {
+      type: 'object',
+      properties: {
+        table: {
+          type: 'string',
+          description: 'Nome da tabela, opcionalmente qualificado com o schema (ex.: public.pedidos).',
+        },
+      },
+      required: ['table'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'find_join_path',
+    description:
+      'Encontra o caminho mais curto de JOINs entre duas tabelas seguindo as foreign keys, com as clausulas ON exatas. Se houver mais de um caminho do mesmo tamanho, lista todos.',
+    parameters: {
+      type: 'object',
+      properties: {
+        from: {
+          type: 'string',
+          description: 'Tabela de origem, opcionalmente qualificada com o schema.',
+        },
+        to: {
+          type: 'string',
+          description: 'Tabela de destino, opcionalmente qualificada com o schema.',
+        },
+      },
+      required: ['from', 'to'],
+      additionalProperties: false,
+    },
+  },
+];
+
+const RESULT_MAX_CHARS = 6000;
+
+// ─── Helpers ───
+
+export function getToolStringArgument(call: LLMToolCall, key: string): string | null {
+  const value = call.arguments[key];
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+/**
+ * Resolve o nome vindo do modelo; se nao der uma tabela so, devolve a
+ * mensagem de erro pronta para o tool result.
+ */
+function resolveTableForAgent(schemaEngine: SchemaEngine, tableRef: string): TableInfo | string {
+  const matches = schemaEngine.findTables(tableRef);
+
+  if (matches.length === 0) {
+    const suggestions = schemaEngine
+      .searchTables(tableRef)
+      .slice(0, 5)
+      .map((t) => `${t.schema}.${t.name}`);
+    return suggestions.length > 0
+      ? `Tabela "${tableRef}" nao encontrada. Talvez: ${suggestions.join(', ')}.`
+      : `Tabela "${tableRef}" nao encontrada.`;
+  }
+
+  if (matches.length > 1) {
+    return `Nome ambiguo "${tableRef}". Qualifique com o schema: ${matches
+      .map((t) => `${t.schema}.${t.name}`)
+      .join(', ')}.`;
+  }
+
+  return matches[0];
+}
+
+export function formatJoinPaths(paths: JoinPath[]): string {
+  return paths
+    .map((path, i) => {
+      const header = paths.length > 1 ? `Caminho ${i + 1}: ${path.tables.join(' → ')}` : path.tables.join(' → ');
+      const via = path.steps.map((step) => `  via ${step.constraint} (${step.direction === 'forward' ? 'FK em' : 'FK apontando para'} ${step.from})`);
+      return [header, ...via, path.sql].join('\n');
+    })
+    .join('\n\n');
+}
+
+export function findJoinPathForAgent(schemaEngine: SchemaEngine, fromRef: string, toRef: string): string {
+  const from = resolveTableForAgent(schemaEngine, fromRef);
+  if (typeof from === 'string') return from;
+  const to = resolveTableForAgent(schemaEngine, toRef);
+  if (typeof to === 'string') return to;
+
+  const fromKey = `${from.schema}.${from.name}`;
+  const toKey = `${to.schema}.${to.name}`;
+  const paths = schemaEngine.findJoinPath(fromKey, toKey);
+
+  if (paths.length === 0) {
+    return `Nenhum caminho por foreign keys entre ${fromKey} e ${toKey}. Se existir relacao, ela nao esta declarada: confirme as colunas com describe_table.`;
+  }
+
+  const intro = paths.length > 1
+    ? `${paths.length} caminhos de mesmo tamanho (JOIN ambiguo): escolha pelo sentido da pergunta ou pergunte ao usuario.`
+    : `Caminho de ${fromKey} ate ${toKey}:`;
+  return `${intro}\n\n${formatJoinPaths(paths)}`;
+}
+
+export function describeTableForAgent(
+  schemaEngine: SchemaEngine,
+  tableRef: string,
+  sensitiveColumns: Set<string> = new Set()
+): string {
+  const table = resolveTableForAgent(schemaEngine, tableRef);
+  if (typeof table === 'string') return table;
+
+  const sensitive = table.columns
+    .map((c) => c.name)
+    .filter((name) => sensitiveColumns.has(`${table.schema}.${table.name}.${name}`));
+
+  const lines: string[] = [];
+
+  const kind = table.materialized ? ' [MATERIALIZED VIEW]' : table.type === 'view' ? ' [VIEW]' : '';
+  lines.push(
+    `${table.schema}.${table.name}${kind}` +
+      (table.estimatedRowCount > 0 ? ` [~${table.estimatedRowCount} rows]` : '') +
+      (table.comment ? ` — ${table.comment}` : '')
+  );
+  lines.push('Colunas:');
+  for (const col of table.columns) {
+    const markers: string[] = [col.type];
+    if (col.isPrimaryKey) markers.push('PK');
+    const fk = table.foreignKeys.find((f) => f.columns.length === 1 && f.columns[0] === col.name);
+    if (fk) {
+      markers.push(`FK→${formatForeignKeyTarget(fk)}`);
+    }
+    if (!col.nullable && !col.isPrimaryKey) markers.push('NOT NULL');
+    if (col.enumValues) markers.push(`enum(${col.enumValues.map((v) => `'${v}'`).join(', ')})`);
+    if (col.generated) markers.push(`GENERATED ALWAYS AS ${col.generated} (somente leitura)`);
+    if (col.identity) markers.push(`IDENTITY ${col.identity}`);
+    if (col.defaultValue && !col.identity) markers.push(`default=${col.defaultValue}`);
+    lines.push(`  ${col.name} ${markers.join(' ')}${col.comment ? ` — ${col.comment}` : ''}`);
+  }
+
+  const compositeFks = table.foreignKeys.filter((fk) => fk.columns.length > 1);
+  if (compositeFks.length > 0) {
+    lines.push('FKs compostas (junte por todas as colunas):');
+    for (const fk of compositeFks) {
+      lines.push(`  ${fk.name} (${fk.columns.join(', ')}) → ${formatForeignKeyTarget(fk)}`);
+    }
+  }
+
+  if (table.checkConstraints.length > 0 || table.uniqueConstraints.length > 0) {
+    lines.push('Constraints:');
+    for (const u of table.uniqueConstraints) {
+      lines.push(`  ${u.name} UNIQUE (${u.columns.join(', ')})`);
+    }
+    for (const c of table.checkConstraints) {
+      lines.push(`  ${c.name} ${c.definition}`);
+    }
+  }
+
+  if (table.partition?.key) {
+    lines.push(`Particionada por ${table.partition.key}:`);
+    for (const child of table.partition.children ?? []) {
+      lines.push(`  ${child}`);
+    }
+  } else if (table.partition?.parent) {
+    lines.push(`Particao de ${table.partition.parent}${table.partition.bound ? ` ${table.partition.bound}` : ''}`);
+  }
+
+  const profile = schemaEngine.formatProfileSummary(table, new Set(sensitive));
+  if (profile.length > 0) {
+    lines.push('Valores (perfil de dados):');
+    lines.push(...profile);
+  }
+
+  if (sensitive.length > 0) {
+    lines.push(`Colunas sensiveis (valores chegam mascarados): ${sensitive.join(', ')}`);
+  }
+
+  if (table.indexes.length > 0) {
+    lines.push('Indices:');
+    for (const idx of table.indexes) {
+      const kind = idx.isPrimary ? 'PRIMARY' : idx.isUnique ? 'UNIQUE' : 'INDEX';
+      lines.push(`  ${idx.name} ${kind} (${idx.columns.join(', ')})`);
+    }
+  }
+
+  if (table.triggers.length > 0) {
+    lines.push('Triggers:');
+    for (const trigger of table.triggers) {
+      const disabled = trigger.enabled ? '' : ' (desabilitado)';
+      lines.push(
+        `  ${trigger.name} ${trigger.timing} ${trigger.events.join(' OR ')} FOR EACH ${trigger.level} → ${trigger.function}()${disabled}`
+      );
+    }
+  }
+
+  if (table.referencedBy.length > 0) {
+    lines.push('Referenciada por:');
+    for (const ref of table.referencedBy) {
+      const columns = ref.columns.length > 1 ? ` → (${ref.columns.join(', ')})` : '';
+      lines.push(`  ${formatForeignKeyTarget(ref)}${columns}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Serializa o resultado de run_sql para devolver ao modelo como tool result.
+ */
+export function formatExecutionForAgent(
+  result: ExecutionResult,
+  options: { sampleSize?: number; recoveryInstruction?: string } = {}
+): string {
+  if (result.error) {
+    const lines = [`Erro SQL: ${result.error}`];
+    if (options.recoveryInstruction) {
+      lines.push(`Instrucao: ${options.recoveryInstruction}`);
+    }
+    return lines.join('\n');
+  }
+
+  const columns = result.columns || Object.keys(result.rows[0] || {});
+  const sampleRows = result.rows.slice(0, options.sampleSize ?? 5);
+  let sample = JSON.stringify(sampleRows);
+  if (sample.length > RESULT_MAX_CHARS) {
+    sample = `${sample.slice(0, RESULT_MAX_CHARS)}... [truncated]`;
+  }
+
+  const summary = result.hasMore
+    ? `Resultado parcial: primeiras ${result.rowCount} linha(s), ha mais linhas (use COUNT/agregacoes para totais), ${result.duration}ms.`
+    : `Resultado: ${result.rowCount} linha(s), ${result.duration}ms.`;
+
+  return [
+    summary,
+    `Colunas: ${columns.join(', ') || '(sem colunas)'}.`,
+    `Amostra (${sampleRows.length} linha(s)): ${sample}`,
+  ].join('\n');
+}
@@ -0,0 +1,170 @@
+import * as https from 'https';
+import { log } from '../utils/logger.js';
+import { getAuth, saveAuth } from '../utils/config.js';
+import type { IAuthProvider } from './oauth.js';
+
+// ─── Interfaces ───
+
+export type ApiKeyProvider = 'openai' | 'anthropic';
+
+// ─── Constantes ───
+
+const OPENAI_MODELS_URL = 'https://api.openai.com/v1/models';
+const ANTHROPIC_MODELS_URL = 'https://api.anthropic.com/v1/models?limit=100';
+
+// Modelos da listagem OpenAI que nao servem para chat (audio, imagem, embeddings...)
+const OPENAI_NON_CHAT_PATTERN = /(audio|realtime|tts|transcribe|image|embedding|search|moderation|dall-e|whisper|davinci|babbage)/i;
+const OPENAI_CHAT_PATTERN = /^(gpt-|o\d|chatgpt-)/i;
+
+// ─── Helpers ───
+
+function httpsGet(
+  url: string,
+  headers: Record<string, string>
+): Promise<{ statusCode: number; data: string }> {
+  return new Promise((resolve, reject) => {
+    const req = https.request(url, { method: 'GET', headers, timeout: 15000 }, (res) => {
+      let data = '';
+      res.on('data', (chunk: Buffer) => {
+        data += chunk.toString();
+      });
+      res.on('end', () => {
+        resolve({ statusCode: res.statusCode ?? 0, data });
+      });
+    });
+
+    req.on('error', reject);
+    req.on('timeout', () => {
+      req.destroy();
+      reject(new Error('Timeout na requisição'));
+    });
+
+    req.end();
+  });
+}
+
+/**
+ * Valida a chave listando os modelos do provider. Chave invalida vira erro legivel.
+ */
+async function fetchModels(provider: ApiKeyProvider, apiKey: string): Promise<string[]> {
+  const headers: Record<string, string> =
+    provider === 'openai'
+      ? { 'Authorization': `Bearer ${apiKey}` }
+      : { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' };
+  const url = provider === 'openai' ? OPENAI_MODELS_URL : ANTHROPIC_MODELS_URL;
+  const label = provider === 'openai' ? 'OpenAI' : 'Anthropic';
+
+  const response = await httpsGet(url, headers);
+
+  if (response.statusCode === 401 || response.statusCode === 403) {
+    throw new Error(`API key ${label} invalida ou sem permissao.`);
+  }
+  if (response.statusCode !== 200) {
+    throw new Error(`Falha ao validar API key ${label} (HTTP ${response.statusCode}).`);
+  }
+
+  let body: { data?: Array<{ id?: string }> };
+  try {
+    body = JSON.parse(response.data) as { data?: Array<{ id?: string }> };
+  } catch {
+    throw new Error(`Resposta invalida ao listar modelos ${label}.`);
+  }
+  const ids = (body.data ?? []).map((m) => m.id ?? '').filter((id) => id.length > 0);
+
+  if (provider === 'anthropic') {
+    return ids;
+  }
+  return ids
+    .filter((id) => OPENAI_CHAT_PATTERN.test(id) && !OPENAI_NON_CHAT_PATTERN.test(id))
+    .sort();
+}
+
+// ─── Classe ───
+
+/**
+ * Autenticacao por API key (OpenAI Platform ou Anthropic Console).
+ * Diferente do OAuth, usa as APIs publicas e qualquer modelo liberado para a chave.
+ */
+export class ApiKeyAuth implements IAuthProvider {
+  private provider: ApiKeyProvider = 'openai';
+  private apiKey: string | null = null;
+  private models: string[] | null = null;
+
+  /**
+   * Valida a chave e salva no config. Retorna os modelos disponiveis para ela.
+   */
+  async configure(provider: ApiKeyProvider, apiKey: string, model?: string): Promise<string[]> {
+    const key = apiKey.trim();
+    if (!key) {
+      throw new Error('API key nao informada.');
+    }
+
+    const models = await fetchModels(provider, key);
+
+    this.provider = provider;
+    this.apiKey = key;
+    this.models = models;
+
+    saveAuth({
+      provider,
+      apiKey: key,
+      model: model?.trim() || undefined,
+      accountId: this.getAccountId() ?? undefined,
+    });
+    log.success(`API key ${provider} configurada.`);
+
+    return models;
+  }
+
+  async listModels(): Promise<string[]> {
+    if (!this.apiKey) return [];
+    if (!this.models) {
+      this.models = await fetchModels(this.provider, this.apiKey);
+    }
+    return this.models;
+  }
+
+  async getAccessToken(): Promise<string> {
+    if (!this.apiKey) {
+      throw new Error('API key nao configurada.');
+    }
+    return this.apiKey;
+  }
+
+  isAuthenticated(): boolean {
+    return this.apiKey !== null;
+  }
+
+  getAccountId(): string | null {
+    if (!this.apiKey) return null;
+    // Nunca expor a chave: so os ultimos caracteres para o usuario reconhecer
+    return `${this.provider}-key...${this.apiKey.slice(-4)}`;
+  }
+
+  getProvider(): ApiKeyProvider {
+    return this.provider;
+  }
+
+  loadFromConfig(): boolean {
+    const auth = getAuth();
+    if (!auth || (auth.provider !== 'openai' && auth.provider !== 'anthropic') || !auth.apiKey) {
+      return false;
+    }
+
+    this.provider = auth.provider;
+    this.apiKey = auth.apiKey;
+    this.models = null;
+
+    return true;
+  }
+
+  clearTokens(): void {
+    this.apiKey = null;
+    this.models = null;
+    saveAuth({
+      provider: this.provider,
+      apiKey: undefined,
+      accountId: undefined,
+    });
+  }
+}
@@ -0,0 +1,203 @@
+import * as http from 'http';
+import * as https from 'https';
+import { log } from '../utils/logger.js';
+import { getAuth, saveAuth } from '../utils/config.js';
+import type { IAuthProvider } from './oauth.js';
+
+// ─── Interfaces ───
+
+/**
+ * 'ollama' usa /api/chat; 'openai' usa /v1/chat/completions (LM Studio, vLLM, llama.cpp...).
+ */
+export type LocalApiFlavor = 'ollama' | 'openai';
+
+export interface LocalLLMSettings {
+  baseUrl: string;
+  api: LocalApiFlavor;
+  apiKey?: string;
+  model?: string;
+}
+
+// ─── Constantes ───
+
+export const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+
+// ─── Helpers ───
+
+function normalizeBaseUrl(baseUrl: string, api: LocalApiFlavor): string {
+  let url = baseUrl.trim().replace(/\/+$/, '');
+  // Servidores OpenAI-compativeis costumam ser informados ja com /v1
+  if (api === 'openai') {
+    url = url.replace(/\/v1$/, '');
+  }
+  return url;
+}
+
+function httpGetJSON(
+  url: string,
+  headers: Record<string, string>
+): Promise<{ statusCode: number; data: string }> {
+  return new Promise((resolve, reject) => {
+    const urlObj = new URL(url);
+    const transport = urlObj.protocol === 'http:' ? http : https;
+
+    const req = transport.request(
+      urlObj,
+      { method: 'GET', headers, timeout: 10000 },
+      (res) => {
+        let data = '';
+        res.on('data', (chunk: Buffer) => {
+          data += chunk.toString();
+        });
+        res.on('end', () => {
+          resolve({ statusCode: res.statusCode ?? 0, data });
+        });
+      }
+    );
+
+    req.on('error', reject);
+    req.on('timeout', () => {
+      req.destroy();
+      reject(new Error('Timeout na requisição'));
+    });
+
+    req.end();
+  });
+}
+
+async function fetchModels(settings: LocalLLMSettings): Promise<string[]> {
+  const headers: Record<string, string> = {};
+  if (settings.apiKey) {
+    headers['Authorization'] = `Bearer ${settings.apiKey}`;
+  }
+
+  const url =
+    settings.api === 'ollama'
+      ? `${settings.baseUrl}/api/tags`
+      : `${settings.baseUrl}/v1/models`;
+
+  let response: { statusCode: number; data: string };
+  try {
+    response = await httpGetJSON(url, headers);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Erro desconhecido';
+    throw new Error(`Servidor local inacessivel em ${settings.baseUrl}: ${msg}`);
+  }
+
+  if (response.statusCode !== 200) {
+    throw new Error(`Falha ao listar modelos (HTTP ${response.statusCode}) em ${url}`);
+  }
+
+  try {
+    const body = JSON.parse(response.data) as {
+      models?: Array<{ name?: string; model?: string }>;
+      data?: Array<{ id?: string }>;
+    };
+    const names =
+      settings.api === 'ollama'
+        ? (body.models ?? []).map((m) => m.name ?? m.model ?? '')
+        : (body.data ?? []).map((m) => m.id ?? '');
+    return names.filter((name) => name.length > 0).sort();
+  } catch {
+    throw new Error(`Resposta invalida ao listar modelos em ${url}`);
+  }
+}
+
+// ─── Classe ───
+
+/**
+ * Provider para modelos rodando localmente (Ollama ou servidor OpenAI-compativel).
+ * Nao ha OAuth: "autenticar" e apenas registrar a URL base, validada listando os modelos.
+ */
+export class LocalLLMAuth implements IAuthProvider {
+  private settings: LocalLLMSettings | null = null;
+
+  /**
+   * Valida a URL listando os modelos e salva a configuracao. Sem modelo informado,
+   * usa o primeiro disponivel.
+   */
+  async configure(settings: LocalLLMSettings): Promise<string[]> {
+    const normalized: LocalLLMSettings = {
+      baseUrl: normalizeBaseUrl(settings.baseUrl, settings.api),
+      api: settings.api,
+      apiKey: settings.apiKey?.trim() || undefined,
+    };
+
+    const models = await fetchModels(normalized);
+    const model = settings.model?.trim() || models[0];
+    if (!model) {
+      throw new Error(`Nenhum modelo disponivel em ${normalized.baseUrl}. Baixe um modelo antes (ex.: ollama pull llama3.1).`);
+    }
+
+    this.settings = { ...normalized, model };
+    this.saveToConfig();
+    log.success(`Provider local configurado (${normalized.api} em ${normalized.baseUrl}).`);
+    return models;
+  }
+
+  async listModels(): Promise<string[]> {
+    if (!this.settings) return [];
+    return fetchModels(this.settings);
+  }
+
+  getSettings(): LocalLLMSettings | null {
+    return this.settings ? { ...this.settings } : null;
+  }
+
+  async getAccessToken(): Promise<string> {
+    return this.settings?.apiKey ?? '';
+  }
+
+  isAuthenticated(): boolean {
+    return this.settings !== null;
+  }
+
+  getAccountId(): string | null {
+    if (!this.settings) return null;
+    return `${this.settings.api}@${new URL(this.settings.baseUrl).host}`;
+  }
+
+  getProvider(): 'ollama' {
+    return 'ollama';
+  }
+
+  loadFromConfig(): boolean {
+    const auth = getAuth();
+    if (!auth || auth.provider !== 'ollama' || !auth.baseUrl) {
+      return false;
+    }
+
+    this.settings = {
+      baseUrl: auth.baseUrl,
+      api: auth.localApi ?? 'ollama',
+      apiKey: auth.apiKey,
+      model: auth.model,
+    };
+
+    return true;
+  }
+
+  clearTokens(): void {
+    this.settings = null;
+    saveAuth({
+      provider: 'ollama',
+      baseUrl: undefined,
+      localApi: undefined,
+      apiKey: undefined,
+      model: undefined,
+    });
+  }
+
+  private saveToConfig(): void {
+    if (!this.settings) return;
+
+    saveAuth({
+      provider: 'ollama',
+      baseUrl: this.settings.baseUrl,
+      localApi: this.settings.api,
+      apiKey: this.settings.apiKey,
+      model: this.settings.model,
+      accountId: this.getAccountId() ?? undefined,
+    });
+  }
+}
@@ -12,7 +12,7 @@ export interface IAuthProvider {
   getAccessToken(): Promise<string>;
   isAuthenticated(): boolean;
   getAccountId(): string | null;
-  getProvider(): 'openai' | 'anthropic';
+  getProvider(): 'openai' | 'anthropic' | 'ollama';
   loadFromConfig(): boolean;
   clearTokens(): void;
 }
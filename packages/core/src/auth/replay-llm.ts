@@ -0,0 +1,177 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getAuth } from '../utils/config.js';
+import type { IAuthProvider } from './oauth.js';
+import type { LLMToolCall } from '../agent/llm.js';
+
+// ─── Interfaces ───
+
+/**
+ * Uma resposta do LLM numa fixture. `expect` (opcional) e um trecho que a
+ * ultima mensagem enviada precisa conter; `error` simula uma falha do provider.
+ */
+export interface LLMFixtureTurn {
+  expect?: string;
+  input?: string; // ultima mensagem enviada, so para leitura (gravada automaticamente)
+  response?: {
+    content?: string;
+    toolCalls?: LLMToolCall[];
+    tokensUsed?: { prompt: number; completion: number; total: number };
+  };
+  error?: string;
+}
+
+export interface LLMFixture {
+  provider: 'openai' | 'anthropic' | 'ollama';
+  model?: string;
+  recordedAt?: string; // ISO
+  turns: LLMFixtureTurn[];
+}
+
+export type LLMFixtureMode = 'replay' | 'record';
+
+// ─── Constantes ───
+
+const REPLAY_ENV = 'AGENTDB_LLM_REPLAY';
+const RECORD_ENV = 'AGENTDB_LLM_RECORD';
+const MAX_INPUT_CHARS = 500;
+
+// ─── Helpers ───
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Arquivo de fixture para o modo pedido: variavel de ambiente primeiro,
+ * depois `auth.fixture` no config.
+ */
+function fixtureFile(mode: LLMFixtureMode): string | null {
+  const fromEnv = process.env[mode === 'replay' ? REPLAY_ENV : RECORD_ENV];
+  if (fromEnv) return path.resolve(fromEnv);
+
+  const fixture = getAuth()?.fixture;
+  return fixture?.mode === mode && fixture.file ? path.resolve(fixture.file) : null;
+}
+
+// ─── Funções exportadas ───
+
+/**
+ * Le e valida uma fixture. Lanca Error com mensagem legivel no primeiro problema.
+ */
+export function loadLLMFixture(file: string): LLMFixture {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Erro desconhecido';
+    throw new Error(`Fixture de LLM ilegível (${file}): ${msg}`);
+  }
+
+  if (!isRecord(data) || !Array.isArray(data.turns)) {
+    throw new Error(`Fixture de LLM inválida (${file}): esperado um objeto com "turns".`);
+  }
+
+  const turns = data.turns.map((turn, i): LLMFixtureTurn => {
+    if (!isRecord(turn) || (!isRecord(turn.response) && typeof turn.error !== 'string')) {
+      throw new Error(`Fixture de LLM inválida (${file}): resposta #${i + 1} precisa de "response" ou "error".`);
+    }
+    return turn as LLMFixtureTurn;
+  });
+
+  const provider = data.provider === 'openai' || data.provider === 'ollama' ? data.provider : 'anthropic';
+  return {
+    provider,
+    model: typeof data.model === 'string' ? data.model : undefined,
+    recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : undefined,
+    turns,
+  };
+}
+
+/**
+ * Arquivo onde as chamadas reais devem ser gravadas; null = gravacao desligada.
+ */
+export function getLLMRecordFile(): string | null {
+  return fixtureFile('record');
+}
+
+/**
+ * Acrescenta uma resposta real a fixture, criando o arquivo na primeira chamada.
+ */
+export function appendLLMFixtureTurn(
+  file: string,
+  header: Pick<LLMFixture, 'provider' | 'model'>,
+  turn: LLMFixtureTurn
+): void {
+  const fixture: LLMFixture = fs.existsSync(file)
+    ? loadLLMFixture(file)
+    : { ...header, recordedAt: new Date().toISOString(), turns: [] };
+
+  const input = turn.input && turn.input.length > MAX_INPUT_CHARS
+    ? `${turn.input.slice(0, MAX_INPUT_CHARS)}...`
+    : turn.input;
+  fixture.turns.push({ ...turn, input });
+
+  const dir = path.dirname(file);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  fs.writeFileSync(file, JSON.stringify(fixture, null, 2), 'utf-8');
+}
+
+// ─── Classe ───
+
+/**
+ * Provider offline: devolve as respostas de uma fixture em ordem, sem rede
+ * nem credenciais. Serve para demos e para exercitar o fluxo autonomo
+ * (tool calls, erros de SQL, retries) de forma deterministica.
+ * Ativado por AGENTDB_LLM_REPLAY=<arquivo> ou auth.fixture no config.
+ */
+export class ReplayLLMAuth implements IAuthProvider {
+  private file: string | null = null;
+  private fixture: LLMFixture | null = null;
+
+  /**
+   * Carrega a fixture de um arquivo explicito (ex.: scripts e testes).
+   */
+  load(file: string): void {
+    this.fixture = loadLLMFixture(file);
+    this.file = file;
+  }
+
+  getFixture(): LLMFixture | null {
+    return this.fixture;
+  }
+
+  getModel(): string {
+    return this.fixture?.model ?? 'replay';
+  }
+
+  async getAccessToken(): Promise<string> {
+    return '';
+  }
+
+  isAuthenticated(): boolean {
+    return this.fixture !== null;
+  }
+
+  getAccountId(): string | null {
+    return this.file ? `replay:${path.basename(this.file)}` : null;
+  }
+
+  getProvider(): 'openai' | 'anthropic' | 'ollama' {
+    return this.fixture?.provider ?? 'anthropic';
+  }
+
+  loadFromConfig(): boolean {
+    const file = fixtureFile('replay');
+    if (!file) return false;
+    this.load(file);
+    return true;
+  }
+
+  clearTokens(): void {
+    this.file = null;
+    this.fixture = null;
+  }
+}
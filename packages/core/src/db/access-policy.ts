@@ -0,0 +1,372 @@
+import type { SchemaMap, TableInfo } from './schema-engine.js';
+import type { TableProfile } from './column-profiler.js';
+import type { StatementReferences } from '../agent/sql-classifier.js';
+
+// ─── Interfaces ───
+
+/**
+ * Objetos que o agente e o editor de queries podem tocar numa conexao.
+ * Padroes "schema", "schema.tabela" ou "schema.tabela.coluna", com `*` como
+ * curinga dentro de cada parte. Com `allow`, so o que casar fica visivel;
+ * `deny` vence sempre. Ex.: { deny: ["billing", "public.users.senha_hash"] }.
+ */
+export interface AccessPolicy {
+  allow?: string[];
+  deny?: string[];
+}
+
+export interface AccessViolation {
+  kind: 'table' | 'column' | 'star' | 'view' | 'function' | 'unresolved' | 'setting';
+  object: string; // "schema.tabela", "schema.tabela.coluna", "schema.funcao" ou o parametro
+  via?: string; // view: objeto bloqueado que ela le
+}
+
+/**
+ * Objeto lido por uma view (direta ou indiretamente), via pg_depend/pg_rewrite.
+ */
+export interface ViewDependency {
+  view: string; // "schema.view" citada no statement
+  kind: 'relation' | 'function';
+  schema: string;
+  name: string;
+  column: string | null; // null = a relacao inteira
+}
+
+interface Pattern {
+  source: string;
+  parts: RegExp[];
+}
+
+// ─── Constantes ───
+
+const PATTERN_PART = /^[^.\s]+$/;
+
+const SYSTEM_SCHEMAS = new Set(['pg_catalog', 'information_schema']);
+
+// Estatisticas do planner: most_common_vals e histogram_bounds trazem valores de qualquer coluna
+const STATISTICS_RELATIONS = new Set([
+  'pg_stats',
+  'pg_stats_ext',
+  'pg_stats_ext_exprs',
+  'pg_statistic',
+  'pg_statistic_ext_data',
+]);
+
+// Funcoes nativas que executam SQL arbitrario ou leem tabelas pelo nome
+const SQL_TEXT_FUNCTIONS = new Set([
+  'query_to_xml',
+  'query_to_xmlschema',
+  'query_to_xml_and_xmlschema',
+  'table_to_xml',
+  'table_to_xmlschema',
+  'table_to_xml_and_xmlschema',
+  'cursor_to_xml',
+  'cursor_to_xmlschema',
+  'schema_to_xml',
+  'schema_to_xmlschema',
+  'schema_to_xml_and_xmlschema',
+  'database_to_xml',
+  'database_to_xmlschema',
+  'database_to_xml_and_xmlschema',
+  'ts_stat',
+  'dblink',
+  'dblink_exec',
+]);
+
+// ─── Helpers ───
+
+function compilePart(part: string): RegExp {
+  const escaped = part.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+function compilePattern(source: string): Pattern {
+  return { source, parts: source.replace(/"/g, '').split('.').map(compilePart) };
+}
+
+function matches(pattern: Pattern, names: string[]): boolean {
+  return pattern.parts.every((part, i) => i >= names.length || part.test(names[i]));
+}
+
+function readPatterns(input: Record<string, unknown>, field: 'allow' | 'deny'): string[] | undefined {
+  const value = input[field];
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.some((p) => typeof p !== 'string')) {
+    throw new Error(`"${field}" deve ser uma lista de padrões (schema, schema.tabela ou schema.tabela.coluna).`);
+  }
+
+  const patterns = (value as string[]).map((p) => p.trim()).filter(Boolean);
+  for (const pattern of patterns) {
+    const parts = pattern.replace(/"/g, '').split('.');
+    if (parts.length > 3 || !parts.every((part) => PATTERN_PART.test(part))) {
+      throw new Error(`Padrão inválido em "${field}": "${pattern}". Use schema, schema.tabela ou schema.tabela.coluna.`);
+    }
+  }
+  return patterns.length > 0 ? Array.from(new Set(patterns)) : undefined;
+}
+
+// ─── Funções exportadas ───
+
+/**
+ * Valida uma politica vinda do usuario (API, CLI ou config editada a mao).
+ * Lanca Error com mensagem legivel no primeiro padrao invalido.
+ */
+export function parseAccessPolicy(input: unknown): AccessPolicy {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('A política de acesso deve ser um objeto com "allow" e/ou "deny".');
+  }
+  const record = input as Record<string, unknown>;
+  const policy: AccessPolicy = {};
+  const allow = readPatterns(record, 'allow');
+  const deny = readPatterns(record, 'deny');
+  if (allow) policy.allow = allow;
+  if (deny) policy.deny = deny;
+  return policy;
+}
+
+export function isAccessPolicyEmpty(policy: AccessPolicy | null | undefined): boolean {
+  return !policy || ((policy.allow ?? []).length === 0 && (policy.deny ?? []).length === 0);
+}
+
+/**
+ * Mensagem devolvida como erro da query (com `errorCode: 'access_policy'`).
+ */
+export function formatAccessViolation(violation: AccessViolation): string {
+  const prefix = 'Bloqueado pela politica de acesso da conexao';
+  switch (violation.kind) {
+    case 'table':
+      return `${prefix}: ${violation.object} nao esta liberado.`;
+    case 'column':
+      return `${prefix}: a coluna ${violation.object} nao esta liberada.`;
+    case 'star':
+      return `${prefix}: ${violation.object} tem colunas bloqueadas; liste as colunas em vez de usar * ou a linha inteira.`;
+    case 'view':
+      return `${prefix}: a view ${violation.object} le ${violation.via}, que nao esta liberado.`;
+    case 'function':
+      return `${prefix}: a funcao ${violation.object} nao esta liberada (funcoes podem ler tabelas bloqueadas; libere com allow "schema.funcao").`;
+    case 'unresolved':
+      return `${prefix}: a relacao ${violation.object} nao foi encontrada no search_path da conexao; qualifique com o schema.`;
+    case 'setting':
+      return `${prefix}: ${violation.object} nao pode ser alterado (os nomes sem schema sao conferidos com o search_path padrao da conexao).`;
+  }
+}
+
+// ─── Classe ───
+
+/**
+ * Aplica uma AccessPolicy: filtra o mapa do schema e confere as referencias
+ * de cada statement antes da execucao.
+ */
+export class AccessGuard {
+  readonly policy: AccessPolicy;
+  private allow: Pattern[];
+  private deny: Pattern[];
+
+  constructor(policy: AccessPolicy) {
+    this.policy = policy;
+    this.allow = (policy.allow ?? []).map(compilePattern);
+    this.deny = (policy.deny ?? []).map(compilePattern);
+  }
+
+  /**
+   * Guarda da conexao; null quando nao ha regras (tudo liberado).
+   */
+  static fromPolicy(policy: AccessPolicy | null | undefined): AccessGuard | null {
+    return policy && !isAccessPolicyEmpty(policy) ? new AccessGuard(policy) : null;
+  }
+
+  isTableAllowed(schema: string, table: string): boolean {
+    if (schema === 'pg_catalog' && STATISTICS_RELATIONS.has(table)) return false;
+    const names = [schema, table];
+    if (this.deny.some((p) => p.parts.length <= 2 && matches(p, names))) return false;
+    // Um allow de coluna libera a tabela, mas so com as colunas listadas
+    return this.allow.length === 0 || this.allow.some((p) => matches(p, names));
+  }
+
+  isColumnAllowed(schema: string, table: string, column: string): boolean {
+    if (!this.isTableAllowed(schema, table)) return false;
+    const names = [schema, table, column];
+    if (this.deny.some((p) => matches(p, names))) return false;
+    return this.allow.length === 0 || this.allow.some((p) => matches(p, names));
+  }
+
+  /**
+   * true quando alguma coluna da tabela pode estar bloqueada: `*` e
+   * referencias a linha inteira deixam de ser seguros.
+   */
+  restrictsColumns(schema: string, table: string): boolean {
+    const names = [schema, table];
+    if (this.deny.some((p) => p.parts.length === 3 && matches(p, names))) return true;
+    if (this.allow.length === 0) return false;
+    return !this.allow.some((p) => p.parts.length <= 2 && matches(p, names));
+  }
+
+  /**
+   * Funcoes leem o que quiserem por dentro, fora do alcance da checagem de
+   * referencias: com politica ativa, so as nativas (exceto as que executam
+   * SQL em texto) e as liberadas por um allow explicito "schema.funcao".
+   */
+  isFunctionAllowed(schema: string, name: string): boolean {
+    if (SYSTEM_SCHEMAS.has(schema)) return !SQL_TEXT_FUNCTIONS.has(name.toLowerCase());
+    const names = [schema, name];
+    if (this.deny.some((p) => p.parts.length <= 2 && matches(p, names))) return false;
+    return this.allow.some((p) => p.parts.length === 2 && matches(p, names));
+  }
+
+  filterTable(table: TableInfo): TableInfo {
+    const { schema, name } = table;
+    const allowed = (column: string) => this.isColumnAllowed(schema, name, column);
+    const hidden = table.columns.filter((c) => !allowed(c.name)).map((c) => c.name);
+    const mentionsHidden = (definition: string) =>
+      hidden.some((column) => new RegExp(`\\b${column.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(definition));
+
+    return {
+      ...table,
+      columns: table.columns.filter((c) => allowed(c.name)),
+      foreignKeys: table.foreignKeys.filter(
+        (fk) =>
+          fk.columns.every(allowed) &&
+          fk.referencedColumns.every((c) => this.isColumnAllowed(fk.referencedSchema, fk.referencedTable, c))
+      ),
+      // Em referencedBy, "referenced*" aponta para a tabela que referencia esta
+      referencedBy: table.referencedBy.filter(
+        (fk) =>
+          fk.referencedColumns.every(allowed) &&
+          fk.columns.every((c) => this.isColumnAllowed(fk.referencedSchema, fk.referencedTable, c))
+      ),
+      indexes: table.indexes.filter((idx) => idx.columns.every(allowed)),
+      checkConstraints: table.checkConstraints.filter((c) => !mentionsHidden(c.definition)),
+      uniqueConstraints: table.uniqueConstraints.filter((c) => c.columns.every(allowed)),
+      partition: table.partition && {
+        ...table.partition,
+        children: table.partition.children?.filter((key) => {
+          const dot = key.indexOf('.');
+          return this.isTableAllowed(key.slice(0, dot), key.slice(dot + 1));
+        }),
+      },
+    };
+  }
+
+  /**
+   * Mapa com o que a politica libera. Sequencias seguem a regra de tabela pelo
+   * nome qualificado (as de colunas bloqueadas somem junto); rotinas seguem
+   * `isFunctionAllowed`.
+   */
+  filterSchemaMap(map: SchemaMap): SchemaMap {
+    const tables = map.tables
+      .filter((t) => this.isTableAllowed(t.schema, t.name))
+      .map((t) => this.filterTable(t));
+
+    return {
+      ...map,
+      schemas: Array.from(new Set(tables.map((t) => t.schema))).sort(),
+      tables,
+      sequences: map.sequences.filter((seq) => {
+        if (!this.isTableAllowed(seq.schema, seq.name)) return false;
+        if (!seq.ownedBy) return true;
+        const [schema, table, column] = seq.ownedBy.split('.');
+        return this.isColumnAllowed(schema, table, column);
+      }),
+      routines: map.routines.filter((r) => this.isFunctionAllowed(r.schema, r.name)),
+    };
+  }
+
+  filterProfile(schema: string, table: string, profile: TableProfile): TableProfile {
+    return {
+      ...profile,
+      columns: Object.fromEntries(
+        Object.entries(profile.columns).filter(([column]) => this.isColumnAllowed(schema, table, column))
+      ),
+    };
+  }
+
+  /**
+   * Confere as referencias de um statement. `resolveSchema` da o schema de
+   * relacoes sem qualificacao (search_path); null = nao resolvida, e bloqueia:
+   * nao ha como saber o que o Postgres vai ler. Colunas sem qualificacao valem
+   * para todas as relacoes do statement: na duvida, bloqueia.
+   */
+  checkReferences(
+    references: StatementReferences,
+    resolveSchema: (name: string) => string | null,
+    resolveFunctionSchemas: (name: string) => string[] = () => []
+  ): AccessViolation | null {
+    // Nomes sem schema sao resolvidos com o search_path padrao; troca-lo no lote invalidaria a checagem
+    if (references.settings.some((name) => name === 'search_path' || name === '*')) {
+      return { kind: 'setting', object: 'search_path' };
+    }
+
+    // Sem schema, qualquer sobrecarga visivel no search_path pode ser a chamada
+    for (const fn of references.functions) {
+      const schemas = fn.schema ? [fn.schema] : resolveFunctionSchemas(fn.name);
+      const blocked = schemas.find((schema) => !this.isFunctionAllowed(schema, fn.name));
+      if (blocked) return { kind: 'function', object: `${blocked}.${fn.name}` };
+    }
+
+    const relations: Array<{ schema: string; name: string; alias: string | null }> = [];
+    for (const ref of references.relations) {
+      const schema = ref.schema ?? resolveSchema(ref.name);
+      if (!schema) return { kind: 'unresolved', object: ref.name };
+      if (!this.isTableAllowed(schema, ref.name)) {
+        return { kind: 'table', object: `${schema}.${ref.name}` };
+      }
+      relations.push({ schema, name: ref.name, alias: ref.alias });
+    }
+
+    const byQualifier = (qualifier: string) =>
+      relations.filter((r) => (r.alias ?? r.name).toLowerCase() === qualifier.toLowerCase());
+
+    for (const column of references.columns) {
+      let targets = column.qualifier ? byQualifier(column.qualifier) : relations;
+      let name = column.name;
+
+      // "SELECT u FROM users u" e row_to_json(u): linha inteira
+      if (!column.qualifier && name !== '*' && byQualifier(name).length > 0) {
+        targets = byQualifier(name);
+        name = '*';
+      }
+
+      for (const target of targets) {
+        if (name === '*') {
+          if (this.restrictsColumns(target.schema, target.name)) {
+            return { kind: 'star', object: `${target.schema}.${target.name}` };
+          }
+        } else if (!this.isColumnAllowed(target.schema, target.name, name)) {
+          return { kind: 'column', object: `${target.schema}.${target.name}.${name}` };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Views e views materializadas leem outras relacoes com os privilegios do
+   * dono: cada objeto de que dependem passa pelas mesmas regras.
+   */
+  checkViewDependencies(dependencies: ViewDependency[]): AccessViolation | null {
+    for (const dep of dependencies) {
+      const object = `${dep.schema}.${dep.name}`;
+      const allowed =
+        dep.kind === 'function'
+          ? this.isFunctionAllowed(dep.schema, dep.name)
+          : dep.column
+            ? this.isColumnAllowed(dep.schema, dep.name, dep.column)
+            : this.isTableAllowed(dep.schema, dep.name);
+      if (!allowed) {
+        return { kind: 'view', object: dep.view, via: dep.column ? `${object}.${dep.column}` : object };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Resumo legivel das regras (CLI e API).
+   */
+  describe(): string[] {
+    const lines: string[] = [];
+    if (this.allow.length > 0) lines.push(`allow: ${this.allow.map((p) => p.source).join(', ')}`);
+    if (this.deny.length > 0) lines.push(`deny: ${this.deny.map((p) => p.source).join(', ')}`);
+    return lines;
+  }
+}
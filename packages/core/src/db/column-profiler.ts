@@ -0,0 +1,230 @@
+import { DatabaseConnector } from './connector.js';
+import { quoteIdent } from './schema-engine.js';
+import type { TableInfo } from './schema-engine.js';
+
+// ─── Interfaces ───
+
+export interface ValueFrequency {
+  value: string;
+  frequency: number; // fracao das linhas (0..1)
+}
+
+export interface ColumnProfile {
+  nullFraction: number;
+  distinct: number | null; // estimativa de valores distintos; null = desconhecido
+  commonValues: ValueFrequency[];
+  histogram?: string[]; // limites do histograma, ja reduzidos
+  source: 'pg_stats' | 'sample';
+}
+
+/**
+ * Perfil dos dados de uma tabela: da ao agente os valores reais de filtros
+ * ("ATIVO" e nao "active") sem precisar consultar a tabela.
+ */
+export interface TableProfile {
+  columns: Record<string, ColumnProfile>;
+  sampledRows: number | null; // so quando veio de amostragem
+  profiledAt: string; // ISO
+}
+
+export interface ProfilerOptions {
+  sampleRows?: number;
+  timeoutMs?: number;
+}
+
+// ─── Row types ───
+
+interface StatsRow {
+  table_schema: string;
+  table_name: string;
+  column_name: string;
+  null_frac: number;
+  n_distinct: number;
+  common_values: string[] | null;
+  common_freqs: number[] | null;
+  histogram: string[] | null;
+}
+
+// ─── Constantes ───
+
+const DEFAULT_SAMPLE_ROWS = 1000;
+const SAMPLE_TIMEOUT_MS = 5000;
+const MAX_COMMON_VALUES = 10;
+const MAX_HISTOGRAM_BOUNDS = 11;
+const MAX_VALUE_LENGTH = 80;
+
+// Valores grandes ou sem igualdade util: nao entram no perfil
+const UNPROFILED_TYPE = /^(json|jsonb|bytea|xml|tsvector|tsquery|geometry|geography)$|\[\]$/;
+
+// ─── Helpers ───
+
+function truncateValue(value: string): string {
+  return value.length > MAX_VALUE_LENGTH ? `${value.slice(0, MAX_VALUE_LENGTH)}…` : value;
+}
+
+/**
+ * Reduz o histograma a poucos limites igualmente espacados (sempre com min e max).
+ */
+function reduceHistogram(bounds: string[]): string[] {
+  if (bounds.length <= MAX_HISTOGRAM_BOUNDS) return bounds.map(truncateValue);
+  const step = (bounds.length - 1) / (MAX_HISTOGRAM_BOUNDS - 1);
+  return Array.from({ length: MAX_HISTOGRAM_BOUNDS }, (_, i) =>
+    truncateValue(bounds[Math.round(i * step)])
+  );
+}
+
+/**
+ * n_distinct negativo e fracao das linhas: vira contagem pela estimativa da tabela.
+ */
+function estimateDistinct(nDistinct: number, estimatedRows: number): number | null {
+  if (nDistinct > 0) return Math.round(nDistinct);
+  if (nDistinct < 0 && estimatedRows > 0) return Math.round(-nDistinct * estimatedRows);
+  return null;
+}
+
+function profileSample(values: (string | null)[]): ColumnProfile {
+  const counts = new Map<string, number>();
+  let nulls = 0;
+  for (const value of values) {
+    if (value === null) {
+      nulls++;
+      continue;
+    }
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+
+  const total = values.length || 1;
+  const commonValues = Array.from(counts, ([value, count]) => ({ value, count }))
+    .filter((entry) => entry.count > 1)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_COMMON_VALUES)
+    .map((entry) => ({ value: truncateValue(entry.value), frequency: entry.count / total }));
+
+  return {
+    nullFraction: nulls / total,
+    distinct: counts.size,
+    commonValues,
+    source: 'sample',
+  };
+}
+
+// ─── Classe ───
+
+export class ColumnProfiler {
+  private db: DatabaseConnector;
+  private sampleRows: number;
+  private timeoutMs: number;
+
+  constructor(db: DatabaseConnector, options: ProfilerOptions = {}) {
+    this.db = db;
+    this.sampleRows = options.sampleRows ?? DEFAULT_SAMPLE_ROWS;
+    this.timeoutMs = options.timeoutMs ?? SAMPLE_TIMEOUT_MS;
+  }
+
+  /**
+   * Perfila as tabelas pelo pg_stats (barato, vem do ANALYZE). Tabelas sem
+   * estatisticas (nunca analisadas, views) caem numa amostra limitada.
+   * Devolve perfis por "schema.tabela"; falha numa tabela nao derruba as outras.
+   */
+  async profileTables(tables: TableInfo[]): Promise<Record<string, TableProfile>> {
+    if (tables.length === 0) return {};
+
+    const profiles: Record<string, TableProfile> = {};
+    const stats = await this.readStats(tables.map((t) => `${t.schema}.${t.name}`));
+
+    for (const table of tables) {
+      const key = `${table.schema}.${table.name}`;
+      const columnStats = stats.get(key);
+
+      if (columnStats && columnStats.size > 0) {
+        const columns = table.columns.filter((c) => columnStats.has(c.name) && !UNPROFILED_TYPE.test(c.type));
+        profiles[key] = {
+          columns: Object.fromEntries(
+            columns.map((c) => [c.name, this.fromStats(columnStats.get(c.name)!, table.estimatedRowCount)])
+          ),
+          sampledRows: null,
+          profiledAt: new Date().toISOString(),
+        };
+        continue;
+      }
+
+      try {
+        profiles[key] = await this.sampleTable(table);
+      } catch {
+        // Sem permissao ou timeout na amostra: a tabela fica sem perfil
+      }
+    }
+
+    return profiles;
+  }
+
+  private async readStats(keys: string[]): Promise<Map<string, Map<string, StatsRow>>> {
+    // anyarray nao converte direto: passa por text para chegar como text[]
+    const result = await this.db.query<StatsRow>(`
+      SELECT DISTINCT ON (schemaname, tablename, attname)
+        schemaname AS table_schema,
+        tablename AS table_name,
+        attname AS column_name,
+        null_frac,
+        n_distinct,
+        most_common_vals::text::text[] AS common_values,
+        most_common_freqs AS common_freqs,
+        histogram_bounds::text::text[] AS histogram
+      FROM pg_catalog.pg_stats
+      WHERE (schemaname || '.' || tablename) = ANY($1::text[])
+      ORDER BY schemaname, tablename, attname, inherited DESC
+    `, [keys]);
+
+    const stats = new Map<string, Map<string, StatsRow>>();
+    for (const row of result.rows) {
+      const key = `${row.table_schema}.${row.table_name}`;
+      if (!stats.has(key)) stats.set(key, new Map());
+      stats.get(key)!.set(row.column_name, row);
+    }
+    return stats;
+  }
+
+  private fromStats(row: StatsRow, estimatedRows: number): ColumnProfile {
+    const values = row.common_values ?? [];
+    const freqs = row.common_freqs ?? [];
+
+    return {
+      nullFraction: Number(row.null_frac),
+      distinct: estimateDistinct(Number(row.n_distinct), estimatedRows),
+      commonValues: values.slice(0, MAX_COMMON_VALUES).map((value, i) => ({
+        value: truncateValue(value),
+        frequency: Number(freqs[i] ?? 0),
+      })),
+      histogram: row.histogram ? reduceHistogram(row.histogram) : undefined,
+      source: 'pg_stats',
+    };
+  }
+
+  private async sampleTable(table: TableInfo): Promise<TableProfile> {
+    const columns = table.columns.filter((c) => !UNPROFILED_TYPE.test(c.type));
+    const target = `${quoteIdent(table.schema)}.${quoteIdent(table.name)}`;
+
+    // Em tabelas grandes o TABLESAMPLE evita ler so o comeco do heap
+    const sampling =
+      table.type === 'table' && table.estimatedRowCount > this.sampleRows * 10
+        ? ` TABLESAMPLE SYSTEM (${Math.min(100, (this.sampleRows * 200) / table.estimatedRowCount).toFixed(4)})`
+        : '';
+    const select = columns.map((c) => `${quoteIdent(c.name)}::text AS ${quoteIdent(c.name)}`).join(', ');
+
+    const result = columns.length > 0
+      ? await this.db.readOnlyQuery<Record<string, string | null>>(
+          `SELECT ${select} FROM ${target}${sampling} LIMIT ${this.sampleRows}`,
+          undefined,
+          { timeoutMs: this.timeoutMs }
+        )
+      : { rows: [] };
+
+    return {
+      columns: Object.fromEntries(
+        columns.map((c) => [c.name, profileSample(result.rows.map((row) => row[c.name] ?? null))])
+      ),
+      sampledRows: result.rows.length,
+      profiledAt: new Date().toISOString(),
+    };
+  }
+}
@@ -15,20 +15,149 @@ export interface QueryResultData<T = Record<string, unknown>> {
   columns?: string[];
 }
 
+export interface ConnectorOptions {
+  statementTimeoutMs?: number; // padrao da conexao
+  maxQueryCost?: number; // teto de custo do EXPLAIN antes de executar
+}
+
+export interface QueryOptions {
+  timeoutMs?: number; // sobrescreve o statement_timeout da conexao
+  signal?: AbortSignal; // abort dispara pg_cancel_backend no backend da query
+  searchPath?: string; // fixa o search_path so durante a query
+}
+
+export interface CursorPage<T = Record<string, unknown>> {
+  rows: T[];
+  columns: string[];
+  offset: number;
+  hasMore: boolean;
+  totalRows: number | null; // conhecido so depois de alcancar o fim do cursor
+  duration: number;
+}
+
+type CursorRunner = (sql: string, signal?: AbortSignal) => Promise<QueryResult>;
+
+let cursorCounter = 0;
+
+// ─── Helpers ───
+
+/**
+ * Com varios statements no mesmo texto o pg devolve um resultado por
+ * statement; vale o ultimo, como no psql.
+ */
+function lastResult(result: QueryResult | QueryResult[]): QueryResult {
+  return Array.isArray(result) ? result[result.length - 1] : result;
+}
+
+// Parametros de sessao pedidos em QueryOptions, como pares [nome, valor]
+function sessionSettings(options: QueryOptions): Array<[string, string]> {
+  const settings: Array<[string, string]> = [];
+  if (options.timeoutMs !== undefined) {
+    settings.push(['statement_timeout', String(Math.max(0, Math.floor(options.timeoutMs)))]);
+  }
+  if (options.searchPath !== undefined) settings.push(['search_path', options.searchPath]);
+  return settings;
+}
+
+// Dentro de uma transacao: valem so ate o COMMIT/ROLLBACK
+async function applyLocalSettings(client: PoolClient, options: QueryOptions): Promise<void> {
+  for (const [name, value] of sessionSettings(options)) {
+    await client.query('SELECT set_config($1, $2, true)', [name, value]);
+  }
+}
+
+// ─── Cursor ───
+
+/**
+ * Cursor SCROLL aberto numa transacao READ ONLY dedicada. Segura um client do
+ * pool ate `close()`, entao quem abre e responsavel por fechar.
+ */
+export class QueryCursor {
+  private name: string;
+  private run: CursorRunner;
+  private finish: () => Promise<void>;
+  private closed: boolean = false;
+  private totalRows: number | null = null;
+
+  constructor(name: string, run: CursorRunner, finish: () => Promise<void>) {
+    this.name = name;
+    this.run = run;
+    this.finish = finish;
+  }
+
+  async fetch<T = Record<string, unknown>>(
+    offset: number,
+    limit: number,
+    signal?: AbortSignal
+  ): Promise<CursorPage<T>> {
+    if (this.closed) {
+      throw new Error('Cursor ja foi fechado.');
+    }
+
+    const start = performance.now();
+    const safeOffset = Math.max(0, Math.floor(offset));
+    const safeLimit = Math.max(1, Math.floor(limit));
+
+    try {
+      // MOVE ABSOLUTE n deixa o cursor sobre a linha n; o FETCH comeca na seguinte
+      await this.run(`MOVE ABSOLUTE ${safeOffset} IN ${this.name}`, signal);
+      // Uma linha extra so para saber se ha proxima pagina
+      const result = await this.run(`FETCH FORWARD ${safeLimit + 1} FROM ${this.name}`, signal);
+
+      const hasMore = result.rows.length > safeLimit;
+      if (!hasMore) {
+        this.totalRows = safeOffset + result.rows.length;
+      }
+
+      return {
+        rows: (hasMore ? result.rows.slice(0, safeLimit) : result.rows) as T[],
+        columns: result.fields?.map(f => f.name) ?? [],
+        offset: safeOffset,
+        hasMore,
+        totalRows: this.totalRows,
+        duration: Math.round((performance.now() - start) * 100) / 100,
+      };
+    } catch (error) {
+      // Erro aborta a transacao; o cursor nao serve mais
+      await this.close();
+      const msg =
+        error instanceof Error ? error.message : 'Erro desconhecido no cursor';
+      throw new Error(`Erro ao ler pagina do resultado: ${msg}`);
+    }
+  }
+
+  getTotalRows(): number | null {
+    return this.totalRows;
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    await this.finish();
+  }
+}
+
 // ─── Classe ───
 
 export class DatabaseConnector {
   private pool: Pool;
   private connectionUrl: string;
   private connected: boolean = false;
+  private options: ConnectorOptions;
 
-  constructor(connectionUrl: string) {
+  constructor(connectionUrl: string, options: ConnectorOptions = {}) {
     this.connectionUrl = connectionUrl;
+    this.options = options;
     this.pool = new Pool({
       connectionString: connectionUrl,
       max: 5,
       idleTimeoutMillis: 30000,
       connectionTimeoutMillis: 10000,
+      statement_timeout: options.statementTimeoutMs || undefined,
     });
 
     this.pool.on('error', (err) => {
@@ -75,12 +204,38 @@ export class DatabaseConnector {
 
   async query<T = Record<string, unknown>>(
     sql: string,
-    params?: unknown[]
+    params?: unknown[],
+    options: QueryOptions = {}
   ): Promise<QueryResultData<T>> {
     const start = performance.now();
+    let client: PoolClient | null = null;
+    let discard = false;
 
     try {
-      const result: QueryResult = await this.pool.query(sql, params);
+      client = await this.pool.connect();
+      const activeClient = client;
+
+      const settings = sessionSettings(options);
+      const result = lastResult(await this.withCancellation(activeClient, options.signal, async () => {
+        if (settings.length === 0) {
+          return activeClient.query(sql, params);
+        }
+        // SET de sessao (nao LOCAL) porque o SQL pode conter comandos que nao rodam em transacao
+        for (const [name, value] of settings) {
+          await activeClient.query('SELECT set_config($1, $2, false)', [name, value]);
+        }
+        try {
+          return await activeClient.query(sql, params);
+        } finally {
+          try {
+            for (const [name] of settings) await activeClient.query(`RESET ${name}`);
+          } catch {
+            // Sem o RESET o parametro ficaria na sessao: o client e descartado, nao volta ao pool
+            discard = true;
+          }
+        }
+      }));
+
       const duration = Math.round((performance.now() - start) * 100) / 100;
       const columns = result.fields?.map(f => f.name) ?? [];
 
@@ -95,24 +250,33 @@ export class DatabaseConnector {
       const msg =
         error instanceof Error ? error.message : 'Erro desconhecido na query';
       throw new Error(`Erro na query (${duration}ms): ${msg}`);
+    } finally {
+      if (client) {
+        client.release(discard);
+      }
     }
   }
 
   async readOnlyQuery<T = Record<string, unknown>>(
     sql: string,
-    params?: unknown[]
+    params?: unknown[],
+    options: QueryOptions = {}
   ): Promise<QueryResultData<T>> {
     const start = performance.now();
     let client: PoolClient | null = null;
 
     try {
       client = await this.pool.connect();
+      const activeClient = client;
 
-      await client.query('BEGIN READ ONLY');
+      await activeClient.query('BEGIN READ ONLY');
+      await applyLocalSettings(activeClient, options);
 
-      const result: QueryResult = await client.query(sql, params);
+      const result = lastResult(await this.withCancellation(activeClient, options.signal, () =>
+        activeClient.query(sql, params)
+      ));
 
-      await client.query('COMMIT');
+      await activeClient.query('COMMIT');
 
       const duration = Math.round((performance.now() - start) * 100) / 100;
       const columns = result.fields?.map(f => f.name) ?? [];
@@ -143,6 +307,83 @@ export class DatabaseConnector {
     }
   }
 
+  /**
+   * Abre um cursor para um unico SELECT sem carregar as linhas: elas sao lidas
+   * por pagina com `QueryCursor.fetch`.
+   */
+  async openCursor(
+    sql: string,
+    params?: unknown[],
+    options: QueryOptions = {}
+  ): Promise<QueryCursor> {
+    const client = await this.pool.connect();
+    const name = `agentdb_cursor_${++cursorCounter}`;
+
+    const finish = async () => {
+      try {
+        await client.query('ROLLBACK');
+      } catch {
+        // Ignora erro no rollback
+      }
+      client.release();
+    };
+
+    try {
+      await client.query('BEGIN READ ONLY');
+      await applyLocalSettings(client, options);
+
+      await this.withCancellation(client, options.signal, () =>
+        client.query(`DECLARE ${name} SCROLL CURSOR FOR ${sql}`, params)
+      );
+
+      return new QueryCursor(
+        name,
+        (cursorSql, signal) => this.withCancellation(client, signal, () => client.query(cursorSql)),
+        finish
+      );
+    } catch (error) {
+      await finish();
+      const msg =
+        error instanceof Error ? error.message : 'Erro desconhecido na query';
+      throw new Error(`Erro ao abrir cursor: ${msg}`);
+    }
+  }
+
+  /**
+   * Roda `fn` numa transacao que sempre sofre rollback (preview de escritas).
+   */
+  async withRollback<T>(
+    fn: (query: (sql: string, params?: unknown[]) => Promise<QueryResultData>) => Promise<T>,
+    options: QueryOptions = {}
+  ): Promise<T> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await applyLocalSettings(client, options);
+
+      return await fn(async (sql, params) => {
+        const start = performance.now();
+        const result = lastResult(await this.withCancellation(client, options.signal, () =>
+          client.query(sql, params)
+        ));
+        return {
+          rows: result.rows as Record<string, unknown>[],
+          rowCount: result.rowCount ?? result.rows.length,
+          duration: Math.round((performance.now() - start) * 100) / 100,
+          columns: result.fields?.map(f => f.name) ?? [],
+        };
+      });
+    } finally {
+      try {
+        await client.query('ROLLBACK');
+      } catch {
+        // Ignora erro no rollback
+      }
+      client.release();
+    }
+  }
+
   async disconnect(): Promise<void> {
     try {
       await this.pool.end();
@@ -161,4 +402,38 @@ export class DatabaseConnector {
   getConnectionUrl(): string {
     return this.connectionUrl;
   }
+
+  getOptions(): ConnectorOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Liga o AbortSignal ao backend que esta rodando a query: abortar envia
+   * pg_cancel_backend por outra conexao do pool em vez de so abandonar a promise.
+   */
+  private async withCancellation<T>(
+    client: PoolClient,
+    signal: AbortSignal | undefined,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    if (!signal) return fn();
+    if (signal.aborted) {
+      throw new Error('Query cancelada pelo usuario.');
+    }
+
+    const pid = (client as PoolClient & { processID?: number | null }).processID;
+    const onAbort = () => {
+      if (!pid) return;
+      this.pool.query('SELECT pg_cancel_backend($1)', [pid]).catch(() => {
+        // Backend ja pode ter terminado
+      });
+    };
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    try {
+      return await fn();
+    } finally {
+      signal.removeEventListener('abort', onAbort);
+    }
+  }
 }
@@ -0,0 +1,414 @@
+import { DatabaseConnector } from './connector.js';
+import { SchemaEngine, quoteIdent } from './schema-engine.js';
+import type { ColumnInfo, ForeignKey, IndexInfo, SchemaMap, TableInfo } from './schema-engine.js';
+import { AccessGuard } from './access-policy.js';
+import { getConnections } from '../utils/config.js';
+import { loadSchemaSnapshotAt } from '../utils/schema-cache.js';
+
+// ─── Interfaces ───
+
+export type DiffChange = 'added' | 'removed' | 'changed';
+
+export type ColumnDiffField = 'type' | 'nullable' | 'defaultValue';
+
+export interface ColumnDiff {
+  name: string;
+  change: DiffChange;
+  from?: ColumnInfo;
+  to?: ColumnInfo;
+  fields: ColumnDiffField[]; // so em 'changed'
+}
+
+export interface ForeignKeyDiff {
+  change: 'added' | 'removed';
+  foreignKey: ForeignKey;
+}
+
+export interface IndexDiff {
+  name: string;
+  change: DiffChange;
+  from?: IndexInfo;
+  to?: IndexInfo;
+}
+
+export interface TableDiff {
+  schema: string;
+  name: string;
+  type: 'table' | 'view';
+  change: DiffChange;
+  columns: ColumnDiff[];
+  foreignKeys: ForeignKeyDiff[];
+  indexes: IndexDiff[];
+  table?: TableInfo; // definicao de destino (tabelas adicionadas)
+}
+
+export interface SchemaDiffSide {
+  label: string;
+  database: string;
+  mappedAt: Date;
+}
+
+export interface SchemaDiff {
+  from: SchemaDiffSide;
+  to: SchemaDiffSide;
+  tables: TableDiff[];
+  summary: { added: number; removed: number; changed: number };
+}
+
+/**
+ * Referencia a um schema: "conexao" (estado atual) ou "conexao@2026-10-01"
+ * (snapshot mais recente ate a data, do historico do cache).
+ */
+export interface SchemaRef {
+  connection: string;
+  at: Date | null;
+}
+
+// ─── Helpers ───
+
+function tableKey(table: { schema: string; name: string }): string {
+  return `${table.schema}.${table.name}`;
+}
+
+function fkKey(fk: ForeignKey): string {
+  return `${fk.columns.join(',')}->${fk.referencedSchema}.${fk.referencedTable}(${fk.referencedColumns.join(',')})`;
+}
+
+function sameIndex(a: IndexInfo, b: IndexInfo): boolean {
+  return a.isUnique === b.isUnique && a.columns.join(',') === b.columns.join(',');
+}
+
+function diffColumns(from: TableInfo, to: TableInfo): ColumnDiff[] {
+  const diffs: ColumnDiff[] = [];
+  const fromCols = new Map(from.columns.map((c) => [c.name, c]));
+  const toCols = new Map(to.columns.map((c) => [c.name, c]));
+
+  for (const [name, col] of fromCols) {
+    if (!toCols.has(name)) diffs.push({ name, change: 'removed', from: col, fields: [] });
+  }
+
+  for (const [name, col] of toCols) {
+    const before = fromCols.get(name);
+    if (!before) {
+      diffs.push({ name, change: 'added', to: col, fields: [] });
+      continue;
+    }
+
+    const fields: ColumnDiffField[] = [];
+    if (before.type !== col.type) fields.push('type');
+    if (before.nullable !== col.nullable) fields.push('nullable');
+    if ((before.defaultValue ?? null) !== (col.defaultValue ?? null)) fields.push('defaultValue');
+    if (fields.length > 0) {
+      diffs.push({ name, change: 'changed', from: before, to: col, fields });
+    }
+  }
+
+  return diffs;
+}
+
+function diffForeignKeys(from: TableInfo, to: TableInfo): ForeignKeyDiff[] {
+  const fromKeys = new Set(from.foreignKeys.map(fkKey));
+  const toKeys = new Set(to.foreignKeys.map(fkKey));
+
+  return [
+    ...from.foreignKeys
+      .filter((fk) => !toKeys.has(fkKey(fk)))
+      .map((fk): ForeignKeyDiff => ({ change: 'removed', foreignKey: fk })),
+    ...to.foreignKeys
+      .filter((fk) => !fromKeys.has(fkKey(fk)))
+      .map((fk): ForeignKeyDiff => ({ change: 'added', foreignKey: fk })),
+  ];
+}
+
+function diffIndexes(from: TableInfo, to: TableInfo): IndexDiff[] {
+  const diffs: IndexDiff[] = [];
+  const fromIdx = new Map(from.indexes.map((i) => [i.name, i]));
+  const toIdx = new Map(to.indexes.map((i) => [i.name, i]));
+
+  for (const [name, idx] of fromIdx) {
+    if (!toIdx.has(name)) diffs.push({ name, change: 'removed', from: idx });
+  }
+  for (const [name, idx] of toIdx) {
+    const before = fromIdx.get(name);
+    if (!before) {
+      diffs.push({ name, change: 'added', to: idx });
+    } else if (!sameIndex(before, idx)) {
+      diffs.push({ name, change: 'changed', from: before, to: idx });
+    }
+  }
+
+  return diffs;
+}
+
+function qualified(schema: string, name: string): string {
+  return `${quoteIdent(schema)}.${quoteIdent(name)}`;
+}
+
+// information_schema devolve USER-DEFINED/ARRAY sem o tipo real
+function isOpaqueType(type: string): boolean {
+  return type === 'USER-DEFINED' || type === 'ARRAY';
+}
+
+function columnDefinition(col: ColumnInfo): string {
+  let def = `${quoteIdent(col.name)} ${col.type}`;
+  if (!col.nullable) def += ' NOT NULL';
+  if (col.defaultValue !== null) def += ` DEFAULT ${col.defaultValue}`;
+  return def;
+}
+
+function createTableSql(table: TableInfo): string[] {
+  if (table.type === 'view') {
+    return [`-- View ${qualified(table.schema, table.name)} adicionada: definicao nao disponivel no snapshot`];
+  }
+
+  const lines = table.columns.map((col) => `  ${columnDefinition(col)}`);
+  const pkCols = table.columns.filter((c) => c.isPrimaryKey).map((c) => quoteIdent(c.name));
+  if (pkCols.length > 0) lines.push(`  PRIMARY KEY (${pkCols.join(', ')})`);
+
+  const sql = [`CREATE TABLE ${qualified(table.schema, table.name)} (`, lines.join(',\n'), ');'];
+  const opaque = table.columns.filter((c) => isOpaqueType(c.type));
+  if (opaque.length > 0) {
+    sql.unshift(`-- Revisar tipos de ${opaque.map((c) => c.name).join(', ')} (tipo real nao disponivel)`);
+  }
+  return [sql.join('\n')];
+}
+
+function indexSql(schema: string, table: string, idx: IndexInfo): string {
+  const unique = idx.isUnique ? 'UNIQUE ' : '';
+  const cols = idx.columns.map(quoteIdent).join(', ');
+  return `CREATE ${unique}INDEX ${quoteIdent(idx.name)} ON ${qualified(schema, table)} (${cols});`;
+}
+
+function addForeignKeySql(target: string, fk: ForeignKey): string {
+  const columns = fk.columns.map(quoteIdent).join(', ');
+  const referenced = fk.referencedColumns.map(quoteIdent).join(', ');
+  return `ALTER TABLE ${target} ADD CONSTRAINT ${quoteIdent(fk.name)} FOREIGN KEY (${columns}) REFERENCES ${qualified(fk.referencedSchema, fk.referencedTable)} (${referenced});`;
+}
+
+// ─── Funções exportadas ───
+
+/**
+ * Compara dois schemas: tabelas, colunas (tipo, nulabilidade, default), FKs e indices.
+ * `from` e o estado de origem; a migracao gerada leva `from` ate `to`.
+ */
+export function diffSchemas(
+  from: SchemaMap,
+  to: SchemaMap,
+  labels: { from?: string; to?: string } = {}
+): SchemaDiff {
+  const fromTables = new Map(from.tables.map((t) => [tableKey(t), t]));
+  const toTables = new Map(to.tables.map((t) => [tableKey(t), t]));
+  const tables: TableDiff[] = [];
+
+  for (const [key, table] of fromTables) {
+    if (toTables.has(key)) continue;
+    tables.push({
+      schema: table.schema,
+      name: table.name,
+      type: table.type,
+      change: 'removed',
+      columns: [],
+      foreignKeys: [],
+      indexes: [],
+    });
+  }
+
+  for (const [key, table] of toTables) {
+    const before = fromTables.get(key);
+    if (!before) {
+      tables.push({
+        schema: table.schema,
+        name: table.name,
+        type: table.type,
+        change: 'added',
+        columns: [],
+        foreignKeys: [],
+        indexes: [],
+        table,
+      });
+      continue;
+    }
+
+    const columns = diffColumns(before, table);
+    const foreignKeys = diffForeignKeys(before, table);
+    const indexes = diffIndexes(before, table);
+    if (columns.length > 0 || foreignKeys.length > 0 || indexes.length > 0) {
+      tables.push({
+        schema: table.schema,
+        name: table.name,
+        type: table.type,
+        change: 'changed',
+        columns,
+        foreignKeys,
+        indexes,
+      });
+    }
+  }
+
+  tables.sort((a, b) => a.schema.localeCompare(b.schema) || a.name.localeCompare(b.name));
+
+  return {
+    from: { label: labels.from ?? from.database, database: from.database, mappedAt: from.mappedAt },
+    to: { label: labels.to ?? to.database, database: to.database, mappedAt: to.mappedAt },
+    tables,
+    summary: {
+      added: tables.filter((t) => t.change === 'added').length,
+      removed: tables.filter((t) => t.change === 'removed').length,
+      changed: tables.filter((t) => t.change === 'changed').length,
+    },
+  };
+}
+
+/**
+ * SQL de migracao (PostgreSQL) que leva o schema de origem ao de destino.
+ * Ponto de partida para revisao: remocoes de FK e views dependem de informacoes
+ * que o snapshot nao guarda e saem como comentario.
+ */
+export function generateMigrationSql(diff: SchemaDiff): string {
+  const creates: string[] = [];
+  const alters: string[] = [];
+  const foreignKeys: string[] = [];
+  const drops: string[] = [];
+
+  for (const table of diff.tables) {
+    const target = qualified(table.schema, table.name);
+
+    if (table.change === 'added' && table.table) {
+      creates.push(...createTableSql(table.table));
+      for (const idx of table.table.indexes.filter((i) => !i.isPrimary)) {
+        creates.push(indexSql(table.schema, table.name, idx));
+      }
+      for (const fk of table.table.foreignKeys) {
+        foreignKeys.push(addForeignKeySql(target, fk));
+      }
+      continue;
+    }
+
+    if (table.change === 'removed') {
+      drops.push(`DROP ${table.type === 'view' ? 'VIEW' : 'TABLE'} ${target};`);
+      continue;
+    }
+
+    if (table.type === 'view') {
+      alters.push(`-- View ${target} mudou: recrie a partir da definicao de destino`);
+      continue;
+    }
+
+    for (const col of table.columns) {
+      const column = quoteIdent(col.name);
+      if (col.change === 'added' && col.to) {
+        alters.push(`ALTER TABLE ${target} ADD COLUMN ${columnDefinition(col.to)};`);
+      } else if (col.change === 'removed') {
+        drops.push(`ALTER TABLE ${target} DROP COLUMN ${column};`);
+      } else if (col.to) {
+        if (col.fields.includes('type')) {
+          alters.push(
+            isOpaqueType(col.to.type)
+              ? `-- ${target}.${column}: tipo mudou (${col.from?.type} → ${col.to.type}), revisar manualmente`
+              : `ALTER TABLE ${target} ALTER COLUMN ${column} TYPE ${col.to.type} USING ${column}::${col.to.type};`
+          );
+        }
+        if (col.fields.includes('nullable')) {
+          alters.push(`ALTER TABLE ${target} ALTER COLUMN ${column} ${col.to.nullable ? 'DROP' : 'SET'} NOT NULL;`);
+        }
+        if (col.fields.includes('defaultValue')) {
+          alters.push(
+            col.to.defaultValue === null
+              ? `ALTER TABLE ${target} ALTER COLUMN ${column} DROP DEFAULT;`
+              : `ALTER TABLE ${target} ALTER COLUMN ${column} SET DEFAULT ${col.to.defaultValue};`
+          );
+        }
+      }
+    }
+
+    for (const idx of table.indexes) {
+      if (idx.from?.isPrimary || idx.to?.isPrimary) continue;
+      const dropSql = `DROP INDEX ${qualified(table.schema, idx.name)};`;
+      if (idx.change === 'removed') {
+        drops.unshift(dropSql);
+      } else if (idx.to) {
+        // Indice alterado: recria com o mesmo nome
+        if (idx.change === 'changed') alters.push(dropSql);
+        alters.push(indexSql(table.schema, table.name, idx.to));
+      }
+    }
+
+    for (const fk of table.foreignKeys) {
+      if (fk.change === 'added') {
+        foreignKeys.push(addForeignKeySql(target, fk.foreignKey));
+      } else {
+        // Antes dos ADD: uma FK recriada com outras colunas pode manter o nome
+        alters.push(`ALTER TABLE ${target} DROP CONSTRAINT ${quoteIdent(fk.foreignKey.name)};`);
+      }
+    }
+  }
+
+  const sections = [creates, alters, foreignKeys, drops].filter((s) => s.length > 0);
+  if (sections.length === 0) {
+    return '-- Nenhuma diferenca de schema.';
+  }
+
+  const header = `-- Migracao: ${diff.from.label} → ${diff.to.label}`;
+  return [header, ...sections.map((s) => s.join('\n'))].join('\n\n') + '\n';
+}
+
+export function parseSchemaRef(ref: string): SchemaRef {
+  const trimmed = ref.trim();
+  const at = trimmed.lastIndexOf('@');
+  if (at <= 0) {
+    return { connection: trimmed, at: null };
+  }
+
+  const connection = trimmed.slice(0, at);
+  const rawDate = trimmed.slice(at + 1);
+  // "2026-10-01" vale ate o fim do dia
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(rawDate) ? `${rawDate}T23:59:59.999` : rawDate);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Data invalida em "${ref}". Use conexao@AAAA-MM-DD.`);
+  }
+  return { connection, at: date };
+}
+
+/**
+ * Resolve uma referencia para um SchemaMap. Com data, usa o historico do cache;
+ * sem data, usa o mapa ja carregado (`live`) ou conecta e atualiza via cache.
+ * A politica de acesso da conexao vale tambem para snapshots antigos.
+ */
+export async function loadSchemaRef(
+  ref: SchemaRef,
+  live?: { connection: string; engine: SchemaEngine }
+): Promise<SchemaMap> {
+  if (ref.at) {
+    const snapshot = loadSchemaSnapshotAt(ref.connection, ref.at);
+    if (!snapshot) {
+      throw new Error(
+        `Nenhum snapshot de "${ref.connection}" ate ${ref.at.toISOString().slice(0, 10)}.`
+      );
+    }
+    const access = getConnections().find((c) => c.name === ref.connection)?.access;
+    const guard = AccessGuard.fromPolicy(access);
+    return guard ? guard.filterSchemaMap(snapshot.schema) : snapshot.schema;
+  }
+
+  if (live && live.connection === ref.connection) {
+    const schema = live.engine.getSchemaMap();
+    if (schema) return schema;
+  }
+
+  const conn = getConnections().find((c) => c.name === ref.connection);
+  if (!conn) {
+    throw new Error(`Conexao "${ref.connection}" nao encontrada.`);
+  }
+
+  const db = new DatabaseConnector(conn.url, {
+    statementTimeoutMs: conn.statementTimeoutMs,
+    maxQueryCost: conn.maxQueryCost,
+  });
+  await db.connect();
+  try {
+    const { schema } = await new SchemaEngine(db, { accessPolicy: conn.access }).mapDatabaseCached(conn.name);
+    return schema;
+  } finally {
+    await db.disconnect().catch(() => undefined);
+  }
+}
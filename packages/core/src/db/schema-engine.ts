@@ -1,4 +1,10 @@
 import { DatabaseConnector } from './connector.js';
+import { ColumnProfiler } from './column-profiler.js';
+import type { ProfilerOptions, TableProfile } from './column-profiler.js';
+import { loadSchemaSnapshot, saveSchemaSnapshot } from '../utils/schema-cache.js';
+import type { SchemaSnapshot } from '../utils/schema-cache.js';
+import { AccessGuard } from './access-policy.js';
+import type { AccessPolicy } from './access-policy.js';
 
 // ─── Interfaces ───
 
@@ -9,13 +15,23 @@ export interface ColumnInfo {
   defaultValue: string | null;
   isPrimaryKey: boolean;
   comment: string | null;
+  enumValues?: string[]; // labels do enum, na ordem de definicao
+  generated?: string; // expressao de coluna GENERATED ALWAYS AS (...) STORED
+  identity?: 'ALWAYS' | 'BY DEFAULT';
+  sequence?: string; // "schema.sequencia" dona da coluna (serial/identity)
 }
 
+/**
+ * Uma FK por constraint. Em FKs compostas, `columns[i]` referencia
+ * `referencedColumns[i]`. Em `referencedBy` o par aparece invertido:
+ * `columns` sao da tabela atual e `referenced*` e a tabela que aponta para ela.
+ */
 export interface ForeignKey {
-  column: string;
+  name: string;
+  columns: string[];
   referencedSchema: string;
   referencedTable: string;
-  referencedColumn: string;
+  referencedColumns: string[];
 }
 
 export interface IndexInfo {
@@ -25,14 +41,92 @@ export interface IndexInfo {
   isPrimary: boolean;
 }
 
+export interface CheckConstraint {
+  name: string;
+  definition: string; // como em pg_get_constraintdef: "CHECK ((price > 0))"
+}
+
+export interface UniqueConstraint {
+  name: string;
+  columns: string[];
+}
+
+/**
+ * Particionamento declarativo. Na tabela pai: estrategia, chave e filhas.
+ * Numa particao: a tabela pai e o intervalo de valores.
+ */
+export interface PartitionInfo {
+  strategy?: 'range' | 'list' | 'hash';
+  key?: string; // "RANGE (created_at)"
+  children?: string[]; // "schema.tabela"
+  parent?: string; // "schema.tabela"
+  bound?: string; // "FOR VALUES FROM (...) TO (...)"
+}
+
+export interface TriggerInfo {
+  name: string;
+  timing: 'BEFORE' | 'AFTER' | 'INSTEAD OF';
+  events: string[]; // INSERT, UPDATE, DELETE, TRUNCATE
+  level: 'ROW' | 'STATEMENT';
+  function: string; // "schema.funcao"
+  enabled: boolean;
+  definition: string; // pg_get_triggerdef
+}
+
+export interface RoutineInfo {
+  schema: string;
+  name: string;
+  kind: 'function' | 'procedure' | 'aggregate' | 'window';
+  arguments: string; // "p_id integer, p_status text"
+  returnType: string | null; // null em procedures
+  language: string;
+  volatility: 'immutable' | 'stable' | 'volatile';
+  comment: string | null;
+}
+
+export interface ExtensionInfo {
+  name: string;
+  version: string;
+  schema: string;
+}
+
+/**
+ * Um JOIN do caminho: `on` ja vem pronto, com todas as colunas da FK.
+ */
+export interface JoinStep {
+  from: string; // "schema.tabela"
+  to: string;
+  constraint: string;
+  direction: 'forward' | 'reverse'; // forward: a FK esta em `from`
+  on: string;
+}
+
+export interface JoinPath {
+  tables: string[]; // da origem ao destino
+  steps: JoinStep[];
+  sql: string; // FROM ... JOIN ... ON ...
+}
+
+export interface SequenceInfo {
+  schema: string;
+  name: string;
+  dataType: string;
+  ownedBy: string | null; // "schema.tabela.coluna"
+}
+
 export interface TableInfo {
   schema: string;
   name: string;
   type: 'table' | 'view';
+  materialized?: boolean; // view materializada (type 'view')
   columns: ColumnInfo[];
   foreignKeys: ForeignKey[];
   referencedBy: ForeignKey[];
   indexes: IndexInfo[];
+  checkConstraints: CheckConstraint[];
+  uniqueConstraints: UniqueConstraint[];
+  triggers: TriggerInfo[];
+  partition?: PartitionInfo;
   estimatedRowCount: number;
   comment: string | null;
 }
@@ -42,9 +136,37 @@ export interface SchemaMap {
   version: string;
   schemas: string[];
   tables: TableInfo[];
+  sequences: SequenceInfo[];
+  routines: RoutineInfo[]; // sem as funcoes internas de extensoes
+  extensions: ExtensionInfo[];
   mappedAt: Date;
 }
 
+export interface SchemaRefreshResult {
+  refreshed: string[]; // "schema.tabela" relidas por mudanca de DDL
+  added: string[];
+  removed: string[];
+  notFound: string[]; // tabelas pedidas no escopo que nao existem
+  unchanged: number;
+  full: boolean; // true quando nao havia mapa e tudo foi lido
+}
+
+export interface SchemaProfileResult {
+  profiled: string[]; // "schema.tabela"
+  failed: string[]; // sem estatisticas e sem amostra (permissao, timeout)
+  notFound: string[];
+}
+
+export interface SchemaEngineOptions {
+  accessPolicy?: AccessPolicy | null;
+}
+
+export interface SchemaLoadResult {
+  schema: SchemaMap;
+  fromCache: boolean;
+  refresh: SchemaRefreshResult | null;
+}
+
 // ─── Row types ───
 
 interface TableRow {
@@ -64,6 +186,12 @@ interface ColumnRow {
   is_nullable: string;
   column_default: string | null;
   comment: string | null;
+  udt_schema: string | null;
+  udt_name: string | null;
+  is_generated: string | null;
+  generation_expression: string | null;
+  is_identity: string | null;
+  identity_generation: string | null;
 }
 
 interface PKRow {
@@ -73,12 +201,13 @@ interface PKRow {
 }
 
 interface FKRow {
+  constraint_name: string;
   table_schema: string;
   table_name: string;
-  column_name: string;
+  columns: string[];
   referenced_schema: string;
   referenced_table: string;
-  referenced_column: string;
+  referenced_columns: string[];
 }
 
 interface IndexRow {
@@ -88,17 +217,433 @@ interface IndexRow {
   indexdef: string;
 }
 
+interface EnumRow {
+  enum_schema: string;
+  enum_name: string;
+  label: string;
+}
+
+interface ConstraintRow {
+  table_schema: string;
+  table_name: string;
+  constraint_name: string;
+  constraint_type: 'c' | 'u';
+  definition: string;
+  columns: string[];
+}
+
+interface PartitionRow {
+  table_schema: string;
+  table_name: string;
+  strategy: 'r' | 'l' | 'h' | null;
+  partition_key: string | null;
+  parent_schema: string | null;
+  parent_table: string | null;
+  partition_bound: string | null;
+  children: string[];
+}
+
+interface SequenceRow {
+  sequence_schema: string;
+  sequence_name: string;
+  data_type: string;
+  owner_schema: string | null;
+  owner_table: string | null;
+  owner_column: string | null;
+}
+
+interface TriggerRow {
+  table_schema: string;
+  table_name: string;
+  trigger_name: string;
+  trigger_type: number;
+  enabled: string;
+  function_schema: string;
+  function_name: string;
+  definition: string;
+}
+
+interface RoutineRow {
+  routine_schema: string;
+  routine_name: string;
+  kind: 'f' | 'p' | 'a' | 'w';
+  arguments: string;
+  return_type: string | null;
+  language: string;
+  volatility: 'i' | 's' | 'v';
+  comment: string | null;
+}
+
+interface ExtensionRow {
+  name: string;
+  version: string;
+  schema: string;
+}
+
+interface SignatureRow {
+  table_schema: string;
+  table_name: string;
+  estimated_rows: string | null;
+  signature: string;
+}
+
+interface RelationSignature {
+  signature: string;
+  estimatedRows: number;
+}
+
+// ─── Helpers ───
+
+export function quoteIdent(name: string): string {
+  return /^[a-z_][a-z0-9_]*$/.test(name) ? name : `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * "schema.tabela.coluna" ou, em FKs compostas, "schema.tabela(col_a, col_b)".
+ */
+export function formatForeignKeyTarget(fk: ForeignKey): string {
+  const table = `${fk.referencedSchema}.${fk.referencedTable}`;
+  return fk.referencedColumns.length === 1
+    ? `${table}.${fk.referencedColumns[0]}`
+    : `${table}(${fk.referencedColumns.join(', ')})`;
+}
+
+function qualifiedKey(key: string): string {
+  const dot = key.indexOf('.');
+  return `${quoteIdent(key.slice(0, dot))}.${quoteIdent(key.slice(dot + 1))}`;
+}
+
+// Colunas pareadas por posicao: "a.x = b.y AND a.z = b.w"
+function joinCondition(from: string, fromColumns: string[], to: string, toColumns: string[]): string {
+  return fromColumns
+    .map((col, i) => `${qualifiedKey(from)}.${quoteIdent(col)} = ${qualifiedKey(to)}.${quoteIdent(toColumns[i])}`)
+    .join(' AND ');
+}
+
+function collectSchemas(tables: TableInfo[]): string[] {
+  return Array.from(new Set(tables.map((t) => t.schema))).sort();
+}
+
+/**
+ * Decodifica pg_trigger.tgtype (bits: 0 ROW, 1 BEFORE, 2 INSERT, 3 DELETE,
+ * 4 UPDATE, 5 TRUNCATE, 6 INSTEAD).
+ */
+function decodeTriggerType(tgtype: number): Pick<TriggerInfo, 'timing' | 'events' | 'level'> {
+  const events: string[] = [];
+  if (tgtype & 4) events.push('INSERT');
+  if (tgtype & 16) events.push('UPDATE');
+  if (tgtype & 8) events.push('DELETE');
+  if (tgtype & 32) events.push('TRUNCATE');
+
+  return {
+    timing: tgtype & 64 ? 'INSTEAD OF' : tgtype & 2 ? 'BEFORE' : 'AFTER',
+    events,
+    level: tgtype & 1 ? 'ROW' : 'STATEMENT',
+  };
+}
+
+/**
+ * Marca em cada coluna a sequencia dona dela (serial/identity).
+ */
+function applySequenceOwnership(tables: TableInfo[], sequences: SequenceInfo[]): void {
+  const owned = new Map<string, string>();
+  for (const seq of sequences) {
+    if (seq.ownedBy) owned.set(seq.ownedBy, `${seq.schema}.${seq.name}`);
+  }
+
+  for (const table of tables) {
+    for (const col of table.columns) {
+      const sequence = owned.get(`${table.schema}.${table.name}.${col.name}`);
+      if (sequence) col.sequence = sequence;
+      else delete col.sequence;
+    }
+  }
+}
+
+function normalizeType(type: string): string {
+  return type
+    .replace('character varying', 'varchar')
+    .replace('character', 'char')
+    .replace('timestamp without time zone', 'timestamp')
+    .replace('timestamp with time zone', 'timestamptz')
+    .replace('double precision', 'float8')
+    .replace('boolean', 'bool');
+}
+
+const PARTITION_STRATEGIES = { r: 'range', l: 'list', h: 'hash' } as const;
+const ROUTINE_KINDS = { f: 'function', p: 'procedure', a: 'aggregate', w: 'window' } as const;
+const VOLATILITIES = { i: 'immutable', s: 'stable', v: 'volatile' } as const;
+const MAX_ENUM_LABELS_IN_CONTEXT = 15;
+const MAX_JOIN_DEPTH = 6;
+const MAX_JOIN_PATHS = 5;
+const MAX_PROFILE_VALUES_IN_CONTEXT = 5;
+const LOW_CARDINALITY = 50; // ate aqui os valores frequentes cobrem a coluna
+
+// "{a|b|c}" logo apos o tipo; enums muito longos sao truncados
+function formatEnumValues(values: string[]): string {
+  const shown = values.slice(0, MAX_ENUM_LABELS_IN_CONTEXT);
+  const rest = values.length - shown.length;
+  return `{${shown.join('|')}${rest > 0 ? `|…+${rest}` : ''}}`;
+}
+
+/**
+ * "schema.tabela" casa direto; so "tabela" casa em qualquer schema.
+ */
+function resolveTableKeys(
+  requested: string,
+  signatures: Map<string, RelationSignature>
+): string[] {
+  const name = requested.trim();
+  if (signatures.has(name)) return [name];
+  return Array.from(signatures.keys()).filter((key) => key.endsWith(`.${name}`));
+}
+
 // ─── Classe ───
 
 export class SchemaEngine {
   private db: DatabaseConnector;
-  private schemaMap: SchemaMap | null = null;
-
-  constructor(db: DatabaseConnector) {
+  private fullMap: SchemaMap | null = null; // catalogo inteiro, como vai para o cache
+  private schemaMap: SchemaMap | null = null; // o que a politica de acesso libera
+  private accessGuard: AccessGuard | null;
+  private signatures: Record<string, string> = {};
+  private profiles: Record<string, TableProfile> = {};
+  private cacheKey: string | null = null;
+
+  constructor(db: DatabaseConnector, options: SchemaEngineOptions = {}) {
     this.db = db;
+    this.accessGuard = AccessGuard.fromPolicy(options.accessPolicy);
+  }
+
+  /**
+   * Troca a politica de acesso sem remapear: o mapa visivel e refeito a partir
+   * do catalogo completo ja carregado.
+   */
+  setAccessPolicy(policy: AccessPolicy | null): void {
+    this.accessGuard = AccessGuard.fromPolicy(policy);
+    this.publishSchemaMap();
+  }
+
+  getAccessGuard(): AccessGuard | null {
+    return this.accessGuard;
   }
 
   async mapDatabase(): Promise<SchemaMap> {
+    const { database, version } = await this.readDatabaseInfo();
+    const signatures = await this.readSignatures();
+    const tables = await this.readTables();
+    const sequences = await this.readSequences();
+    applySequenceOwnership(tables, sequences);
+    const routines = await this.readRoutines();
+    const extensions = await this.readExtensions();
+
+    this.signatures = Object.fromEntries(
+      Array.from(signatures, ([key, sig]) => [key, sig.signature])
+    );
+    for (const key of Object.keys(this.profiles)) {
+      if (!signatures.has(key)) delete this.profiles[key];
+    }
+    this.fullMap = {
+      database,
+      version,
+      schemas: collectSchemas(tables),
+      tables,
+      sequences,
+      routines,
+      extensions,
+      mappedAt: new Date(),
+    };
+    this.persistSnapshot();
+
+    return this.publishSchemaMap()!;
+  }
+
+  /**
+   * Carrega o schema do cache em disco da conexao e atualiza so o que mudou.
+   * Sem cache (ou cache de outro banco), mapeia tudo e grava o snapshot.
+   */
+  async mapDatabaseCached(connection: string): Promise<SchemaLoadResult> {
+    this.cacheKey = connection;
+
+    const snapshot = loadSchemaSnapshot(connection);
+    if (snapshot) {
+      const { database } = await this.readDatabaseInfo();
+      if (snapshot.schema.database === database) {
+        this.fullMap = snapshot.schema;
+        this.signatures = snapshot.signatures;
+        this.profiles = snapshot.profiles ?? {};
+        const refresh = await this.refreshSchema();
+        return { schema: this.schemaMap!, fromCache: true, refresh };
+      }
+    }
+
+    const schema = await this.mapDatabase();
+    return { schema, fromCache: false, refresh: null };
+  }
+
+  /**
+   * Atualizacao incremental: compara a assinatura de catalogo de cada relacao
+   * com a do snapshot e rele apenas as que mudaram (ou as informadas em `tables`,
+   * como "tabela" ou "schema.tabela", que sao relidas sempre).
+   */
+  async refreshSchema(tables?: string[]): Promise<SchemaRefreshResult> {
+    if (!this.fullMap) {
+      const schema = await this.mapDatabase();
+      return {
+        refreshed: schema.tables.map((t) => `${t.schema}.${t.name}`),
+        added: [],
+        removed: [],
+        notFound: [],
+        unchanged: 0,
+        full: true,
+      };
+    }
+
+    const current = await this.readSignatures();
+    const known = new Set(this.fullMap.tables.map((t) => `${t.schema}.${t.name}`));
+    const notFound: string[] = [];
+    let targets: string[];
+
+    if (tables && tables.length > 0) {
+      targets = [];
+      for (const requested of tables) {
+        const keys = resolveTableKeys(requested, current);
+        if (keys.length === 0) notFound.push(requested);
+        targets.push(...keys);
+      }
+    } else {
+      // Relacoes sem assinatura no snapshot sao novas
+      targets = Array.from(current.keys()).filter(
+        (key) => this.signatures[key] !== current.get(key)!.signature
+      );
+    }
+
+    const targetSet = new Set(targets);
+    const reread = targets.length > 0 ? await this.readTables(targets) : [];
+
+    const merged = this.fullMap.tables.filter((t) => {
+      const key = `${t.schema}.${t.name}`;
+      return !targetSet.has(key) && current.has(key);
+    });
+    merged.push(...reread);
+    merged.sort((a, b) => a.schema.localeCompare(b.schema) || a.name.localeCompare(b.name));
+
+    // reltuples muda com VACUUM/ANALYZE sem mexer no xmin: atualiza para todas
+    for (const table of merged) {
+      const sig = current.get(`${table.schema}.${table.name}`);
+      if (sig) table.estimatedRowCount = sig.estimatedRows;
+    }
+
+    // Sequencias, rotinas e extensoes nao sao relacoes do mapa: sempre relidas
+    const sequences = await this.readSequences();
+    applySequenceOwnership(merged, sequences);
+    const routines = await this.readRoutines();
+    const extensions = await this.readExtensions();
+
+    // Relacoes que sumiram do catalogo saem do mapa em qualquer escopo
+    for (const key of Object.keys(this.signatures)) {
+      if (!current.has(key)) delete this.signatures[key];
+    }
+    for (const key of targets) {
+      const sig = current.get(key);
+      if (sig) this.signatures[key] = sig.signature;
+    }
+    // DDL mudou: o perfil pode citar colunas que nao existem mais
+    for (const key of Object.keys(this.profiles)) {
+      if (targetSet.has(key) || !current.has(key)) delete this.profiles[key];
+    }
+
+    this.fullMap = {
+      ...this.fullMap,
+      schemas: collectSchemas(merged),
+      tables: merged,
+      sequences,
+      routines,
+      extensions,
+      mappedAt: new Date(),
+    };
+    this.persistSnapshot();
+    this.publishSchemaMap();
+
+    const rereadKeys = new Set(reread.map((t) => `${t.schema}.${t.name}`));
+    const mergedKeys = new Set(merged.map((t) => `${t.schema}.${t.name}`));
+    // Tabelas bloqueadas nao aparecem nem no resumo da atualizacao
+    const visible = (key: string) => {
+      const dot = key.indexOf('.');
+      return !this.accessGuard || this.accessGuard.isTableAllowed(key.slice(0, dot), key.slice(dot + 1));
+    };
+    return {
+      refreshed: targets.filter((key) => known.has(key) && rereadKeys.has(key) && visible(key)),
+      added: targets.filter((key) => !known.has(key) && rereadKeys.has(key) && visible(key)),
+      removed: Array.from(known).filter((key) => !mergedKeys.has(key) && visible(key)),
+      notFound,
+      unchanged: merged.length - rereadKeys.size,
+      full: false,
+    };
+  }
+
+  getSnapshot(): SchemaSnapshot | null {
+    if (!this.fullMap) return null;
+    return { schema: this.fullMap, signatures: { ...this.signatures }, profiles: { ...this.profiles } };
+  }
+
+  /**
+   * Perfil de dados opt-in: so roda quando pedido, para as tabelas informadas
+   * ("tabela" ou "schema.tabela") ou para todas. Fica salvo junto do snapshot.
+   */
+  async profileTables(tables?: string[], options: ProfilerOptions = {}): Promise<SchemaProfileResult> {
+    if (!this.fullMap) {
+      throw new Error('Schema não mapeado');
+    }
+
+    const notFound: string[] = [];
+    let targets: TableInfo[];
+    if (tables && tables.length > 0) {
+      targets = [];
+      for (const requested of tables) {
+        const matches = this.findTables(requested);
+        if (matches.length === 0) notFound.push(requested);
+        targets.push(...matches.filter((t) => !targets.includes(t)));
+      }
+    } else {
+      targets = this.schemaMap!.tables.filter((t) => !t.partition?.parent);
+    }
+
+    const profiles = await new ColumnProfiler(this.db, options).profileTables(targets);
+    Object.assign(this.profiles, profiles);
+    this.persistSnapshot();
+
+    const keys = targets.map((t) => `${t.schema}.${t.name}`);
+    return {
+      profiled: keys.filter((key) => profiles[key]),
+      failed: keys.filter((key) => !profiles[key]),
+      notFound,
+    };
+  }
+
+  getProfile(schemaName: string, tableName: string): TableProfile | undefined {
+    const profile = this.profiles[`${schemaName}.${tableName}`];
+    return profile && this.accessGuard ? this.accessGuard.filterProfile(schemaName, tableName, profile) : profile;
+  }
+
+  private publishSchemaMap(): SchemaMap | null {
+    this.schemaMap = this.fullMap && this.accessGuard ? this.accessGuard.filterSchemaMap(this.fullMap) : this.fullMap;
+    return this.schemaMap;
+  }
+
+  private persistSnapshot(): void {
+    if (!this.cacheKey || !this.fullMap) return;
+    try {
+      saveSchemaSnapshot(this.cacheKey, {
+        schema: this.fullMap,
+        signatures: this.signatures,
+        profiles: this.profiles,
+      });
+    } catch {
+      // Cache e otimizacao: falha ao gravar nao impede o uso do schema
+    }
+  }
+
+  private async readDatabaseInfo(): Promise<{ database: string; version: string }> {
     const connInfo = await this.db.query<{ current_database: string }>(
       'SELECT current_database()'
     );
@@ -111,6 +656,159 @@ export class SchemaEngine {
     const versionMatch = fullVersion.match(/PostgreSQL\s+([\d.]+)/);
     const version = versionMatch ? `PostgreSQL ${versionMatch[1]}` : fullVersion;
 
+    return { database, version };
+  }
+
+  /**
+   * Funcoes e procedures dos schemas do usuario. Funcoes instaladas por extensoes
+   * (postgis, pgcrypto...) ficam de fora: sao centenas e aparecem em `extensions`.
+   */
+  private async readRoutines(): Promise<RoutineInfo[]> {
+    const result = await this.db.query<RoutineRow>(`
+      SELECT
+        n.nspname AS routine_schema,
+        p.proname AS routine_name,
+        p.prokind AS kind,
+        pg_catalog.pg_get_function_identity_arguments(p.oid) AS arguments,
+        CASE WHEN p.prokind <> 'p' THEN pg_catalog.pg_get_function_result(p.oid) END AS return_type,
+        l.lanname AS language,
+        p.provolatile AS volatility,
+        pg_catalog.obj_description(p.oid, 'pg_proc') AS comment
+      FROM pg_catalog.pg_proc p
+      JOIN pg_catalog.pg_namespace n ON n.oid = p.pronamespace
+      JOIN pg_catalog.pg_language l ON l.oid = p.prolang
+      WHERE n.nspname NOT IN ('pg_catalog', 'information_schema')
+        AND n.nspname NOT LIKE 'pg_toast%'
+        AND NOT EXISTS (
+          SELECT 1 FROM pg_catalog.pg_depend d
+          WHERE d.classid = 'pg_catalog.pg_proc'::regclass
+            AND d.objid = p.oid
+            AND d.deptype = 'e'
+        )
+      ORDER BY n.nspname, p.proname
+    `);
+
+    return result.rows.map((row) => ({
+      schema: row.routine_schema,
+      name: row.routine_name,
+      kind: ROUTINE_KINDS[row.kind] ?? 'function',
+      arguments: row.arguments,
+      returnType: row.return_type,
+      language: row.language,
+      volatility: VOLATILITIES[row.volatility] ?? 'volatile',
+      comment: row.comment,
+    }));
+  }
+
+  private async readExtensions(): Promise<ExtensionInfo[]> {
+    const result = await this.db.query<ExtensionRow>(`
+      SELECT
+        e.extname AS name,
+        e.extversion AS version,
+        n.nspname AS schema
+      FROM pg_catalog.pg_extension e
+      JOIN pg_catalog.pg_namespace n ON n.oid = e.extnamespace
+      ORDER BY e.extname
+    `);
+    return result.rows;
+  }
+
+  private async readSequences(): Promise<SequenceInfo[]> {
+    const result = await this.db.query<SequenceRow>(`
+      SELECT
+        n.nspname AS sequence_schema,
+        s.relname AS sequence_name,
+        pg_catalog.format_type(seq.seqtypid, NULL) AS data_type,
+        tn.nspname AS owner_schema,
+        t.relname AS owner_table,
+        a.attname AS owner_column
+      FROM pg_catalog.pg_class s
+      JOIN pg_catalog.pg_namespace n ON n.oid = s.relnamespace
+      JOIN pg_catalog.pg_sequence seq ON seq.seqrelid = s.oid
+      LEFT JOIN pg_catalog.pg_depend d
+        ON d.objid = s.oid
+        AND d.classid = 'pg_catalog.pg_class'::regclass
+        AND d.refclassid = 'pg_catalog.pg_class'::regclass
+        AND d.deptype IN ('a', 'i')
+      LEFT JOIN pg_catalog.pg_class t ON t.oid = d.refobjid
+      LEFT JOIN pg_catalog.pg_namespace tn ON tn.oid = t.relnamespace
+      LEFT JOIN pg_catalog.pg_attribute a ON a.attrelid = d.refobjid AND a.attnum = d.refobjsubid
+      WHERE s.relkind = 'S'
+        AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+      ORDER BY n.nspname, s.relname
+    `);
+
+    return result.rows.map((row) => ({
+      schema: row.sequence_schema,
+      name: row.sequence_name,
+      dataType: row.data_type,
+      ownedBy:
+        row.owner_schema && row.owner_table && row.owner_column
+          ? `${row.owner_schema}.${row.owner_table}.${row.owner_column}`
+          : null,
+    }));
+  }
+
+  /**
+   * Assinatura de catalogo por relacao: xmin da linha em pg_class mais os xmin das
+   * linhas de DDL dependentes (colunas, constraints, indices, triggers, comentarios,
+   * labels de enums usados, particoes). Qualquer ALTER/CREATE INDEX/CREATE TRIGGER/
+   * COMMENT/ALTER TYPE ADD VALUE gera uma nova versao de alguma dessas linhas.
+   */
+  private async readSignatures(): Promise<Map<string, RelationSignature>> {
+    const result = await this.db.query<SignatureRow>(`
+      SELECT
+        n.nspname AS table_schema,
+        c.relname AS table_name,
+        c.reltuples::bigint AS estimated_rows,
+        md5(concat_ws('|',
+          c.xmin::text,
+          (SELECT string_agg(a.xmin::text, ',' ORDER BY a.attnum)
+             FROM pg_catalog.pg_attribute a WHERE a.attrelid = c.oid AND a.attnum > 0),
+          (SELECT string_agg(co.xmin::text, ',' ORDER BY co.oid)
+             FROM pg_catalog.pg_constraint co WHERE co.conrelid = c.oid OR co.confrelid = c.oid),
+          (SELECT string_agg(i.xmin::text, ',' ORDER BY i.indexrelid)
+             FROM pg_catalog.pg_index i WHERE i.indrelid = c.oid),
+          (SELECT string_agg(d.xmin::text || ':' || d.objsubid, ',' ORDER BY d.objsubid)
+             FROM pg_catalog.pg_description d
+             WHERE d.objoid = c.oid AND d.classoid = 'pg_catalog.pg_class'::regclass),
+          (SELECT string_agg(e.xmin::text, ',' ORDER BY e.oid)
+             FROM pg_catalog.pg_attribute a
+             JOIN pg_catalog.pg_enum e ON e.enumtypid = a.atttypid
+             WHERE a.attrelid = c.oid AND a.attnum > 0),
+          (SELECT string_agg(inh.xmin::text, ',' ORDER BY inh.inhrelid)
+             FROM pg_catalog.pg_inherits inh WHERE inh.inhparent = c.oid),
+          (SELECT string_agg(tg.xmin::text, ',' ORDER BY tg.oid)
+             FROM pg_catalog.pg_trigger tg WHERE tg.tgrelid = c.oid AND NOT tg.tgisinternal)
+        )) AS signature
+      FROM pg_catalog.pg_class c
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      WHERE c.relkind IN ('r', 'p', 'v', 'm', 'f')
+        AND n.nspname NOT IN ('pg_catalog', 'information_schema')
+        AND n.nspname NOT LIKE 'pg_toast%'
+    `);
+
+    const signatures = new Map<string, RelationSignature>();
+    for (const row of result.rows) {
+      signatures.set(`${row.table_schema}.${row.table_name}`, {
+        signature: row.signature,
+        estimatedRows: row.estimated_rows
+          ? Math.max(0, parseInt(row.estimated_rows, 10))
+          : 0,
+      });
+    }
+    return signatures;
+  }
+
+  /**
+   * Le tabelas do catalogo. Com `targets` ("schema.tabela"), restringe todas as
+   * consultas a essas relacoes (FKs incluem as que apontam para elas).
+   */
+  private async readTables(targets?: string[]): Promise<TableInfo[]> {
+    const params = targets ? [targets] : undefined;
+    const scope = (schemaCol: string, tableCol: string): string =>
+      targets ? `AND (${schemaCol} || '.' || ${tableCol}) = ANY($1::text[])` : '';
+
     const tablesResult = await this.db.query<TableRow>(`
       SELECT
         t.table_schema,
@@ -119,11 +817,27 @@ export class SchemaEngine {
         pg_catalog.obj_description(c.oid) as comment,
         c.reltuples::bigint as estimated_rows
       FROM information_schema.tables t
-      LEFT JOIN pg_catalog.pg_class c ON c.relname = t.table_name
-      LEFT JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace AND n.nspname = t.table_schema
+      LEFT JOIN pg_catalog.pg_namespace n ON n.nspname = t.table_schema
+      LEFT JOIN pg_catalog.pg_class c ON c.relnamespace = n.oid AND c.relname = t.table_name
       WHERE t.table_schema NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+        ${scope('t.table_schema', 't.table_name')}
       ORDER BY t.table_schema, t.table_name
-    `);
+    `, params);
+
+    // information_schema nao lista views materializadas: vem direto do pg_class
+    const matviewResult = await this.db.query<TableRow>(`
+      SELECT
+        n.nspname AS table_schema,
+        c.relname AS table_name,
+        'MATERIALIZED VIEW' AS table_type,
+        pg_catalog.obj_description(c.oid) AS comment,
+        c.reltuples::bigint AS estimated_rows
+      FROM pg_catalog.pg_class c
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      WHERE c.relkind = 'm'
+        AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+        ${scope('n.nspname', 'c.relname')}
+    `, params);
 
     const columnsResult = await this.db.query<ColumnRow>(`
       SELECT
@@ -135,42 +849,182 @@ export class SchemaEngine {
         c.is_nullable,
         c.column_default,
         pg_catalog.col_description(
-          (SELECT oid FROM pg_catalog.pg_class WHERE relname = c.table_name LIMIT 1),
+          (SELECT cl.oid
+           FROM pg_catalog.pg_class cl
+           JOIN pg_catalog.pg_namespace ns ON ns.oid = cl.relnamespace
+           WHERE ns.nspname = c.table_schema AND cl.relname = c.table_name),
           c.ordinal_position
-        ) as comment
+        ) as comment,
+        c.udt_schema,
+        c.udt_name,
+        c.is_generated,
+        c.generation_expression,
+        c.is_identity,
+        c.identity_generation
       FROM information_schema.columns c
       WHERE c.table_schema NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+        ${scope('c.table_schema', 'c.table_name')}
       ORDER BY c.table_schema, c.table_name, c.ordinal_position
-    `);
+    `, params);
 
-    const pkResult = await this.db.query<PKRow>(`
+    const matviewColumnsResult = await this.db.query<ColumnRow>(`
       SELECT
-        tc.table_schema,
-        tc.table_name,
-        kcu.column_name
-      FROM information_schema.table_constraints tc
-      JOIN information_schema.key_column_usage kcu
-        ON tc.constraint_name = kcu.constraint_name
-        AND tc.table_schema = kcu.table_schema
-      WHERE tc.constraint_type = 'PRIMARY KEY'
+        n.nspname AS table_schema,
+        c.relname AS table_name,
+        a.attname AS column_name,
+        pg_catalog.format_type(a.atttypid, a.atttypmod) AS data_type,
+        NULL AS character_maximum_length,
+        CASE WHEN a.attnotnull THEN 'NO' ELSE 'YES' END AS is_nullable,
+        NULL AS column_default,
+        pg_catalog.col_description(c.oid, a.attnum) AS comment,
+        tn.nspname AS udt_schema,
+        t.typname AS udt_name,
+        NULL AS is_generated,
+        NULL AS generation_expression,
+        NULL AS is_identity,
+        NULL AS identity_generation
+      FROM pg_catalog.pg_class c
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      JOIN pg_catalog.pg_attribute a ON a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+      JOIN pg_catalog.pg_type t ON t.oid = a.atttypid
+      JOIN pg_catalog.pg_namespace tn ON tn.oid = t.typnamespace
+      WHERE c.relkind = 'm'
+        AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+        ${scope('n.nspname', 'c.relname')}
+      ORDER BY n.nspname, c.relname, a.attnum
+    `, params);
+
+    const enumResult = await this.db.query<EnumRow>(`
+      SELECT
+        n.nspname AS enum_schema,
+        t.typname AS enum_name,
+        e.enumlabel AS label
+      FROM pg_catalog.pg_type t
+      JOIN pg_catalog.pg_enum e ON e.enumtypid = t.oid
+      JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+      ORDER BY n.nspname, t.typname, e.enumsortorder
     `);
 
+    const constraintResult = await this.db.query<ConstraintRow>(`
+      SELECT
+        n.nspname AS table_schema,
+        c.relname AS table_name,
+        con.conname AS constraint_name,
+        con.contype AS constraint_type,
+        pg_catalog.pg_get_constraintdef(con.oid) AS definition,
+        ARRAY(
+          SELECT a.attname::text
+          FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+          JOIN pg_catalog.pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+          ORDER BY k.ord
+        ) AS columns
+      FROM pg_catalog.pg_constraint con
+      JOIN pg_catalog.pg_class c ON c.oid = con.conrelid
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      WHERE con.contype IN ('c', 'u')
+        AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+        ${scope('n.nspname', 'c.relname')}
+      ORDER BY n.nspname, c.relname, con.conname
+    `, params);
+
+    const triggerResult = await this.db.query<TriggerRow>(`
+      SELECT
+        n.nspname AS table_schema,
+        c.relname AS table_name,
+        t.tgname AS trigger_name,
+        t.tgtype::int AS trigger_type,
+        t.tgenabled AS enabled,
+        fn.nspname AS function_schema,
+        f.proname AS function_name,
+        pg_catalog.pg_get_triggerdef(t.oid) AS definition
+      FROM pg_catalog.pg_trigger t
+      JOIN pg_catalog.pg_class c ON c.oid = t.tgrelid
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      JOIN pg_catalog.pg_proc f ON f.oid = t.tgfoid
+      JOIN pg_catalog.pg_namespace fn ON fn.oid = f.pronamespace
+      WHERE NOT t.tgisinternal
+        AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+        ${scope('n.nspname', 'c.relname')}
+      ORDER BY n.nspname, c.relname, t.tgname
+    `, params);
+
+    const partitionResult = await this.db.query<PartitionRow>(`
+      SELECT
+        n.nspname AS table_schema,
+        c.relname AS table_name,
+        pt.partstrat AS strategy,
+        CASE WHEN pt.partrelid IS NOT NULL THEN pg_catalog.pg_get_partkeydef(c.oid) END AS partition_key,
+        pn.nspname AS parent_schema,
+        p.relname AS parent_table,
+        pg_catalog.pg_get_expr(c.relpartbound, c.oid) AS partition_bound,
+        ARRAY(
+          SELECT cn.nspname || '.' || cc.relname
+          FROM pg_catalog.pg_inherits ci
+          JOIN pg_catalog.pg_class cc ON cc.oid = ci.inhrelid
+          JOIN pg_catalog.pg_namespace cn ON cn.oid = cc.relnamespace
+          WHERE ci.inhparent = c.oid
+          ORDER BY 1
+        ) AS children
+      FROM pg_catalog.pg_class c
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      LEFT JOIN pg_catalog.pg_partitioned_table pt ON pt.partrelid = c.oid
+      LEFT JOIN pg_catalog.pg_inherits i ON i.inhrelid = c.oid AND c.relispartition
+      LEFT JOIN pg_catalog.pg_class p ON p.oid = i.inhparent
+      LEFT JOIN pg_catalog.pg_namespace pn ON pn.oid = p.relnamespace
+      WHERE (pt.partrelid IS NOT NULL OR c.relispartition)
+        AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+        ${scope('n.nspname', 'c.relname')}
+    `, params);
+
+    const pkResult = await this.db.query<PKRow>(`
+      SELECT
+        n.nspname AS table_schema,
+        c.relname AS table_name,
+        a.attname AS column_name
+      FROM pg_catalog.pg_constraint con
+      JOIN pg_catalog.pg_class c ON c.oid = con.conrelid
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      JOIN pg_catalog.pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = ANY(con.conkey)
+      WHERE con.contype = 'p'
+        AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+        ${scope('n.nspname', 'c.relname')}
+    `, params);
+
+    // Pares de colunas pela posicao em conkey/confkey: FKs compostas viram uma
+    // entrada so, e constraints de mesmo nome em schemas diferentes nao se misturam
+    const fkScope = targets
+      ? `AND ((n.nspname || '.' || c.relname) = ANY($1::text[])
+          OR (rn.nspname || '.' || rc.relname) = ANY($1::text[]))`
+      : '';
     const fkResult = await this.db.query<FKRow>(`
       SELECT
-        tc.table_schema,
-        tc.table_name,
-        kcu.column_name,
-        ccu.table_schema AS referenced_schema,
-        ccu.table_name AS referenced_table,
-        ccu.column_name AS referenced_column
-      FROM information_schema.table_constraints tc
-      JOIN information_schema.key_column_usage kcu
-        ON tc.constraint_name = kcu.constraint_name
-        AND tc.table_schema = kcu.table_schema
-      JOIN information_schema.constraint_column_usage ccu
-        ON tc.constraint_name = ccu.constraint_name
-      WHERE tc.constraint_type = 'FOREIGN KEY'
-    `);
+        con.conname AS constraint_name,
+        n.nspname AS table_schema,
+        c.relname AS table_name,
+        ARRAY(
+          SELECT a.attname::text
+          FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+          JOIN pg_catalog.pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+          ORDER BY k.ord
+        ) AS columns,
+        rn.nspname AS referenced_schema,
+        rc.relname AS referenced_table,
+        ARRAY(
+          SELECT a.attname::text
+          FROM unnest(con.confkey) WITH ORDINALITY AS k(attnum, ord)
+          JOIN pg_catalog.pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+          ORDER BY k.ord
+        ) AS referenced_columns
+      FROM pg_catalog.pg_constraint con
+      JOIN pg_catalog.pg_class c ON c.oid = con.conrelid
+      JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+      JOIN pg_catalog.pg_class rc ON rc.oid = con.confrelid
+      JOIN pg_catalog.pg_namespace rn ON rn.oid = rc.relnamespace
+      WHERE con.contype = 'f'
+        AND n.nspname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
+        ${fkScope}
+      ORDER BY n.nspname, c.relname, con.conname
+    `, params);
 
     const indexResult = await this.db.query<IndexRow>(`
       SELECT
@@ -180,7 +1034,8 @@ export class SchemaEngine {
         indexdef
       FROM pg_indexes
       WHERE schemaname NOT IN ('pg_catalog', 'information_schema', 'pg_toast')
-    `);
+        ${scope('schemaname', 'tablename')}
+    `, params);
 
     // ─── Monta sets de PKs ───
     const pkSet = new Set<string>();
@@ -197,20 +1052,22 @@ export class SchemaEngine {
       const refKey = `${fk.referenced_schema}.${fk.referenced_table}`;
 
       const fkInfo: ForeignKey = {
-        column: fk.column_name,
+        name: fk.constraint_name,
+        columns: fk.columns,
         referencedSchema: fk.referenced_schema,
         referencedTable: fk.referenced_table,
-        referencedColumn: fk.referenced_column,
+        referencedColumns: fk.referenced_columns,
       };
 
       if (!fkMap.has(key)) fkMap.set(key, []);
       fkMap.get(key)!.push(fkInfo);
 
       const reverseFK: ForeignKey = {
-        column: fk.referenced_column,
+        name: fk.constraint_name,
+        columns: fk.referenced_columns,
         referencedSchema: fk.table_schema,
         referencedTable: fk.table_name,
-        referencedColumn: fk.column_name,
+        referencedColumns: fk.columns,
       };
 
       if (!referencedByMap.has(refKey)) referencedByMap.set(refKey, []);
@@ -242,23 +1099,31 @@ export class SchemaEngine {
       indexMap.get(key)!.push(indexInfo);
     }
 
+    // ─── Monta mapa de enums ───
+    const enumMap = new Map<string, string[]>();
+    for (const row of enumResult.rows) {
+      const key = `${row.enum_schema}.${row.enum_name}`;
+      if (!enumMap.has(key)) enumMap.set(key, []);
+      enumMap.get(key)!.push(row.label);
+    }
+
     // ─── Monta colunas por tabela ───
     const columnMap = new Map<string, ColumnInfo[]>();
 
-    for (const col of columnsResult.rows) {
+    for (const col of [...columnsResult.rows, ...matviewColumnsResult.rows]) {
       const key = `${col.table_schema}.${col.table_name}`;
 
       let type = col.data_type;
       if (col.character_maximum_length) {
         type = `${col.data_type}(${col.character_maximum_length})`;
       }
-      type = type
-        .replace('character varying', 'varchar')
-        .replace('character', 'char')
-        .replace('timestamp without time zone', 'timestamp')
-        .replace('timestamp with time zone', 'timestamptz')
-        .replace('double precision', 'float8')
-        .replace('boolean', 'bool');
+      // Tipo real de enums/compostos e arrays vem do udt ("_int4" = int4[])
+      if (type === 'USER-DEFINED' && col.udt_name) {
+        type = col.udt_name;
+      } else if (type === 'ARRAY' && col.udt_name) {
+        type = `${col.udt_name.replace(/^_/, '')}[]`;
+      }
+      type = normalizeType(type);
 
       const columnInfo: ColumnInfo = {
         name: col.column_name,
@@ -271,44 +1136,102 @@ export class SchemaEngine {
         comment: col.comment,
       };
 
+      if (col.udt_schema && col.udt_name) {
+        const enumValues =
+          enumMap.get(`${col.udt_schema}.${col.udt_name}`) ??
+          enumMap.get(`${col.udt_schema}.${col.udt_name.replace(/^_/, '')}`);
+        if (enumValues) columnInfo.enumValues = enumValues;
+      }
+      if (col.is_generated === 'ALWAYS' && col.generation_expression) {
+        columnInfo.generated = col.generation_expression;
+      }
+      if (col.is_identity === 'YES' && col.identity_generation) {
+        columnInfo.identity = col.identity_generation === 'ALWAYS' ? 'ALWAYS' : 'BY DEFAULT';
+      }
+
       if (!columnMap.has(key)) columnMap.set(key, []);
       columnMap.get(key)!.push(columnInfo);
     }
 
+    // ─── Monta constraints CHECK/UNIQUE ───
+    const checkMap = new Map<string, CheckConstraint[]>();
+    const uniqueMap = new Map<string, UniqueConstraint[]>();
+
+    for (const con of constraintResult.rows) {
+      const key = `${con.table_schema}.${con.table_name}`;
+      if (con.constraint_type === 'c') {
+        if (!checkMap.has(key)) checkMap.set(key, []);
+        checkMap.get(key)!.push({ name: con.constraint_name, definition: con.definition });
+      } else {
+        if (!uniqueMap.has(key)) uniqueMap.set(key, []);
+        uniqueMap.get(key)!.push({ name: con.constraint_name, columns: con.columns });
+      }
+    }
+
+    // ─── Monta triggers ───
+    const triggerMap = new Map<string, TriggerInfo[]>();
+
+    for (const row of triggerResult.rows) {
+      const key = `${row.table_schema}.${row.table_name}`;
+      if (!triggerMap.has(key)) triggerMap.set(key, []);
+      triggerMap.get(key)!.push({
+        name: row.trigger_name,
+        ...decodeTriggerType(row.trigger_type),
+        function: `${row.function_schema}.${row.function_name}`,
+        enabled: row.enabled !== 'D',
+        definition: row.definition,
+      });
+    }
+
+    // ─── Monta particionamento ───
+    const partitionMap = new Map<string, PartitionInfo>();
+
+    for (const row of partitionResult.rows) {
+      const info: PartitionInfo = {};
+      if (row.strategy) {
+        info.strategy = PARTITION_STRATEGIES[row.strategy];
+        info.key = row.partition_key ?? undefined;
+        info.children = row.children;
+      }
+      if (row.parent_schema && row.parent_table) {
+        info.parent = `${row.parent_schema}.${row.parent_table}`;
+        info.bound = row.partition_bound ?? undefined;
+      }
+      partitionMap.set(`${row.table_schema}.${row.table_name}`, info);
+    }
+
     // ─── Monta tabelas ───
-    const schemas = new Set<string>();
     const tables: TableInfo[] = [];
 
-    for (const t of tablesResult.rows) {
+    for (const t of [...tablesResult.rows, ...matviewResult.rows]) {
       const key = `${t.table_schema}.${t.table_name}`;
-      schemas.add(t.table_schema);
+      const materialized = t.table_type === 'MATERIALIZED VIEW';
 
       const tableInfo: TableInfo = {
         schema: t.table_schema,
         name: t.table_name,
-        type: t.table_type === 'VIEW' ? 'view' : 'table',
+        type: t.table_type === 'VIEW' || materialized ? 'view' : 'table',
         columns: columnMap.get(key) ?? [],
         foreignKeys: fkMap.get(key) ?? [],
         referencedBy: referencedByMap.get(key) ?? [],
         indexes: indexMap.get(key) ?? [],
+        checkConstraints: checkMap.get(key) ?? [],
+        uniqueConstraints: uniqueMap.get(key) ?? [],
+        triggers: triggerMap.get(key) ?? [],
         estimatedRowCount: t.estimated_rows
           ? Math.max(0, parseInt(t.estimated_rows, 10))
           : 0,
         comment: t.comment,
       };
+      if (materialized) tableInfo.materialized = true;
+
+      const partition = partitionMap.get(key);
+      if (partition) tableInfo.partition = partition;
 
       tables.push(tableInfo);
     }
 
-    this.schemaMap = {
-      database,
-      version,
-      schemas: Array.from(schemas).sort(),
-      tables,
-      mappedAt: new Date(),
-    };
-
-    return this.schemaMap;
+    return tables.sort((a, b) => a.schema.localeCompare(b.schema) || a.name.localeCompare(b.name));
   }
 
   getSchemaMap(): SchemaMap | null {
@@ -378,6 +1301,98 @@ export class SchemaEngine {
     return result;
   }
 
+  /**
+   * Caminhos mais curtos de JOIN entre duas tabelas ("schema.tabela") seguindo
+   * FKs nos dois sentidos. Todos os caminhos de mesmo tamanho voltam (ate
+   * `maxPaths`): mais de um significa que o JOIN e ambiguo e o usuario decide.
+   */
+  findJoinPath(from: string, to: string, maxPaths: number = MAX_JOIN_PATHS): JoinPath[] {
+    if (!this.schemaMap) return [];
+
+    const keys = new Set(this.schemaMap.tables.map((t) => `${t.schema}.${t.name}`));
+    if (!keys.has(from) || !keys.has(to)) return [];
+    if (from === to) return [{ tables: [from], steps: [], sql: `FROM ${qualifiedKey(from)}` }];
+
+    // Grafo nao direcionado: uma aresta por constraint, em cada sentido
+    const edges = new Map<string, JoinStep[]>();
+    const addEdge = (step: JoinStep) => {
+      if (!edges.has(step.from)) edges.set(step.from, []);
+      edges.get(step.from)!.push(step);
+    };
+    for (const table of this.schemaMap.tables) {
+      const source = `${table.schema}.${table.name}`;
+      for (const fk of table.foreignKeys) {
+        const target = `${fk.referencedSchema}.${fk.referencedTable}`;
+        if (source === target || !keys.has(target)) continue;
+        addEdge({ from: source, to: target, constraint: fk.name, direction: 'forward', on: joinCondition(source, fk.columns, target, fk.referencedColumns) });
+        addEdge({ from: target, to: source, constraint: fk.name, direction: 'reverse', on: joinCondition(target, fk.referencedColumns, source, fk.columns) });
+      }
+    }
+
+    // BFS por niveis guardando todos os predecessores de mesma distancia
+    const distance = new Map<string, number>([[from, 0]]);
+    const predecessors = new Map<string, JoinStep[]>();
+    let frontier = [from];
+
+    for (let depth = 1; depth <= MAX_JOIN_DEPTH && frontier.length > 0 && !distance.has(to); depth++) {
+      const next: string[] = [];
+      for (const key of frontier) {
+        for (const step of edges.get(key) ?? []) {
+          const known = distance.get(step.to);
+          if (known !== undefined && known < depth) continue;
+          if (known === undefined) {
+            distance.set(step.to, depth);
+            next.push(step.to);
+          }
+          if (!predecessors.has(step.to)) predecessors.set(step.to, []);
+          predecessors.get(step.to)!.push(step);
+        }
+      }
+      frontier = next;
+    }
+
+    if (!distance.has(to)) return [];
+
+    const paths: JoinPath[] = [];
+    const walk = (key: string, suffix: JoinStep[]) => {
+      if (paths.length >= maxPaths) return;
+      if (key === from) {
+        paths.push({
+          tables: [from, ...suffix.map((step) => step.to)],
+          steps: suffix,
+          sql: [`FROM ${qualifiedKey(from)}`, ...suffix.map((step) => `JOIN ${qualifiedKey(step.to)} ON ${step.on}`)].join('\n'),
+        });
+        return;
+      }
+      for (const step of predecessors.get(key) ?? []) {
+        walk(step.from, [step, ...suffix]);
+      }
+    };
+    walk(to, []);
+
+    return paths;
+  }
+
+  /**
+   * Tabelas que casam com "tabela" ou "schema.tabela" (sem diferenciar caixa).
+   * Mais de uma = nome ambiguo entre schemas.
+   */
+  findTables(tableRef: string): TableInfo[] {
+    if (!this.schemaMap) return [];
+
+    const cleaned = tableRef.replace(/"/g, '').trim().toLowerCase();
+    const dot = cleaned.indexOf('.');
+    if (dot > 0) {
+      const schemaName = cleaned.slice(0, dot);
+      const tableName = cleaned.slice(dot + 1);
+      return this.schemaMap.tables.filter(
+        (t) => t.schema.toLowerCase() === schemaName && t.name.toLowerCase() === tableName
+      );
+    }
+
+    return this.schemaMap.tables.filter((t) => t.name.toLowerCase() === cleaned);
+  }
+
   searchTables(query: string): TableInfo[] {
     if (!this.schemaMap) return [];
 
@@ -397,62 +1412,180 @@ export class SchemaEngine {
     );
   }
 
-  generateContextSummary(): string {
-    if (!this.schemaMap) return 'Schema não mapeado.';
+  /**
+   * Linhas de uma tabela no formato compacto do contexto do agente
+   * (colunas com PK/FK/tipo e tabelas que a referenciam).
+   */
+  formatTableSummary(table: TableInfo): string[] {
+    // Particoes repetem as colunas da tabela pai: uma linha basta
+    if (table.partition?.parent) {
+      const bound = table.partition.bound ? ` ${table.partition.bound}` : '';
+      return [`${table.schema}.${table.name} [PARTITION OF ${table.partition.parent}${bound}]`];
+    }
 
-    const { database, version, schemas, tables } = this.schemaMap;
+    const colParts: string[] = [];
+    for (const col of table.columns) {
+      let part = col.name;
 
-    const tableCount = tables.filter((t) => t.type === 'table').length;
-    const viewCount = tables.filter((t) => t.type === 'view').length;
-    const totalRelations = tables.reduce(
-      (acc, t) => acc + t.foreignKeys.length,
-      0
-    );
+      if (col.isPrimaryKey) part += ' PK';
 
-    const lines: string[] = [];
+      const fk = table.foreignKeys.find((f) => f.columns.length === 1 && f.columns[0] === col.name);
+      if (fk) {
+        const refSchema = fk.referencedSchema === table.schema ? '' : `${fk.referencedSchema}.`;
+        part += ` FK→${refSchema}${fk.referencedTable}.${fk.referencedColumns[0]}`;
+      }
 
-    lines.push(`Database: ${database} (${version})`);
-    lines.push(`Schemas: ${schemas.join(', ')}`);
-    lines.push(
-      `Tables: ${tableCount} | Views: ${viewCount} | Total Relations: ${totalRelations}`
-    );
-    lines.push('');
+      part += ` ${col.type}`;
+      if (col.enumValues) part += formatEnumValues(col.enumValues);
 
-    for (const table of tables) {
-      const colParts: string[] = [];
-      for (const col of table.columns) {
-        let part = col.name;
+      if (col.generated) part += ` GENERATED(${col.generated})`;
+      else if (col.identity) part += ' IDENTITY';
+      else if (col.sequence && col.defaultValue?.startsWith('nextval(')) part += ' SERIAL';
 
-        if (col.isPrimaryKey) part += ' PK';
+      if (!col.nullable && !col.isPrimaryKey) part += ' NOT NULL';
 
-        const fk = table.foreignKeys.find((f) => f.column === col.name);
-        if (fk) {
-          part += ` FK→${fk.referencedTable}.${fk.referencedColumn}`;
-        }
+      colParts.push(part);
+    }
 
-        part += ` ${col.type}`;
+    let typeLabel = '';
+    if (table.materialized) typeLabel = ' [MATVIEW]';
+    else if (table.type === 'view') typeLabel = ' [VIEW]';
+    else if (table.partition?.key) {
+      typeLabel = ` [PARTITIONED BY ${table.partition.key}, ${table.partition.children?.length ?? 0} partitions]`;
+    }
+    const rowLabel =
+      table.estimatedRowCount > 0 ? ` [~${table.estimatedRowCount} rows]` : '';
 
-        if (!col.nullable && !col.isPrimaryKey) part += ' NOT NULL';
+    const lines = [`${table.schema}.${table.name} (${colParts.join(', ')})${typeLabel}${rowLabel}`];
 
-        colParts.push(part);
+    for (const fk of table.foreignKeys) {
+      if (fk.columns.length > 1) {
+        lines.push(`  FK (${fk.columns.join(', ')}) → ${formatForeignKeyTarget(fk)}`);
       }
+    }
 
-      const typeLabel = table.type === 'view' ? ' [VIEW]' : '';
-      const rowLabel =
-        table.estimatedRowCount > 0 ? ` [~${table.estimatedRowCount} rows]` : '';
+    if (table.uniqueConstraints.length > 0) {
+      lines.push(`  UNIQUE ${table.uniqueConstraints.map((u) => `(${u.columns.join(', ')})`).join('; ')}`);
+    }
 
+    if (table.checkConstraints.length > 0) {
+      lines.push(`  CHECK ${table.checkConstraints.map((c) => c.definition.replace(/^CHECK\s*/i, '')).join('; ')}`);
+    }
+
+    for (const trigger of table.triggers) {
+      const disabled = trigger.enabled ? '' : ' (disabled)';
       lines.push(
-        `${table.schema}.${table.name} (${colParts.join(', ')})${typeLabel}${rowLabel}`
+        `  TRIGGER ${trigger.name} ${trigger.timing} ${trigger.events.join('/')} ${trigger.level} → ${trigger.function}()${disabled}`
       );
+    }
 
-      for (const ref of table.referencedBy) {
-        lines.push(
-          `  ← ${ref.referencedSchema}.${ref.referencedTable}.${ref.referencedColumn} FK`
-        );
+    for (const ref of table.referencedBy) {
+      lines.push(
+        `  ← ${formatForeignKeyTarget(ref)} FK`
+      );
+    }
+
+    if (lines.length > 1) {
+      lines.push('');
+    }
+
+    return lines;
+  }
+
+  /**
+   * Cabecalho do contexto: banco, versao, schemas e contagens.
+   */
+  /**
+   * Uma linha por rotina: "schema.nome(args) → retorno [linguagem, volatilidade]".
+   */
+  formatRoutineSummary(routine: RoutineInfo): string {
+    const returns = routine.returnType ? ` → ${routine.returnType}` : '';
+    const kind = routine.kind === 'function' ? '' : `${routine.kind}, `;
+    const comment = routine.comment ? ` — ${routine.comment}` : '';
+    return `${routine.schema}.${routine.name}(${routine.arguments})${returns} [${kind}${routine.language}, ${routine.volatility}]${comment}`;
+  }
+
+  /**
+   * Valores reais das colunas perfiladas, para o agente filtrar com o literal
+   * certo: "VALUES status = 'ATIVO' 62% | 'INATIVO' 30%" ou "RANGE col min .. max".
+   * Colunas em `hiddenColumns` (PII) ficam de fora.
+   */
+  formatProfileSummary(table: TableInfo, hiddenColumns: Set<string> = new Set()): string[] {
+    const profile = this.getProfile(table.schema, table.name);
+    if (!profile) return [];
+
+    const lines: string[] = [];
+    for (const [column, stats] of Object.entries(profile.columns)) {
+      if (hiddenColumns.has(column)) continue;
+      const nulls = stats.nullFraction >= 0.5 ? ` (${Math.round(stats.nullFraction * 100)}% null)` : '';
+      const lowCardinality = stats.distinct !== null && stats.distinct <= LOW_CARDINALITY;
+
+      if (stats.commonValues.length > 0 && lowCardinality) {
+        const values = stats.commonValues
+          .slice(0, MAX_PROFILE_VALUES_IN_CONTEXT)
+          .map((v) => `'${v.value}' ${Math.round(v.frequency * 100)}%`);
+        const more = stats.distinct! > values.length ? ` (${stats.distinct} distintos)` : '';
+        lines.push(`  VALUES ${column} = ${values.join(' | ')}${more}${nulls}`);
+      } else if (stats.histogram && stats.histogram.length >= 2) {
+        lines.push(`  RANGE ${column} ${stats.histogram[0]} .. ${stats.histogram[stats.histogram.length - 1]}${nulls}`);
+      } else if (nulls) {
+        lines.push(`  NULLS ${column}${nulls}`);
       }
+    }
+    return lines;
+  }
+
+  formatExtensionsLine(): string | null {
+    const extensions = this.schemaMap?.extensions ?? [];
+    if (extensions.length === 0) return null;
+    return `Extensions: ${extensions.map((e) => `${e.name} ${e.version}`).join(', ')}`;
+  }
+
+  formatContextHeader(): string[] {
+    if (!this.schemaMap) return ['Schema não mapeado.'];
+
+    const { database, version, schemas, tables } = this.schemaMap;
+
+    const tableCount = tables.filter((t) => t.type === 'table').length;
+    const viewCount = tables.filter((t) => t.type === 'view' && !t.materialized).length;
+    const matviewCount = tables.filter((t) => t.materialized).length;
+    const totalRelations = tables.reduce(
+      (acc, t) => acc + t.foreignKeys.length,
+      0
+    );
+    const matviewLabel = matviewCount > 0 ? ` | Materialized Views: ${matviewCount}` : '';
+
+    const lines = [
+      `Database: ${database} (${version})`,
+      `Schemas: ${schemas.join(', ')}`,
+      `Tables: ${tableCount} | Views: ${viewCount}${matviewLabel} | Total Relations: ${totalRelations}`,
+    ];
+    if (this.accessGuard) {
+      lines.push('Politica de acesso ativa: objetos fora deste mapa estao bloqueados e queries que os citem sao recusadas.');
+    }
+    lines.push('');
+    return lines;
+  }
+
+  generateContextSummary(): string {
+    if (!this.schemaMap) return 'Schema não mapeado.';
+
+    const lines = this.formatContextHeader();
+
+    for (const table of this.schemaMap.tables) {
+      lines.push(...this.formatTableSummary(table));
+    }
+
+    // Resumos de tabela com detalhe ja terminam em linha vazia
+    if (lines[lines.length - 1] === '') lines.pop();
+
+    const extensions = this.formatExtensionsLine();
+    if (extensions) lines.push('', extensions);
 
-      if (table.referencedBy.length > 0) {
-        lines.push('');
+    if (this.schemaMap.routines.length > 0) {
+      lines.push('', 'Functions:');
+      for (const routine of this.schemaMap.routines) {
+        lines.push(`  ${this.formatRoutineSummary(routine)}`);
       }
     }
 
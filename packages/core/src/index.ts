@@ -4,28 +4,157 @@ export { OpenAIAuth } from './auth/oauth.js';
 export type { TokenData, IAuthProvider } from './auth/oauth.js';
 export { AnthropicAuth } from './auth/anthropic-oauth.js';
 export type { AnthropicTokenData } from './auth/anthropic-oauth.js';
+export { LocalLLMAuth, DEFAULT_OLLAMA_URL } from './auth/local-llm.js';
+export type { LocalApiFlavor, LocalLLMSettings } from './auth/local-llm.js';
+export { ApiKeyAuth } from './auth/api-key.js';
+export type { ApiKeyProvider } from './auth/api-key.js';
+export { ReplayLLMAuth, loadLLMFixture, appendLLMFixtureTurn, getLLMRecordFile } from './auth/replay-llm.js';
+export type { LLMFixture, LLMFixtureTurn, LLMFixtureMode } from './auth/replay-llm.js';
 
 // Database
-export { DatabaseConnector } from './db/connector.js';
-export type { ConnectionInfo, QueryResultData } from './db/connector.js';
+export { DatabaseConnector, QueryCursor } from './db/connector.js';
+export type {
+  ConnectionInfo,
+  QueryResultData,
+  ConnectorOptions,
+  QueryOptions,
+  CursorPage,
+} from './db/connector.js';
 
-export { SchemaEngine } from './db/schema-engine.js';
+export { SchemaEngine, formatForeignKeyTarget } from './db/schema-engine.js';
 export type {
   ColumnInfo,
   ForeignKey,
   IndexInfo,
   TableInfo,
   SchemaMap,
+  CheckConstraint,
+  UniqueConstraint,
+  PartitionInfo,
+  SequenceInfo,
+  TriggerInfo,
+  RoutineInfo,
+  ExtensionInfo,
+  JoinStep,
+  JoinPath,
+  SchemaRefreshResult,
+  SchemaLoadResult,
+  SchemaProfileResult,
+  SchemaEngineOptions,
 } from './db/schema-engine.js';
+export { ColumnProfiler } from './db/column-profiler.js';
+export type {
+  ColumnProfile,
+  TableProfile,
+  ValueFrequency,
+  ProfilerOptions,
+} from './db/column-profiler.js';
+export {
+  AccessGuard,
+  parseAccessPolicy,
+  isAccessPolicyEmpty,
+  formatAccessViolation,
+} from './db/access-policy.js';
+export type { AccessPolicy, AccessViolation, ViewDependency } from './db/access-policy.js';
+export {
+  diffSchemas,
+  generateMigrationSql,
+  parseSchemaRef,
+  loadSchemaRef,
+} from './db/schema-diff.js';
+export type {
+  DiffChange,
+  ColumnDiffField,
+  ColumnDiff,
+  ForeignKeyDiff,
+  IndexDiff,
+  TableDiff,
+  SchemaDiffSide,
+  SchemaDiff,
+  SchemaRef,
+} from './db/schema-diff.js';
 
 // Agent
-export { ContextBuilder } from './agent/context.js';
+export { ContextBuilder, estimateTokens } from './agent/context.js';
+export type { ContextOptions, ContextSelection, BuiltContext } from './agent/context.js';
 
 export { LLMClient } from './agent/llm.js';
-export type { LLMMessage, LLMResponse } from './agent/llm.js';
+export { compactHistory, isHistorySummary, DEFAULT_HISTORY_TOKEN_BUDGET } from './agent/history.js';
+export type {
+  LLMMessage,
+  LLMResponse,
+  LLMChatOptions,
+  LLMClientOptions,
+  LLMToolCall,
+  LLMToolDefinition,
+  LLMToolResult,
+} from './agent/llm.js';
+export {
+  AGENT_TOOLS,
+  getToolStringArgument,
+  describeTableForAgent,
+  findJoinPathForAgent,
+  formatJoinPaths,
+  formatExecutionForAgent,
+  type AgentToolName,
+} from './agent/tools.js';
 
 export { QueryExecutor } from './agent/executor.js';
-export type { ExecutionResult } from './agent/executor.js';
+export type {
+  ExecutionResult,
+  ExecutionErrorCode,
+  ExecutionRefusal,
+  PagedExecution,
+  WritePreview,
+  PreviewStatement,
+} from './agent/executor.js';
+export {
+  DataMasker,
+  SENSITIVITY_TAGS,
+  MASK_MODES,
+  DEFAULT_MASKING_POLICY,
+  isSensitivityTag,
+  isMaskMode,
+  maskValue,
+  resolveMaskingPolicy,
+  suggestTableSensitivity,
+  classifyColumns,
+} from './agent/data-masking.js';
+export type {
+  SensitivityTag,
+  MaskMode,
+  MaskingPolicy,
+  ColumnSensitivity,
+} from './agent/data-masking.js';
+export {
+  classifySql,
+  describeClassification,
+  STATEMENT_KIND_LABELS,
+  type StatementKind,
+  type StatementVerdict,
+  type StatementReferences,
+  type FunctionReference,
+  type RelationReference,
+  type ColumnReference,
+  type SqlClassification,
+} from './agent/sql-classifier.js';
+export {
+  EvalRunner,
+  parseEvalSuite,
+  loadEvalSuite,
+  compareResultSets,
+  summarizeEval,
+  formatEvalMarkdown,
+} from './agent/evaluator.js';
+export type {
+  EvalQuestion,
+  EvalSuite,
+  EvalCaseResult,
+  EvalModelSummary,
+  EvalReport,
+  EvalRunnerOptions,
+  ResultSetComparison,
+} from './agent/evaluator.js';
 export {
   analyzeSqlExecutionError,
   type SqlErrorGuidance,
@@ -40,15 +169,82 @@ export {
   addConnection,
   removeConnection,
   setDefaultConnection,
+  updateConnectionPrivacy,
+  updateConnectionAccess,
   getConnections,
   getAuth,
   saveAuth,
+  getUsageSettings,
+  saveUsageBudgets,
 } from './utils/config.js';
 export type {
   ConnectionConfig,
+  ConnectionPrivacyUpdate,
   AuthConfig,
   ScriptConfig,
   ConfigData,
 } from './utils/config.js';
+export {
+  createConversation,
+  saveConversation,
+  loadConversation,
+  listConversations,
+  renameConversation,
+  deleteConversation,
+  appendConversationEntry,
+  addConversationUsage,
+  toConversationResult,
+} from './utils/conversations.js';
+export type {
+  Conversation,
+  ConversationEntry,
+  ConversationEntryType,
+  ConversationResultMeta,
+  ConversationSummary,
+  ConversationUsage,
+} from './utils/conversations.js';
+export {
+  DEFAULT_MODEL_PRICES,
+  getModelPrice,
+  estimateUsageCost,
+  appendUsageRecord,
+  loadUsageRecords,
+  getTodayUsage,
+  buildUsageReport,
+  parseUsageBudgets,
+  checkUsageBudget,
+} from './utils/usage-ledger.js';
+export type {
+  UsageRecord,
+  ModelPrice,
+  UsageBudgets,
+  UsageSettings,
+  UsageTotals,
+  UsageReport,
+} from './utils/usage-ledger.js';
+export {
+  loadSchemaSnapshot,
+  saveSchemaSnapshot,
+  deleteSchemaSnapshot,
+  listSchemaSnapshots,
+  loadSchemaSnapshotAt,
+} from './utils/schema-cache.js';
+export type { SchemaSnapshot, SchemaSnapshotInfo } from './utils/schema-cache.js';
+export {
+  emptySemanticLayer,
+  parseSemanticLayer,
+  loadSemanticLayer,
+  saveSemanticLayer,
+  deleteSemanticLayer,
+  semanticLayerPath,
+  isSemanticLayerEmpty,
+  formatMetricDefinition,
+} from './utils/semantic-layer.js';
+export type {
+  SemanticLayer,
+  GlossaryTerm,
+  MetricDefinition,
+  PreferredJoin,
+} from './utils/semantic-layer.js';
 
 export { log } from './utils/logger.js';
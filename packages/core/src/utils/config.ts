@@ -1,6 +1,9 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import type { MaskingPolicy, SensitivityTag } from '../agent/data-masking.js';
+import type { AccessPolicy } from '../db/access-policy.js';
+import type { UsageBudgets, UsageSettings } from './usage-ledger.js';
 
 // ─── Interfaces ───
 
@@ -8,6 +11,19 @@ export interface ConnectionConfig {
   name: string;
   url: string;
   isDefault?: boolean;
+  statementTimeoutMs?: number;
+  maxQueryCost?: number;
+  sensitivity?: Record<string, SensitivityTag | 'none'>; // overrides por schema.tabela.coluna
+  masking?: Partial<MaskingPolicy>;
+  access?: AccessPolicy; // tabelas e colunas liberadas/bloqueadas
+}
+
+/**
+ * Alteracoes de privacidade: `null` num override volta para a sugestao automatica.
+ */
+export interface ConnectionPrivacyUpdate {
+  sensitivity?: Record<string, SensitivityTag | 'none' | null>;
+  masking?: Partial<MaskingPolicy>;
 }
 
 export interface AuthConfig {
@@ -18,6 +34,10 @@ export interface AuthConfig {
   accountId?: string;
   chatgptAccountId?: string;
   model?: string;
+  baseUrl?: string; // provider local
+  localApi?: 'ollama' | 'openai';
+  apiKey?: string;
+  fixture?: { mode: 'replay' | 'record'; file: string }; // respostas gravadas (ver ReplayLLMAuth)
 }
 
 export interface ScriptConfig {
@@ -32,6 +52,7 @@ export interface ConfigData {
   connections: ConnectionConfig[];
   auth: AuthConfig | null;
   scripts: ScriptConfig[];
+  usage?: UsageSettings; // orcamentos e precos de modelos (ledger de tokens)
 }
 
 // ─── Constantes ───
@@ -101,15 +122,24 @@ export function getDefaultConnection(): ConnectionConfig | null {
   return null;
 }
 
-export function addConnection(name: string, url: string): void {
+export function addConnection(
+  name: string,
+  url: string,
+  limits: Pick<ConnectionConfig, 'statementTimeoutMs' | 'maxQueryCost'> = {}
+): void {
   const config = loadConfig();
 
+  // Limites omitidos (undefined) preservam os valores ja salvos
+  const defined = Object.fromEntries(
+    Object.entries(limits).filter(([, value]) => value !== undefined)
+  ) as typeof limits;
+
   const existing = config.connections.findIndex((c) => c.name === name);
   if (existing >= 0) {
-    config.connections[existing].url = url;
+    config.connections[existing] = { ...config.connections[existing], url, ...defined };
   } else {
     const isDefault = config.connections.length === 0;
-    config.connections.push({ name, url, isDefault });
+    config.connections.push({ name, url, isDefault, ...defined });
   }
 
   saveConfig(config);
@@ -121,6 +151,49 @@ export function removeConnection(name: string): void {
   saveConfig(config);
 }
 
+export function updateConnectionPrivacy(name: string, update: ConnectionPrivacyUpdate): ConnectionConfig {
+  const config = loadConfig();
+  const conn = config.connections.find((c) => c.name === name);
+  if (!conn) {
+    throw new Error(`Conexão "${name}" não encontrada.`);
+  }
+
+  if (update.sensitivity) {
+    const sensitivity = { ...(conn.sensitivity ?? {}) };
+    for (const [key, tag] of Object.entries(update.sensitivity)) {
+      if (tag === null) delete sensitivity[key];
+      else sensitivity[key] = tag;
+    }
+    conn.sensitivity = sensitivity;
+  }
+  if (update.masking) {
+    conn.masking = { ...(conn.masking ?? {}), ...update.masking };
+  }
+
+  saveConfig(config);
+  return conn;
+}
+
+/**
+ * Substitui a politica de acesso da conexao; `null` ou politica vazia remove.
+ */
+export function updateConnectionAccess(name: string, access: AccessPolicy | null): ConnectionConfig {
+  const config = loadConfig();
+  const conn = config.connections.find((c) => c.name === name);
+  if (!conn) {
+    throw new Error(`Conexão "${name}" não encontrada.`);
+  }
+
+  if (access && ((access.allow ?? []).length > 0 || (access.deny ?? []).length > 0)) {
+    conn.access = access;
+  } else {
+    delete conn.access;
+  }
+
+  saveConfig(config);
+  return conn;
+}
+
 export function setDefaultConnection(name: string): void {
   const config = loadConfig();
 
@@ -152,3 +225,14 @@ export function saveAuth(authData: AuthConfig): void {
   config.auth = authData;
   saveConfig(config);
 }
+
+export function getUsageSettings(): UsageSettings {
+  return loadConfig().usage ?? {};
+}
+
+export function saveUsageBudgets(budgets: UsageBudgets): UsageSettings {
+  const config = loadConfig();
+  config.usage = { ...config.usage, budgets };
+  saveConfig(config);
+  return config.usage;
+}
@@ -0,0 +1,240 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { randomUUID } from 'crypto';
+import type { LLMMessage } from '../agent/llm.js';
+import type { ExecutionResult, WritePreview } from '../agent/executor.js';
+import { connectionStorageName, legacyStorageName } from './storage-names.js';
+
+// ─── Interfaces ───
+
+export type ConversationEntryType = 'user' | 'text' | 'sql' | 'preview' | 'result' | 'error';
+
+/**
+ * Metadados de um resultado. Guarda so uma amostra das linhas: o resultado
+ * completo continua no banco e pode ser reexecutado.
+ */
+export interface ConversationResultMeta {
+  rowCount: number;
+  columns: string[];
+  duration: number;
+  hasMore: boolean;
+  rows: Record<string, unknown>[];
+}
+
+export interface ConversationEntry {
+  type: ConversationEntryType;
+  content?: string;
+  result?: ConversationResultMeta;
+  preview?: WritePreview;
+  timestamp: string; // ISO
+}
+
+export interface ConversationUsage {
+  prompt: number;
+  completion: number;
+  total: number;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  connection: string;
+  createdAt: string;
+  updatedAt: string;
+  entries: ConversationEntry[]; // o que o usuario viu
+  history: LLMMessage[]; // o que o agente precisa para retomar
+  tokensUsed: ConversationUsage;
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  connection: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  tokensUsed: ConversationUsage;
+}
+
+// ─── Constantes ───
+
+const CONVERSATIONS_DIR = path.join(os.homedir(), '.agentdb', 'conversations');
+const RESULT_SAMPLE_ROWS = 20;
+const TITLE_MAX_LENGTH = 60;
+
+const CONVERSATION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ─── Helpers ───
+
+function connectionDir(connection: string): string {
+  return path.join(CONVERSATIONS_DIR, connectionStorageName(connection));
+}
+
+/**
+ * Move para a pasta nova as conversas gravadas na pasta sem hash, que podia
+ * ser dividida por conexoes de nomes parecidos: so leva as desta conexao.
+ */
+function adoptLegacyConversations(connection: string): void {
+  const legacyDir = path.join(CONVERSATIONS_DIR, legacyStorageName(connection));
+  if (!fs.existsSync(legacyDir) || !fs.statSync(legacyDir).isDirectory()) return;
+
+  const dir = connectionDir(connection);
+  for (const file of fs.readdirSync(legacyDir)) {
+    if (!file.endsWith('.json')) continue;
+    const conversation = readConversationFile(path.join(legacyDir, file));
+    if (conversation?.connection !== connection) continue;
+
+    fs.mkdirSync(dir, { recursive: true });
+    fs.renameSync(path.join(legacyDir, file), path.join(dir, file));
+  }
+
+  if (fs.readdirSync(legacyDir).length === 0) {
+    fs.rmdirSync(legacyDir);
+  }
+}
+
+function findConversationFile(id: string): string | null {
+  if (!CONVERSATION_ID_PATTERN.test(id) || !fs.existsSync(CONVERSATIONS_DIR)) {
+    return null;
+  }
+
+  for (const dir of fs.readdirSync(CONVERSATIONS_DIR)) {
+    const file = path.join(CONVERSATIONS_DIR, dir, `${id}.json`);
+    if (fs.existsSync(file)) return file;
+  }
+  return null;
+}
+
+function readConversationFile(file: string): Conversation | null {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as Conversation;
+  } catch {
+    return null;
+  }
+}
+
+function toSummary(conversation: Conversation): ConversationSummary {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    connection: conversation.connection,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    messageCount: conversation.entries.filter((e) => e.type === 'user').length,
+    tokensUsed: conversation.tokensUsed,
+  };
+}
+
+function buildTitle(firstMessage: string): string {
+  const singleLine = firstMessage.replace(/\s+/g, ' ').trim();
+  if (!singleLine) return 'Nova conversa';
+  return singleLine.length > TITLE_MAX_LENGTH
+    ? `${singleLine.slice(0, TITLE_MAX_LENGTH - 3)}...`
+    : singleLine;
+}
+
+// ─── Funções exportadas ───
+
+export function createConversation(connection: string, firstMessage = ''): Conversation {
+  const now = new Date().toISOString();
+  return {
+    id: randomUUID(),
+    title: buildTitle(firstMessage),
+    connection,
+    createdAt: now,
+    updatedAt: now,
+    entries: [],
+    history: [],
+    tokensUsed: { prompt: 0, completion: 0, total: 0 },
+  };
+}
+
+export function saveConversation(conversation: Conversation): void {
+  adoptLegacyConversations(conversation.connection);
+  const dir = connectionDir(conversation.connection);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  conversation.updatedAt = new Date().toISOString();
+  fs.writeFileSync(
+    path.join(dir, `${conversation.id}.json`),
+    JSON.stringify(conversation, null, 2),
+    'utf-8'
+  );
+}
+
+export function loadConversation(id: string): Conversation | null {
+  const file = findConversationFile(id);
+  return file ? readConversationFile(file) : null;
+}
+
+/**
+ * Lista as conversas da conexao informada (ou de todas), mais recentes primeiro.
+ */
+export function listConversations(connection?: string): ConversationSummary[] {
+  if (!fs.existsSync(CONVERSATIONS_DIR)) return [];
+  if (connection) adoptLegacyConversations(connection);
+
+  const dirs = connection
+    ? [connectionDir(connection)]
+    : fs.readdirSync(CONVERSATIONS_DIR).map((dir) => path.join(CONVERSATIONS_DIR, dir));
+
+  const summaries: ConversationSummary[] = [];
+  for (const dir of dirs) {
+    if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) continue;
+
+    for (const file of fs.readdirSync(dir)) {
+      if (!file.endsWith('.json')) continue;
+      const conversation = readConversationFile(path.join(dir, file));
+      if (conversation) summaries.push(toSummary(conversation));
+    }
+  }
+
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function renameConversation(id: string, title: string): Conversation {
+  const conversation = loadConversation(id);
+  if (!conversation) {
+    throw new Error(`Conversa "${id}" não encontrada.`);
+  }
+
+  conversation.title = buildTitle(title);
+  saveConversation(conversation);
+  return conversation;
+}
+
+export function deleteConversation(id: string): boolean {
+  const file = findConversationFile(id);
+  if (!file) return false;
+  fs.unlinkSync(file);
+  return true;
+}
+
+export function appendConversationEntry(
+  conversation: Conversation,
+  entry: Omit<ConversationEntry, 'timestamp'>
+): void {
+  conversation.entries.push({ ...entry, timestamp: new Date().toISOString() });
+}
+
+export function addConversationUsage(
+  conversation: Conversation,
+  usage: ConversationUsage
+): void {
+  conversation.tokensUsed.prompt += usage.prompt;
+  conversation.tokensUsed.completion += usage.completion;
+  conversation.tokensUsed.total += usage.total;
+}
+
+export function toConversationResult(result: ExecutionResult): ConversationResultMeta {
+  return {
+    rowCount: result.rowCount,
+    columns: result.columns || Object.keys(result.rows[0] || {}),
+    duration: result.duration,
+    hasMore: Boolean(result.hasMore) || result.rows.length > RESULT_SAMPLE_ROWS,
+    rows: result.rows.slice(0, RESULT_SAMPLE_ROWS),
+  };
+}
@@ -0,0 +1,294 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import type { SchemaMap } from '../db/schema-engine.js';
+import type { TableProfile } from '../db/column-profiler.js';
+import { connectionStorageName, legacyStorageName } from './storage-names.js';
+
+// ─── Interfaces ───
+
+/**
+ * Schema mapeado + assinatura de catalogo de cada relacao ("schema.tabela").
+ * As assinaturas dizem quais tabelas mudaram desde o snapshot. Perfis de
+ * dados so existem para as tabelas perfiladas explicitamente.
+ */
+export interface SchemaSnapshot {
+  schema: SchemaMap;
+  signatures: Record<string, string>;
+  profiles?: Record<string, TableProfile>;
+}
+
+export interface SchemaSnapshotInfo {
+  connection: string;
+  database: string;
+  mappedAt: string; // ISO
+  tableCount: number;
+  current: boolean; // false = versao arquivada no historico
+}
+
+interface SchemaCacheFile {
+  formatVersion: number;
+  connection: string;
+  savedAt: string;
+  schema: Omit<SchemaMap, 'mappedAt'> & { mappedAt: string };
+  signatures: Record<string, string>;
+  profiles?: Record<string, TableProfile>;
+}
+
+// ─── Constantes ───
+
+const SCHEMA_CACHE_DIR = path.join(os.homedir(), '.agentdb', 'schema-cache');
+const HISTORY_DIR = path.join(SCHEMA_CACHE_DIR, 'history');
+const MAX_HISTORY_SNAPSHOTS = 30;
+
+// Incrementar quando o formato de TableInfo mudar, com um passo em MIGRATIONS
+const CACHE_FORMAT_VERSION = 4;
+
+type LegacyRecord = Record<string, unknown>;
+
+/**
+ * Passo de migracao de `version` para `version + 1`, aplicado ao `schema`
+ * gravado. Campos que nao existiam ficam vazios: o historico continua
+ * legivel pelo /diff, e as assinaturas sao descartadas para que o proximo
+ * refresh releia as tabelas.
+ */
+const MIGRATIONS: Record<number, (schema: LegacyRecord) => void> = {
+  // v2: CHECK/UNIQUE por tabela e sequencias no mapa
+  1: (schema) => {
+    schema.sequences ??= [];
+    for (const table of tablesOf(schema)) {
+      table.checkConstraints ??= [];
+      table.uniqueConstraints ??= [];
+    }
+  },
+  // v3: triggers por tabela, rotinas e extensoes no mapa
+  2: (schema) => {
+    schema.routines ??= [];
+    schema.extensions ??= [];
+    for (const table of tablesOf(schema)) {
+      table.triggers ??= [];
+    }
+  },
+  // v4: FKs por constraint com pares de colunas (antes uma entrada por coluna)
+  3: (schema) => {
+    for (const table of tablesOf(schema)) {
+      table.foreignKeys = migrateForeignKeys(table.foreignKeys, String(table.name));
+      table.referencedBy = migrateForeignKeys(table.referencedBy, String(table.name));
+    }
+  },
+};
+
+// ─── Helpers ───
+
+function cacheFile(connection: string): string {
+  return path.join(SCHEMA_CACHE_DIR, `${connectionStorageName(connection)}.json`);
+}
+
+function historyDir(connection: string): string {
+  return path.join(HISTORY_DIR, connectionStorageName(connection));
+}
+
+function cacheOwner(file: string): string | null {
+  try {
+    const data = JSON.parse(fs.readFileSync(file, 'utf-8')) as Partial<SchemaCacheFile>;
+    return typeof data.connection === 'string' ? data.connection : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Move para os nomes novos o cache e o historico gravados sem hash, que podiam
+ * ser divididos por conexoes de nomes parecidos: so leva os desta conexao.
+ */
+function adoptLegacyCache(connection: string): void {
+  const legacy = legacyStorageName(connection);
+  const legacyFile = path.join(SCHEMA_CACHE_DIR, `${legacy}.json`);
+  const file = cacheFile(connection);
+  if (fs.existsSync(legacyFile) && !fs.existsSync(file) && cacheOwner(legacyFile) === connection) {
+    fs.renameSync(legacyFile, file);
+  }
+
+  const legacyHistory = path.join(HISTORY_DIR, legacy);
+  if (!fs.existsSync(legacyHistory) || !fs.statSync(legacyHistory).isDirectory()) return;
+
+  const dir = historyDir(connection);
+  for (const name of fs.readdirSync(legacyHistory)) {
+    if (!name.endsWith('.json') || cacheOwner(path.join(legacyHistory, name)) !== connection) continue;
+    fs.mkdirSync(dir, { recursive: true });
+    fs.renameSync(path.join(legacyHistory, name), path.join(dir, name));
+  }
+
+  if (fs.readdirSync(legacyHistory).length === 0) {
+    fs.rmdirSync(legacyHistory);
+  }
+}
+
+function tablesOf(schema: LegacyRecord): LegacyRecord[] {
+  return Array.isArray(schema.tables) ? (schema.tables as LegacyRecord[]) : [];
+}
+
+function migrateForeignKeys(value: unknown, table: string): unknown[] {
+  if (!Array.isArray(value)) return [];
+  return (value as LegacyRecord[]).map((fk) => {
+    if (Array.isArray(fk.columns)) return fk;
+    const { column, referencedColumn, ...rest } = fk;
+    return {
+      ...rest,
+      // Nome real da constraint nao era gravado: usa o padrao do Postgres
+      name: typeof fk.name === 'string' ? fk.name : `${table}_${String(column)}_fkey`,
+      columns: [column],
+      referencedColumns: [referencedColumn],
+    };
+  });
+}
+
+function readCacheFile(file: string): SchemaSnapshot | null {
+  try {
+    const data = JSON.parse(fs.readFileSync(file, 'utf-8')) as SchemaCacheFile;
+    const version = data.formatVersion;
+    if (
+      !Number.isInteger(version) ||
+      version < 1 ||
+      version > CACHE_FORMAT_VERSION ||
+      !data.schema ||
+      !data.signatures
+    ) {
+      return null;
+    }
+
+    for (let step = version; step < CACHE_FORMAT_VERSION; step++) {
+      MIGRATIONS[step](data.schema as unknown as LegacyRecord);
+    }
+
+    return {
+      schema: { ...data.schema, mappedAt: new Date(data.schema.mappedAt) },
+      signatures: version === CACHE_FORMAT_VERSION ? data.signatures : {},
+      profiles: data.profiles ?? {},
+    };
+  } catch {
+    return null;
+  }
+}
+
+function writeCacheFile(file: string, connection: string, snapshot: SchemaSnapshot): void {
+  const data: SchemaCacheFile = {
+    formatVersion: CACHE_FORMAT_VERSION,
+    connection,
+    savedAt: new Date().toISOString(),
+    schema: { ...snapshot.schema, mappedAt: snapshot.schema.mappedAt.toISOString() },
+    signatures: snapshot.signatures,
+    profiles: snapshot.profiles,
+  };
+  fs.writeFileSync(file, JSON.stringify(data), 'utf-8');
+}
+
+function sameSignatures(a: Record<string, string>, b: Record<string, string>): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+}
+
+/**
+ * Guarda o snapshot anterior no historico quando o DDL mudou, para comparar
+ * o schema de hoje com o de semanas atras. Mantem so os mais recentes.
+ */
+function archiveSnapshot(connection: string, previous: SchemaSnapshot): void {
+  const dir = historyDir(connection);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const stamp = previous.schema.mappedAt.toISOString().replace(/[:.]/g, '-');
+  writeCacheFile(path.join(dir, `${stamp}.json`), connection, previous);
+
+  const files = fs.readdirSync(dir).filter((f) => f.endsWith('.json')).sort();
+  for (const old of files.slice(0, Math.max(0, files.length - MAX_HISTORY_SNAPSHOTS))) {
+    fs.unlinkSync(path.join(dir, old));
+  }
+}
+
+function historySnapshots(connection: string): SchemaSnapshot[] {
+  adoptLegacyCache(connection);
+  const dir = historyDir(connection);
+  if (!fs.existsSync(dir)) return [];
+
+  return fs
+    .readdirSync(dir)
+    .filter((f) => f.endsWith('.json'))
+    .map((f) => readCacheFile(path.join(dir, f)))
+    .filter((snapshot): snapshot is SchemaSnapshot => snapshot !== null);
+}
+
+function toSnapshotInfo(connection: string, snapshot: SchemaSnapshot, current: boolean): SchemaSnapshotInfo {
+  return {
+    connection,
+    database: snapshot.schema.database,
+    mappedAt: snapshot.schema.mappedAt.toISOString(),
+    tableCount: snapshot.schema.tables.length,
+    current,
+  };
+}
+
+// ─── Funções exportadas ───
+
+export function loadSchemaSnapshot(connection: string): SchemaSnapshot | null {
+  adoptLegacyCache(connection);
+  const file = cacheFile(connection);
+  return fs.existsSync(file) ? readCacheFile(file) : null;
+}
+
+export function saveSchemaSnapshot(connection: string, snapshot: SchemaSnapshot): void {
+  if (!fs.existsSync(SCHEMA_CACHE_DIR)) {
+    fs.mkdirSync(SCHEMA_CACHE_DIR, { recursive: true });
+  }
+
+  const previous = loadSchemaSnapshot(connection);
+  if (
+    previous &&
+    previous.schema.database === snapshot.schema.database &&
+    !sameSignatures(previous.signatures, snapshot.signatures)
+  ) {
+    archiveSnapshot(connection, previous);
+  }
+
+  writeCacheFile(cacheFile(connection), connection, snapshot);
+}
+
+/**
+ * Snapshot atual e arquivados da conexao, mais recentes primeiro.
+ */
+export function listSchemaSnapshots(connection: string): SchemaSnapshotInfo[] {
+  const infos = historySnapshots(connection).map((s) => toSnapshotInfo(connection, s, false));
+  const current = loadSchemaSnapshot(connection);
+  if (current) infos.push(toSnapshotInfo(connection, current, true));
+  return infos.sort((a, b) => b.mappedAt.localeCompare(a.mappedAt));
+}
+
+/**
+ * Schema como estava em `at`: o snapshot mais recente mapeado ate essa data.
+ */
+export function loadSchemaSnapshotAt(connection: string, at: Date): SchemaSnapshot | null {
+  const candidates = historySnapshots(connection);
+  const current = loadSchemaSnapshot(connection);
+  if (current) candidates.push(current);
+
+  let best: SchemaSnapshot | null = null;
+  for (const snapshot of candidates) {
+    if (snapshot.schema.mappedAt.getTime() > at.getTime()) continue;
+    if (!best || snapshot.schema.mappedAt > best.schema.mappedAt) best = snapshot;
+  }
+  return best;
+}
+
+export function deleteSchemaSnapshot(connection: string): boolean {
+  adoptLegacyCache(connection);
+  const dir = historyDir(connection);
+  if (fs.existsSync(dir)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  const file = cacheFile(connection);
+  if (!fs.existsSync(file)) return false;
+  fs.unlinkSync(file);
+  return true;
+}
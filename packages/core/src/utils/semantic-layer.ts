@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { connectionStorageName, legacyStorageName, ownsLegacyStorage } from './storage-names.js';
+
+// ─── Interfaces ───
+
+export interface GlossaryTerm {
+  term: string;
+  definition: string;
+  synonyms?: string[];
+}
+
+/**
+ * Metrica oficial do time: "receita" = sum(orders.total) onde status = 'paid'.
+ * O agente usa a expressao e o filtro exatos e cita o nome na resposta.
+ */
+export interface MetricDefinition {
+  name: string;
+  expression: string; // expressao SQL agregada, ex.: sum(orders.total)
+  filter?: string; // condicao WHERE aplicada sempre junto com a metrica
+  grain?: string; // granularidade, ex.: "por pedido", "orders.id"
+  description?: string;
+  synonyms?: string[];
+}
+
+export interface PreferredJoin {
+  from: string; // schema.tabela ou tabela
+  to: string;
+  on: string; // condicao ON completa
+  note?: string;
+}
+
+export interface SemanticLayer {
+  glossary: GlossaryTerm[];
+  metrics: MetricDefinition[];
+  joins: PreferredJoin[];
+  updatedAt?: string; // ISO
+}
+
+// ─── Constantes ───
+
+const SEMANTIC_DIR = path.join(os.homedir(), '.agentdb', 'semantic');
+
+// ─── Helpers ───
+
+function semanticFile(connection: string): string {
+  return path.join(SEMANTIC_DIR, `${connectionStorageName(connection)}.json`);
+}
+
+/**
+ * Move para o nome novo o arquivo gravado sem hash. Ele nao guarda a conexao,
+ * entao fica onde esta se outra conexao configurada tem o mesmo nome sanitizado.
+ */
+function adoptLegacySemanticFile(connection: string): void {
+  const legacyFile = path.join(SEMANTIC_DIR, `${legacyStorageName(connection)}.json`);
+  const file = semanticFile(connection);
+  if (fs.existsSync(legacyFile) && !fs.existsSync(file) && ownsLegacyStorage(connection)) {
+    fs.renameSync(legacyFile, file);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readString(entry: Record<string, unknown>, field: string, label: string, required: true): string;
+function readString(entry: Record<string, unknown>, field: string, label: string, required?: false): string | undefined;
+function readString(entry: Record<string, unknown>, field: string, label: string, required = false): string | undefined {
+  const value = entry[field];
+  if (value === undefined || value === null || value === '') {
+    if (required) throw new Error(`${label}: campo "${field}" é obrigatório.`);
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`${label}: campo "${field}" deve ser texto.`);
+  }
+  const trimmed = value.trim();
+  if (required && !trimmed) throw new Error(`${label}: campo "${field}" é obrigatório.`);
+  return trimmed || undefined;
+}
+
+function readSynonyms(entry: Record<string, unknown>, label: string): string[] | undefined {
+  const value = entry.synonyms;
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.some((s) => typeof s !== 'string')) {
+    throw new Error(`${label}: "synonyms" deve ser uma lista de textos.`);
+  }
+  const synonyms = (value as string[]).map((s) => s.trim()).filter(Boolean);
+  return synonyms.length > 0 ? synonyms : undefined;
+}
+
+function readList(input: Record<string, unknown>, field: string): Record<string, unknown>[] {
+  const value = input[field];
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || !value.every(isRecord)) {
+    throw new Error(`"${field}" deve ser uma lista de objetos.`);
+  }
+  return value;
+}
+
+function assertUnique(names: string[], label: string): void {
+  const seen = new Set<string>();
+  for (const name of names) {
+    const key = name.toLowerCase();
+    if (seen.has(key)) throw new Error(`${label} "${name}" definido(a) mais de uma vez.`);
+    seen.add(key);
+  }
+}
+
+// ─── Funções exportadas ───
+
+export function emptySemanticLayer(): SemanticLayer {
+  return { glossary: [], metrics: [], joins: [] };
+}
+
+/**
+ * Valida e normaliza uma camada semantica vinda do usuario (JSON da API ou
+ * arquivo editado a mao). Lanca Error com mensagem legivel no primeiro problema.
+ */
+export function parseSemanticLayer(input: unknown): SemanticLayer {
+  if (!isRecord(input)) {
+    throw new Error('A camada semântica deve ser um objeto com glossary, metrics e joins.');
+  }
+
+  const glossary = readList(input, 'glossary').map((entry, i): GlossaryTerm => {
+    const label = `Glossário #${i + 1}`;
+    return {
+      term: readString(entry, 'term', label, true),
+      definition: readString(entry, 'definition', label, true),
+      synonyms: readSynonyms(entry, label),
+    };
+  });
+
+  const metrics = readList(input, 'metrics').map((entry, i): MetricDefinition => {
+    const label = `Métrica #${i + 1}`;
+    return {
+      name: readString(entry, 'name', label, true),
+      expression: readString(entry, 'expression', label, true),
+      filter: readString(entry, 'filter', label),
+      grain: readString(entry, 'grain', label),
+      description: readString(entry, 'description', label),
+      synonyms: readSynonyms(entry, label),
+    };
+  });
+
+  const joins = readList(input, 'joins').map((entry, i): PreferredJoin => {
+    const label = `Join #${i + 1}`;
+    return {
+      from: readString(entry, 'from', label, true),
+      to: readString(entry, 'to', label, true),
+      on: readString(entry, 'on', label, true),
+      note: readString(entry, 'note', label),
+    };
+  });
+
+  assertUnique(glossary.map((t) => t.term), 'Termo');
+  assertUnique(metrics.map((m) => m.name), 'Métrica');
+
+  return { glossary, metrics, joins };
+}
+
+/**
+ * Camada semantica da conexao; vazia quando o arquivo nao existe ou esta invalido.
+ */
+export function loadSemanticLayer(connection: string): SemanticLayer {
+  adoptLegacySemanticFile(connection);
+  const file = semanticFile(connection);
+  if (!fs.existsSync(file)) return emptySemanticLayer();
+
+  try {
+    const data = JSON.parse(fs.readFileSync(file, 'utf-8')) as Record<string, unknown>;
+    const layer = parseSemanticLayer(data);
+    return typeof data.updatedAt === 'string' ? { ...layer, updatedAt: data.updatedAt } : layer;
+  } catch {
+    return emptySemanticLayer();
+  }
+}
+
+export function saveSemanticLayer(connection: string, layer: SemanticLayer): SemanticLayer {
+  if (!fs.existsSync(SEMANTIC_DIR)) {
+    fs.mkdirSync(SEMANTIC_DIR, { recursive: true });
+  }
+
+  const saved: SemanticLayer = { ...parseSemanticLayer(layer), updatedAt: new Date().toISOString() };
+  adoptLegacySemanticFile(connection);
+  fs.writeFileSync(semanticFile(connection), JSON.stringify(saved, null, 2), 'utf-8');
+  return saved;
+}
+
+export function deleteSemanticLayer(connection: string): boolean {
+  adoptLegacySemanticFile(connection);
+  const file = semanticFile(connection);
+  if (!fs.existsSync(file)) return false;
+  fs.unlinkSync(file);
+  return true;
+}
+
+/**
+ * Caminho do arquivo da conexao (para o CLI abrir no editor).
+ */
+export function semanticLayerPath(connection: string): string {
+  adoptLegacySemanticFile(connection);
+  return semanticFile(connection);
+}
+
+export function isSemanticLayerEmpty(layer: SemanticLayer): boolean {
+  return layer.glossary.length === 0 && layer.metrics.length === 0 && layer.joins.length === 0;
+}
+
+/**
+ * Linha de uma metrica no formato que o agente recebe e o CLI exibe.
+ */
+export function formatMetricDefinition(metric: MetricDefinition): string {
+  let line = `${metric.name} = ${metric.expression}`;
+  if (metric.filter) line += ` WHERE ${metric.filter}`;
+  if (metric.grain) line += ` [grain: ${metric.grain}]`;
+  if (metric.synonyms?.length) line += ` (sinonimos: ${metric.synonyms.join(', ')})`;
+  if (metric.description) line += ` -- ${metric.description}`;
+  return line;
+}
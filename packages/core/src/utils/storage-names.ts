@@ -0,0 +1,30 @@
+import * as crypto from 'crypto';
+import { getConnections } from './config.js';
+
+// ─── Funções exportadas ───
+
+/**
+ * Nome de arquivo/pasta de uma conexao em ~/.agentdb: prefixo legivel mais um
+ * hash do nome completo. Sanitizar sozinho colide ("prod.db" e "prod_db").
+ */
+export function connectionStorageName(connection: string): string {
+  const hash = crypto.createHash('sha256').update(connection).digest('hex').slice(0, 12);
+  return `${legacyStorageName(connection)}-${hash}`;
+}
+
+/**
+ * Nome usado antes do hash; so serve para achar e adotar arquivos antigos.
+ */
+export function legacyStorageName(connection: string): string {
+  // Nome da conexao vira nome de arquivo: nada de separadores ou ".."
+  return connection.replace(/[^a-zA-Z0-9_-]/g, '_') || '_';
+}
+
+/**
+ * Arquivo antigo sem dono gravado so pode ser adotado quando nenhuma outra
+ * conexao configurada cai no mesmo nome sanitizado.
+ */
+export function ownsLegacyStorage(connection: string): boolean {
+  const legacy = legacyStorageName(connection);
+  return !getConnections().some((c) => c.name !== connection && legacyStorageName(c.name) === legacy);
+}
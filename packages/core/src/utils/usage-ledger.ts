@@ -0,0 +1,314 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { getUsageSettings } from './config.js';
+
+// ─── Interfaces ───
+
+/**
+ * Uma chamada ao LLM. O ledger e append-only, um arquivo JSONL por dia;
+ * totais por pergunta, conversa, conexao e dia saem da agregacao.
+ */
+export interface UsageRecord {
+  at: string; // ISO
+  runId: string; // uma pergunta do usuario (todas as etapas do agente)
+  conversationId: string | null;
+  connection: string;
+  provider: string;
+  model: string;
+  prompt: number;
+  completion: number;
+  total: number;
+  costUsd: number | null; // null = modelo sem preco na tabela
+}
+
+/**
+ * Preco em USD por 1M de tokens.
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface UsageBudgets {
+  runTokens?: number; // por pergunta
+  conversationTokens?: number;
+  dailyTokens?: number; // soma do dia, todas as conexoes
+  dailyCostUsd?: number;
+}
+
+export interface UsageSettings {
+  budgets?: UsageBudgets;
+  prices?: Record<string, ModelPrice>; // sobrepoe DEFAULT_MODEL_PRICES (prefixo do modelo)
+}
+
+export interface UsageTotals {
+  calls: number;
+  prompt: number;
+  completion: number;
+  total: number;
+  costUsd: number;
+  unpricedCalls: number; // chamadas fora da tabela de precos (custo nao somado)
+}
+
+export interface UsageReport {
+  since: string; // dia inicial (YYYY-MM-DD)
+  days: number;
+  today: UsageTotals;
+  totals: UsageTotals;
+  byDay: Array<UsageTotals & { day: string }>;
+  byConnection: Array<UsageTotals & { connection: string }>;
+  byModel: Array<UsageTotals & { model: string }>;
+  byConversation: Array<UsageTotals & { conversationId: string }>;
+  recentRuns: Array<UsageTotals & { runId: string; connection: string; at: string }>;
+  budgets: UsageBudgets;
+}
+
+// ─── Constantes ───
+
+const USAGE_DIR = path.join(os.homedir(), '.agentdb', 'usage');
+const MAX_RECENT_RUNS = 20;
+const MAX_CONVERSATIONS = 20;
+
+/**
+ * Precos de tabela das APIs. Assinaturas via OAuth nao cobram por token:
+ * nesses casos o valor e so uma referencia. Casa pelo prefixo mais longo.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4-6': { input: 5, output: 25 },
+  'claude-opus-4-5': { input: 5, output: 25 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+};
+
+const BUDGET_FIELDS: Array<keyof UsageBudgets> = ['runTokens', 'conversationTokens', 'dailyTokens', 'dailyCostUsd'];
+
+// ─── Helpers ───
+
+// Dia no fuso local: o orcamento diario vira a meia-noite do usuario
+function dayKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function dayFile(day: string): string {
+  return path.join(USAGE_DIR, `${day}.jsonl`);
+}
+
+function readDay(day: string): UsageRecord[] {
+  const file = dayFile(day);
+  if (!fs.existsSync(file)) return [];
+
+  const records: UsageRecord[] = [];
+  for (const line of fs.readFileSync(file, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as UsageRecord);
+    } catch {
+      // Linha truncada (processo encerrado no meio da escrita): ignora
+    }
+  }
+  return records;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, prompt: 0, completion: 0, total: 0, costUsd: 0, unpricedCalls: 0 };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord): void {
+  totals.calls += 1;
+  totals.prompt += record.prompt;
+  totals.completion += record.completion;
+  totals.total += record.total;
+  if (record.costUsd === null) {
+    totals.unpricedCalls += 1;
+  } else {
+    totals.costUsd += record.costUsd;
+  }
+}
+
+function groupBy<K extends string>(
+  records: UsageRecord[],
+  field: K,
+  keyOf: (record: UsageRecord) => string | null
+): Array<UsageTotals & Record<K, string>> {
+  const groups = new Map<string, UsageTotals>();
+  for (const record of records) {
+    const key = keyOf(record);
+    if (key === null) continue;
+    const totals = groups.get(key) ?? emptyTotals();
+    addRecord(totals, record);
+    groups.set(key, totals);
+  }
+  return Array.from(groups, ([key, totals]) => ({ ...totals, [field]: key }) as UsageTotals & Record<K, string>);
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+function formatTokens(value: number): string {
+  return value.toLocaleString('pt-BR');
+}
+
+// ─── Funções exportadas ───
+
+export function getModelPrice(model: string): ModelPrice | null {
+  const prices = { ...DEFAULT_MODEL_PRICES, ...(getUsageSettings().prices ?? {}) };
+  const normalized = model.toLowerCase();
+  const match = Object.keys(prices)
+    .filter((prefix) => normalized.startsWith(prefix.toLowerCase()))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices[match] : null;
+}
+
+/**
+ * Custo estimado em USD; modelos locais nao custam nada, modelos fora da
+ * tabela ficam sem custo (null).
+ */
+export function estimateUsageCost(
+  provider: string,
+  model: string,
+  usage: { prompt: number; completion: number }
+): number | null {
+  if (provider === 'ollama') return 0;
+  const price = getModelPrice(model);
+  if (!price) return null;
+  return roundCost((usage.prompt * price.input + usage.completion * price.output) / 1_000_000);
+}
+
+export function appendUsageRecord(input: Omit<UsageRecord, 'at' | 'costUsd'>): UsageRecord {
+  const now = new Date();
+  const record: UsageRecord = {
+    ...input,
+    at: now.toISOString(),
+    costUsd: estimateUsageCost(input.provider, input.model, input),
+  };
+
+  if (!fs.existsSync(USAGE_DIR)) {
+    fs.mkdirSync(USAGE_DIR, { recursive: true });
+  }
+  fs.appendFileSync(dayFile(dayKey(now)), `${JSON.stringify(record)}\n`, 'utf-8');
+  return record;
+}
+
+/**
+ * Registros dos ultimos `days` dias (hoje incluso), mais antigos primeiro.
+ */
+export function loadUsageRecords(days: number): UsageRecord[] {
+  const records: UsageRecord[] = [];
+  const date = new Date();
+  date.setDate(date.getDate() - (days - 1));
+  for (let i = 0; i < days; i++) {
+    records.push(...readDay(dayKey(date)));
+    date.setDate(date.getDate() + 1);
+  }
+  return records;
+}
+
+export function getTodayUsage(): UsageTotals {
+  const totals = emptyTotals();
+  for (const record of readDay(dayKey(new Date()))) {
+    addRecord(totals, record);
+  }
+  totals.costUsd = roundCost(totals.costUsd);
+  return totals;
+}
+
+export function buildUsageReport(days = 30): UsageReport {
+  const records = loadUsageRecords(days);
+  const today = dayKey(new Date());
+  const since = new Date();
+  since.setDate(since.getDate() - (days - 1));
+
+  const totals = emptyTotals();
+  const todayTotals = emptyTotals();
+  for (const record of records) {
+    addRecord(totals, record);
+    if (dayKey(new Date(record.at)) === today) addRecord(todayTotals, record);
+  }
+
+  const byRun = new Map<string, UsageTotals & { runId: string; connection: string; at: string }>();
+  for (const record of records) {
+    const run = byRun.get(record.runId) ?? { ...emptyTotals(), runId: record.runId, connection: record.connection, at: record.at };
+    addRecord(run, record);
+    byRun.set(record.runId, run);
+  }
+
+  const finish = <T extends UsageTotals>(items: T[]): T[] =>
+    items.map((item) => ({ ...item, costUsd: roundCost(item.costUsd) }));
+  const byTotal = (a: UsageTotals, b: UsageTotals) => b.total - a.total;
+
+  return {
+    since: dayKey(since),
+    days,
+    today: finish([todayTotals])[0],
+    totals: finish([totals])[0],
+    byDay: finish(groupBy(records, 'day', (r) => dayKey(new Date(r.at)))).sort((a, b) => a.day.localeCompare(b.day)),
+    byConnection: finish(groupBy(records, 'connection', (r) => r.connection)).sort(byTotal),
+    byModel: finish(groupBy(records, 'model', (r) => r.model)).sort(byTotal),
+    byConversation: finish(groupBy(records, 'conversationId', (r) => r.conversationId))
+      .sort(byTotal)
+      .slice(0, MAX_CONVERSATIONS),
+    recentRuns: finish(Array.from(byRun.values()))
+      .sort((a, b) => b.at.localeCompare(a.at))
+      .slice(0, MAX_RECENT_RUNS),
+    budgets: getUsageSettings().budgets ?? {},
+  };
+}
+
+/**
+ * Valida orcamentos vindos do usuario. `null` ou 0 remove o limite.
+ */
+export function parseUsageBudgets(input: unknown): UsageBudgets {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('Os orçamentos devem ser um objeto (runTokens, conversationTokens, dailyTokens, dailyCostUsd).');
+  }
+
+  const record = input as Record<string, unknown>;
+  const budgets: UsageBudgets = {};
+  for (const field of BUDGET_FIELDS) {
+    const value = record[field];
+    if (value === undefined || value === null || value === 0) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new Error(`"${field}" deve ser um número positivo.`);
+    }
+    budgets[field] = value;
+  }
+  return budgets;
+}
+
+/**
+ * Motivo para interromper o run antes da proxima chamada ao LLM, ou null.
+ * Chamado antes de cada etapa: uma resposta ja recebida nunca e descartada.
+ */
+export function checkUsageBudget(current: { runTokens: number; conversationTokens: number }): string | null {
+  const budgets = getUsageSettings().budgets ?? {};
+
+  if (budgets.runTokens && current.runTokens >= budgets.runTokens) {
+    return `Orçamento por pergunta atingido: ${formatTokens(current.runTokens)} de ${formatTokens(budgets.runTokens)} tokens.`;
+  }
+  if (budgets.conversationTokens && current.conversationTokens >= budgets.conversationTokens) {
+    return `Orçamento da conversa atingido: ${formatTokens(current.conversationTokens)} de ${formatTokens(budgets.conversationTokens)} tokens. Inicie uma nova conversa.`;
+  }
+  if (!budgets.dailyTokens && !budgets.dailyCostUsd) return null;
+
+  const today = getTodayUsage();
+  if (budgets.dailyTokens && today.total >= budgets.dailyTokens) {
+    return `Orçamento diário atingido: ${formatTokens(today.total)} de ${formatTokens(budgets.dailyTokens)} tokens hoje.`;
+  }
+  if (budgets.dailyCostUsd && today.costUsd >= budgets.dailyCostUsd) {
+    return `Orçamento diário atingido: US$ ${today.costUsd.toFixed(2)} de US$ ${budgets.dailyCostUsd.toFixed(2)} hoje.`;
+  }
+  return null;
+}
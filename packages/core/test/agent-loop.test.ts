@@ -0,0 +1,89 @@
+import { fileURLToPath } from 'url';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ContextBuilder, EvalRunner, LLMClient, QueryExecutor, ReplayLLMAuth, SchemaEngine } from '@agentdb/core';
+import type { DatabaseConnector } from '@agentdb/core';
+import { startTestDatabase, SHOP_SEED, type TestDatabase } from '../../../test/support/postgres.js';
+
+let pg: TestDatabase;
+let db: DatabaseConnector;
+let schemaEngine: SchemaEngine;
+
+function fixture(name: string): string {
+  return fileURLToPath(new URL(`./fixtures/${name}`, import.meta.url));
+}
+
+function createRunner(fixtureName: string): { runner: EvalRunner; llmClient: LLMClient } {
+  const auth = new ReplayLLMAuth();
+  auth.load(fixture(fixtureName));
+  const llmClient = new LLMClient(auth);
+  const runner = new EvalRunner({
+    llmClient,
+    executor: new QueryExecutor(db),
+    schemaEngine,
+    contextBuilder: new ContextBuilder(schemaEngine),
+  });
+  return { runner, llmClient };
+}
+
+beforeAll(async () => {
+  pg = await startTestDatabase(SHOP_SEED);
+  db = await pg.connect();
+  schemaEngine = new SchemaEngine(db);
+  await schemaEngine.mapDatabase();
+});
+
+afterAll(async () => {
+  await pg.stop();
+});
+
+describe('ciclo do agente com respostas gravadas', () => {
+  it('corrige a query depois de um erro do Postgres e chega ao gabarito', async () => {
+    const { runner, llmClient } = createRunner('recife-customers.json');
+
+    const result = await runner.runQuestion({
+      id: 'recife',
+      question: 'Quais clientes de Recife temos?',
+      expectedSql: "SELECT name FROM customers WHERE city = 'Recife'",
+    });
+
+    expect(result.detail).toBeUndefined();
+    expect(result.passed).toBe(true);
+    expect(result.steps).toBe(4);
+    expect(result.sql).toBe("SELECT name FROM customers WHERE city = 'Recife' ORDER BY name");
+    expect(result.tokens.total).toBe(920 + 1030 + 1130 + 1215);
+
+    // Cada chamada de ferramenta tem o seu resultado no historico
+    const history = llmClient.getHistory();
+    const calls = history.flatMap((message) => message.toolCalls ?? []).map((call) => call.id);
+    const answered = history.filter((message) => message.role === 'tool').map((message) => message.toolCallId);
+    expect(answered).toEqual(calls);
+  });
+
+  it('troca a escrita bloqueada por uma leitura sem tocar nos dados', async () => {
+    const { runner } = createRunner('delete-orders.json');
+
+    const result = await runner.runQuestion({
+      id: 'cancelados',
+      question: 'Apague os pedidos cancelados',
+      expectedRows: [{ cancelled: 1 }],
+    });
+
+    expect(result.passed).toBe(true);
+    expect(result.steps).toBe(3);
+    const remaining = await db.query<{ n: number }>('SELECT count(*)::int AS n FROM orders');
+    expect(remaining.rows[0].n).toBe(4);
+  });
+
+  it('falha com mensagem clara quando a fixture sai de sincronia', async () => {
+    const { runner } = createRunner('out-of-sync.json');
+
+    const result = await runner.runQuestion({
+      id: 'recife',
+      question: 'Quais clientes de Recife temos?',
+      expectedRows: [],
+    });
+
+    expect(result.passed).toBe(false);
+    expect(result.detail).toContain('fora de sincronia na resposta #1');
+  });
+});
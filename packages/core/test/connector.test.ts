@@ -0,0 +1,47 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { DatabaseConnector } from '@agentdb/core';
+import { startTestDatabase, SHOP_SEED, type TestDatabase } from '../../../test/support/postgres.js';
+
+let pg: TestDatabase;
+let db: DatabaseConnector;
+
+beforeAll(async () => {
+  pg = await startTestDatabase(SHOP_SEED);
+  db = await pg.connect();
+});
+
+afterAll(async () => {
+  await pg.stop();
+});
+
+describe('DatabaseConnector com varios statements', () => {
+  it('devolve o resultado do ultimo statement em query', async () => {
+    const result = await db.query("SELECT 1 AS um; SELECT name FROM customers WHERE city = 'Curitiba'");
+
+    expect(result.rows).toEqual([{ name: 'Bruno' }]);
+    expect(result.rowCount).toBe(1);
+    expect(result.columns).toEqual(['name']);
+  });
+
+  it('devolve o resultado do ultimo statement em readOnlyQuery', async () => {
+    const result = await db.readOnlyQuery(
+      "SELECT count(*)::int AS n FROM orders; SELECT id FROM customers WHERE city = 'Recife' ORDER BY id",
+      undefined,
+      { timeoutMs: 5000 }
+    );
+
+    expect(result.rows).toEqual([{ id: 1 }, { id: 3 }]);
+    expect(result.rowCount).toBe(2);
+  });
+
+  it('devolve o resultado do ultimo statement em withRollback', async () => {
+    const rowCount = await db.withRollback(async (query) => {
+      const result = await query("UPDATE orders SET status = 'x'; SELECT id FROM orders WHERE status = 'x'");
+      return result.rowCount;
+    });
+
+    expect(rowCount).toBe(4);
+    const paid = await db.query<{ n: number }>("SELECT count(*)::int AS n FROM orders WHERE status = 'paid'");
+    expect(paid.rows[0].n).toBe(3);
+  });
+});
@@ -0,0 +1,48 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { createConversation, deleteConversation, listConversations, saveConversation } from '@agentdb/core';
+import type { Conversation } from '@agentdb/core';
+
+const CONVERSATIONS_DIR = path.join(os.homedir(), '.agentdb', 'conversations');
+
+function writeLegacyConversation(conversation: Conversation): void {
+  // Formato antigo: pasta com o nome sanitizado, sem hash
+  const dir = path.join(CONVERSATIONS_DIR, 'prod_db');
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, `${conversation.id}.json`), JSON.stringify(conversation), 'utf-8');
+}
+
+describe('conversas por conexao', () => {
+  it('nao mistura conexoes cujos nomes sanitizados coincidem', () => {
+    const dotted = createConversation('prod.db', 'Pedidos de hoje');
+    const underscored = createConversation('prod_db', 'Clientes novos');
+    saveConversation(dotted);
+    saveConversation(underscored);
+
+    try {
+      expect(listConversations('prod.db').map((c) => c.id)).toEqual([dotted.id]);
+      expect(listConversations('prod_db').map((c) => c.id)).toEqual([underscored.id]);
+    } finally {
+      deleteConversation(dotted.id);
+      deleteConversation(underscored.id);
+    }
+  });
+
+  it('adota da pasta antiga so as conversas da propria conexao', () => {
+    const dotted = createConversation('prod.db', 'Antiga do prod.db');
+    const underscored = createConversation('prod_db', 'Antiga do prod_db');
+    writeLegacyConversation(dotted);
+    writeLegacyConversation(underscored);
+
+    try {
+      expect(listConversations('prod.db').map((c) => c.title)).toEqual(['Antiga do prod.db']);
+      expect(listConversations('prod_db').map((c) => c.title)).toEqual(['Antiga do prod_db']);
+      expect(fs.existsSync(path.join(CONVERSATIONS_DIR, 'prod_db'))).toBe(false);
+    } finally {
+      deleteConversation(dotted.id);
+      deleteConversation(underscored.id);
+    }
+  });
+});
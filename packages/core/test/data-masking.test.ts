@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { DataMasker, maskValue, suggestTableSensitivity } from '@agentdb/core';
+import type { ColumnSensitivity, MaskMode, SensitivityTag, TableInfo, TableProfile } from '@agentdb/core';
+
+function table(name: string, columns: string[]): TableInfo {
+  return {
+    schema: 'public',
+    name,
+    type: 'table',
+    columns: columns.map((column) => ({
+      name: column,
+      type: 'text',
+      nullable: true,
+      defaultValue: null,
+      isPrimaryKey: false,
+      comment: null,
+    })),
+    foreignKeys: [],
+    referencedBy: [],
+    indexes: [],
+    checkConstraints: [],
+    uniqueConstraints: [],
+    triggers: [],
+    estimatedRowCount: 0,
+    comment: null,
+  };
+}
+
+function tagged(key: string, tag: SensitivityTag | null): ColumnSensitivity {
+  return { key, tag, suggested: tag, source: tag ? 'name' : 'override' };
+}
+
+describe('maskValue', () => {
+  it.each<[unknown, SensitivityTag, MaskMode, unknown]>([
+    ['joana@empresa.com', 'email', 'partial', 'j***@empresa.com'],
+    ['123.456.789-09', 'document', 'partial', '***.***.***-09'],
+    ['(81) 99876-5432', 'phone', 'partial', '(**) *****-5432'],
+    ['4111 1111 1111 1234', 'financial', 'partial', '**** **** **** **34'],
+    ['1990-05-17', 'birthdate', 'partial', '1990-**-**'],
+    ['Joana Maria Silva', 'name', 'partial', 'J*** M*** S***'],
+    ['Rua das Flores 10', 'address', 'partial', 'R*** d*** F*** 1***'],
+    ['s3nh4', 'secret', 'partial', '[oculto:secret]'],
+    ['joana@empresa.com', 'email', 'redact', '[oculto:email]'],
+    ['joana@empresa.com', 'email', 'none', 'joana@empresa.com'],
+    [null, 'email', 'redact', null],
+    ['[oculto:email]', 'email', 'partial', '[oculto:email]'],
+    ['sem-arroba', 'email', 'partial', '[oculto:email]'],
+  ])('%s (%s, %s) -> %s', (value, tag, mode, expected) => {
+    expect(maskValue(value, tag, mode)).toBe(expected);
+  });
+});
+
+describe('suggestTableSensitivity', () => {
+  it('sugere etiquetas pelo nome da coluna', () => {
+    const suggestions = suggestTableSensitivity(
+      table('clientes', ['id', 'nome', 'cpf', 'email', 'senha_hash', 'celular', 'data_nascimento', 'cidade'])
+    );
+
+    expect(suggestions).toEqual({
+      nome: { tag: 'name', source: 'name' },
+      cpf: { tag: 'document', source: 'name' },
+      email: { tag: 'email', source: 'name' },
+      senha_hash: { tag: 'secret', source: 'name' },
+      celular: { tag: 'phone', source: 'name' },
+      data_nascimento: { tag: 'birthdate', source: 'name' },
+    });
+  });
+
+  it('so trata "name" como pessoal em tabelas de pessoas', () => {
+    expect(suggestTableSensitivity(table('products', ['name']))).toEqual({});
+    expect(suggestTableSensitivity(table('customers', ['name']))).toEqual({ name: { tag: 'name', source: 'name' } });
+  });
+
+  it('sugere pelo formato dos valores mais comuns do perfil', () => {
+    const emails = ['a@x.com', 'b@x.com', 'c@y.org'].map((value) => ({ value, frequency: 0.1 }));
+    const profile: TableProfile = {
+      columns: {
+        contato: { nullFraction: 0, distinct: 3, commonValues: emails, source: 'pg_stats' },
+        origem: { nullFraction: 0, distinct: 2, commonValues: [{ value: 'site', frequency: 0.5 }], source: 'pg_stats' },
+      },
+      sampledRows: null,
+      profiledAt: '2026-10-01T12:00:00.000Z',
+    };
+    const suggestions = suggestTableSensitivity(table('leads', ['contato', 'origem']), profile);
+
+    expect(suggestions).toEqual({ contato: { tag: 'email', source: 'pattern' } });
+  });
+});
+
+describe('DataMasker', () => {
+  const masker = new DataMasker([
+    tagged('public.customers.email', 'email'),
+    tagged('public.customers.name', 'name'),
+  ]);
+
+  it('mascara pelo nome da coluna em qualquer tabela e informa as colunas', () => {
+    const { rows, masked } = masker.maskRows(
+      ['id', 'name', 'email'],
+      [{ id: 1, name: 'Ana Lima', email: 'ana@example.com' }],
+      'partial'
+    );
+
+    expect(rows).toEqual([{ id: 1, name: 'A*** L***', email: 'a***@example.com' }]);
+    expect(masked).toEqual({ name: 'name', email: 'email' });
+  });
+
+  it('pega aliases pelo formato dos valores', () => {
+    const { rows } = masker.maskRows(
+      ['contato'],
+      [{ contato: 'ana@example.com' }, { contato: 'bruno@example.com' }, { contato: 'carla@example.com' }],
+      'redact'
+    );
+
+    expect(rows.map((row) => row.contato)).toEqual(['[oculto:email]', '[oculto:email]', '[oculto:email]']);
+  });
+
+  it('lista as colunas sensiveis que nao vao para o contexto do LLM', () => {
+    expect(masker.sensitiveColumns()).toEqual(new Set(['public.customers.email', 'public.customers.name']));
+  });
+
+  it('mascara resultados com o modo de cada destino', () => {
+    const result = { sql: 'SELECT email FROM customers', rows: [{ email: 'ana@example.com' }], rowCount: 1, duration: 1 };
+
+    expect(masker.maskResult(result, 'partial')).toMatchObject({
+      rows: [{ email: 'a***@example.com' }],
+      maskedColumns: { email: 'email' },
+    });
+    expect(masker.maskResult(result, 'redact').rows).toEqual([{ email: '[oculto:email]' }]);
+  });
+
+  it('devolve as linhas intactas com o modo none (opt-out da conexao)', () => {
+    const rows = [{ email: 'ana@example.com' }];
+    const result = { sql: 'SELECT email FROM customers', rows, rowCount: 1, duration: 1 };
+
+    expect(masker.maskRows(['email'], rows, 'none')).toEqual({ rows, masked: {} });
+    expect(masker.maskResult(result, 'none')).toBe(result);
+  });
+
+  it('respeita o override "none" que desmarca uma coluna', () => {
+    const optedOut = new DataMasker([tagged('public.customers.email', null)]);
+    const { rows, masked } = optedOut.maskRows(['email'], [{ email: 'ana@example.com' }], 'partial');
+
+    expect(rows).toEqual([{ email: 'ana@example.com' }]);
+    expect(masked).toEqual({});
+    expect(optedOut.sensitiveColumns().size).toBe(0);
+  });
+});
@@ -0,0 +1,58 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { describe, expect, it } from 'vitest';
+import { loadEvalSuite } from '@agentdb/core';
+
+function fixture(name: string): string {
+  return fileURLToPath(new URL(`./fixtures/${name}`, import.meta.url));
+}
+
+// O HOME de cada arquivo de teste e temporario e removido no final
+function writeSuite(name: string, content: string): string {
+  const file = path.join(os.homedir(), name);
+  fs.writeFileSync(file, content);
+  return file;
+}
+
+describe('loadEvalSuite', () => {
+  it('le suites em YAML', () => {
+    const suite = loadEvalSuite(fixture('shop-suite.yaml'));
+
+    expect(suite).toEqual({
+      name: 'loja',
+      questions: [
+        {
+          id: 'recife',
+          question: 'Quais clientes moram em Recife?',
+          expectedSql: "SELECT name FROM customers WHERE city = 'Recife'",
+          expectedRows: undefined,
+          tags: ['filtro'],
+        },
+        {
+          id: 'q2',
+          question: 'Quantos pedidos pagos existem?',
+          expectedSql: undefined,
+          expectedRows: [[3]],
+          tags: undefined,
+        },
+      ],
+    });
+  });
+
+  it('usa o nome do arquivo .yml quando a suite nao tem nome', () => {
+    const file = writeSuite('vendas.yml', '- question: Total vendido?\n  expectedSql: SELECT sum(total) FROM orders\n');
+
+    const suite = loadEvalSuite(file);
+
+    expect(suite.name).toBe('vendas');
+    expect(suite.questions[0].expectedSql).toBe('SELECT sum(total) FROM orders');
+  });
+
+  it('aponta o arquivo quando o YAML e invalido', () => {
+    const file = writeSuite('quebrada.yaml', 'questions: [\n  - question: "sem fechar\n');
+
+    expect(() => loadEvalSuite(file)).toThrow(/Não foi possível ler a suíte .*quebrada\.yaml/);
+  });
+});
@@ -0,0 +1,196 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { AccessGuard, QueryExecutor, analyzeSqlExecutionError } from '@agentdb/core';
+import type { DatabaseConnector } from '@agentdb/core';
+import { startTestDatabase, SHOP_SEED, type TestDatabase } from '../../../test/support/postgres.js';
+
+let pg: TestDatabase;
+let db: DatabaseConnector;
+
+// Schema negado pela politica nos testes de acesso; orders repete o nome de public.orders
+const BILLING_SEED = `
+  CREATE SCHEMA billing;
+  CREATE TABLE billing.invoices (id int PRIMARY KEY, card_number text NOT NULL);
+  CREATE TABLE billing.orders (id int PRIMARY KEY, secret text NOT NULL);
+  INSERT INTO billing.invoices VALUES (1, '4111111111111111');
+  INSERT INTO billing.orders VALUES (1, 'segredo');
+`;
+
+beforeAll(async () => {
+  pg = await startTestDatabase(SHOP_SEED + BILLING_SEED);
+  db = await pg.connect();
+});
+
+afterAll(async () => {
+  await pg.stop();
+});
+
+async function countOrders(): Promise<number> {
+  const result = await db.query<{ n: number }>('SELECT count(*)::int AS n FROM orders');
+  return result.rows[0].n;
+}
+
+describe('QueryExecutor em modo somente leitura', () => {
+  it('executa leituras', async () => {
+    const executor = new QueryExecutor(db);
+    const result = await executor.execute("SELECT name FROM customers WHERE city = 'Recife' ORDER BY name");
+
+    expect(result.error).toBeUndefined();
+    expect(result.rows).toEqual([{ name: 'Ana' }, { name: 'Carla' }]);
+    expect(result.columns).toEqual(['name']);
+  });
+
+  it('recusa escritas com o codigo read_only', async () => {
+    const executor = new QueryExecutor(db);
+    const result = await executor.execute('DELETE FROM orders');
+
+    expect(result.errorCode).toBe('read_only');
+    expect(analyzeSqlExecutionError(result.error!, result.errorCode).kind).toBe('read_only');
+    expect(await countOrders()).toBe(4);
+  });
+
+  it.each([
+    ['COMMIT seguido de DO', "COMMIT; DO $$ BEGIN DELETE FROM orders; END $$"],
+    ['CALL', 'CALL purge_orders()'],
+    ['SET do modo de transacao', 'SET default_transaction_read_only = off; DELETE FROM orders'],
+  ])('nao deixa %s escapar do BEGIN READ ONLY', async (_label, sql) => {
+    const executor = new QueryExecutor(db);
+    const result = await executor.execute(sql);
+
+    expect(result.errorCode).toBe('read_only');
+    expect(await countOrders()).toBe(4);
+  });
+
+  it('pede confirmacao para tudo que nao e leitura', async () => {
+    const executor = new QueryExecutor(db);
+
+    expect(executor.requiresConfirmation(await executor.classify('SELECT 1'))).toBe(false);
+    expect(executor.requiresConfirmation(await executor.classify('LISTEN pedidos'))).toBe(true);
+    expect(executor.requiresConfirmation(await executor.classify('UPDATE orders SET status = status'))).toBe(true);
+  });
+
+  it('devolve o erro do Postgres para colunas inexistentes', async () => {
+    const executor = new QueryExecutor(db);
+    const result = await executor.execute('SELECT cidade FROM customers');
+
+    expect(result.errorCode).toBeUndefined();
+    expect(result.error).toMatch(/column "cidade" does not exist/);
+    expect(analyzeSqlExecutionError(result.error!, result.errorCode).kind).toBe('missing_object');
+  });
+
+  it('executa lotes com varios SELECTs', async () => {
+    const executor = new QueryExecutor(db);
+    const result = await executor.execute("SELECT 1; SELECT name FROM customers WHERE city = 'Curitiba'");
+
+    expect(result.error).toBeUndefined();
+    expect(result.rows).toEqual([{ name: 'Bruno' }]);
+  });
+});
+
+describe('QueryExecutor com escrita liberada', () => {
+  it('faz preview de UPDATE sem alterar os dados', async () => {
+    const executor = new QueryExecutor(db);
+    executor.setReadOnlyMode(false);
+
+    const preview = await executor.preview("UPDATE orders SET status = 'refunded' WHERE status = 'cancelled'");
+
+    expect(preview.error).toBeUndefined();
+    expect(preview.totalRowsAffected).toBe(1);
+    const status = await db.query<{ status: string }>('SELECT status FROM orders WHERE id = 3');
+    expect(status.rows[0].status).toBe('cancelled');
+  });
+});
+
+describe('politica de acesso', () => {
+  const guarded = (): QueryExecutor => {
+    const executor = new QueryExecutor(db);
+    executor.setAccessGuard(new AccessGuard({ deny: ['billing', 'public.customers.email'] }));
+    return executor;
+  };
+
+  it('libera colunas fora do deny', async () => {
+    const result = await guarded().execute('SELECT name FROM customers ORDER BY id LIMIT 1');
+
+    expect(result.error).toBeUndefined();
+    expect(result.rows).toEqual([{ name: 'Ana' }]);
+  });
+
+  it('recusa a coluna bloqueada com o codigo access_policy', async () => {
+    const result = await guarded().execute('SELECT email FROM customers');
+
+    expect(result.errorCode).toBe('access_policy');
+    expect(analyzeSqlExecutionError(result.error!, result.errorCode).shouldAutoRetry).toBe(true);
+  });
+
+  it('segue views ate a coluna bloqueada', async () => {
+    const result = await guarded().execute('SELECT * FROM customer_contacts');
+
+    expect(result.errorCode).toBe('access_policy');
+    expect(result.error).toContain('customer_contacts');
+  });
+
+  it.each([
+    ['SET search_path', 'SET search_path TO billing, public; SELECT secret FROM orders'],
+    ['SET SCHEMA', "SET SCHEMA 'billing'"],
+    ['RESET search_path', 'RESET search_path'],
+    ['RESET ALL', 'RESET ALL'],
+    ['set_config', "SELECT set_config('search_path', 'billing', false)"],
+    ['set_config com nome calculado', "SELECT set_config(lower('SEARCH_PATH'), 'billing', true)"],
+  ])('recusa %s mesmo com escrita liberada', async (_label, sql) => {
+    const executor = guarded();
+    executor.setReadOnlyMode(false);
+    const result = await executor.execute(sql);
+
+    expect(result.errorCode).toBe('access_policy');
+    expect(result.error).toContain('search_path');
+  });
+
+  it('recusa relacoes que nao resolvem no search_path', async () => {
+    const result = await guarded().execute('SELECT * FROM invoices');
+
+    expect(result.errorCode).toBe('access_policy');
+    expect(result.error).toContain('invoices');
+  });
+
+  it('recusa as estatisticas do planner', async () => {
+    for (const sql of [
+      "SELECT most_common_vals FROM pg_stats WHERE tablename = 'invoices'",
+      'SELECT * FROM pg_catalog.pg_stats_ext',
+    ]) {
+      const result = await guarded().execute(sql);
+      expect(result.errorCode).toBe('access_policy');
+    }
+  });
+
+  it('resolve e executa com o search_path padrao mesmo com a sessao alterada', async () => {
+    await db.query('SET search_path TO billing, public');
+    try {
+      const result = await guarded().execute('SELECT id FROM orders ORDER BY id');
+
+      expect(result.error).toBeUndefined();
+      expect(result.rows).toHaveLength(4);
+    } finally {
+      await db.query('RESET search_path');
+    }
+  });
+
+  it('libera DDL que cria relacoes no search_path padrao', async () => {
+    const executor = guarded();
+    executor.setReadOnlyMode(false);
+    try {
+      const result = await executor.execute('CREATE TABLE notes (id int); INSERT INTO notes VALUES (1)');
+      expect(result.error).toBeUndefined();
+    } finally {
+      await db.query('DROP TABLE IF EXISTS notes');
+    }
+  });
+});
+
+describe('teto de custo', () => {
+  it('recusa queries acima do custo configurado', async () => {
+    const capped = await pg.connect({ maxQueryCost: 0.01 });
+    const result = await new QueryExecutor(capped).execute('SELECT * FROM orders o JOIN customers c ON c.id = o.customer_id');
+
+    expect(result.errorCode).toBe('cost_ceiling');
+    expect(analyzeSqlExecutionError(result.error!, result.errorCode).kind).toBe('timeout');
+  });
+});
@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { LLMClient, ReplayLLMAuth, compactHistory, estimateTokens, isHistorySummary } from '@agentdb/core';
+import type { LLMMessage } from '@agentdb/core';
+
+function tokensOf(messages: LLMMessage[]): number {
+  return messages.reduce(
+    (sum, m) => sum + estimateTokens(m.content) + estimateTokens(m.toolCalls?.length ? JSON.stringify(m.toolCalls) : ''),
+    0
+  );
+}
+
+/**
+ * Turno completo do agente: pergunta, run_sql, resultado e resposta em texto.
+ */
+function turn(n: number, answerChars = 400): LLMMessage[] {
+  const id = `call_${n}`;
+  return [
+    { role: 'user', content: `Pergunta ${n}: vendas pagas da loja ${n}?` },
+    {
+      role: 'assistant',
+      content: '',
+      toolCalls: [{ id, name: 'run_sql', arguments: { sql: `SELECT sum(total) FROM orders WHERE store_id = ${n} AND status = 'paid'` } }],
+    },
+    {
+      role: 'tool',
+      toolCallId: id,
+      content: `Resultado: 1 linha(s), 3ms.\nColunas: sum.\nAmostra (1 linha(s)): [{"sum":"${n}00.00"}]\n\nPasso atual: 1 de 5.`,
+    },
+    { role: 'assistant', content: `Loja ${n} vendeu ${n}00. ${'Detalhes da analise. '.repeat(answerChars / 20)}` },
+  ];
+}
+
+function conversation(turns: number, answerChars?: number): LLMMessage[] {
+  return Array.from({ length: turns }, (_, i) => turn(i + 1, answerChars)).flat();
+}
+
+function expectPairedToolCalls(messages: LLMMessage[]): void {
+  const calls = new Set(messages.flatMap((m) => m.toolCalls ?? []).map((call) => call.id));
+  const results = new Set(messages.filter((m) => m.role === 'tool').map((m) => m.toolCallId));
+  expect([...results].sort()).toEqual([...calls].sort());
+}
+
+describe('compactHistory', () => {
+  it('nao mexe no historico que cabe no orcamento, inclusive no limite exato', () => {
+    const messages = conversation(3);
+    const total = tokensOf(messages);
+
+    expect(compactHistory(messages, total)).toBe(messages);
+    expect(compactHistory(messages, total - 1)).not.toBe(messages);
+  });
+
+  it('condensa os turnos antigos num resumo fixado e mantem os recentes inteiros', () => {
+    const messages = conversation(6);
+    const compacted = compactHistory(messages, Math.floor(tokensOf(messages) / 2));
+
+    expect(isHistorySummary(compacted[0])).toBe(true);
+    expect(compacted[1].role).toBe('user');
+    expect(compacted.slice(-4)).toEqual(turn(6));
+    expect(compacted[0].content).toContain("SQL executado: SELECT sum(total) FROM orders WHERE store_id = 1 AND status = 'paid'");
+    expect(compacted[0].content).toContain('  -> Resultado: 1 linha(s), 3ms. Amostra (1 linha(s)): [{"sum":"100.00"}]');
+    expect(compacted[0].content).not.toContain('Passo atual');
+  });
+
+  it('nunca condensa o turno atual, mesmo acima do orcamento', () => {
+    const messages = turn(1, 4000);
+    expect(compactHistory(messages, 50)).toBe(messages);
+  });
+
+  it('mantem os tool calls pareados com os resultados', () => {
+    let history: LLMMessage[] = [];
+    for (let n = 1; n <= 12; n++) {
+      history = compactHistory([...history, ...turn(n)], 900);
+      expect(history[0].role).toBe('user');
+      expectPairedToolCalls(history);
+    }
+  });
+
+  it('acumula o resumo sem descartar blocos: so a prosa antiga encolhe', () => {
+    const budget = 4000;
+    let history: LLMMessage[] = [];
+    for (let n = 1; n <= 15; n++) {
+      history = compactHistory([...history, ...turn(n, 1200)], budget);
+    }
+
+    const summary = history[0].content;
+    expect(isHistorySummary(history[0])).toBe(true);
+    expect(history.filter(isHistorySummary)).toHaveLength(1);
+
+    const summarized = summary.split('\n\n').slice(1);
+    const kept = history.filter((m) => m.role === 'user' && !isHistorySummary(m)).length;
+    expect(summarized).toHaveLength(15 - kept);
+    for (let n = 1; n <= 15 - kept; n++) {
+      expect(summary).toContain(`store_id = ${n} AND status = 'paid'`);
+      expect(summary).toContain(`"sum":"${n}00.00"`);
+    }
+
+    // Os blocos mais antigos perdem a resposta em texto antes dos mais novos
+    expect(summarized[0]).not.toContain('Resposta:');
+    expect(summarized.at(-1)).toContain('Resposta: Loja');
+  });
+});
+
+describe('LLMClient', () => {
+  it('aplica historyTokenBudget das opcoes', async () => {
+    const file = path.join(os.homedir(), 'longa.json');
+    const answer = `Resposta longa. ${'Mais contexto. '.repeat(60)}`;
+    fs.writeFileSync(file, JSON.stringify({ turns: Array.from({ length: 8 }, () => ({ response: { content: answer } })) }));
+    const auth = new ReplayLLMAuth();
+    auth.load(file);
+
+    const client = new LLMClient(auth, { historyTokenBudget: 800 });
+    expect(client.getHistoryTokenBudget()).toBe(800);
+    for (let n = 1; n <= 8; n++) {
+      await client.chat(`Pergunta ${n}`);
+    }
+
+    const history = client.getHistory();
+    expect(isHistorySummary(history[0])).toBe(true);
+    expect(history[0].content).toContain('Usuario: Pergunta 1');
+  });
+});
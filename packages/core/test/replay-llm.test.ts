@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { LLMClient, LocalLLMAuth, ReplayLLMAuth, loadLLMFixture, saveAuth } from '@agentdb/core';
+
+// Dentro do HOME temporario do teste, removido ao final
+const workDir = fs.mkdtempSync(path.join(os.homedir(), 'fixtures-'));
+
+function writeFixture(name: string, content: string): string {
+  const file = path.join(workDir, name);
+  fs.writeFileSync(file, content, 'utf-8');
+  return file;
+}
+
+describe('loadLLMFixture', () => {
+  it('recusa arquivo ausente ou corrompido', () => {
+    expect(() => loadLLMFixture(path.join(workDir, 'nao-existe.json'))).toThrow(/Fixture de LLM ilegível/);
+    expect(() => loadLLMFixture(writeFixture('corrompida.json', '{"turns": ['))).toThrow(/Fixture de LLM ilegível/);
+  });
+
+  it('aponta a resposta invalida', () => {
+    const file = writeFixture('sem-resposta.json', JSON.stringify({ turns: [{ response: {} }, { expect: 'x' }] }));
+    expect(() => loadLLMFixture(file)).toThrow(/resposta #2 precisa de "response" ou "error"/);
+  });
+});
+
+// Servidor no formato do Ollama: cada POST em /api/chat devolve a proxima resposta da fila
+describe('gravacao de fixtures', () => {
+  let server: Server;
+  const replies: Array<{ status: number; text: string }> = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      req.resume();
+      const reply = replies.shift() ?? { status: 500, text: 'sem resposta programada' };
+      if (reply.status !== 200) {
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: reply.text }));
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+      res.write(`${JSON.stringify({ message: { content: reply.text }, done: false })}\n`);
+      res.end(`${JSON.stringify({ done: true, prompt_eval_count: 12, eval_count: 3 })}\n`);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    saveAuth({ provider: 'ollama', baseUrl: `http://127.0.0.1:${port}`, localApi: 'ollama', model: 'llama-test' });
+  });
+
+  afterEach(() => {
+    delete process.env.AGENTDB_LLM_RECORD;
+    vi.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  function createClient(): LLMClient {
+    const auth = new LocalLLMAuth();
+    expect(auth.loadFromConfig()).toBe(true);
+    return new LLMClient(auth);
+  }
+
+  it('grava respostas reais e as reproduz depois', async () => {
+    const file = path.join(workDir, 'gravada.json');
+    process.env.AGENTDB_LLM_RECORD = file;
+    replies.push({ status: 200, text: 'Temos 3 clientes.' });
+
+    const response = await createClient().chat('Quantos clientes temos?');
+    expect(response.content).toBe('Temos 3 clientes.');
+
+    const recorded = loadLLMFixture(file);
+    expect(recorded.provider).toBe('ollama');
+    expect(recorded.turns).toHaveLength(1);
+    expect(recorded.turns[0].input).toBe('Quantos clientes temos?');
+
+    const replay = new ReplayLLMAuth();
+    replay.load(file);
+    const replayed = await new LLMClient(replay).chat('Quantos clientes temos?');
+    expect(replayed.content).toBe('Temos 3 clientes.');
+    expect(replayed.tokensUsed.total).toBe(15);
+  });
+
+  it('grava a falha do provider e repassa o erro', async () => {
+    const file = path.join(workDir, 'falha.json');
+    process.env.AGENTDB_LLM_RECORD = file;
+    replies.push({ status: 503, text: 'modelo carregando' });
+
+    await expect(createClient().chat('Quantos pedidos?')).rejects.toThrow(/HTTP 503/);
+    expect(loadLLMFixture(file).turns[0].error).toMatch(/modelo carregando/);
+  });
+
+  it('nao derruba a pergunta quando a fixture nao pode ser gravada', async () => {
+    const blocker = writeFixture('arquivo-comum', '');
+    process.env.AGENTDB_LLM_RECORD = path.join(blocker, 'fixture.json');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    replies.push({ status: 200, text: 'Temos 4 pedidos.' });
+
+    const response = await createClient().chat('Quantos pedidos?');
+
+    expect(response.content).toBe('Temos 4 pedidos.');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('Não foi possível gravar a fixture'));
+  });
+});
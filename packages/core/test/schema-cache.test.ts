@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { deleteSchemaSnapshot, listSchemaSnapshots, loadSchemaSnapshot, saveSchemaSnapshot } from '@agentdb/core';
+import type { SchemaSnapshot } from '@agentdb/core';
+
+const SCHEMA_CACHE_DIR = path.join(os.homedir(), '.agentdb', 'schema-cache');
+
+function snapshot(database: string, mappedAt: string): SchemaSnapshot {
+  return {
+    schema: {
+      database,
+      version: 'PostgreSQL 16.4',
+      schemas: ['public'],
+      tables: [],
+      sequences: [],
+      routines: [],
+      extensions: [],
+      mappedAt: new Date(mappedAt),
+    },
+    signatures: {},
+  };
+}
+
+function writeLegacyFile(file: string, connection: string, database: string, mappedAt: string): void {
+  // Formato antigo: arquivo com o nome sanitizado, sem hash
+  const { schema, signatures } = snapshot(database, mappedAt);
+  const data = {
+    formatVersion: 4,
+    connection,
+    savedAt: mappedAt,
+    schema: { ...schema, mappedAt },
+    signatures,
+  };
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(data), 'utf-8');
+}
+
+describe('cache de schema por conexao', () => {
+  it('nao mistura conexoes cujos nomes sanitizados coincidem', () => {
+    saveSchemaSnapshot('prod.db', snapshot('loja', '2026-10-01T12:00:00Z'));
+    saveSchemaSnapshot('prod_db', snapshot('financeiro', '2026-10-02T12:00:00Z'));
+
+    try {
+      expect(loadSchemaSnapshot('prod.db')?.schema.database).toBe('loja');
+      expect(loadSchemaSnapshot('prod_db')?.schema.database).toBe('financeiro');
+    } finally {
+      deleteSchemaSnapshot('prod.db');
+      deleteSchemaSnapshot('prod_db');
+    }
+  });
+
+  it('adota o cache e o historico antigos so da propria conexao', () => {
+    writeLegacyFile(path.join(SCHEMA_CACHE_DIR, 'prod_db.json'), 'prod.db', 'loja', '2026-10-10T12:00:00Z');
+    writeLegacyFile(
+      path.join(SCHEMA_CACHE_DIR, 'history', 'prod_db', '2026-10-01T12-00-00-000Z.json'),
+      'prod.db',
+      'loja',
+      '2026-10-01T12:00:00Z'
+    );
+
+    try {
+      expect(loadSchemaSnapshot('prod_db')).toBeNull();
+      expect(listSchemaSnapshots('prod.db').map((s) => [s.mappedAt, s.current])).toEqual([
+        ['2026-10-10T12:00:00.000Z', true],
+        ['2026-10-01T12:00:00.000Z', false],
+      ]);
+      expect(fs.existsSync(path.join(SCHEMA_CACHE_DIR, 'prod_db.json'))).toBe(false);
+      expect(fs.existsSync(path.join(SCHEMA_CACHE_DIR, 'history', 'prod_db'))).toBe(false);
+    } finally {
+      deleteSchemaSnapshot('prod.db');
+    }
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, expect, it } from 'vitest';
+import { diffSchemas, generateMigrationSql } from '@agentdb/core';
+import type { ColumnInfo, SchemaMap, TableInfo } from '@agentdb/core';
+
+// ─── Snapshots ───
+
+function column(name: string, type: string, extra: Partial<ColumnInfo> = {}): ColumnInfo {
+  return { name, type, nullable: true, defaultValue: null, isPrimaryKey: false, comment: null, ...extra };
+}
+
+function table(name: string, extra: Partial<TableInfo> = {}): TableInfo {
+  return {
+    schema: 'public',
+    name,
+    type: 'table',
+    columns: [],
+    foreignKeys: [],
+    referencedBy: [],
+    indexes: [],
+    checkConstraints: [],
+    uniqueConstraints: [],
+    triggers: [],
+    estimatedRowCount: 0,
+    comment: null,
+    ...extra,
+  };
+}
+
+function schemaMap(tables: TableInfo[], mappedAt: string): SchemaMap {
+  return {
+    database: 'loja',
+    version: 'PostgreSQL 16.4',
+    schemas: ['public'],
+    tables,
+    sequences: [],
+    routines: [],
+    extensions: [],
+    mappedAt: new Date(mappedAt),
+  };
+}
+
+const id = column('id', 'integer', { nullable: false, isPrimaryKey: true });
+const pkey = (name: string) => ({ name: `${name}_pkey`, columns: ['id'], isUnique: true, isPrimary: true });
+
+const BEFORE = schemaMap(
+  [
+    table('customers', {
+      columns: [id, column('name', 'text', { nullable: false }), column('email', 'text'), column('fax', 'text')],
+      indexes: [pkey('customers'), { name: 'customers_email_idx', columns: ['email'], isUnique: false, isPrimary: false }],
+    }),
+    table('orders', {
+      columns: [
+        id,
+        column('customer_id', 'integer', { nullable: false }),
+        column('total', 'integer'),
+        column('status', 'text', { defaultValue: "'new'::text" }),
+      ],
+      foreignKeys: [
+        {
+          name: 'orders_customer_id_fkey',
+          columns: ['customer_id'],
+          referencedSchema: 'public',
+          referencedTable: 'customers',
+          referencedColumns: ['id'],
+        },
+      ],
+      indexes: [pkey('orders'), { name: 'orders_status_idx', columns: ['status'], isUnique: false, isPrimary: false }],
+    }),
+    table('legacy_log', { columns: [id] }),
+  ],
+  '2026-10-01T12:00:00Z'
+);
+
+const AFTER = schemaMap(
+  [
+    table('customers', {
+      columns: [id, column('name', 'text', { nullable: false }), column('email', 'text', { nullable: false })],
+      indexes: [pkey('customers'), { name: 'customers_email_idx', columns: ['email'], isUnique: true, isPrimary: false }],
+    }),
+    table('orders', {
+      columns: [
+        id,
+        column('customer_id', 'integer', { nullable: false }),
+        column('total', 'numeric(10,2)'),
+        column('status', 'text'),
+        column('store_id', 'integer'),
+        column('Created At', 'timestamp with time zone', { nullable: false, defaultValue: 'now()' }),
+      ],
+      foreignKeys: [
+        {
+          name: 'orders_store_id_fkey',
+          columns: ['store_id'],
+          referencedSchema: 'public',
+          referencedTable: 'stores',
+          referencedColumns: ['id'],
+        },
+      ],
+      indexes: [pkey('orders'), { name: 'orders_store_idx', columns: ['store_id'], isUnique: false, isPrimary: false }],
+    }),
+    table('stores', {
+      columns: [id, column('name', 'text', { nullable: false })],
+      indexes: [pkey('stores'), { name: 'stores_name_key', columns: ['name'], isUnique: true, isPrimary: false }],
+    }),
+  ],
+  '2026-10-15T12:00:00Z'
+);
+
+// ─── Testes ───
+
+describe('diffSchemas', () => {
+  it('classifica tabelas, colunas, indices e FKs', () => {
+    const diff = diffSchemas(BEFORE, AFTER, { from: 'loja@2026-10-01', to: 'loja' });
+
+    expect(diff.summary).toEqual({ added: 1, removed: 1, changed: 2 });
+    expect(diff.tables.map((t) => [t.name, t.change])).toEqual([
+      ['customers', 'changed'],
+      ['legacy_log', 'removed'],
+      ['orders', 'changed'],
+      ['stores', 'added'],
+    ]);
+
+    const orders = diff.tables.find((t) => t.name === 'orders')!;
+    expect(orders.columns.map((c) => [c.name, c.change, c.fields])).toEqual([
+      ['total', 'changed', ['type']],
+      ['status', 'changed', ['defaultValue']],
+      ['store_id', 'added', []],
+      ['Created At', 'added', []],
+    ]);
+    expect(orders.indexes.map((i) => [i.name, i.change])).toEqual([
+      ['orders_status_idx', 'removed'],
+      ['orders_store_idx', 'added'],
+    ]);
+    expect(orders.foreignKeys.map((fk) => [fk.foreignKey.name, fk.change])).toEqual([
+      ['orders_customer_id_fkey', 'removed'],
+      ['orders_store_id_fkey', 'added'],
+    ]);
+  });
+
+  it('nao acusa diferenca entre snapshots iguais', () => {
+    const diff = diffSchemas(BEFORE, BEFORE);
+
+    expect(diff.tables).toEqual([]);
+    expect(generateMigrationSql(diff)).toBe('-- Nenhuma diferenca de schema.');
+  });
+});
+
+describe('generateMigrationSql', () => {
+  it('gera a migracao completa na ordem criar, alterar, FKs, remover', () => {
+    const sql = generateMigrationSql(diffSchemas(BEFORE, AFTER, { from: 'loja@2026-10-01', to: 'loja' }));
+
+    expect(sql).toBe(
+      [
+        '-- Migracao: loja@2026-10-01 → loja',
+        '',
+        'CREATE TABLE public.stores (',
+        '  id integer NOT NULL,',
+        '  name text NOT NULL,',
+        '  PRIMARY KEY (id)',
+        ');',
+        'CREATE UNIQUE INDEX stores_name_key ON public.stores (name);',
+        '',
+        'ALTER TABLE public.customers ALTER COLUMN email SET NOT NULL;',
+        'DROP INDEX public.customers_email_idx;',
+        'CREATE UNIQUE INDEX customers_email_idx ON public.customers (email);',
+        'ALTER TABLE public.orders ALTER COLUMN total TYPE numeric(10,2) USING total::numeric(10,2);',
+        'ALTER TABLE public.orders ALTER COLUMN status DROP DEFAULT;',
+        'ALTER TABLE public.orders ADD COLUMN store_id integer;',
+        'ALTER TABLE public.orders ADD COLUMN "Created At" timestamp with time zone NOT NULL DEFAULT now();',
+        'CREATE INDEX orders_store_idx ON public.orders (store_id);',
+        'ALTER TABLE public.orders DROP CONSTRAINT orders_customer_id_fkey;',
+        '',
+        'ALTER TABLE public.orders ADD CONSTRAINT orders_store_id_fkey FOREIGN KEY (store_id) REFERENCES public.stores (id);',
+        '',
+        'DROP INDEX public.orders_status_idx;',
+        'ALTER TABLE public.customers DROP COLUMN fax;',
+        'DROP TABLE public.legacy_log;',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('desfaz a migracao no sentido inverso', () => {
+    const sql = generateMigrationSql(diffSchemas(AFTER, BEFORE, { from: 'loja', to: 'loja@2026-10-01' }));
+
+    expect(sql).toBe(
+      [
+        '-- Migracao: loja → loja@2026-10-01',
+        '',
+        'CREATE TABLE public.legacy_log (',
+        '  id integer NOT NULL,',
+        '  PRIMARY KEY (id)',
+        ');',
+        '',
+        'ALTER TABLE public.customers ALTER COLUMN email DROP NOT NULL;',
+        'ALTER TABLE public.customers ADD COLUMN fax text;',
+        'DROP INDEX public.customers_email_idx;',
+        'CREATE INDEX customers_email_idx ON public.customers (email);',
+        'ALTER TABLE public.orders ALTER COLUMN total TYPE integer USING total::integer;',
+        "ALTER TABLE public.orders ALTER COLUMN status SET DEFAULT 'new'::text;",
+        'CREATE INDEX orders_status_idx ON public.orders (status);',
+        'ALTER TABLE public.orders DROP CONSTRAINT orders_store_id_fkey;',
+        '',
+        'ALTER TABLE public.orders ADD CONSTRAINT orders_customer_id_fkey FOREIGN KEY (customer_id) REFERENCES public.customers (id);',
+        '',
+        'DROP INDEX public.orders_store_idx;',
+        'ALTER TABLE public.orders DROP COLUMN store_id;',
+        'ALTER TABLE public.orders DROP COLUMN "Created At";',
+        'DROP TABLE public.stores;',
+        '',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { SchemaEngine, findJoinPathForAgent } from '@agentdb/core';
+import { startTestDatabase, type TestDatabase } from '../../../test/support/postgres.js';
+
+// Estoque com FK composta (stock_moves -> stock) e dois caminhos de order_items
+// ate countries: via customers/cities (4 saltos) ou via shipments (3 saltos).
+// audit_log nao tem FK nenhuma.
+const GRAPH_SEED = `
+  CREATE TABLE countries (id int PRIMARY KEY, name text NOT NULL);
+  CREATE TABLE cities (id int PRIMARY KEY, country_id int NOT NULL REFERENCES countries(id));
+  CREATE TABLE customers (id int PRIMARY KEY, city_id int NOT NULL REFERENCES cities(id));
+  CREATE TABLE orders (id int PRIMARY KEY, customer_id int NOT NULL REFERENCES customers(id));
+  CREATE TABLE order_items (id int PRIMARY KEY, order_id int NOT NULL REFERENCES orders(id));
+  CREATE TABLE shipments (
+    id int PRIMARY KEY,
+    order_id int NOT NULL REFERENCES orders(id),
+    country_id int NOT NULL REFERENCES countries(id)
+  );
+
+  CREATE TABLE stock (
+    warehouse_id int NOT NULL,
+    product_id int NOT NULL,
+    quantity int NOT NULL,
+    PRIMARY KEY (warehouse_id, product_id)
+  );
+  CREATE TABLE stock_moves (
+    id int PRIMARY KEY,
+    product_id int NOT NULL,
+    warehouse_id int NOT NULL,
+    delta int NOT NULL,
+    CONSTRAINT stock_moves_stock_fkey FOREIGN KEY (warehouse_id, product_id)
+      REFERENCES stock (warehouse_id, product_id)
+  );
+
+  CREATE TABLE audit_log (id int PRIMARY KEY, message text NOT NULL);
+`;
+
+let pg: TestDatabase;
+let engine: SchemaEngine;
+
+beforeAll(async () => {
+  pg = await startTestDatabase(GRAPH_SEED);
+  engine = new SchemaEngine(await pg.connect());
+  await engine.mapDatabase();
+});
+
+afterAll(async () => {
+  await pg.stop();
+});
+
+function table(name: string) {
+  const [found] = engine.findTables(`public.${name}`);
+  return found;
+}
+
+describe('foreign keys compostas', () => {
+  it('mapeiam uma unica relacao com as colunas pareadas em ordem', () => {
+    expect(table('stock_moves').foreignKeys).toEqual([
+      {
+        name: 'stock_moves_stock_fkey',
+        columns: ['warehouse_id', 'product_id'],
+        referencedSchema: 'public',
+        referencedTable: 'stock',
+        referencedColumns: ['warehouse_id', 'product_id'],
+      },
+    ]);
+    expect(table('stock').referencedBy).toHaveLength(1);
+  });
+
+  it('viram um unico JOIN com todas as colunas', () => {
+    const [path, ...others] = engine.findJoinPath('public.stock_moves', 'public.stock');
+
+    expect(others).toEqual([]);
+    expect(path.sql).toBe(
+      'FROM public.stock_moves\n' +
+        'JOIN public.stock ON public.stock_moves.warehouse_id = public.stock.warehouse_id' +
+        ' AND public.stock_moves.product_id = public.stock.product_id'
+    );
+  });
+});
+
+describe('findJoinPath', () => {
+  it('encontra o caminho mais curto entre varios saltos', () => {
+    const paths = engine.findJoinPath('public.order_items', 'public.countries');
+
+    expect(paths).toHaveLength(1);
+    expect(paths[0].tables).toEqual(['public.order_items', 'public.orders', 'public.shipments', 'public.countries']);
+    expect(paths[0].steps.map((s) => s.direction)).toEqual(['forward', 'reverse', 'forward']);
+    expect(paths[0].sql).toBe(
+      [
+        'FROM public.order_items',
+        'JOIN public.orders ON public.order_items.order_id = public.orders.id',
+        'JOIN public.shipments ON public.orders.id = public.shipments.order_id',
+        'JOIN public.countries ON public.shipments.country_id = public.countries.id',
+      ].join('\n')
+    );
+  });
+
+  it('nao encontra caminho entre tabelas sem relacao', () => {
+    expect(engine.findJoinPath('public.orders', 'public.audit_log')).toEqual([]);
+    expect(findJoinPathForAgent(engine, 'orders', 'audit_log')).toMatch(
+      /^Nenhum caminho por foreign keys entre public\.orders e public\.audit_log\./
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+  addConnection,
+  deleteSemanticLayer,
+  loadSemanticLayer,
+  removeConnection,
+  saveSemanticLayer,
+} from '@agentdb/core';
+import type { SemanticLayer } from '@agentdb/core';
+
+const LEGACY_FILE = path.join(os.homedir(), '.agentdb', 'semantic', 'prod_db.json');
+
+function layerWith(term: string): SemanticLayer {
+  return { glossary: [{ term, definition: `Definicao de ${term}` }], metrics: [], joins: [] };
+}
+
+function writeLegacyFile(layer: SemanticLayer): void {
+  // Formato antigo: arquivo com o nome sanitizado, sem hash e sem a conexao
+  fs.mkdirSync(path.dirname(LEGACY_FILE), { recursive: true });
+  fs.writeFileSync(LEGACY_FILE, JSON.stringify(layer), 'utf-8');
+}
+
+function terms(connection: string): string[] {
+  return loadSemanticLayer(connection).glossary.map((t) => t.term);
+}
+
+describe('camada semantica por conexao', () => {
+  it('nao mistura conexoes cujos nomes sanitizados coincidem', () => {
+    saveSemanticLayer('prod.db', layerWith('receita'));
+    saveSemanticLayer('prod_db', layerWith('churn'));
+
+    try {
+      expect(terms('prod.db')).toEqual(['receita']);
+      expect(terms('prod_db')).toEqual(['churn']);
+    } finally {
+      deleteSemanticLayer('prod.db');
+      deleteSemanticLayer('prod_db');
+    }
+  });
+
+  it('nao adota o arquivo antigo quando outra conexao tem o mesmo nome sanitizado', () => {
+    addConnection('prod.db', 'postgresql://localhost/loja');
+    addConnection('prod_db', 'postgresql://localhost/financeiro');
+    writeLegacyFile(layerWith('receita'));
+
+    try {
+      expect(terms('prod.db')).toEqual([]);
+      expect(terms('prod_db')).toEqual([]);
+      expect(fs.existsSync(LEGACY_FILE)).toBe(true);
+    } finally {
+      fs.rmSync(LEGACY_FILE, { force: true });
+      removeConnection('prod.db');
+      removeConnection('prod_db');
+    }
+  });
+
+  it('adota o arquivo antigo quando so uma conexao cai no nome', () => {
+    addConnection('prod.db', 'postgresql://localhost/loja');
+    writeLegacyFile(layerWith('receita'));
+
+    try {
+      expect(terms('prod.db')).toEqual(['receita']);
+      expect(fs.existsSync(LEGACY_FILE)).toBe(false);
+    } finally {
+      deleteSemanticLayer('prod.db');
+      removeConnection('prod.db');
+    }
+  });
+});
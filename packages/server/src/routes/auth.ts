@@ -1,9 +1,10 @@
 import { Router, type Request, type Response } from 'express';
-import { LLMClient } from '@agentdb/core';
+import { getSession } from '../middleware/session.js';
 import type { ServerState } from '../index.js';
 
 const ANTHROPIC_MODELS = ['claude-sonnet-4-6', 'claude-opus-4-6', 'claude-haiku-4-5'];
 const OPENAI_CODEX_MODELS = ['gpt-5-codex', 'gpt-5'];
+const OPENAI_API_MODELS = ['gpt-5', 'gpt-5-mini', 'gpt-4.1'];
 
 function normalizeOpenAIModel(model: string): string {
   const normalized = model.trim().toLowerCase();
@@ -13,7 +14,19 @@ function normalizeOpenAIModel(model: string): string {
   return normalized;
 }
 
-function getProviderModels(state: ServerState): string[] {
+async function getProviderModels(state: ServerState): Promise<string[]> {
+  if (state.auth === state.replayAuth) {
+    return [state.replayAuth.getModel()];
+  }
+  if (state.provider === 'ollama') {
+    // Lista o que esta instalado no servidor local; offline nao deve quebrar a rota
+    return state.localAuth.listModels().catch(() => []);
+  }
+  if (state.auth === state.apiKeyAuth) {
+    // Com API key vale o que a conta libera, nao so os modelos da assinatura
+    const fallback = state.provider === 'anthropic' ? ANTHROPIC_MODELS : OPENAI_API_MODELS;
+    return state.apiKeyAuth.listModels().catch(() => fallback);
+  }
   if (state.provider === 'anthropic') {
     return ANTHROPIC_MODELS;
   }
@@ -39,7 +52,7 @@ export function createAuthRoutes(state: ServerState): Router {
           state.provider = 'openai';
           state.isAuthenticated = true;
           state.accountId = tokenData.accountId;
-          state.llmClient = new LLMClient(state.openaiAuth);
+          state.sessions.resetAgents();
           console.log('OpenAI autenticado via callback.');
         })
         .catch((err) => {
@@ -91,7 +104,7 @@ export function createAuthRoutes(state: ServerState): Router {
       state.provider = 'openai';
       state.isAuthenticated = true;
       state.accountId = tokenData.accountId;
-      state.llmClient = new LLMClient(state.openaiAuth);
+      state.sessions.resetAgents();
 
       res.send(`
         <!DOCTYPE html><html><body style="display:flex;justify-content:center;align-items:center;height:100vh;font-family:system-ui;background:#09090B;color:#fff;">
@@ -141,7 +154,7 @@ export function createAuthRoutes(state: ServerState): Router {
       state.provider = 'anthropic';
       state.isAuthenticated = true;
       state.accountId = tokenData.accountId;
-      state.llmClient = new LLMClient(state.anthropicAuth);
+      state.sessions.resetAgents();
 
       res.json({
         success: true,
@@ -154,12 +167,94 @@ export function createAuthRoutes(state: ServerState): Router {
     }
   });
 
+  // API key routes
+
+  // POST /api/auth/apikey - Configura API key OpenAI ou Anthropic
+  router.post('/apikey', async (req: Request, res: Response) => {
+    try {
+      const { key, provider = 'openai', model } = req.body as {
+        key?: string;
+        provider?: string;
+        model?: string;
+      };
+
+      if (!key || !key.trim()) {
+        res.status(400).json({ error: 'API key nao fornecida' });
+        return;
+      }
+      if (provider !== 'openai' && provider !== 'anthropic') {
+        res.status(400).json({ error: 'Campo "provider" deve ser "openai" ou "anthropic"' });
+        return;
+      }
+
+      const models = await state.apiKeyAuth.configure(provider, key, model);
+      state.auth = state.apiKeyAuth;
+      state.provider = provider;
+      state.isAuthenticated = true;
+      state.accountId = state.apiKeyAuth.getAccountId();
+      state.sessions.resetAgents();
+
+      res.json({
+        success: true,
+        accountId: state.accountId,
+        provider,
+        available: models,
+      });
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Erro ao configurar API key';
+      res.status(400).json({ error: msg });
+    }
+  });
+
+  // Local provider routes
+
+  // POST /api/auth/local - Configura Ollama / servidor OpenAI-compativel
+  router.post('/local', async (req: Request, res: Response) => {
+    try {
+      const { baseUrl, api, apiKey, model } = req.body as {
+        baseUrl?: string;
+        api?: string;
+        apiKey?: string;
+        model?: string;
+      };
+
+      if (!baseUrl || !/^https?:\/\//i.test(baseUrl.trim())) {
+        res.status(400).json({ error: 'URL base invalida. Use http(s)://host:porta' });
+        return;
+      }
+      if (api !== 'ollama' && api !== 'openai') {
+        res.status(400).json({ error: 'Campo "api" deve ser "ollama" ou "openai"' });
+        return;
+      }
+
+      const models = await state.localAuth.configure({ baseUrl, api, apiKey, model });
+      state.auth = state.localAuth;
+      state.provider = 'ollama';
+      state.isAuthenticated = true;
+      state.accountId = state.localAuth.getAccountId();
+      state.sessions.resetAgents();
+
+      res.json({
+        success: true,
+        accountId: state.accountId,
+        model: state.localAuth.getSettings()?.model ?? null,
+        available: models,
+      });
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Erro ao configurar provider local';
+      res.status(400).json({ error: msg });
+    }
+  });
+
   // Model routes
 
   // GET /api/auth/model - Retorna modelo atual e opcoes
-  router.get('/model', (_req: Request, res: Response) => {
-    const currentModel = state.llmClient?.getModel() || null;
-    const available = getProviderModels(state);
+  router.get('/model', async (_req: Request, res: Response) => {
+    const session = getSession(res);
+    const currentModel = state.isAuthenticated
+      ? state.sessions.ensureLLMClient(session, state.auth).getModel()
+      : null;
+    const available = await getProviderModels(state);
 
     res.json({
       current: currentModel,
@@ -176,7 +271,7 @@ export function createAuthRoutes(state: ServerState): Router {
       return;
     }
 
-    if (state.provider === 'openai') {
+    if (state.auth === state.openaiAuth) {
       const normalized = normalizeOpenAIModel(model);
       if (!OPENAI_CODEX_MODELS.includes(normalized)) {
         res.status(400).json({
@@ -186,9 +281,10 @@ export function createAuthRoutes(state: ServerState): Router {
       }
     }
 
-    if (state.llmClient) {
-      state.llmClient.setModel(model);
-    }
+    // Modelo escolhido vale so para esta sessao
+    const session = getSession(res);
+    session.model = model;
+    session.llmClient?.setModel(model);
 
     res.json({ success: true, model });
   });
@@ -197,7 +293,9 @@ export function createAuthRoutes(state: ServerState): Router {
 
   // GET /api/auth/status
   router.get('/status', (_req: Request, res: Response) => {
-    const currentModel = state.llmClient?.getModel() || null;
+    const currentModel = state.isAuthenticated
+      ? state.sessions.ensureLLMClient(getSession(res), state.auth).getModel()
+      : null;
     res.json({
       authenticated: state.isAuthenticated,
       accountId: state.accountId || undefined,
@@ -212,7 +310,7 @@ export function createAuthRoutes(state: ServerState): Router {
     state.isAuthenticated = false;
     state.accountId = null;
     state.provider = null;
-    state.llmClient = null;
+    state.sessions.resetAgents();
     res.json({ success: true });
   });
 
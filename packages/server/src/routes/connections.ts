@@ -1,6 +1,18 @@
 import { Router, type Request, type Response, type NextFunction } from 'express';
-import { DatabaseConnector, SchemaEngine, addConnection, removeConnection, getConnections } from '@agentdb/core';
+import {
+  DatabaseConnector,
+  SchemaEngine,
+  addConnection,
+  removeConnection,
+  getConnections,
+  deleteSchemaSnapshot,
+  deleteSemanticLayer,
+  parseAccessPolicy,
+  updateConnectionAccess,
+} from '@agentdb/core';
+import type { AccessPolicy } from '@agentdb/core';
 import { createApiError } from '../middleware/error-handler.js';
+import { getSession } from '../middleware/session.js';
 import type { ServerState } from '../index.js';
 
 export function createConnectionRoutes(state: ServerState): Router {
@@ -8,23 +20,37 @@ export function createConnectionRoutes(state: ServerState): Router {
 
   // GET /api/connections
   router.get('/', (_req: Request, res: Response) => {
+    const session = getSession(res);
     const connections = getConnections();
     res.json(connections.map(c => ({
       name: c.name,
       url: c.url.replace(/\/\/([^:]+):([^@]+)@/, '//***:***@'),
       isDefault: c.isDefault,
-      connected: state.activeConnection?.getConnectionUrl() === c.url,
+      statementTimeoutMs: c.statementTimeoutMs,
+      maxQueryCost: c.maxQueryCost,
+      access: c.access ?? null,
+      connected: session.activeConnection?.getConnectionUrl() === c.url,
     })));
   });
 
   // POST /api/connections
   router.post('/', (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { name, url } = req.body as { name: string; url: string };
+      const { name, url, statementTimeoutMs, maxQueryCost } = req.body as {
+        name: string;
+        url: string;
+        statementTimeoutMs?: number;
+        maxQueryCost?: number;
+      };
       if (!name || !url) {
         throw createApiError('Nome e URL são obrigatórios', 400, 'VALIDATION_ERROR');
       }
-      addConnection(name, url);
+      for (const [field, value] of Object.entries({ statementTimeoutMs, maxQueryCost })) {
+        if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+          throw createApiError(`Campo "${field}" deve ser um número positivo`, 400, 'VALIDATION_ERROR');
+        }
+      }
+      addConnection(name, url, { statementTimeoutMs, maxQueryCost });
       res.status(201).json({ name, url: url.replace(/\/\/([^:]+):([^@]+)@/, '//***:***@') });
     } catch (error) {
       next(error);
@@ -39,6 +65,8 @@ export function createConnectionRoutes(state: ServerState): Router {
       throw createApiError('Nome da conexão é obrigatório', 400, 'VALIDATION_ERROR');
     }
     removeConnection(name);
+    deleteSchemaSnapshot(name);
+    deleteSemanticLayer(name);
     res.json({ success: true });
   });
 
@@ -58,46 +86,94 @@ export function createConnectionRoutes(state: ServerState): Router {
       }
 
       // Desconectar se já tem uma ativa
-      if (state.activeConnection) {
-        try {
-          await state.activeConnection.disconnect();
-        } catch {
-          // ignore
-        }
+      const session = getSession(res);
+      try {
+        await state.sessions.disconnect(session);
+      } catch {
+        // ignore
       }
 
-      const db = new DatabaseConnector(conn.url);
+      const db = new DatabaseConnector(conn.url, {
+        statementTimeoutMs: conn.statementTimeoutMs,
+        maxQueryCost: conn.maxQueryCost,
+      });
       const info = await db.connect();
 
-      state.activeConnection = db;
-      state.schemaEngine = new SchemaEngine(db);
-      // Resetar LLM e executor para que sejam re-inicializados com o novo schema
-      state.llmClient = null;
-      state.executor = null;
+      const schemaEngine = new SchemaEngine(db, { accessPolicy: conn.access });
+      // Reaproveita o snapshot em disco e rele so as tabelas com DDL alterado
+      const { schema, fromCache, refresh } = await schemaEngine.mapDatabaseCached(conn.name).catch(async (error: unknown) => {
+        await db.disconnect().catch(() => undefined);
+        throw error;
+      });
 
-      const schema = await state.schemaEngine.mapDatabase();
+      session.activeConnection = db;
+      session.connectionName = conn.name;
+      session.schemaEngine = schemaEngine;
+      // Resetar LLM e executor para que sejam re-inicializados com o novo schema
+      session.llmClient = null;
+      session.executor = null;
+      state.sessions.refreshMasker(session);
 
       res.json({
         database: info.database,
         version: info.version,
         schemas: info.schemas,
         tableCount: schema.tables.length,
+        schemaCache: fromCache && refresh
+          ? {
+              refreshed: refresh.refreshed.length,
+              added: refresh.added.length,
+              removed: refresh.removed.length,
+            }
+          : null,
       });
     } catch (error) {
       next(error);
     }
   });
 
+  // GET /api/connections/:name/access
+  router.get('/:name/access', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const name = String(req.params.name);
+      const conn = getConnections().find(c => c.name === name);
+      if (!conn) {
+        throw createApiError(`Conexão "${name}" não encontrada`, 404, 'NOT_FOUND');
+      }
+      res.json({ connection: name, policy: conn.access ?? {} });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // PUT /api/connections/:name/access - { allow?: string[], deny?: string[] }
+  router.put('/:name/access', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const name = String(req.params.name);
+      if (!getConnections().some(c => c.name === name)) {
+        throw createApiError(`Conexão "${name}" não encontrada`, 404, 'NOT_FOUND');
+      }
+
+      let policy: AccessPolicy;
+      try {
+        policy = parseAccessPolicy(req.body ?? {});
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : 'Política inválida';
+        throw createApiError(msg, 400, 'VALIDATION_ERROR');
+      }
+
+      const conn = updateConnectionAccess(name, policy);
+      state.sessions.reloadAccessPolicy(name);
+      res.json({ connection: name, policy: conn.access ?? {} });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // POST /api/connections/:name/disconnect
   router.post('/:name/disconnect', async (_req: Request, res: Response, next: NextFunction) => {
     try {
-      if (state.activeConnection) {
-        await state.activeConnection.disconnect();
-        state.activeConnection = null;
-        state.schemaEngine = null;
-        state.llmClient = null;
-        state.executor = null;
-      }
+      await state.sessions.disconnect(getSession(res));
       res.json({ success: true });
     } catch (error) {
       next(error);
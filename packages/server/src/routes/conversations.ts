@@ -0,0 +1,124 @@
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import {
+  listConversations,
+  loadConversation,
+  renameConversation,
+  deleteConversation,
+} from '@agentdb/core';
+import type { Conversation } from '@agentdb/core';
+import { createApiError } from '../middleware/error-handler.js';
+import { getSession } from '../middleware/session.js';
+import type { ServerState } from '../index.js';
+
+// O historico do LLM fica so no disco/servidor; o cliente recebe o que foi exibido
+function toConversationDetail(conversation: Conversation) {
+  const { history: _history, ...detail } = conversation;
+  return detail;
+}
+
+export function createConversationRoutes(state: ServerState): Router {
+  const router = Router();
+
+  // GET /api/conversations?connection=&all=1
+  router.get('/', (req: Request, res: Response) => {
+    const session = getSession(res);
+    const requested = typeof req.query.connection === 'string' ? req.query.connection : undefined;
+    const connection = req.query.all === '1' ? undefined : requested ?? session.connectionName ?? undefined;
+
+    res.json(listConversations(connection));
+  });
+
+  // GET /api/conversations/active - Conversa em andamento (restaura o chat apos refresh)
+  router.get('/active', (_req: Request, res: Response) => {
+    const { conversation } = getSession(res);
+    res.json(conversation ? toConversationDetail(conversation) : null);
+  });
+
+  // POST /api/conversations/new - Encerra a conversa ativa; a proxima mensagem cria outra
+  router.post('/new', (_req: Request, res: Response) => {
+    state.sessions.openConversation(getSession(res), null);
+    res.json({ success: true });
+  });
+
+  // GET /api/conversations/:id
+  router.get('/:id', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const conversation = loadConversation(String(req.params.id));
+      if (!conversation) {
+        throw createApiError('Conversa não encontrada', 404, 'NOT_FOUND');
+      }
+      res.json(toConversationDetail(conversation));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/conversations/:id/open - Retoma a conversa no agente da sessao
+  router.post('/:id/open', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const session = getSession(res);
+      const conversation = loadConversation(String(req.params.id));
+      if (!conversation) {
+        throw createApiError('Conversa não encontrada', 404, 'NOT_FOUND');
+      }
+      if (session.connectionName !== conversation.connection) {
+        throw createApiError(
+          `Esta conversa pertence à conexão "${conversation.connection}". Conecte-se a ela para retomar.`,
+          409,
+          'CONNECTION_MISMATCH'
+        );
+      }
+
+      state.sessions.openConversation(session, conversation);
+      res.json(toConversationDetail(conversation));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // PATCH /api/conversations/:id
+  router.patch('/:id', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { title } = req.body as { title?: string };
+      if (!title || !title.trim()) {
+        throw createApiError('Título é obrigatório', 400, 'VALIDATION_ERROR');
+      }
+
+      const id = String(req.params.id);
+      if (!loadConversation(id)) {
+        throw createApiError('Conversa não encontrada', 404, 'NOT_FOUND');
+      }
+
+      const conversation = renameConversation(id, title);
+      const session = getSession(res);
+      if (session.conversation?.id === id) {
+        session.conversation.title = conversation.title;
+      }
+
+      res.json(toConversationDetail(conversation));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // DELETE /api/conversations/:id
+  router.delete('/:id', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = String(req.params.id);
+      if (!deleteConversation(id)) {
+        throw createApiError('Conversa não encontrada', 404, 'NOT_FOUND');
+      }
+
+      const session = getSession(res);
+      if (session.conversation?.id === id) {
+        state.sessions.openConversation(session, null);
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -1,29 +1,58 @@
 import { Router, type Request, type Response, type NextFunction } from 'express';
 import { createApiError } from '../middleware/error-handler.js';
+import { getSession } from '../middleware/session.js';
 import type { ServerState } from '../index.js';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '../services/result-store.js';
 
-export function createQueryRoutes(state: ServerState): Router {
+function parseNonNegativeInt(value: unknown, fallback: number): number | null {
+  if (value === undefined || value === '') return fallback;
+  const parsed = typeof value === 'number' ? value : Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) return null;
+  return parsed;
+}
+
+export function createQueryRoutes(_state: ServerState): Router {
   const router = Router();
 
   // POST /api/query/execute
   router.post('/execute', async (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!state.activeConnection) {
+      const session = getSession(res);
+      if (!session.activeConnection) {
         throw createApiError('Nenhum banco conectado', 400, 'NO_CONNECTION');
       }
-      if (!state.executor) {
+      if (!session.executor) {
         throw createApiError('Executor não inicializado', 500, 'INTERNAL_ERROR');
       }
 
-      const { sql } = req.body as { sql: string };
+      const { sql, timeoutMs, pageSize } = req.body as {
+        sql: string;
+        timeoutMs?: number;
+        pageSize?: number;
+      };
       if (!sql) {
         throw createApiError('SQL é obrigatório', 400, 'VALIDATION_ERROR');
       }
+      if (timeoutMs !== undefined && (typeof timeoutMs !== 'number' || timeoutMs < 0)) {
+        throw createApiError('Campo "timeoutMs" deve ser um número positivo', 400, 'VALIDATION_ERROR');
+      }
+      if (pageSize !== undefined && (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE)) {
+        throw createApiError(`Campo "pageSize" deve ser um inteiro entre 1 e ${MAX_PAGE_SIZE}`, 400, 'VALIDATION_ERROR');
+      }
 
-      const result = await state.executor.execute(sql);
+      // Cliente que desiste da requisicao cancela a query no Postgres
+      const abort = new AbortController();
+      res.on('close', () => {
+        if (!res.writableFinished) abort.abort();
+      });
+
+      // Sem pageSize o contrato antigo (todas as linhas) continua valendo
+      const { result, cursor } = pageSize
+        ? await session.executor.executePaged(sql, pageSize, { timeoutMs, signal: abort.signal })
+        : { result: await session.executor.execute(sql, { timeoutMs, signal: abort.signal }), cursor: null };
 
       // Salva no histórico
-      state.queryHistory.unshift({
+      session.queryHistory.unshift({
         sql,
         rowCount: result.rowCount,
         duration: result.duration,
@@ -32,8 +61,8 @@ export function createQueryRoutes(state: ServerState): Router {
       });
 
       // Limita a 50
-      if (state.queryHistory.length > 50) {
-        state.queryHistory.pop();
+      if (session.queryHistory.length > 50) {
+        session.queryHistory.pop();
       }
 
       if (result.error) {
@@ -41,14 +70,64 @@ export function createQueryRoutes(state: ServerState): Router {
           error: result.error,
           sql: result.sql,
         });
-      } else {
-        res.json({
-          rows: result.rows,
-          rowCount: result.rowCount,
-          duration: result.duration,
-          columns: result.columns || Object.keys(result.rows[0] || {}),
-        });
+        return;
       }
+
+      const executor = session.executor;
+      const handle = cursor ? await session.results.register(sql, cursor, (page) => executor.maskPage(page)) : null;
+
+      res.json({
+        rows: result.rows,
+        rowCount: result.rowCount,
+        duration: result.duration,
+        columns: result.columns || Object.keys(result.rows[0] || {}),
+        maskedColumns: result.maskedColumns ?? {},
+        ...(pageSize
+          ? {
+              handle,
+              offset: 0,
+              hasMore: Boolean(result.hasMore),
+              totalRows: result.hasMore ? null : result.rowCount,
+            }
+          : {}),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/query/results/:handle?offset=&limit=
+  router.get('/results/:handle', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const session = getSession(res);
+      const handle = String(req.params.handle);
+      const offset = parseNonNegativeInt(req.query.offset, 0);
+      const limit = parseNonNegativeInt(req.query.limit, DEFAULT_PAGE_SIZE);
+      if (offset === null || limit === null || limit < 1) {
+        throw createApiError('Parâmetros "offset" e "limit" devem ser inteiros positivos', 400, 'VALIDATION_ERROR');
+      }
+
+      const abort = new AbortController();
+      res.on('close', () => {
+        if (!res.writableFinished) abort.abort();
+      });
+
+      const page = await session.results.fetchPage(handle, offset, limit, abort.signal);
+      if (!page) {
+        throw createApiError('Resultado expirado. Execute a query novamente.', 404, 'RESULT_EXPIRED');
+      }
+
+      res.json(page);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // DELETE /api/query/results/:handle
+  router.delete('/results/:handle', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const closed = await getSession(res).results.close(String(req.params.handle));
+      res.json({ success: closed });
     } catch (error) {
       next(error);
     }
@@ -61,9 +140,7 @@ export function createQueryRoutes(state: ServerState): Router {
       if (typeof enabled !== 'boolean') {
         throw createApiError('Campo "enabled" (boolean) é obrigatório', 400, 'VALIDATION_ERROR');
       }
-      if (state.executor) {
-        state.executor.setReadOnlyMode(enabled);
-      }
+      getSession(res).executor?.setReadOnlyMode(enabled);
       res.json({ readOnly: enabled });
     } catch (error) {
       next(error);
@@ -72,12 +149,12 @@ export function createQueryRoutes(state: ServerState): Router {
 
   // GET /api/query/history
   router.get('/history', (_req: Request, res: Response) => {
-    res.json(state.queryHistory);
+    res.json(getSession(res).queryHistory);
   });
 
   // DELETE /api/query/history
   router.delete('/history', (_req: Request, res: Response) => {
-    state.queryHistory = [];
+    getSession(res).queryHistory = [];
     res.json({ success: true });
   });
 
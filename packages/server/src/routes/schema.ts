@@ -1,5 +1,20 @@
 import { Router, type Request, type Response, type NextFunction } from 'express';
+import {
+  diffSchemas,
+  generateMigrationSql,
+  parseSchemaRef,
+  loadSchemaRef,
+  listSchemaSnapshots,
+  classifyColumns,
+  getConnections,
+  updateConnectionPrivacy,
+  isSensitivityTag,
+  isMaskMode,
+  DEFAULT_MASKING_POLICY,
+} from '@agentdb/core';
+import type { ConnectionPrivacyUpdate, SchemaMap } from '@agentdb/core';
 import { createApiError } from '../middleware/error-handler.js';
+import { getSession } from '../middleware/session.js';
 import type { ServerState } from '../index.js';
 
 export function createSchemaRoutes(state: ServerState): Router {
@@ -8,10 +23,11 @@ export function createSchemaRoutes(state: ServerState): Router {
   // GET /api/schema
   router.get('/', (_req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!state.schemaEngine) {
+      const { schemaEngine } = getSession(res);
+      if (!schemaEngine) {
         throw createApiError('Nenhum banco conectado', 400, 'NO_CONNECTION');
       }
-      const schema = state.schemaEngine.getSchemaMap();
+      const schema = schemaEngine.getSchemaMap();
       if (!schema) {
         throw createApiError('Schema não mapeado', 400, 'NO_SCHEMA');
       }
@@ -21,13 +37,126 @@ export function createSchemaRoutes(state: ServerState): Router {
     }
   });
 
+  // POST /api/schema/refresh - Incremental; { tables: ["schema.tabela"] } rele so essas, { full: true } remapeia tudo
+  router.post('/refresh', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { schemaEngine } = getSession(res);
+      if (!schemaEngine) {
+        throw createApiError('Nenhum banco conectado', 400, 'NO_CONNECTION');
+      }
+      const { tables, full } = (req.body ?? {}) as { tables?: unknown; full?: boolean };
+      if (tables !== undefined && (!Array.isArray(tables) || tables.some(t => typeof t !== 'string'))) {
+        throw createApiError('Campo "tables" deve ser uma lista de nomes de tabela', 400, 'VALIDATION_ERROR');
+      }
+
+      if (full) {
+        const schema = await schemaEngine.mapDatabase();
+        state.sessions.refreshMasker(getSession(res));
+        res.json({ full: true, tableCount: schema.tables.length, mappedAt: schema.mappedAt });
+        return;
+      }
+
+      const scope = tables as string[] | undefined;
+      const result = await schemaEngine.refreshSchema(scope);
+      if (scope && scope.length > 0 && result.notFound.length === scope.length) {
+        throw createApiError(`Tabela não encontrada: ${result.notFound.join(', ')}`, 404, 'NOT_FOUND');
+      }
+
+      state.sessions.refreshMasker(getSession(res));
+      const schema = schemaEngine.getSchemaMap()!;
+      res.json({ ...result, tableCount: schema.tables.length, mappedAt: schema.mappedAt });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/schema/profile - Perfil de dados (pg_stats ou amostra) das tabelas; sem "tables", todas
+  router.post('/profile', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { schemaEngine } = getSession(res);
+      if (!schemaEngine || !schemaEngine.getSchemaMap()) {
+        throw createApiError('Nenhum banco conectado', 400, 'NO_CONNECTION');
+      }
+      const { tables } = (req.body ?? {}) as { tables?: unknown };
+      if (tables !== undefined && (!Array.isArray(tables) || tables.some(t => typeof t !== 'string'))) {
+        throw createApiError('Campo "tables" deve ser uma lista de nomes de tabela', 400, 'VALIDATION_ERROR');
+      }
+
+      const scope = tables as string[] | undefined;
+      const result = await schemaEngine.profileTables(scope);
+      if (scope && scope.length > 0 && result.notFound.length === scope.length) {
+        throw createApiError(`Tabela não encontrada: ${result.notFound.join(', ')}`, 404, 'NOT_FOUND');
+      }
+
+      // Valores perfilados podem revelar PII pelo formato (email, CPF...)
+      state.sessions.refreshMasker(getSession(res));
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/schema/snapshots?connection= - Snapshots em cache (atual + historico)
+  router.get('/snapshots', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const session = getSession(res);
+      const connection = typeof req.query.connection === 'string'
+        ? req.query.connection
+        : session.connectionName;
+      if (!connection) {
+        throw createApiError('Informe a conexão', 400, 'VALIDATION_ERROR');
+      }
+      res.json(listSchemaSnapshots(connection));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/schema/diff?from=conexao[@AAAA-MM-DD]&to=...&sql=1 - "to" padrão: conexão ativa
+  router.get('/diff', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const session = getSession(res);
+      const from = typeof req.query.from === 'string' ? req.query.from.trim() : '';
+      const to = typeof req.query.to === 'string' && req.query.to.trim()
+        ? req.query.to.trim()
+        : session.connectionName ?? '';
+      if (!from || !to) {
+        throw createApiError('Parâmetros "from" e "to" são obrigatórios', 400, 'VALIDATION_ERROR');
+      }
+
+      const live = session.connectionName && session.schemaEngine
+        ? { connection: session.connectionName, engine: session.schemaEngine }
+        : undefined;
+
+      const load = async (ref: string): Promise<SchemaMap> => {
+        try {
+          return await loadSchemaRef(parseSchemaRef(ref), live);
+        } catch (error) {
+          const msg = error instanceof Error ? error.message : 'Erro desconhecido';
+          throw createApiError(`Não foi possível carregar o schema "${ref}": ${msg}`, 400, 'SCHEMA_REF_ERROR');
+        }
+      };
+      const fromSchema = await load(from);
+      const toSchema = await load(to);
+
+      const diff = diffSchemas(fromSchema, toSchema, { from, to });
+      res.json({
+        ...diff,
+        migrationSql: req.query.sql === '1' ? generateMigrationSql(diff) : undefined,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // GET /api/schema/tables
   router.get('/tables', (_req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!state.schemaEngine) {
+      const { schemaEngine } = getSession(res);
+      if (!schemaEngine) {
         throw createApiError('Nenhum banco conectado', 400, 'NO_CONNECTION');
       }
-      const schema = state.schemaEngine.getSchemaMap();
+      const schema = schemaEngine.getSchemaMap();
       if (!schema) {
         throw createApiError('Schema não mapeado', 400, 'NO_SCHEMA');
       }
@@ -48,14 +177,126 @@ export function createSchemaRoutes(state: ServerState): Router {
   // GET /api/schema/tables/:schema/:table
   router.get('/tables/:schema/:table', (req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!state.schemaEngine) {
+      const { schemaEngine, masker } = getSession(res);
+      if (!schemaEngine) {
         throw createApiError('Nenhum banco conectado', 400, 'NO_CONNECTION');
       }
-      const table = state.schemaEngine.getTable(String(req.params.schema), String(req.params.table));
+      const table = schemaEngine.getTable(String(req.params.schema), String(req.params.table));
       if (!table) {
         throw createApiError('Tabela não encontrada', 404, 'NOT_FOUND');
       }
-      res.json(table);
+      const profile = schemaEngine.getProfile(table.schema, table.name);
+      res.json({
+        ...table,
+        profile: profile && masker
+          ? masker.maskProfile(table.schema, table.name, profile, masker.policy.results)
+          : profile ?? null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/schema/sensitivity - Etiquetas de PII (sugeridas ou definidas) e politica de mascaramento
+  router.get('/sensitivity', (_req: Request, res: Response, next: NextFunction) => {
+    try {
+      const session = getSession(res);
+      if (!session.schemaEngine || !session.connectionName) {
+        throw createApiError('Nenhum banco conectado', 400, 'NO_CONNECTION');
+      }
+      const connection = getConnections().find(c => c.name === session.connectionName) ?? null;
+      res.json({
+        policy: session.masker?.policy ?? DEFAULT_MASKING_POLICY,
+        columns: classifyColumns(session.schemaEngine, connection),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // PUT /api/schema/sensitivity - { sensitivity: { "schema.tabela.coluna": tag | "none" | null }, masking: { results, llm } }
+  router.put('/sensitivity', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const session = getSession(res);
+      const { schemaEngine, connectionName } = session;
+      if (!schemaEngine || !connectionName) {
+        throw createApiError('Nenhum banco conectado', 400, 'NO_CONNECTION');
+      }
+
+      const { sensitivity, masking } = (req.body ?? {}) as { sensitivity?: unknown; masking?: unknown };
+      const update: ConnectionPrivacyUpdate = {};
+
+      if (sensitivity !== undefined) {
+        if (typeof sensitivity !== 'object' || sensitivity === null || Array.isArray(sensitivity)) {
+          throw createApiError('Campo "sensitivity" deve ser um objeto', 400, 'VALIDATION_ERROR');
+        }
+        for (const [key, tag] of Object.entries(sensitivity)) {
+          const dot = key.lastIndexOf('.');
+          const table = dot > 0 ? schemaEngine.findTables(key.slice(0, dot)) : [];
+          if (table.length !== 1 || !table[0].columns.some(c => c.name === key.slice(dot + 1))) {
+            throw createApiError(`Coluna "${key}" não encontrada (use schema.tabela.coluna)`, 400, 'VALIDATION_ERROR');
+          }
+          if (tag !== null && tag !== 'none' && !isSensitivityTag(tag)) {
+            throw createApiError(`Etiqueta inválida para "${key}": ${String(tag)}`, 400, 'VALIDATION_ERROR');
+          }
+        }
+        update.sensitivity = sensitivity as ConnectionPrivacyUpdate['sensitivity'];
+      }
+
+      if (masking !== undefined) {
+        if (typeof masking !== 'object' || masking === null || Array.isArray(masking)) {
+          throw createApiError('Campo "masking" deve ser um objeto', 400, 'VALIDATION_ERROR');
+        }
+        for (const [field, mode] of Object.entries(masking)) {
+          if ((field !== 'results' && field !== 'llm') || !isMaskMode(mode)) {
+            throw createApiError(`Política inválida: ${field}=${String(mode)}`, 400, 'VALIDATION_ERROR');
+          }
+        }
+        update.masking = masking as ConnectionPrivacyUpdate['masking'];
+      }
+
+      const connection = updateConnectionPrivacy(connectionName, update);
+      const masker = state.sessions.refreshMasker(session);
+      res.json({
+        policy: masker?.policy ?? DEFAULT_MASKING_POLICY,
+        columns: classifyColumns(schemaEngine, connection),
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/schema/join-path?from=&to=
+  router.get('/join-path', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { schemaEngine } = getSession(res);
+      if (!schemaEngine) {
+        throw createApiError('Nenhum banco conectado', 400, 'NO_CONNECTION');
+      }
+
+      const resolve = (param: string) => {
+        const ref = typeof req.query[param] === 'string' ? (req.query[param] as string).trim() : '';
+        if (!ref) {
+          throw createApiError(`Parâmetro "${param}" é obrigatório`, 400, 'VALIDATION_ERROR');
+        }
+        const matches = schemaEngine.findTables(ref);
+        if (matches.length === 0) {
+          throw createApiError(`Tabela "${ref}" não encontrada`, 404, 'NOT_FOUND');
+        }
+        if (matches.length > 1) {
+          throw createApiError(
+            `Nome ambíguo "${ref}": qualifique com o schema (${matches.map(t => `${t.schema}.${t.name}`).join(', ')})`,
+            400,
+            'AMBIGUOUS_TABLE'
+          );
+        }
+        return `${matches[0].schema}.${matches[0].name}`;
+      };
+      const from = resolve('from');
+      const to = resolve('to');
+
+      const paths = schemaEngine.findJoinPath(from, to);
+      res.json({ from, to, paths, ambiguous: paths.length > 1 });
     } catch (error) {
       next(error);
     }
@@ -64,10 +305,11 @@ export function createSchemaRoutes(state: ServerState): Router {
   // GET /api/schema/relations
   router.get('/relations', (_req: Request, res: Response, next: NextFunction) => {
     try {
-      if (!state.schemaEngine) {
+      const { schemaEngine } = getSession(res);
+      if (!schemaEngine) {
         throw createApiError('Nenhum banco conectado', 400, 'NO_CONNECTION');
       }
-      const schema = state.schemaEngine.getSchemaMap();
+      const schema = schemaEngine.getSchemaMap();
       if (!schema) {
         throw createApiError('Schema não mapeado', 400, 'NO_SCHEMA');
       }
@@ -81,15 +323,27 @@ export function createSchemaRoutes(state: ServerState): Router {
         rowCount: t.estimatedRowCount,
       }));
 
-      const edges: { from: string; to: string; label: string; fromColumn: string; toColumn: string }[] = [];
+      // Uma aresta por constraint: FKs compostas levam todas as colunas, em ordem
+      const edges: {
+        id: string;
+        from: string;
+        to: string;
+        label: string;
+        fromColumns: string[];
+        toColumns: string[];
+      }[] = [];
       for (const table of schema.tables) {
         for (const fk of table.foreignKeys) {
+          const from = `${table.schema}.${table.name}`;
           edges.push({
-            from: `${table.schema}.${table.name}`,
+            id: `${from}:${fk.name}`,
+            from,
             to: `${fk.referencedSchema}.${fk.referencedTable}`,
-            label: `${fk.column} → ${fk.referencedColumn}`,
-            fromColumn: fk.column,
-            toColumn: fk.referencedColumn,
+            label: fk.columns.length === 1
+              ? `${fk.columns[0]} → ${fk.referencedColumns[0]}`
+              : `(${fk.columns.join(', ')}) → (${fk.referencedColumns.join(', ')})`,
+            fromColumns: fk.columns,
+            toColumns: fk.referencedColumns,
           });
         }
       }
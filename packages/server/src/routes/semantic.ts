@@ -0,0 +1,56 @@
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import {
+  loadSemanticLayer,
+  saveSemanticLayer,
+  parseSemanticLayer,
+  getConnections,
+} from '@agentdb/core';
+import { createApiError } from '../middleware/error-handler.js';
+import { getSession } from '../middleware/session.js';
+
+// ?connection= explicito ou a conexao ativa da sessao
+function resolveConnection(req: Request, res: Response): string {
+  const requested = typeof req.query.connection === 'string' ? req.query.connection : undefined;
+  const connection = requested ?? getSession(res).connectionName;
+  if (!connection) {
+    throw createApiError('Nenhum banco conectado', 400, 'NO_CONNECTION');
+  }
+  if (!getConnections().some((c) => c.name === connection)) {
+    throw createApiError(`Conexão "${connection}" não encontrada`, 404, 'NOT_FOUND');
+  }
+  return connection;
+}
+
+export function createSemanticRoutes(): Router {
+  const router = Router();
+
+  // GET /api/semantic?connection=
+  router.get('/', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const connection = resolveConnection(req, res);
+      res.json({ connection, layer: loadSemanticLayer(connection) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // PUT /api/semantic?connection= - Substitui glossario, metricas e joins; vale a partir da proxima pergunta
+  router.put('/', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const connection = resolveConnection(req, res);
+
+      let layer;
+      try {
+        layer = parseSemanticLayer(req.body);
+      } catch (error) {
+        throw createApiError(error instanceof Error ? error.message : 'Camada semântica inválida', 400, 'VALIDATION_ERROR');
+      }
+
+      res.json({ connection, layer: saveSemanticLayer(connection, layer) });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,41 @@
+import { Router, type Request, type Response, type NextFunction } from 'express';
+import { buildUsageReport, parseUsageBudgets, saveUsageBudgets } from '@agentdb/core';
+import { createApiError } from '../middleware/error-handler.js';
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 365;
+
+export function createUsageRoutes(): Router {
+  const router = Router();
+
+  // GET /api/usage?days= - Tokens e custo estimado por dia, conexao, modelo, conversa e run
+  router.get('/', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const requested = Number(req.query.days ?? DEFAULT_DAYS);
+      if (!Number.isInteger(requested) || requested < 1 || requested > MAX_DAYS) {
+        throw createApiError(`"days" deve ser um inteiro entre 1 e ${MAX_DAYS}`, 400, 'VALIDATION_ERROR');
+      }
+      res.json(buildUsageReport(requested));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // PUT /api/usage/budgets - Substitui os orcamentos; campos ausentes ou 0 ficam sem limite
+  router.put('/budgets', (req: Request, res: Response, next: NextFunction) => {
+    try {
+      let budgets;
+      try {
+        budgets = parseUsageBudgets(req.body);
+      } catch (error) {
+        throw createApiError(error instanceof Error ? error.message : 'Orçamentos inválidos', 400, 'VALIDATION_ERROR');
+      }
+
+      res.json({ budgets: saveUsageBudgets(budgets).budgets ?? {} });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,112 @@
+import { randomUUID } from 'crypto';
+import type { CursorPage, QueryCursor } from '@agentdb/core';
+
+// ─── Types ───
+
+type PageMask = (page: CursorPage) => CursorPage;
+
+interface StoredResult {
+  handle: string;
+  sql: string;
+  cursor: QueryCursor;
+  mask: PageMask | null; // politica de PII aplicada a cada pagina lida
+  lastUsedAt: number;
+}
+
+export interface ResultPage extends CursorPage {
+  handle: string;
+}
+
+// Cada cursor segura um client do pool (max 5), entao o limite fica abaixo disso
+const MAX_OPEN_RESULTS = 3;
+const RESULT_IDLE_TTL_MS = 5 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 1000;
+
+// ─── Store ───
+
+/**
+ * Guarda os cursores de resultados paginados por handle. Handles ociosos
+ * sao fechados pelo sweep; o mais antigo e fechado quando o limite estoura.
+ */
+export class ResultStore {
+  private results = new Map<string, StoredResult>();
+  private sweepTimer: ReturnType<typeof setInterval>;
+
+  constructor() {
+    this.sweepTimer = setInterval(() => {
+      void this.sweep();
+    }, SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  async register(sql: string, cursor: QueryCursor, mask: PageMask | null = null): Promise<string> {
+    while (this.results.size >= MAX_OPEN_RESULTS) {
+      const oldest = [...this.results.values()].sort((a, b) => a.lastUsedAt - b.lastUsedAt)[0];
+      await this.close(oldest.handle);
+    }
+
+    const handle = randomUUID();
+    this.results.set(handle, { handle, sql, cursor, mask, lastUsedAt: Date.now() });
+    return handle;
+  }
+
+  /**
+   * Retorna null quando o handle expirou ou nunca existiu.
+   */
+  async fetchPage(
+    handle: string,
+    offset: number,
+    limit: number,
+    signal?: AbortSignal
+  ): Promise<ResultPage | null> {
+    const stored = this.results.get(handle);
+    if (!stored) return null;
+
+    stored.lastUsedAt = Date.now();
+    try {
+      const page = await stored.cursor.fetch(offset, Math.min(limit, MAX_PAGE_SIZE), signal);
+      return { handle, ...(stored.mask ? stored.mask(page) : page) };
+    } finally {
+      if (stored.cursor.isClosed()) {
+        this.results.delete(handle);
+      }
+    }
+  }
+
+  async close(handle: string): Promise<boolean> {
+    const stored = this.results.get(handle);
+    if (!stored) return false;
+
+    this.results.delete(handle);
+    await stored.cursor.close();
+    return true;
+  }
+
+  async closeAll(): Promise<void> {
+    const handles = [...this.results.keys()];
+    await Promise.all(handles.map((handle) => this.close(handle)));
+  }
+
+  /**
+   * Para o sweep; usado quando a sessao dona do store e descartada.
+   */
+  dispose(): void {
+    clearInterval(this.sweepTimer);
+  }
+
+  private async sweep(): Promise<void> {
+    const now = Date.now();
+    for (const stored of [...this.results.values()]) {
+      if (now - stored.lastUsedAt > RESULT_IDLE_TTL_MS) {
+        try {
+          await this.close(stored.handle);
+        } catch {
+          // Cursor ja pode ter sido fechado pelo banco
+        }
+      }
+    }
+  }
+}
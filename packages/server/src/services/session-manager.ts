@@ -0,0 +1,165 @@
+import { randomUUID } from 'crypto';
+import { ContextBuilder, DataMasker, LLMClient, getConnections, loadSemanticLayer } from '@agentdb/core';
+import type { Conversation, IAuthProvider } from '@agentdb/core';
+import type { SessionState } from '../index.js';
+import { ResultStore } from './result-store.js';
+
+// Sessao sem sockets abertos e sem requisicoes por esse tempo e descartada
+const SESSION_IDLE_TTL_MS = 30 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ─── Manager ───
+
+export class SessionManager {
+  private sessions = new Map<string, SessionState>();
+  private sweepTimer: ReturnType<typeof setInterval>;
+
+  constructor() {
+    this.sweepTimer = setInterval(() => {
+      void this.sweep();
+    }, SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Retorna a sessao do id informado, recriando-a com o mesmo id se ela ja foi
+   * descartada (ex.: servidor reiniciado). Ids invalidos geram uma sessao nova.
+   */
+  resolve(id: string | null | undefined): SessionState {
+    const sessionId = id && SESSION_ID_PATTERN.test(id) ? id : randomUUID();
+
+    let session = this.sessions.get(sessionId);
+    if (!session) {
+      session = {
+        id: sessionId,
+        activeConnection: null,
+        connectionName: null,
+        schemaEngine: null,
+        llmClient: null,
+        executor: null,
+        masker: null,
+        model: null,
+        queryHistory: [],
+        conversation: null,
+        results: new ResultStore(),
+        sockets: 0,
+        lastSeenAt: Date.now(),
+      };
+      this.sessions.set(sessionId, session);
+    }
+
+    session.lastSeenAt = Date.now();
+    return session;
+  }
+
+  attachSocket(session: SessionState): void {
+    session.sockets += 1;
+    session.lastSeenAt = Date.now();
+  }
+
+  detachSocket(session: SessionState): void {
+    session.sockets = Math.max(0, session.sockets - 1);
+    session.lastSeenAt = Date.now();
+  }
+
+  /**
+   * Cria o LLMClient da sessao sob demanda, ja com o schema conectado e o modelo escolhido.
+   */
+  ensureLLMClient(session: SessionState, auth: IAuthProvider): LLMClient {
+    if (!session.llmClient) {
+      session.llmClient = new LLMClient(auth);
+      if (session.schemaEngine) {
+        const semanticLayer = session.connectionName ? loadSemanticLayer(session.connectionName) : null;
+        session.llmClient.setSystemPrompt(new ContextBuilder(session.schemaEngine, semanticLayer).buildSystemPrompt());
+      }
+      if (session.model) {
+        session.llmClient.setModel(session.model);
+      }
+      if (session.conversation) {
+        session.llmClient.setHistory(session.conversation.history);
+      }
+    }
+    return session.llmClient;
+  }
+
+  /**
+   * Recalcula as etiquetas de PII (schema, perfis e overrides salvos na
+   * conexao) e aplica a politica no executor da sessao.
+   */
+  refreshMasker(session: SessionState): DataMasker | null {
+    const connection = getConnections().find((c) => c.name === session.connectionName) ?? null;
+    session.masker = session.schemaEngine ? DataMasker.fromSchema(session.schemaEngine, connection) : null;
+    session.executor?.setMasker(session.masker);
+    return session.masker;
+  }
+
+  /**
+   * Reaplica a politica de acesso salva em todas as sessoes conectadas a
+   * `connectionName`: mapa do schema, executor e etiquetas de PII.
+   */
+  reloadAccessPolicy(connectionName: string): void {
+    const access = getConnections().find((c) => c.name === connectionName)?.access ?? null;
+    for (const session of this.sessions.values()) {
+      if (session.connectionName !== connectionName || !session.schemaEngine) continue;
+      session.schemaEngine.setAccessPolicy(access);
+      session.executor?.setAccessGuard(session.schemaEngine.getAccessGuard());
+      this.refreshMasker(session);
+    }
+  }
+
+  /**
+   * Troca a conversa ativa da sessao. `null` comeca uma conversa nova.
+   */
+  openConversation(session: SessionState, conversation: Conversation | null): void {
+    session.conversation = conversation;
+    if (conversation) {
+      session.llmClient?.setHistory(conversation.history);
+    } else {
+      session.llmClient?.clearHistory();
+    }
+  }
+
+  /**
+   * Troca de provider/login invalida os agentes de todas as sessoes.
+   */
+  resetAgents(): void {
+    for (const session of this.sessions.values()) {
+      session.llmClient = null;
+      session.model = null;
+    }
+  }
+
+  async disconnect(session: SessionState): Promise<void> {
+    // Cursores abertos seguram clients do pool e travariam o pool.end()
+    await session.results.closeAll();
+    if (session.activeConnection) {
+      await session.activeConnection.disconnect();
+    }
+    session.activeConnection = null;
+    session.connectionName = null;
+    session.conversation = null;
+    session.schemaEngine = null;
+    session.llmClient = null;
+    session.executor = null;
+    session.masker = null;
+  }
+
+  private async sweep(): Promise<void> {
+    const now = Date.now();
+    for (const session of [...this.sessions.values()]) {
+      if (session.sockets > 0 || now - session.lastSeenAt <= SESSION_IDLE_TTL_MS) continue;
+
+      this.sessions.delete(session.id);
+      try {
+        await this.disconnect(session);
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : 'Erro desconhecido';
+        console.error(`[Session] Falha ao encerrar sessao ${session.id}: ${msg}`);
+      } finally {
+        session.results.dispose();
+      }
+    }
+  }
+}
@@ -1,13 +1,37 @@
+import { randomUUID } from 'crypto';
 import { WebSocketServer, WebSocket } from 'ws';
 import type { Server } from 'http';
-import type { ServerState } from '../index.js';
+import type { ServerState, SessionState } from '../index.js';
+import { readSessionId } from '../middleware/session.js';
+import { DEFAULT_PAGE_SIZE, type ResultPage } from '../services/result-store.js';
 import {
+  AGENT_TOOLS,
+  addConversationUsage,
   analyzeSqlExecutionError,
+  appendConversationEntry,
+  appendUsageRecord,
+  checkUsageBudget,
   ContextBuilder,
-  LLMClient,
+  createConversation,
+  describeTableForAgent,
+  findJoinPathForAgent,
+  formatExecutionForAgent,
+  getToolStringArgument,
+  loadSemanticLayer,
   QueryExecutor,
+  saveConversation,
+  toConversationResult,
+} from '@agentdb/core';
+import type {
+  ContextSelection,
+  ConversationEntry,
+  ExecutionResult,
+  LLMMessage,
+  LLMResponse,
+  LLMToolCall,
+  LLMToolResult,
+  WritePreview,
 } from '@agentdb/core';
-import type { ExecutionResult } from '@agentdb/core';
 
 interface ChatSocketUserMessage {
   type: 'message';
@@ -18,7 +42,17 @@ interface ChatSocketCancelMessage {
   type: 'cancel';
 }
 
-type ChatSocketMessage = ChatSocketUserMessage | ChatSocketCancelMessage;
+interface ChatSocketResultPageMessage {
+  type: 'result_page';
+  handle: string;
+  offset?: number;
+  limit?: number;
+}
+
+type ChatSocketMessage =
+  | ChatSocketUserMessage
+  | ChatSocketCancelMessage
+  | ChatSocketResultPageMessage;
 type RunPhase = 'idle' | 'thinking' | 'executing' | 'summarizing';
 type RunDoneStatus = 'completed' | 'error' | 'canceled';
 
@@ -26,26 +60,37 @@ interface ChatResponse {
   type:
     | 'thinking'
     | 'text'
+    | 'text_delta'
     | 'sql'
+    | 'preview'
     | 'executing'
     | 'result'
+    | 'result_page'
     | 'summary'
     | 'error'
     | 'run_state'
-    | 'run_done';
+    | 'run_done'
+    | 'conversation'
+    | 'context';
   content?: string;
-  data?: Record<string, unknown>;
+  data?: Record<string, unknown> | WritePreview | ResultPage | ContextSelection;
 }
 
 interface ActiveRun {
   id: number;
   canceled: boolean;
+  abort: AbortController; // cancela a query em andamento via pg_cancel_backend
+  usageId: string; // chave do run no ledger de tokens
+  tokens: number; // consumo do run, para o orcamento por pergunta
 }
 
-const MAX_AUTONOMOUS_STEPS = 3;
+const MAX_AUTONOMOUS_STEPS = 5;
 const RESULT_SAMPLE_SIZE = 5;
-const PROMPT_SAMPLE_MAX_CHARS = 6000;
 const HISTORY_LIMIT = 50;
+const CONTEXT_RECENT_MESSAGES = 6;
+
+const FORCED_FINAL_PROMPT =
+  '[Sistema] Limite de etapas atingido. Entregue a resposta final agora, apenas em texto claro e sem pedir para continuar.';
 
 function send(ws: WebSocket, msg: ChatResponse): void {
   if (ws.readyState === WebSocket.OPEN) {
@@ -76,83 +121,62 @@ function sendRunDone(ws: WebSocket, status: RunDoneStatus): void {
   });
 }
 
-function stripCodeBlocks(text: string): string {
-  return text
-    .replace(/```sql\s*\n[\s\S]*?```/gi, '')
-    .replace(/```\s*\n[\s\S]*?```/g, '')
-    .trim();
-}
-
-function serializeSampleRows(rows: Record<string, unknown>[]): string {
-  const raw = JSON.stringify(rows);
-  if (raw.length <= PROMPT_SAMPLE_MAX_CHARS) {
-    return raw;
-  }
-  return `${raw.slice(0, PROMPT_SAMPLE_MAX_CHARS)}... [truncated]`;
-}
-
 function buildContinuationPrompt(
-  originalQuestion: string,
   step: number,
   maxSteps: number,
-  sql: string,
   result: ExecutionResult
 ): string {
-  const columns = result.columns || Object.keys(result.rows[0] || {});
-  const sampleRows = result.rows.slice(0, RESULT_SAMPLE_SIZE);
-
   return [
-    '[Sistema] Continue a analise de forma autonoma.',
-    `Pergunta original do usuario: ${JSON.stringify(originalQuestion)}`,
-    `Passo atual: ${step} de ${maxSteps}.`,
-    '',
-    'SQL executada no passo atual:',
-    '```sql',
-    sql,
-    '```',
-    '',
-    `Resultado: ${result.rowCount} linha(s), ${result.duration}ms.`,
-    `Colunas: ${columns.join(', ') || '(sem colunas)'}.`,
-    `Amostra (${sampleRows.length} linha(s)): ${serializeSampleRows(sampleRows)}`,
+    formatExecutionForAgent(result, { sampleSize: RESULT_SAMPLE_SIZE }),
     '',
-    'Regra obrigatoria:',
-    '- Se a pergunta ja estiver completamente respondida, responda em texto final e sem SQL.',
-    '- Se ainda faltar informacao para responder bem, gere exatamente uma proxima query SQL completa em bloco ```sql```.',
-    '- Nao pergunte ao usuario se deve continuar.',
+    `Passo atual: ${step} de ${maxSteps}.`,
+    'Se a pergunta ja estiver respondida, responda em texto final. Caso contrario, chame run_sql com a proxima query. Nao pergunte ao usuario se deve continuar.',
   ].join('\n');
 }
 
-function buildForcedFinalPrompt(
-  originalQuestion: string,
-  sql: string,
-  result: ExecutionResult
-): string {
-  const columns = result.columns || Object.keys(result.rows[0] || {});
-  const sampleRows = result.rows.slice(0, RESULT_SAMPLE_SIZE);
+function buildPreviewToolResult(preview: WritePreview): string {
+  if (preview.error) {
+    return `Preview falhou: ${preview.error}`;
+  }
 
   return [
-    '[Sistema] Limite de etapas SQL atingido. Entregue resposta final agora.',
-    `Pergunta original do usuario: ${JSON.stringify(originalQuestion)}`,
-    '',
-    'Ultima SQL executada:',
-    '```sql',
-    sql,
-    '```',
-    '',
-    `Ultimo resultado: ${result.rowCount} linha(s), ${result.duration}ms.`,
-    `Colunas: ${columns.join(', ') || '(sem colunas)'}.`,
-    `Amostra (${sampleRows.length} linha(s)): ${serializeSampleRows(sampleRows)}`,
-    '',
-    'Responda apenas em texto claro, sem SQL e sem pedir para continuar.',
+    'Preview executado numa transacao revertida; nada foi gravado.',
+    ...preview.statements.map(
+      (s) => `${s.command}${s.relation ? ` ${s.relation}` : ''}: ${s.rowsAffected} linha(s) seriam afetadas.`
+    ),
+    'A alteracao so sera aplicada quando o usuario aprovar no botao EXECUTAR. Informe o impacto e nao chame run_sql de novo para este comando.',
   ].join('\n');
 }
 
-function formatResultData(result: ExecutionResult): Record<string, unknown> {
+// Tabelas citadas nos ultimos turnos seguem relevantes em perguntas de continuacao
+function buildRecentText(history: LLMMessage[]): string {
+  return history
+    .slice(-CONTEXT_RECENT_MESSAGES)
+    .flatMap((m) => [m.content, ...(m.toolCalls ?? []).map((call) => JSON.stringify(call.arguments))])
+    .join('\n');
+}
+
+function buildSkippedToolResult(call: LLMToolCall): LLMToolResult {
+  return {
+    toolCallId: call.id,
+    content: 'Chamada nao executada: a execucao anterior falhou.',
+  };
+}
+
+function formatResultData(
+  result: ExecutionResult,
+  handle: string | null
+): Record<string, unknown> {
   return {
     rows: result.rows,
     rowCount: result.rowCount,
     duration: result.duration,
     columns: result.columns || Object.keys(result.rows[0] || {}),
+    handle,
+    offset: 0,
+    hasMore: Boolean(result.hasMore),
+    totalRows: result.hasMore ? null : result.rowCount,
+    maskedColumns: result.maskedColumns ?? {},
   };
 }
 
@@ -164,27 +188,86 @@ function buildActionableErrorMessage(rawQuestion: string): string {
 }
 
 function saveQueryToHistory(
-  state: ServerState,
+  session: SessionState,
   sql: string,
   result: ExecutionResult
 ): void {
-  state.queryHistory.unshift({
+  session.queryHistory.unshift({
     sql,
     rowCount: result.rowCount,
     duration: result.duration,
     error: result.error,
     timestamp: new Date().toISOString(),
   });
-  if (state.queryHistory.length > HISTORY_LIMIT) {
-    state.queryHistory.pop();
+  if (session.queryHistory.length > HISTORY_LIMIT) {
+    session.queryHistory.pop();
+  }
+}
+
+// ─── Conversa persistida ───
+
+function recordEntry(session: SessionState, entry: Omit<ConversationEntry, 'timestamp'>): void {
+  if (session.conversation) {
+    appendConversationEntry(session.conversation, entry);
+  }
+}
+
+function recordUsage(session: SessionState, run: ActiveRun, response: LLMResponse, provider: string): void {
+  run.tokens += response.tokensUsed.total;
+  if (session.conversation) {
+    addConversationUsage(session.conversation, response.tokensUsed);
+  }
+
+  try {
+    appendUsageRecord({
+      runId: run.usageId,
+      conversationId: session.conversation?.id ?? null,
+      connection: session.connectionName ?? 'default',
+      provider,
+      model: session.llmClient?.getModel() ?? 'desconhecido',
+      ...response.tokensUsed,
+    });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Erro desconhecido';
+    console.error(`[WS] Falha ao registrar uso de tokens: ${msg}`);
+  }
+}
+
+function persistConversation(session: SessionState): void {
+  const conversation = session.conversation;
+  if (!conversation) return;
+
+  if (session.llmClient) {
+    conversation.history = session.llmClient.getHistory();
+  }
+  try {
+    saveConversation(conversation);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Erro desconhecido';
+    console.error(`[WS] Falha ao salvar conversa ${conversation.id}: ${msg}`);
   }
 }
 
 export function setupChatSocket(server: Server, state: ServerState): void {
   const wss = new WebSocketServer({ server, path: '/ws/chat' });
 
-  wss.on('connection', (ws) => {
-    console.log('[WS] Chat client connected');
+  wss.on('connection', (ws, req) => {
+    // Mesmo cookie das rotas REST; `?session=` atende clientes sem cookie.
+    // Handshake invalido derruba so este socket, nunca o processo.
+    let session: SessionState;
+    try {
+      const requestUrl = new URL(req.url ?? '', 'http://localhost');
+      session = state.sessions.resolve(
+        readSessionId(req.headers) ?? requestUrl.searchParams.get('session')
+      );
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Erro desconhecido';
+      console.error(`[WS] Handshake recusado: ${msg}`);
+      ws.close(1008, 'Sessao invalida');
+      return;
+    }
+    state.sessions.attachSocket(session);
+    console.log(`[WS] Chat client connected (sessao ${session.id.slice(0, 8)})`);
 
     let runCounter = 0;
     let activeRun: ActiveRun | null = null;
@@ -203,6 +286,7 @@ export function setupChatSocket(server: Server, state: ServerState): void {
       }
 
       activeRun = null;
+      persistConversation(session);
       sendRunDone(ws, status);
 
       const detail =
@@ -215,8 +299,29 @@ export function setupChatSocket(server: Server, state: ServerState): void {
       sendRunState(ws, 'idle', false, detail);
     };
 
+    // Mensagens visiveis do run tambem entram na conversa salva
+    const emit = (msg: ChatResponse): void => {
+      send(ws, msg);
+      if (msg.type === 'preview') {
+        recordEntry(session, { type: 'preview', content: msg.content, preview: msg.data as WritePreview });
+      } else if (msg.type === 'text' || msg.type === 'sql' || msg.type === 'error') {
+        recordEntry(session, { type: msg.type, content: msg.content });
+      }
+    };
+
+    const startConversationTurn = (content: string): void => {
+      if (!session.conversation) {
+        session.conversation = createConversation(session.connectionName ?? 'default', content);
+        send(ws, {
+          type: 'conversation',
+          data: { id: session.conversation.id, title: session.conversation.title },
+        });
+      }
+      recordEntry(session, { type: 'user', content });
+    };
+
     const ensureAgentReady = (): boolean => {
-      if (!state.activeConnection || !state.schemaEngine) {
+      if (!session.activeConnection || !session.schemaEngine) {
         send(ws, {
           type: 'error',
           content: 'Nenhum banco conectado. Conecte a um banco primeiro.',
@@ -232,25 +337,100 @@ export function setupChatSocket(server: Server, state: ServerState): void {
         return false;
       }
 
-      if (!state.llmClient) {
-        state.llmClient = new LLMClient(state.auth);
-        const contextBuilder = new ContextBuilder(state.schemaEngine);
-        state.llmClient.setSystemPrompt(contextBuilder.buildSystemPrompt());
-      }
+      state.sessions.ensureLLMClient(session, state.auth);
 
-      if (!state.executor) {
-        state.executor = new QueryExecutor(state.activeConnection);
+      if (!session.executor) {
+        session.executor = new QueryExecutor(session.activeConnection);
+        session.executor.setMasker(session.masker);
+        session.executor.setAccessGuard(session.schemaEngine?.getAccessGuard() ?? null);
       }
 
       return true;
     };
 
+    const runSqlTool = async (
+      run: ActiveRun,
+      call: LLMToolCall,
+      step: number
+    ): Promise<{ result: LLMToolResult; followUp?: string; failed: boolean } | null> => {
+      const sql = getToolStringArgument(call, 'sql');
+      if (!sql) {
+        return {
+          result: { toolCallId: call.id, content: 'Argumento "sql" ausente.' },
+          failed: false,
+        };
+      }
+
+      const executor = session.executor!;
+      const classification = await executor.classify(sql);
+      if (!executor.isReadOnly() && executor.canPreview(classification)) {
+        sendRunState(ws, 'executing', true, 'Gerando preview da alteracao...');
+        const preview = await executor.preview(sql, { signal: run.abort.signal });
+        if (!isRunActive(run)) return null;
+
+        emit({ type: 'preview', content: sql, data: preview });
+        return {
+          result: { toolCallId: call.id, content: buildPreviewToolResult(preview) },
+          failed: false,
+        };
+      }
+
+      emit({ type: 'sql', content: sql });
+      sendRunState(ws, 'executing', true, `Executando consulta ${step}...`);
+      send(ws, { type: 'executing', content: '' });
+
+      const { result, cursor } = await executor.executePaged(sql, DEFAULT_PAGE_SIZE, {
+        signal: run.abort.signal,
+      });
+      if (!isRunActive(run)) {
+        await cursor?.close();
+        return null;
+      }
+
+      saveQueryToHistory(session, sql, result);
+
+      if (!result.error) {
+        const handle = cursor
+          ? await session.results.register(sql, cursor, (page) => executor.maskPage(page))
+          : null;
+        send(ws, { type: 'result', data: formatResultData(result, handle) });
+        recordEntry(session, { type: 'result', result: toConversationResult(result) });
+        return {
+          result: {
+            toolCallId: call.id,
+            content: buildContinuationPrompt(step, MAX_AUTONOMOUS_STEPS, executor.maskForAgent(result)),
+          },
+          failed: false,
+        };
+      }
+
+      emit({ type: 'error', content: `Erro SQL: ${result.error}` });
+
+      const guidance = analyzeSqlExecutionError(result.error, result.errorCode);
+      const toolResult: LLMToolResult = {
+        toolCallId: call.id,
+        content: formatExecutionForAgent(result, {
+          recoveryInstruction: guidance.recoveryInstruction,
+        }),
+      };
+
+      if (guidance.shouldAskUser && guidance.userQuestion) {
+        return {
+          result: toolResult,
+          followUp: buildActionableErrorMessage(guidance.userQuestion),
+          failed: true,
+        };
+      }
+
+      return { result: toolResult, failed: !guidance.shouldAutoRetry };
+    };
+
     const runAutonomousFlow = async (
       run: ActiveRun,
       userInput: string
     ): Promise<void> => {
       try {
-        if (!state.llmClient || !state.executor) {
+        if (!session.llmClient || !session.executor || !session.schemaEngine) {
           send(ws, {
             type: 'error',
             content: 'Agente indisponivel. Tente novamente em alguns segundos.',
@@ -259,65 +439,116 @@ export function setupChatSocket(server: Server, state: ServerState): void {
           return;
         }
 
-        let modelInput = userInput;
-        const originalQuestion = userInput;
-        let lastResult: ExecutionResult | null = null;
-        let lastSQL = '';
+        const semanticLayer = session.connectionName ? loadSemanticLayer(session.connectionName) : null;
+        const context = new ContextBuilder(session.schemaEngine, semanticLayer).buildContext(userInput, {
+          recentText: buildRecentText(session.llmClient.getHistory()),
+          sensitiveColumns: session.masker?.sensitiveColumns(),
+        });
+        session.llmClient.setSystemPrompt(context.prompt);
+        send(ws, { type: 'context', data: context.selection });
 
-        for (let step = 1; step <= MAX_AUTONOMOUS_STEPS; step += 1) {
-          if (!isRunActive(run)) return;
+        sendRunState(ws, 'thinking', true, 'Pensando na melhor estrategia...');
+        send(ws, { type: 'thinking', content: '' });
 
-          sendRunState(
-            ws,
-            'thinking',
-            true,
-            step === 1
-              ? 'Pensando na melhor estrategia...'
-              : `Refinando analise (${step}/${MAX_AUTONOMOUS_STEPS})...`
-          );
-          send(ws, { type: 'thinking', content: '' });
+        // Orcamentos sao conferidos antes de cada chamada ao LLM
+        const stopForBudget = (): boolean => {
+          const reason = checkUsageBudget({
+            runTokens: run.tokens,
+            conversationTokens: session.conversation?.tokensUsed.total ?? 0,
+          });
+          if (!reason) return false;
+          emit({ type: 'error', content: reason });
+          finishRun(run, 'error');
+          return true;
+        };
 
-          const llmResponse = await state.llmClient.chat(modelInput);
-          if (!isRunActive(run)) return;
+        // Texto parcial da chamada em andamento; o 'text' final substitui no cliente
+        const onDelta = (text: string): void => {
+          if (isRunActive(run)) send(ws, { type: 'text_delta', content: text });
+        };
 
-          const assistantContent = llmResponse.content?.trim();
-          if (!assistantContent) {
-            send(ws, { type: 'error', content: 'Resposta vazia do LLM.' });
-            finishRun(run, 'error');
-            return;
-          }
+        if (stopForBudget()) return;
+        let llmResponse = await session.llmClient.chat(userInput, { tools: AGENT_TOOLS, onDelta });
+        recordUsage(session, run, llmResponse, state.auth.getProvider());
 
-          const sql = state.executor.extractSQL(assistantContent);
-          if (!sql) {
-            send(ws, { type: 'text', content: assistantContent });
+        for (let step = 1; step <= MAX_AUTONOMOUS_STEPS; step += 1) {
+          if (!isRunActive(run)) return;
+
+          const assistantContent = llmResponse.content.trim();
+          if (llmResponse.toolCalls.length === 0) {
+            if (!assistantContent) {
+              emit({ type: 'error', content: 'Resposta vazia do LLM.' });
+              finishRun(run, 'error');
+              return;
+            }
+            emit({ type: 'text', content: assistantContent });
             finishRun(run, 'completed');
             return;
           }
 
-          const explanation = stripCodeBlocks(assistantContent);
-          if (explanation) {
-            send(ws, { type: 'text', content: explanation });
+          if (assistantContent) {
+            emit({ type: 'text', content: assistantContent });
           }
 
-          send(ws, { type: 'sql', content: sql });
-          sendRunState(ws, 'executing', true, `Executando consulta ${step}...`);
-          send(ws, { type: 'executing', content: '' });
+          const results: LLMToolResult[] = [];
+          let followUp: string | undefined;
+          let failed = false;
 
-          const result = await state.executor.execute(sql);
-          if (!isRunActive(run)) return;
+          for (const call of llmResponse.toolCalls) {
+            if (failed) {
+              results.push(buildSkippedToolResult(call));
+              continue;
+            }
 
-          saveQueryToHistory(state, sql, result);
-          lastResult = result;
-          lastSQL = sql;
+            if (call.name === 'describe_table') {
+              const tableRef = getToolStringArgument(call, 'table') ?? '';
+              results.push({
+                toolCallId: call.id,
+                content: describeTableForAgent(session.schemaEngine, tableRef, session.masker?.sensitiveColumns()),
+              });
+              continue;
+            }
 
-          if (result.error) {
-            send(ws, { type: 'error', content: `Erro SQL: ${result.error}` });
+            if (call.name === 'find_join_path') {
+              results.push({
+                toolCallId: call.id,
+                content: findJoinPathForAgent(
+                  session.schemaEngine,
+                  getToolStringArgument(call, 'from') ?? '',
+                  getToolStringArgument(call, 'to') ?? ''
+                ),
+              });
+              continue;
+            }
 
-            const guidance = analyzeSqlExecutionError(result.error);
-            if (guidance.shouldAskUser && guidance.userQuestion) {
-              const followUp = buildActionableErrorMessage(guidance.userQuestion);
-              send(ws, { type: 'text', content: followUp });
-              state.llmClient.addToHistory({
+            if (call.name !== 'run_sql') {
+              results.push({
+                toolCallId: call.id,
+                content: `Ferramenta desconhecida: ${call.name}.`,
+              });
+              continue;
+            }
+
+            const outcome = await runSqlTool(run, call, step);
+            if (!outcome) return;
+
+            results.push(outcome.result);
+            followUp = outcome.followUp;
+            failed = outcome.failed;
+          }
+
+          if (failed) {
+            for (const result of results) {
+              session.llmClient.addToHistory({
+                role: 'tool',
+                content: result.content,
+                toolCallId: result.toolCallId,
+              });
+            }
+
+            if (followUp) {
+              emit({ type: 'text', content: followUp });
+              session.llmClient.addToHistory({
                 role: 'assistant',
                 content: followUp,
               });
@@ -329,62 +560,87 @@ export function setupChatSocket(server: Server, state: ServerState): void {
             return;
           }
 
-          send(ws, { type: 'result', data: formatResultData(result) });
-
-          if (step < MAX_AUTONOMOUS_STEPS) {
-            modelInput = buildContinuationPrompt(
-              originalQuestion,
-              step,
-              MAX_AUTONOMOUS_STEPS,
-              sql,
-              result
+          const isLastStep = step === MAX_AUTONOMOUS_STEPS;
+          if (isLastStep) {
+            sendRunState(ws, 'summarizing', true, 'Consolidando resposta final...');
+          } else {
+            sendRunState(
+              ws,
+              'thinking',
+              true,
+              `Refinando analise (${step + 1}/${MAX_AUTONOMOUS_STEPS})...`
             );
-            continue;
+            send(ws, { type: 'thinking', content: '' });
           }
+
+          if (stopForBudget()) return;
+          llmResponse = await session.llmClient.submitToolResults(
+            results,
+            { tools: AGENT_TOOLS, toolChoice: isLastStep ? 'none' : 'auto', onDelta },
+            isLastStep ? FORCED_FINAL_PROMPT : undefined
+          );
+          recordUsage(session, run, llmResponse, state.auth.getProvider());
         }
 
         if (!isRunActive(run)) return;
 
-        if (lastResult && lastSQL) {
-          sendRunState(ws, 'summarizing', true, 'Consolidando resposta final...');
-          const forcedFinal = await state.llmClient.chat(
-            buildForcedFinalPrompt(originalQuestion, lastSQL, lastResult)
-          );
-          if (!isRunActive(run)) return;
-
-          const finalText = stripCodeBlocks(forcedFinal.content || '');
-          send(ws, {
-            type: 'text',
-            content:
-              finalText ||
-              'Analise concluida com sucesso. Se quiser, posso aprofundar algum recorte especifico.',
-          });
-        } else {
-          send(ws, {
-            type: 'text',
-            content:
-              'Analise concluida, mas sem dados suficientes para gerar uma resposta final detalhada.',
-          });
-        }
+        emit({
+          type: 'text',
+          content:
+            llmResponse.content.trim() ||
+            'Analise concluida com sucesso. Se quiser, posso aprofundar algum recorte especifico.',
+        });
 
         finishRun(run, 'completed');
       } catch (error) {
         const msg = error instanceof Error ? error.message : 'Erro desconhecido';
         if (isRunActive(run)) {
-          send(ws, { type: 'error', content: msg });
+          emit({ type: 'error', content: msg });
           finishRun(run, 'error');
         }
       }
     };
 
+    const sendResultPage = async (request: ChatSocketResultPageMessage): Promise<void> => {
+      const offset = Math.max(0, Math.floor(request.offset ?? 0));
+      const limit = Math.max(1, Math.floor(request.limit ?? DEFAULT_PAGE_SIZE));
+
+      try {
+        const page = await session.results.fetchPage(request.handle, offset, limit);
+        send(ws, {
+          type: 'result_page',
+          data: page ?? {
+            handle: request.handle,
+            offset,
+            error: 'Resultado expirado. Execute a query novamente.',
+          },
+        });
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : 'Erro desconhecido';
+        send(ws, { type: 'result_page', data: { handle: request.handle, offset, error: msg } });
+      }
+    };
+
     ws.on('message', async (rawData) => {
       try {
         const data = JSON.parse(rawData.toString()) as ChatSocketMessage;
 
+        // Paginacao nao depende do run ativo: o usuario navega enquanto o agente pensa
+        if (data.type === 'result_page') {
+          if (typeof data.handle !== 'string' || !data.handle) {
+            send(ws, { type: 'error', content: 'Handle de resultado invalido.' });
+            return;
+          }
+          await sendResultPage(data);
+          return;
+        }
+
         if (data.type === 'cancel') {
           if (activeRun) {
             activeRun.canceled = true;
+            activeRun.abort.abort();
             activeRun = null;
+            persistConversation(session);
             sendRunDone(ws, 'canceled');
           }
           sendRunState(ws, 'idle', false, 'Execucao cancelada.');
@@ -411,9 +667,13 @@ export function setupChatSocket(server: Server, state: ServerState): void {
         const run: ActiveRun = {
           id: ++runCounter,
           canceled: false,
+          abort: new AbortController(),
+          usageId: randomUUID(),
+          tokens: 0,
         };
         activeRun = run;
 
+        startConversationTurn(data.content.trim());
         await runAutonomousFlow(run, data.content.trim());
       } catch (error) {
         const msg = error instanceof Error ? error.message : 'Erro desconhecido';
@@ -428,8 +688,11 @@ export function setupChatSocket(server: Server, state: ServerState): void {
     ws.on('close', () => {
       if (activeRun) {
         activeRun.canceled = true;
+        activeRun.abort.abort();
         activeRun = null;
+        persistConversation(session);
       }
+      state.sessions.detachSocket(session);
       console.log('[WS] Chat client disconnected');
     });
 
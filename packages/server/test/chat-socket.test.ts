@@ -0,0 +1,119 @@
+import { fileURLToPath } from 'url';
+import WebSocket from 'ws';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { startTestDatabase, SHOP_SEED, type TestDatabase } from '../../../test/support/postgres.js';
+import { SESSION_HEADER } from '../src/middleware/session.js';
+import { startTestServer, type TestServer } from './support/app.js';
+
+interface ChatEvent {
+  type: string;
+  content?: string;
+  data?: Record<string, any>;
+}
+
+let pg: TestDatabase;
+let server: TestServer;
+let socket: WebSocket;
+const events: ChatEvent[] = [];
+
+/**
+ * Envia uma pergunta e devolve os eventos ate o run_done dela.
+ */
+function ask(content: string): Promise<ChatEvent[]> {
+  const start = events.length;
+  return new Promise((resolve) => {
+    const onMessage = (): void => {
+      const run = events.slice(start);
+      if (run.some((event) => event.type === 'run_done')) {
+        socket.off('message', onMessage);
+        resolve(run);
+      }
+    };
+    socket.on('message', onMessage);
+    socket.send(JSON.stringify({ type: 'message', content }));
+  });
+}
+
+beforeAll(async () => {
+  pg = await startTestDatabase(SHOP_SEED);
+  server = await startTestServer(fileURLToPath(new URL('./fixtures/chat-session.json', import.meta.url)));
+
+  await server.request('POST', '/api/connections', { name: 'shop', url: pg.url });
+  await server.request('POST', '/api/connections/shop/connect');
+
+  socket = new WebSocket(`${server.baseUrl.replace('http', 'ws')}/ws/chat`, {
+    headers: { [SESSION_HEADER]: server.sessionId },
+  });
+  // Registrado antes do open para nao perder eventos entre uma pergunta e outra
+  socket.on('message', (raw) => events.push(JSON.parse(raw.toString()) as ChatEvent));
+  await new Promise((resolve) => socket.once('open', resolve));
+});
+
+afterAll(async () => {
+  socket.close();
+  await server.close();
+  await pg.stop();
+});
+
+describe('chat via WebSocket com LLM gravado', () => {
+  it('executa a consulta do agente e entrega a resposta final', async () => {
+    const run = await ask('Qual cliente gastou mais?');
+
+    const sql = run.find((event) => event.type === 'sql');
+    expect(sql?.content).toContain('GROUP BY c.name');
+
+    // name e PII sugerida pelo schema: sai mascarado para a interface
+    const result = run.find((event) => event.type === 'result');
+    expect(result?.data?.rows).toEqual([{ name: 'C***', total: '310.00' }]);
+
+    const texts = run.filter((event) => event.type === 'text').map((event) => event.content);
+    expect(texts).toEqual([
+      'Vou somar os pedidos pagos por cliente.',
+      'Carla foi quem mais gastou: R$ 310,00 em pedidos pagos.',
+    ]);
+    expect(run.at(-1)?.data?.status).toBe('completed');
+  });
+
+  it('registra tokens no ledger de uso', async () => {
+    const usage = await server.request('GET', '/api/usage?days=1');
+
+    expect(usage.body.totals.total).toBe(1560 + 1720);
+    expect(usage.body.byConnection).toEqual([expect.objectContaining({ connection: 'shop', total: 3280 })]);
+  });
+
+  it('devolve a escrita bloqueada ao usuario sem alterar os dados', async () => {
+    const run = await ask('Agora apague os pedidos cancelados');
+
+    const error = run.find((event) => event.type === 'error');
+    expect(error?.content).toContain('Modo somente leitura');
+
+    // read_only pede confirmacao: o run termina com a pergunta ao usuario
+    const followUp = run.filter((event) => event.type === 'text').at(-1);
+    expect(followUp?.content).toContain('read-only');
+    expect(run.at(-1)?.data?.status).toBe('completed');
+
+    const orders = await server.request('POST', '/api/query/execute', { sql: 'SELECT count(*)::int AS n FROM orders' });
+    expect(orders.body.rows).toEqual([{ n: 4 }]);
+  });
+
+  it('aceita handshake com cookie corrompido sem derrubar o servidor', async () => {
+    const other = new WebSocket(`${server.baseUrl.replace('http', 'ws')}/ws/chat`, {
+      headers: { Cookie: 'agentdb_session=%E0%A4%A' },
+    });
+    await new Promise((resolve, reject) => {
+      other.once('open', resolve);
+      other.once('error', reject);
+    });
+    other.close();
+
+    const health = await server.request('GET', '/api/query/history');
+    expect(health.status).toBe(200);
+  });
+
+  it('encerra o run com erro quando a fixture acaba', async () => {
+    const run = await ask('E quantos clientes temos?');
+
+    expect(run.find((event) => event.type === 'error')?.content).toContain('Fixture de LLM esgotada');
+    expect(run.at(-1)?.data?.status).toBe('error');
+  });
+});
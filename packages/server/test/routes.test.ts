@@ -0,0 +1,162 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { QueryExecutor } from '@agentdb/core';
+import { startTestDatabase, SHOP_SEED, type TestDatabase } from '../../../test/support/postgres.js';
+import { startTestServer, type TestServer } from './support/app.js';
+
+let pg: TestDatabase;
+let server: TestServer;
+
+beforeAll(async () => {
+  pg = await startTestDatabase(SHOP_SEED);
+  server = await startTestServer();
+});
+
+afterAll(async () => {
+  await server.close();
+  await pg.stop();
+});
+
+describe('conexoes', () => {
+  it('valida o cadastro', async () => {
+    const missingUrl = await server.request('POST', '/api/connections', { name: 'shop' });
+    expect(missingUrl.status).toBe(400);
+    expect(missingUrl.body.code).toBe('VALIDATION_ERROR');
+
+    const negativeCost = await server.request('POST', '/api/connections', { name: 'shop', url: pg.url, maxQueryCost: -1 });
+    expect(negativeCost.status).toBe(400);
+  });
+
+  it('cadastra, conecta e mapeia o schema', async () => {
+    const created = await server.request('POST', '/api/connections', { name: 'shop', url: pg.url });
+    expect(created.status).toBe(201);
+
+    const connected = await server.request('POST', '/api/connections/shop/connect');
+    expect(connected.status).toBe(200);
+    expect(connected.body.tableCount).toBe(3);
+
+    const tables = await server.request('GET', '/api/schema/tables');
+    expect(tables.body.map((t: { name: string }) => t.name).sort()).toEqual(['customer_contacts', 'customers', 'orders']);
+
+    const listed = await server.request('GET', '/api/connections');
+    expect(listed.body).toEqual([expect.objectContaining({ name: 'shop', connected: true })]);
+  });
+
+  it('responde 404 para conexao desconhecida', async () => {
+    const response = await server.request('POST', '/api/connections/outra/connect');
+    expect(response.status).toBe(404);
+    expect(response.body.code).toBe('NOT_FOUND');
+  });
+});
+
+describe('consultas', () => {
+  beforeAll(() => {
+    // O executor nasce no primeiro chat (ws/chat-socket.ts); aqui a sessao ja chega pronta
+    const session = server.state.sessions.resolve(server.sessionId);
+    session.executor = new QueryExecutor(session.activeConnection!);
+  });
+
+  it('executa leituras e guarda no historico', async () => {
+    const response = await server.request('POST', '/api/query/execute', {
+      sql: 'SELECT status, count(*)::int AS n FROM orders GROUP BY status ORDER BY status',
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.rows).toEqual([
+      { status: 'cancelled', n: 1 },
+      { status: 'paid', n: 3 },
+    ]);
+
+    const history = await server.request('GET', '/api/query/history');
+    expect(history.body[0]).toMatchObject({ rowCount: 2 });
+  });
+
+  it('pagina resultados grandes com handle', async () => {
+    const first = await server.request('POST', '/api/query/execute', {
+      sql: 'SELECT id FROM orders ORDER BY id',
+      pageSize: 3,
+    });
+    expect(first.body.rows).toHaveLength(3);
+    expect(first.body.hasMore).toBe(true);
+
+    const next = await server.request('GET', `/api/query/results/${first.body.handle}?offset=3&limit=3`);
+    expect(next.body.rows).toEqual([{ id: 4 }]);
+
+    const released = await server.request('DELETE', `/api/query/results/${first.body.handle}`);
+    expect(released.status).toBe(200);
+  });
+
+  it('recusa escrita em modo somente leitura', async () => {
+    const response = await server.request('POST', '/api/query/execute', { sql: 'DELETE FROM orders' });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('Modo somente leitura');
+  });
+
+  it('aplica a politica de acesso salva na conexao', async () => {
+    const saved = await server.request('PUT', '/api/connections/shop/access', { deny: ['public.customers.email'] });
+    expect(saved.status).toBe(200);
+
+    const blocked = await server.request('POST', '/api/query/execute', { sql: 'SELECT email FROM customers' });
+    expect(blocked.status).toBe(400);
+    expect(blocked.body.error).toContain('politica de acesso');
+
+    const allowed = await server.request('POST', '/api/query/execute', { sql: 'SELECT name FROM customers ORDER BY id' });
+    expect(allowed.body.rowCount).toBe(3);
+  });
+
+  it('mascara colunas sensiveis tambem nas paginas que as exportacoes leem', async () => {
+    const first = await server.request('POST', '/api/query/execute', {
+      sql: 'SELECT id, name FROM customers ORDER BY id',
+      pageSize: 2,
+    });
+    expect(first.body.maskedColumns).toEqual({ name: 'name' });
+    expect(first.body.rows).toEqual([{ id: 1, name: 'A***' }, { id: 2, name: 'B***' }]);
+
+    const next = await server.request('GET', `/api/query/results/${first.body.handle}?offset=2&limit=2`);
+    expect(next.body.rows).toEqual([{ id: 3, name: 'C***' }]);
+
+    await server.request('DELETE', `/api/query/results/${first.body.handle}`);
+  });
+
+  it('devolve valores originais quando a conexao desliga o mascaramento', async () => {
+    const optedOut = await server.request('PUT', '/api/schema/sensitivity', { masking: { results: 'none' } });
+    expect(optedOut.body.policy).toEqual({ results: 'none', llm: 'redact' });
+
+    const response = await server.request('POST', '/api/query/execute', { sql: 'SELECT name FROM customers ORDER BY id LIMIT 1' });
+    expect(response.body.rows).toEqual([{ name: 'Ana' }]);
+    expect(response.body.maskedColumns).toEqual({});
+
+    await server.request('PUT', '/api/schema/sensitivity', { masking: { results: 'partial' } });
+  });
+
+  it('exige SQL', async () => {
+    const response = await server.request('POST', '/api/query/execute', {});
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe('VALIDATION_ERROR');
+  });
+});
+
+describe('sessao', () => {
+  it('trata cookie corrompido como sessao nova', async () => {
+    const response = await fetch(`${server.baseUrl}/api/query/history`, {
+      headers: { Cookie: 'agentdb_session=%E0%A4%A' },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('set-cookie')).toMatch(/^agentdb_session=[0-9a-f-]{36};/);
+  });
+});
+
+describe('uso', () => {
+  it('salva orcamentos e recusa valores invalidos', async () => {
+    const saved = await server.request('PUT', '/api/usage/budgets', { dailyTokens: 50000 });
+    expect(saved.body.budgets).toEqual({ dailyTokens: 50000 });
+
+    const invalid = await server.request('PUT', '/api/usage/budgets', { dailyTokens: -5 });
+    expect(invalid.status).toBe(400);
+
+    const report = await server.request('GET', '/api/usage?days=7');
+    expect(report.body.budgets).toEqual({ dailyTokens: 50000 });
+    expect(report.body.totals.total).toBe(0);
+  });
+});
@@ -0,0 +1,81 @@
+import { randomUUID } from 'crypto';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import { AnthropicAuth, ApiKeyAuth, LocalLLMAuth, OpenAIAuth, ReplayLLMAuth } from '@agentdb/core';
+import type { ServerState } from '../../src/index.js';
+import { createConnectionRoutes } from '../../src/routes/connections.js';
+import { createQueryRoutes } from '../../src/routes/query.js';
+import { createSchemaRoutes } from '../../src/routes/schema.js';
+import { createUsageRoutes } from '../../src/routes/usage.js';
+import { errorHandler } from '../../src/middleware/error-handler.js';
+import { SESSION_HEADER, createSessionMiddleware } from '../../src/middleware/session.js';
+import { setupChatSocket } from '../../src/ws/chat-socket.js';
+import { SessionManager } from '../../src/services/session-manager.js';
+
+export interface TestServer {
+  state: ServerState;
+  baseUrl: string;
+  sessionId: string; // sessao fixa, enviada no header em todas as chamadas
+  request(method: string, route: string, body?: unknown): Promise<{ status: number; body: any }>;
+  close(): Promise<void>;
+}
+
+/**
+ * Mesma montagem de src/index.ts, sem a deteccao de provider nem o listen fixo:
+ * o LLM e sempre a fixture informada.
+ */
+export async function startTestServer(fixtureFile?: string): Promise<TestServer> {
+  const replayAuth = new ReplayLLMAuth();
+  if (fixtureFile) replayAuth.load(fixtureFile);
+
+  const state: ServerState = {
+    auth: replayAuth,
+    openaiAuth: new OpenAIAuth(),
+    anthropicAuth: new AnthropicAuth(),
+    localAuth: new LocalLLMAuth(),
+    apiKeyAuth: new ApiKeyAuth(),
+    replayAuth,
+    provider: replayAuth.getProvider(),
+    isAuthenticated: replayAuth.isAuthenticated(),
+    accountId: replayAuth.getAccountId(),
+    pendingOAuth: null,
+    pendingAnthropicOAuth: null,
+    sessions: new SessionManager(),
+  };
+
+  const app = express();
+  app.use(express.json());
+  app.use(createSessionMiddleware(state.sessions));
+  app.use('/api/connections', createConnectionRoutes(state));
+  app.use('/api/schema', createSchemaRoutes(state));
+  app.use('/api/query', createQueryRoutes(state));
+  app.use('/api/usage', createUsageRoutes());
+  app.use(errorHandler);
+
+  const server: Server = createServer(app);
+  setupChatSocket(server, state);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const baseUrl = `http://127.0.0.1:${port}`;
+  const sessionId = randomUUID();
+
+  return {
+    state,
+    baseUrl,
+    sessionId,
+    async request(method, route, body) {
+      const response = await fetch(`${baseUrl}${route}`, {
+        method,
+        headers: { 'Content-Type': 'application/json', [SESSION_HEADER]: sessionId },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      return { status: response.status, body: await response.json() };
+    },
+    async close() {
+      await state.sessions.disconnect(state.sessions.resolve(sessionId));
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    },
+  };
+}
@@ -14,6 +14,8 @@ const OnboardingPage = lazy(() => import('./pages/OnboardingPage').then(m => ({
 const ScriptsPage = lazy(() => import('./pages/ScriptsPage').then(m => ({ default: m.ScriptsPage })));
 const QueryEditorPage = lazy(() => import('./pages/QueryEditorPage').then(m => ({ default: m.QueryEditorPage })));
 const TableDetailPage = lazy(() => import('./pages/TableDetailPage').then(m => ({ default: m.TableDetailPage })));
+const SchemaDiffPage = lazy(() => import('./pages/SchemaDiffPage').then(m => ({ default: m.SchemaDiffPage })));
+const SemanticLayerPage = lazy(() => import('./pages/SemanticLayerPage').then(m => ({ default: m.SemanticLayerPage })));
 
 function App() {
   const activePage = useAppStore((s) => s.activePage);
@@ -59,6 +61,8 @@ function App() {
               {activePage === 'scripts' && <ScriptsPage />}
               {activePage === 'query-editor' && <QueryEditorPage />}
               {activePage === 'table-detail' && <TableDetailPage />}
+              {activePage === 'schema-diff' && <SchemaDiffPage />}
+              {activePage === 'semantic' && <SemanticLayerPage />}
             </Suspense>
           )}
         </main>
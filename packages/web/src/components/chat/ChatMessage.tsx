@@ -1,12 +1,14 @@
 import { memo, useMemo } from 'react';
+import { Layers } from 'lucide-react';
 import { SQLBlock } from './SQLBlock';
 import { ResultTable } from './ResultTable';
 import { BotAvatar } from './BotAvatar';
-import type { ChatMessage as ChatMessageType } from '../../types';
+import type { ChatMessage as ChatMessageType, ResultPage } from '../../types';
 import { useAppStore } from '../../stores/app-store';
 
 interface ChatMessageProps {
   message: ChatMessageType;
+  loadResultPage?: (handle: string, offset: number, limit: number) => Promise<ResultPage>;
 }
 
 function AnthropicSpinner() {
@@ -92,7 +94,7 @@ function formatMarkdown(content: string): React.ReactNode[] {
   });
 }
 
-export const ChatMessage = memo(function ChatMessage({ message }: ChatMessageProps) {
+export const ChatMessage = memo(function ChatMessage({ message, loadResultPage }: ChatMessageProps) {
   const provider = useAppStore((s) => s.provider);
 
   const formattedContent = useMemo(() => {
@@ -112,6 +114,26 @@ export const ChatMessage = memo(function ChatMessage({ message }: ChatMessagePro
     );
   }
 
+  if (message.type === 'context' && message.context) {
+    const { detailed, namesOnly, omitted, estimatedTokens, tokenBudget, metrics } = message.context;
+    const others = namesOnly + omitted;
+    return (
+      <div
+        className="flex items-center gap-2 pl-11 text-[10px] text-text-muted"
+        title={detailed.join('\n')}
+      >
+        <Layers className="w-3 h-3 shrink-0" />
+        <span className="truncate">
+          Contexto: {detailed.length} tabela(s) detalhada(s)
+          {detailed.length > 0 && ` (${detailed.slice(0, 4).join(', ')}${detailed.length > 4 ? ', ...' : ''})`}
+          {others > 0 && ` · ${others} só pelo nome ou omitida(s)`}
+          {metrics.length > 0 && ` · métricas: ${metrics.join(', ')}`}
+          {` · ~${estimatedTokens.toLocaleString('pt-BR')}/${tokenBudget.toLocaleString('pt-BR')} tokens`}
+        </span>
+      </div>
+    );
+  }
+
   if (message.type === 'thinking' || message.type === 'executing') {
     const isAnthropic = provider === 'anthropic';
 
@@ -136,12 +158,12 @@ export const ChatMessage = memo(function ChatMessage({ message }: ChatMessagePro
     );
   }
 
-  if (message.type === 'sql') {
+  if (message.type === 'sql' || message.type === 'preview') {
     return (
       <div className="flex gap-3 max-w-4xl">
         <div className="shrink-0"><BotAvatar /></div>
         <div className="flex-1 min-w-0">
-          <SQLBlock sql={message.content || ''} />
+          <SQLBlock sql={message.content || ''} preview={message.preview} />
         </div>
       </div>
     );
@@ -152,7 +174,7 @@ export const ChatMessage = memo(function ChatMessage({ message }: ChatMessagePro
       <div className="flex gap-3 max-w-4xl">
         <div className="shrink-0"><BotAvatar /></div>
         <div className="flex-1 min-w-0">
-          <ResultTable data={message.data} />
+          <ResultTable data={message.data} loadPage={loadResultPage} />
         </div>
       </div>
     );
@@ -174,6 +196,9 @@ export const ChatMessage = memo(function ChatMessage({ message }: ChatMessagePro
       <div className="shrink-0"><BotAvatar /></div>
       <div className="flex-1 min-w-0 text-text-primary/90 leading-relaxed space-y-1">
         {formattedContent}
+        {message.streaming && (
+          <span className="inline-block w-1.5 h-4 align-middle bg-brand/70 animate-pulse" aria-label="Recebendo resposta" />
+        )}
       </div>
     </div>
   );
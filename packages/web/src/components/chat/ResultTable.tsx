@@ -1,20 +1,97 @@
+import { useEffect, useMemo, useState } from 'react';
 import { Table } from '../ui/Table';
-import { Clock, Rows3, Download, FileJson, FileSpreadsheet } from 'lucide-react';
-import type { QueryResult } from '../../types';
+import { Clock, Rows3, FileJson, FileSpreadsheet, ChevronLeft, ChevronRight, Lock } from 'lucide-react';
+import { api } from '../../lib/api';
+import type { QueryResult, ResultPage } from '../../types';
+
+const VIEW_SIZE = 10;
+const FETCH_SIZE = 100;
 
 interface ResultTableProps {
   data: QueryResult;
   compact?: boolean;
+  loadPage?: (handle: string, offset: number, limit: number) => Promise<ResultPage>;
+}
+
+// Bloco de linhas carregado do servidor; a tabela mostra uma janela de VIEW_SIZE dentro dele
+interface LoadedBlock {
+  offset: number;
+  rows: Record<string, unknown>[];
+  hasMore: boolean;
+  totalRows: number | null;
+}
+
+function blockFromResult(data: QueryResult): LoadedBlock {
+  return {
+    offset: data.offset ?? 0,
+    rows: data.rows,
+    hasMore: Boolean(data.hasMore && data.handle),
+    totalRows: data.totalRows ?? (data.hasMore ? null : data.rows.length),
+  };
 }
 
-export function ResultTable({ data, compact = true }: ResultTableProps) {
+export function ResultTable({ data, compact = true, loadPage = api.query.page }: ResultTableProps) {
+  const [block, setBlock] = useState<LoadedBlock>(() => blockFromResult(data));
+  const [viewOffset, setViewOffset] = useState(0);
+  const [loadingPage, setLoadingPage] = useState(false);
+  const [pageError, setPageError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setBlock(blockFromResult(data));
+    setViewOffset(0);
+    setPageError(null);
+  }, [data]);
+
   const columns = data.columns.map(col => ({
     key: col,
     label: col,
   }));
 
+  // Masking is applied server-side, so exports below carry the same masked values
+  const maskedColumns = Object.entries(data.maskedColumns ?? {});
+
+  const blockEnd = block.offset + block.rows.length;
+  const visibleRows = useMemo(
+    () => block.rows.slice(viewOffset - block.offset, viewOffset - block.offset + VIEW_SIZE),
+    [block, viewOffset]
+  );
+  const canPrev = viewOffset > 0;
+  const canNext = viewOffset + VIEW_SIZE < blockEnd || block.hasMore;
+  const isPaged = canPrev || canNext;
+  const totalLabel = block.totalRows !== null ? block.totalRows.toLocaleString('pt-BR') : `${blockEnd.toLocaleString('pt-BR')}+`;
+
+  const goTo = async (offset: number) => {
+    const target = Math.max(0, offset);
+    const fitsInBlock =
+      target >= block.offset &&
+      target < blockEnd &&
+      (target + VIEW_SIZE <= blockEnd || !block.hasMore);
+
+    if (fitsInBlock || !data.handle) {
+      setViewOffset(target);
+      return;
+    }
+
+    setLoadingPage(true);
+    setPageError(null);
+    try {
+      const page = await loadPage(data.handle, target, FETCH_SIZE);
+      setBlock({
+        offset: page.offset,
+        rows: page.rows,
+        hasMore: page.hasMore,
+        totalRows: page.totalRows ?? block.totalRows,
+      });
+      setViewOffset(page.offset);
+    } catch (err) {
+      setPageError(err instanceof Error ? err.message : 'Erro ao carregar pagina');
+    } finally {
+      setLoadingPage(false);
+    }
+  };
+
   const handleExportJSON = () => {
-    const json = JSON.stringify(data.rows, null, 2);
+    const json = JSON.stringify(block.rows, null, 2);
     const blob = new Blob([json], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -26,7 +103,7 @@ export function ResultTable({ data, compact = true }: ResultTableProps) {
 
   const handleExportCSV = () => {
     const headers = data.columns.join(',');
-    const rows = data.rows.map(row =>
+    const rows = block.rows.map(row =>
       data.columns.map(col => {
         const val = row[col];
         if (val === null || val === undefined) return '';
@@ -54,7 +131,7 @@ export function ResultTable({ data, compact = true }: ResultTableProps) {
               <Rows3 className="w-3 h-3 text-indigo-400" />
             </div>
             <span className="text-[10px] font-black tracking-widest text-text-primary uppercase">
-              {data.rowCount} <span className="text-text-muted">REGISTROS</span>
+              {totalLabel} <span className="text-text-muted">REGISTROS</span>
             </span>
           </div>
           
@@ -68,6 +145,23 @@ export function ResultTable({ data, compact = true }: ResultTableProps) {
               {data.duration} <span className="text-text-muted">MS</span>
             </span>
           </div>
+
+          {maskedColumns.length > 0 && (
+            <>
+              <div className="w-px h-3 bg-white/10" />
+              <div
+                className="flex items-center gap-2.5"
+                title={`Colunas mascaradas (inclusive nas exportações): ${maskedColumns.map(([col, tag]) => `${col} (${tag})`).join(', ')}`}
+              >
+                <div className="w-5 h-5 rounded-lg bg-amber-500/10 flex items-center justify-center">
+                  <Lock className="w-3 h-3 text-amber-400" />
+                </div>
+                <span className="text-[10px] font-black tracking-widest text-text-primary uppercase">
+                  {maskedColumns.length} <span className="text-text-muted">MASCARADAS</span>
+                </span>
+              </div>
+            </>
+          )}
         </div>
 
         <div className="flex items-center gap-2">
@@ -90,10 +184,35 @@ export function ResultTable({ data, compact = true }: ResultTableProps) {
 
       <Table
         columns={columns}
-        data={data.rows}
+        data={visibleRows}
         compact={compact}
-        maxRows={10}
       />
+
+      {isPaged && (
+        <div className="flex items-center justify-between px-6 py-3">
+          <span className="text-[10px] font-black tracking-widest text-text-muted uppercase">
+            {pageError ?? `${(viewOffset + 1).toLocaleString('pt-BR')}–${(viewOffset + visibleRows.length).toLocaleString('pt-BR')} de ${totalLabel}`}
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => goTo(viewOffset - VIEW_SIZE)}
+              disabled={!canPrev || loadingPage}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-xl text-[9px] font-black tracking-widest text-text-muted hover:text-brand hover:bg-brand/10 transition-all cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed uppercase"
+            >
+              <ChevronLeft className="w-3 h-3" />
+              Anterior
+            </button>
+            <button
+              onClick={() => goTo(viewOffset + VIEW_SIZE)}
+              disabled={!canNext || loadingPage}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-xl text-[9px] font-black tracking-widest text-text-muted hover:text-brand hover:bg-brand/10 transition-all cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed uppercase"
+            >
+              {loadingPage ? 'Carregando...' : 'Próxima'}
+              <ChevronRight className="w-3 h-3" />
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,10 +1,12 @@
 import { useState, useMemo, useCallback, memo } from 'react';
-import { Copy, Play, Check, Code2, Sparkles } from 'lucide-react';
+import { Copy, Play, Check, Code2, Sparkles, GitCompare } from 'lucide-react';
 import { api } from '../../lib/api';
+import type { PreviewStatement, WritePreview } from '../../types';
 
 interface SQLBlockProps {
   sql: string;
   executed?: boolean;
+  preview?: WritePreview;
   onResult?: (data: any) => void;
 }
 
@@ -69,10 +71,88 @@ function highlightSQL(sql: string): React.ReactNode[] {
   });
 }
 
-export const SQLBlock = memo(function SQLBlock({ sql, executed = false, onResult }: SQLBlockProps) {
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+const PreviewDiff = memo(function PreviewDiff({ statement }: { statement: PreviewStatement }) {
+  const isUpdate = statement.command === 'UPDATE' && statement.before.length > 0;
+
+  // Em UPDATE mostra as chaves e apenas as colunas que mudam
+  const columns = useMemo(() => {
+    if (!isUpdate) return statement.columns;
+    const changed = statement.columns.filter((col) =>
+      statement.after.some((row, i) => formatCell(row[col]) !== formatCell(statement.before[i][col]))
+    );
+    return [...statement.keyColumns, ...changed.filter((c) => !statement.keyColumns.includes(c))];
+  }, [isUpdate, statement]);
+
+  const rows = statement.command === 'DELETE' ? statement.before : statement.after;
+
+  return (
+    <div className="space-y-2">
+      <div className="text-[11px] font-bold text-text-secondary">
+        {statement.command}
+        {statement.relation && <span className="font-mono text-text-muted"> {statement.relation}</span>}
+        <span className="text-amber-300"> — {statement.rowsAffected} linha{statement.rowsAffected !== 1 ? 's' : ''} seriam afetadas</span>
+      </div>
+      {rows.length > 0 && columns.length > 0 && (
+        <div className="overflow-x-auto custom-scrollbar rounded-xl border border-white/5">
+          <table className="w-full text-[12px] font-mono">
+            <thead>
+              <tr className="bg-white/[0.03]">
+                {columns.map((col) => (
+                  <th key={col} className="px-3 py-1.5 text-left font-bold text-text-muted whitespace-nowrap">{col}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, i) => (
+                <tr key={i} className="border-t border-white/5">
+                  {columns.map((col) => {
+                    const after = formatCell(row[col]);
+                    const before = isUpdate ? formatCell(statement.before[i][col]) : after;
+                    if (before !== after) {
+                      return (
+                        <td key={col} className="px-3 py-1.5 whitespace-nowrap">
+                          <span className="text-red-300/80 line-through">{before}</span>
+                          <span className="text-text-muted"> → </span>
+                          <span className="text-emerald-300">{after}</span>
+                        </td>
+                      );
+                    }
+                    return (
+                      <td
+                        key={col}
+                        className={`px-3 py-1.5 whitespace-nowrap ${
+                          statement.command === 'DELETE'
+                            ? 'text-red-300/80'
+                            : statement.command === 'INSERT'
+                              ? 'text-emerald-300'
+                              : 'text-text-primary/80'
+                        }`}
+                      >
+                        {after}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+});
+
+export const SQLBlock = memo(function SQLBlock({ sql, executed = false, preview, onResult }: SQLBlockProps) {
   const [copied, setCopied] = useState(false);
   const [executing, setExecuting] = useState(false);
   const [wasExecuted, setWasExecuted] = useState(executed);
+  const [executedRows, setExecutedRows] = useState<number | null>(null);
 
   // Memoize the highlight output — only recompute when SQL changes
   const highlighted = useMemo(() => highlightSQL(sql), [sql]);
@@ -88,6 +168,7 @@ export const SQLBlock = memo(function SQLBlock({ sql, executed = false, onResult
     try {
       const result = await api.query.execute(sql);
       setWasExecuted(true);
+      setExecutedRows(result.rowCount);
       onResult?.(result);
     } catch (error) {
       console.error('Execute error:', error);
@@ -134,7 +215,7 @@ export const SQLBlock = memo(function SQLBlock({ sql, executed = false, onResult
           {wasExecuted && (
             <div className="flex items-center gap-2 px-3 py-1.5 rounded-xl bg-emerald-400/10 border border-emerald-400/20 text-[9px] font-black text-emerald-400 tracking-widest">
               <Sparkles className="w-3.5 h-3.5" />
-              EXECUTADO
+              EXECUTADO{executedRows !== null && preview ? ` • ${executedRows} LINHAS` : ''}
             </div>
           )}
         </div>
@@ -146,6 +227,23 @@ export const SQLBlock = memo(function SQLBlock({ sql, executed = false, onResult
           <code className="block min-w-max">{highlighted}</code>
         </pre>
       </div>
+
+      {/* Preview (transacao revertida) */}
+      {preview && (
+        <div className="px-5 py-4 border-t border-white/5 bg-amber-400/[0.03] space-y-4">
+          <div className="flex items-center gap-2">
+            <GitCompare className="w-3.5 h-3.5 text-amber-300" />
+            <span className="text-[10px] font-black tracking-[0.2em] text-amber-300 uppercase">
+              Preview — nada foi gravado
+            </span>
+          </div>
+          {preview.error ? (
+            <div className="text-xs text-red-300">{preview.error}</div>
+          ) : (
+            preview.statements.map((statement, i) => <PreviewDiff key={i} statement={statement} />)
+          )}
+        </div>
+      )}
     </div>
   );
 });
@@ -1,11 +1,12 @@
 import { useState, useEffect, useRef, memo, useCallback } from 'react';
-import { Database, Lock, LockOpen, User, LogOut, GitFork, ChevronDown } from 'lucide-react';
+import { Database, Lock, LockOpen, User, LogOut, GitFork, ChevronDown, Cpu } from 'lucide-react';
 import { useAppStore } from '../../stores/app-store';
 import { api } from '../../lib/api';
 import { OpenAIIcon } from '../icons/OpenAIIcon';
 import { AnthropicIcon } from '../icons/AnthropicIcon';
+import { UsagePanel } from './UsagePanel';
 
-type ProviderId = 'openai' | 'anthropic';
+type ProviderId = 'openai' | 'anthropic' | 'ollama';
 
 const MODEL_OPTIONS_FALLBACK: Record<ProviderId, { label: string; value: string }[]> = {
   anthropic: [
@@ -17,6 +18,8 @@ const MODEL_OPTIONS_FALLBACK: Record<ProviderId, { label: string; value: string
     { label: 'GPT-5 Codex', value: 'gpt-5-codex' },
     { label: 'GPT-5', value: 'gpt-5' },
   ],
+  // Local models always come from the server (/api/tags or /v1/models)
+  ollama: [],
 };
 
 const MODEL_LABELS: Record<string, string> = Object.values(MODEL_OPTIONS_FALLBACK).flat()
@@ -124,6 +127,8 @@ export const Header = memo(function Header({ onOpenGraph, onLogin }: HeaderProps
             <OpenAIIcon className="w-4 h-4 text-white" />
           ) : provider === 'anthropic' ? (
             <AnthropicIcon className="w-4 h-4 text-white" />
+          ) : provider === 'ollama' ? (
+            <Cpu className="w-4 h-4 text-white" />
           ) : (
             <Database className="w-4 h-4 text-white" />
           )}
@@ -161,6 +166,8 @@ export const Header = memo(function Header({ onOpenGraph, onLogin }: HeaderProps
       </div>
 
       <div className="flex items-center gap-3 ml-auto">
+        {isAuthenticated && <UsagePanel />}
+
         {isAuthenticated && availableModels.length > 0 && (
           <div className="relative" ref={dropdownRef}>
             <button
@@ -2,16 +2,18 @@ import { useState, useEffect, useMemo, useCallback, memo } from 'react';
 import {
   PlugZap, TableProperties, History, ChevronLeft, ChevronRight,
   Plus, Plug, Trash2, Table2, Eye, Search, Play, Copy,
-  Loader2, FileCode2, MessageSquare, FolderOpen,
+  Loader2, FileCode2, MessageSquare, FolderOpen, MessagesSquare, Pencil, Check, X,
+  RefreshCw, GitCompare, SquareFunction, Puzzle, BookOpen,
 } from 'lucide-react';
 import { useAppStore, type SidebarTab } from '../../stores/app-store';
 import { api } from '../../lib/api';
 import { ConnectionModal } from '../modals/ConnectionModal';
-import type { QueryHistoryEntry, TableSummary, SqlScript } from '../../types';
+import type { QueryHistoryEntry, TableSummary, SqlScript, ConversationSummary, RoutineInfo } from '../../types';
 
 const tabs: { id: SidebarTab; icon: React.ReactNode; label: string }[] = [
   { id: 'connections', icon: <PlugZap className="w-5 h-5" />, label: 'Conexões' },
   { id: 'schema', icon: <TableProperties className="w-5 h-5" />, label: 'Schema' },
+  { id: 'conversations', icon: <MessagesSquare className="w-5 h-5" />, label: 'Conversas' },
   { id: 'history', icon: <History className="w-5 h-5" />, label: 'Histórico' },
   { id: 'scripts', icon: <FileCode2 className="w-5 h-5" />, label: 'Scripts' },
 ];
@@ -40,6 +42,7 @@ export function Sidebar() {
   const [showAddModal, setShowAddModal] = useState(false);
   const [connectingName, setConnectingName] = useState<string | null>(null);
   const [schemaSearch, setSchemaSearch] = useState('');
+  const [refreshingSchema, setRefreshingSchema] = useState(false);
   const [history, setHistory] = useState<QueryHistoryEntry[]>([]);
   const [scriptsList, setScriptsList] = useState<SqlScript[]>([]);
 
@@ -91,6 +94,22 @@ export function Sidebar() {
     }
   }, [setConnectionStatus, setActiveConnection, setDbInfo, setIsLoadingSchema, setSchemaMap, setSidebarTab]);
 
+  // Incremental refresh: the server only re-reads tables whose DDL changed
+  const handleRefreshSchema = useCallback(async () => {
+    setRefreshingSchema(true);
+    try {
+      const result = await api.schema.refresh();
+      const schema = await api.schema.full();
+      setSchemaMap(schema);
+      const info = useAppStore.getState().dbInfo;
+      if (info) setDbInfo({ ...info, tableCount: result.tableCount });
+    } catch (error) {
+      console.error('Schema refresh error:', error);
+    } finally {
+      setRefreshingSchema(false);
+    }
+  }, [setSchemaMap, setDbInfo]);
+
   const handleDeleteConnection = useCallback(async (name: string) => {
     try {
       await api.connections.remove(name);
@@ -112,8 +131,11 @@ export function Sidebar() {
         );
       const tablesOnly = schemaTables.filter(t => t.type === 'table');
       const viewsOnly = schemaTables.filter(t => t.type === 'view');
-      return { schema, tables: tablesOnly, views: viewsOnly };
-    }).filter(g => g.tables.length > 0 || g.views.length > 0);
+      const routines = schemaMap.routines
+        .filter(r => r.schema === schema)
+        .filter(r => !schemaSearch || r.name.toLowerCase().includes(searchLower));
+      return { schema, tables: tablesOnly, views: viewsOnly, routines };
+    }).filter(g => g.tables.length > 0 || g.views.length > 0 || g.routines.length > 0);
   }, [schemaMap, schemaSearch]);
 
   const handleTabClick = useCallback((tabId: SidebarTab) => {
@@ -263,8 +285,8 @@ export function Sidebar() {
             {/* ─── Schema Tab ─── */}
             {sidebarTab === 'schema' && (
               <div className="flex flex-col h-full">
-                <div className="px-4 py-4 border-b border-white/5">
-                  <div className="relative group">
+                <div className="px-4 py-4 border-b border-white/5 flex items-center gap-2">
+                  <div className="relative group flex-1">
                     <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-text-muted group-focus-within:text-brand transition-colors" />
                     <input
                       placeholder="Buscar tabelas..."
@@ -273,6 +295,30 @@ export function Sidebar() {
                       className="w-full bg-white/5 border border-white/5 focus:border-brand/40 focus:ring-1 focus:ring-brand/20 rounded-xl pl-9 pr-4 py-2 text-[11px] text-text-primary placeholder:text-text-muted outline-none transition-colors duration-200 focus-glow"
                     />
                   </div>
+                  {connectionStatus === 'connected' && (
+                    <button
+                      onClick={handleRefreshSchema}
+                      disabled={refreshingSchema}
+                      title="Atualizar schema"
+                      className="p-2 rounded-lg text-text-muted hover:text-brand hover:bg-white/5 transition-colors disabled:opacity-50"
+                    >
+                      <RefreshCw className={`w-3.5 h-3.5 ${refreshingSchema ? 'animate-spin' : ''}`} />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setActivePage('schema-diff')}
+                    title="Comparar schemas"
+                    className="p-2 rounded-lg text-text-muted hover:text-brand hover:bg-white/5 transition-colors"
+                  >
+                    <GitCompare className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => setActivePage('semantic')}
+                    title="Glossário e métricas"
+                    className="p-2 rounded-lg text-text-muted hover:text-brand hover:bg-white/5 transition-colors"
+                  >
+                    <BookOpen className="w-3.5 h-3.5" />
+                  </button>
                 </div>
 
                 <div className="flex-1 overflow-y-auto py-2 px-1 custom-scrollbar">
@@ -287,14 +333,32 @@ export function Sidebar() {
                         schema={group.schema}
                         tables={group.tables}
                         views={group.views}
+                        routines={group.routines}
                         onSelectTable={selectTable}
                       />
                     ))
                   )}
+                  {connectionStatus === 'connected' && schemaMap && schemaMap.extensions.length > 0 && (
+                    <div className="px-5 pt-4 pb-2 space-y-1.5">
+                      <span className="text-[10px] font-bold text-text-muted uppercase tracking-wider">Extensões</span>
+                      {schemaMap.extensions.map(ext => (
+                        <div key={ext.name} className="flex items-center gap-2.5 text-[11px] text-text-secondary" title={`schema ${ext.schema}`}>
+                          <Puzzle className="w-3.5 h-3.5 text-text-muted shrink-0" />
+                          <span className="truncate font-medium">{ext.name}</span>
+                          <span className="ml-auto text-[9px] text-text-muted font-mono">{ext.version}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
             )}
 
+            {/* ─── Conversations Tab ─── */}
+            {sidebarTab === 'conversations' && (
+              <ConversationsTab connectionName={activeConnection?.name ?? null} />
+            )}
+
             {/* ─── History Tab ─── */}
             {sidebarTab === 'history' && (
               <HistoryTab history={history} setHistory={setHistory} />
@@ -317,6 +381,197 @@ export function Sidebar() {
   );
 }
 
+// ─── Conversations Tab (memoized) ───
+const ConversationsTab = memo(function ConversationsTab({
+  connectionName,
+}: {
+  connectionName: string | null;
+}) {
+  const activeConversationId = useAppStore((s) => s.activeConversationId);
+  const setPendingConversation = useAppStore((s) => s.setPendingConversation);
+  const setActivePage = useAppStore((s) => s.setActivePage);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [openingId, setOpeningId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  // Reload when the connection changes or the chat starts a new conversation
+  useEffect(() => {
+    api.conversations.list(!connectionName).then(setConversations).catch(console.error);
+  }, [connectionName, activeConversationId]);
+
+  const handleOpen = useCallback(async (id: string) => {
+    setOpeningId(id);
+    setError('');
+    try {
+      const conversation = await api.conversations.open(id);
+      setPendingConversation(conversation);
+      setActivePage('chat');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao abrir conversa');
+    } finally {
+      setOpeningId(null);
+    }
+  }, [setPendingConversation, setActivePage]);
+
+  const handleRename = useCallback(async (id: string, title: string) => {
+    try {
+      const updated = await api.conversations.rename(id, title);
+      setConversations((prev) => prev.map((c) => (c.id === id ? { ...c, title: updated.title } : c)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao renomear conversa');
+    }
+  }, []);
+
+  const handleDelete = useCallback(async (id: string) => {
+    try {
+      await api.conversations.remove(id);
+      setConversations((prev) => prev.filter((c) => c.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao excluir conversa');
+    }
+  }, []);
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center justify-between px-4 py-4 border-b border-white/5">
+        <span className="text-[10px] font-black text-text-muted uppercase tracking-[0.2em]">
+          Conversas
+        </span>
+        {connectionName && (
+          <span className="text-[9px] font-bold text-text-muted truncate max-w-[120px]">{connectionName}</span>
+        )}
+      </div>
+
+      {error && (
+        <div className="mx-3 mt-3 p-2 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400 text-[10px]">
+          {error}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto py-3 px-2 space-y-1.5">
+        {conversations.length === 0 ? (
+          <div className="px-4 py-12 text-center text-text-muted text-[11px] italic">
+            Nenhuma conversa salva.
+          </div>
+        ) : (
+          conversations.map((conversation) => (
+            <ConversationItem
+              key={conversation.id}
+              conversation={conversation}
+              isActive={conversation.id === activeConversationId}
+              isOpening={conversation.id === openingId}
+              onOpen={handleOpen}
+              onRename={handleRename}
+              onDelete={handleDelete}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+});
+
+const ConversationItem = memo(function ConversationItem({
+  conversation,
+  isActive,
+  isOpening,
+  onOpen,
+  onRename,
+  onDelete,
+}: {
+  conversation: ConversationSummary;
+  isActive: boolean;
+  isOpening: boolean;
+  onOpen: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [title, setTitle] = useState(conversation.title);
+
+  const handleSave = useCallback(() => {
+    setEditing(false);
+    if (title.trim() && title.trim() !== conversation.title) {
+      onRename(conversation.id, title.trim());
+    } else {
+      setTitle(conversation.title);
+    }
+  }, [title, conversation.id, conversation.title, onRename]);
+
+  const handleCancel = useCallback(() => {
+    setEditing(false);
+    setTitle(conversation.title);
+  }, [conversation.title]);
+
+  return (
+    <div
+      onClick={() => !editing && !isOpening && onOpen(conversation.id)}
+      className={`
+        group p-3 rounded-2xl border transition-colors duration-200 cursor-pointer
+        ${isActive
+          ? 'bg-gradient-brand-subtle border-brand/20'
+          : 'bg-white/[0.02] border-white/5 hover:bg-white/[0.05] hover:border-white/10'}
+      `}
+    >
+      {editing ? (
+        <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+          <input
+            autoFocus
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSave();
+              if (e.key === 'Escape') handleCancel();
+            }}
+            className="flex-1 min-w-0 bg-white/5 border border-white/10 focus:border-brand/40 rounded-lg px-2 py-1 text-[11px] text-text-primary outline-none"
+          />
+          <button onClick={handleSave} className="p-1 rounded-lg text-text-muted hover:text-emerald-400 cursor-pointer">
+            <Check className="w-3 h-3" />
+          </button>
+          <button onClick={handleCancel} className="p-1 rounded-lg text-text-muted hover:text-red-400 cursor-pointer">
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          <div className="flex-1 min-w-0 text-xs font-bold text-text-primary truncate">{conversation.title}</div>
+          {isOpening ? (
+            <Loader2 className="w-3.5 h-3.5 animate-spin text-brand shrink-0" />
+          ) : (
+            <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
+              <button
+                onClick={(e) => { e.stopPropagation(); setEditing(true); }}
+                className="p-1 rounded-lg text-text-muted hover:text-brand hover:bg-brand/10 cursor-pointer"
+                title="Renomear"
+              >
+                <Pencil className="w-3 h-3" />
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); onDelete(conversation.id); }}
+                className="p-1 rounded-lg text-text-muted hover:text-red-400 hover:bg-red-500/10 cursor-pointer"
+                title="Excluir"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+      <div className="flex items-center gap-2 mt-1.5 text-[9px] font-bold text-text-muted tracking-tight">
+        <span>{new Date(conversation.updatedAt).toLocaleString('pt-BR')}</span>
+        <span>•</span>
+        <span>{conversation.messageCount} MSG</span>
+        {conversation.tokensUsed.total > 0 && (
+          <>
+            <span>•</span>
+            <span>{conversation.tokensUsed.total.toLocaleString('pt-BR')} TOKENS</span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+});
+
 // ─── History Tab (memoized) ───
 const HistoryTab = memo(function HistoryTab({
   history,
@@ -447,14 +702,16 @@ const ScriptsTab = memo(function ScriptsTab({
 // ─── Schema Tree Group (memoized) ───
 
 const SchemaGroup = memo(function SchemaGroup({
-  schema, tables, views, onSelectTable,
+  schema, tables, views, routines, onSelectTable,
 }: {
   schema: string;
   tables: any[];
   views: any[];
+  routines: RoutineInfo[];
   onSelectTable: (schema: string, name: string) => void;
 }) {
   const [expanded, setExpanded] = useState(true);
+  const [routinesExpanded, setRoutinesExpanded] = useState(false);
 
   const handleToggle = useCallback(() => {
     setExpanded(prev => !prev);
@@ -475,7 +732,7 @@ const SchemaGroup = memo(function SchemaGroup({
         <FolderOpen className={`w-3.5 h-3.5 ${expanded ? 'text-amber-400' : 'text-text-muted'}`} />
         <span className="truncate uppercase tracking-wider">{schema}</span>
         <span className="text-[10px] text-text-muted ml-auto px-1.5 py-0.5 rounded-full bg-black/40 border border-white/5">
-          {tables.length + views.length}
+          {tables.length + views.length + routines.length}
         </span>
       </button>
 
@@ -487,6 +744,28 @@ const SchemaGroup = memo(function SchemaGroup({
           {views.map(v => (
             <SchemaTableItem key={v.name} schema={schema} table={v} onSelect={onSelectTable} type="view" />
           ))}
+          {routines.length > 0 && (
+            <button
+              onClick={() => setRoutinesExpanded(prev => !prev)}
+              className="flex items-center gap-3 w-full px-3 py-2 rounded-xl text-xs text-text-muted hover:text-text-primary hover:bg-white/[0.03] transition-colors duration-200 cursor-pointer"
+            >
+              <SquareFunction className="w-3.5 h-3.5 shrink-0" />
+              <span className="truncate font-medium">Funções</span>
+              <span className="ml-auto text-[9px] font-bold opacity-60">{routines.length}</span>
+            </button>
+          )}
+          {routinesExpanded && routines.map(r => (
+            <div
+              key={`${r.name}(${r.arguments})`}
+              title={`${r.name}(${r.arguments})${r.returnType ? ` → ${r.returnType}` : ''}\n${r.language}, ${r.volatility}${r.comment ? `\n${r.comment}` : ''}`}
+              className="flex items-center gap-3 w-full pl-8 pr-3 py-1.5 text-[11px] text-text-secondary"
+            >
+              <span className="truncate font-mono">{r.name}({r.arguments})</span>
+              {r.returnType && (
+                <span className="ml-auto text-[9px] text-text-muted font-mono truncate max-w-[40%] shrink-0">{r.returnType}</span>
+              )}
+            </div>
+          ))}
         </div>
       )}
     </div>
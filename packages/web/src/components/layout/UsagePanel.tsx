@@ -0,0 +1,202 @@
+import { useState, useEffect, useRef, memo, useCallback, type ReactNode } from 'react';
+import { Coins, ChevronDown } from 'lucide-react';
+import { api } from '../../lib/api';
+import type { UsageBudgets, UsageReport, UsageTotals } from '../../types';
+
+const REFRESH_INTERVAL_MS = 60_000;
+const VISIBLE_DAYS = 7;
+
+const BUDGET_FIELDS: { key: keyof UsageBudgets; label: string; step: string }[] = [
+  { key: 'runTokens', label: 'Tokens por pergunta', step: '1000' },
+  { key: 'conversationTokens', label: 'Tokens por conversa', step: '1000' },
+  { key: 'dailyTokens', label: 'Tokens por dia', step: '1000' },
+  { key: 'dailyCostUsd', label: 'US$ por dia', step: '0.5' },
+];
+
+function formatTokens(value: number): string {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}k`;
+  return String(value);
+}
+
+function formatCost(totals: UsageTotals): string {
+  const cost = `US$ ${totals.costUsd.toFixed(totals.costUsd < 1 ? 4 : 2)}`;
+  return totals.unpricedCalls > 0 ? `${cost}*` : cost;
+}
+
+function toDraft(budgets: UsageBudgets): Record<keyof UsageBudgets, string> {
+  return {
+    runTokens: budgets.runTokens?.toString() ?? '',
+    conversationTokens: budgets.conversationTokens?.toString() ?? '',
+    dailyTokens: budgets.dailyTokens?.toString() ?? '',
+    dailyCostUsd: budgets.dailyCostUsd?.toString() ?? '',
+  };
+}
+
+function UsageRow({ label, totals }: { label: string; totals: UsageTotals }) {
+  return (
+    <div className="flex items-center justify-between gap-3 px-3 py-1 text-xs">
+      <span className="text-text-secondary truncate" title={label}>{label}</span>
+      <span className="shrink-0 font-mono text-text-primary">
+        {formatTokens(totals.total)} <span className="text-text-muted">· {formatCost(totals)}</span>
+      </span>
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="py-1.5 border-t border-white/5 first:border-t-0">
+      <div className="px-3 py-1">
+        <span className="text-[9px] font-black text-text-muted uppercase tracking-widest">{title}</span>
+      </div>
+      {children}
+    </div>
+  );
+}
+
+export const UsagePanel = memo(function UsagePanel() {
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<Record<keyof UsageBudgets, string>>(toDraft({}));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  const refresh = useCallback(() => {
+    api.usage.get()
+      .then((res) => setReport(res))
+      .catch(() => {
+        // Usage is informative only; keep the last report on failure
+      });
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const timer = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!open) return;
+    refresh();
+    const handleClick = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open, refresh]);
+
+  // Reset the budget form only when the panel opens, not on every refresh
+  const handleToggle = useCallback(() => {
+    if (!open && report) {
+      setDraft(toDraft(report.budgets));
+      setError(null);
+    }
+    setOpen((v) => !v);
+  }, [open, report]);
+
+  const handleSaveBudgets = useCallback(async () => {
+    const budgets: UsageBudgets = {};
+    for (const { key } of BUDGET_FIELDS) {
+      const value = draft[key].trim();
+      if (value) budgets[key] = Number(value);
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await api.usage.setBudgets(budgets);
+      setReport((current) => (current ? { ...current, budgets: res.budgets } : current));
+      setDraft(toDraft(res.budgets));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao salvar orçamentos');
+    } finally {
+      setSaving(false);
+    }
+  }, [draft]);
+
+  if (!report) return null;
+
+  const recentDays = report.byDay.slice(-VISIBLE_DAYS).reverse();
+  const hasUnpriced = report.totals.unpricedCalls > 0;
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <button
+        onClick={handleToggle}
+        title="Uso de tokens hoje"
+        className="flex items-center gap-2 px-3 py-1.5 rounded-xl text-[11px] font-bold tracking-wider uppercase transition-colors duration-200 cursor-pointer border bg-[#09090b] text-white border-white/10 hover:bg-[#18181b] hover:border-white/30"
+      >
+        <Coins className="w-3.5 h-3.5" />
+        {formatTokens(report.today.total)}
+        <span className="text-text-muted font-semibold normal-case">{formatCost(report.today)}</span>
+        <ChevronDown className={`w-3 h-3 transition-transform duration-200 ${open ? 'rotate-180' : ''}`} />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-3 w-80 max-h-[70vh] overflow-y-auto bg-[#09090b] rounded-xl shadow-2xl z-50 py-2 animate-fadeIn border border-white/10">
+          <Section title={`Últimos ${report.days} dias`}>
+            <UsageRow label="Hoje" totals={report.today} />
+            <UsageRow label="Total" totals={report.totals} />
+          </Section>
+
+          {recentDays.length > 0 && (
+            <Section title="Por dia">
+              {recentDays.map((item) => <UsageRow key={item.day} label={item.day} totals={item} />)}
+            </Section>
+          )}
+
+          {report.byModel.length > 0 && (
+            <Section title="Por modelo">
+              {report.byModel.map((item) => <UsageRow key={item.model} label={item.model} totals={item} />)}
+            </Section>
+          )}
+
+          {report.byConnection.length > 0 && (
+            <Section title="Por conexão">
+              {report.byConnection.map((item) => (
+                <UsageRow key={item.connection} label={item.connection} totals={item} />
+              ))}
+            </Section>
+          )}
+
+          <Section title="Orçamentos">
+            <div className="grid grid-cols-2 gap-2 px-3 py-1">
+              {BUDGET_FIELDS.map(({ key, label, step }) => (
+                <label key={key} className="flex flex-col gap-1">
+                  <span className="text-[10px] text-text-muted">{label}</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step={step}
+                    value={draft[key]}
+                    placeholder="sem limite"
+                    onChange={(e) => setDraft((current) => ({ ...current, [key]: e.target.value }))}
+                    className="w-full bg-white/[0.03] border border-white/10 rounded-lg px-2 py-1 text-xs text-text-primary placeholder:text-text-muted/50 focus:outline-none focus:border-white/30"
+                  />
+                </label>
+              ))}
+            </div>
+            {error && <p className="px-3 pt-1 text-[11px] text-red-400">{error}</p>}
+            <div className="flex justify-end px-3 pt-2">
+              <button
+                onClick={handleSaveBudgets}
+                disabled={saving}
+                className="px-3 py-1 rounded-lg text-[11px] font-bold bg-white text-black hover:bg-gray-200 transition-colors cursor-pointer disabled:opacity-50"
+              >
+                {saving ? 'Salvando...' : 'Salvar'}
+              </button>
+            </div>
+          </Section>
+
+          {hasUnpriced && (
+            <p className="px-3 pt-1 text-[10px] text-text-muted">* inclui modelos sem preço na tabela (custo não somado)</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Database, Lock, Key, ClipboardPaste } from 'lucide-react';
+import { Database, Lock, Key, ClipboardPaste, Cpu, Server } from 'lucide-react';
 import { Modal, Button, Input } from '../ui';
 import { api } from '../../lib/api';
 import { useAppStore } from '../../stores/app-store';
@@ -9,10 +9,10 @@ interface AuthModalProps {
   onClose: () => void;
 }
 
-type ProviderTab = 'openai' | 'anthropic';
+type ProviderTab = 'openai' | 'anthropic' | 'local';
 
 export function AuthModal({ isOpen, onClose }: AuthModalProps) {
-  const { setAuthenticated } = useAppStore();
+  const { setAuthenticated, setModel } = useAppStore();
   const [provider, setProvider] = useState<ProviderTab>('anthropic');
   const [showApiKey, setShowApiKey] = useState(false);
   const [apiKey, setApiKey] = useState('');
@@ -23,6 +23,13 @@ export function AuthModal({ isOpen, onClose }: AuthModalProps) {
   const [anthropicStep, setAnthropicStep] = useState<'login' | 'paste'>('login');
   const [anthropicCode, setAnthropicCode] = useState('');
 
+  // Local provider state (Ollama / OpenAI-compatible)
+  const [localUrl, setLocalUrl] = useState('http://localhost:11434');
+  const [localApi, setLocalApi] = useState<'ollama' | 'openai'>('ollama');
+  const [localKey, setLocalKey] = useState('');
+  const [localModels, setLocalModels] = useState<string[]>([]);
+  const [localModel, setLocalModel] = useState('');
+
   const handleOAuthLogin = async () => {
     setLoading(true);
     setError('');
@@ -82,8 +89,8 @@ export function AuthModal({ isOpen, onClose }: AuthModalProps) {
     setLoading(true);
     setError('');
     try {
-      await api.auth.setApiKey(apiKey.trim());
-      setAuthenticated(true, 'api-key', 'openai');
+      const result = await api.auth.setApiKey(apiKey.trim(), provider === 'anthropic' ? 'anthropic' : 'openai');
+      setAuthenticated(true, result.accountId, result.provider);
       onClose();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Erro com API key');
@@ -92,12 +99,49 @@ export function AuthModal({ isOpen, onClose }: AuthModalProps) {
     }
   };
 
+  const handleLocalConnect = async () => {
+    if (!localUrl.trim()) return;
+    setLoading(true);
+    setError('');
+    try {
+      const result = await api.auth.local({
+        baseUrl: localUrl.trim(),
+        api: localApi,
+        apiKey: localKey.trim() || undefined,
+      });
+      setLocalModels(result.available);
+      setLocalModel(result.model || result.available[0] || '');
+      setAuthenticated(true, result.accountId, 'ollama');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao conectar ao servidor local');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLocalModelConfirm = async () => {
+    if (!localModel) return;
+    setLoading(true);
+    setError('');
+    try {
+      await api.auth.setModel(localModel);
+      setModel(localModel);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao selecionar modelo');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const resetState = () => {
     setAnthropicStep('login');
     setAnthropicCode('');
     setError('');
     setShowApiKey(false);
     setApiKey('');
+    setLocalModels([]);
+    setLocalModel('');
   };
 
   return (
@@ -133,6 +177,16 @@ export function AuthModal({ isOpen, onClose }: AuthModalProps) {
           >
             ChatGPT (OpenAI)
           </button>
+          <button
+            onClick={() => { setProvider('local'); resetState(); }}
+            className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-colors cursor-pointer ${
+              provider === 'local'
+                ? 'bg-bg-card text-text-primary shadow-sm'
+                : 'text-text-muted hover:text-text-secondary'
+            }`}
+          >
+            Local
+          </button>
         </div>
 
         {/* Error display */}
@@ -155,10 +209,39 @@ export function AuthModal({ isOpen, onClose }: AuthModalProps) {
                     className="w-full justify-center"
                     icon={<Lock className="w-4 h-4" />}
                     onClick={handleAnthropicLogin}
-                    loading={loading}
+                    loading={loading && !showApiKey}
                   >
                     Fazer login com Claude
                   </Button>
+
+                  <Button
+                    variant="secondary"
+                    className="w-full justify-center"
+                    icon={<Key className="w-4 h-4" />}
+                    onClick={() => setShowApiKey(!showApiKey)}
+                  >
+                    Usar API Key (alternativa)
+                  </Button>
+
+                  {showApiKey && (
+                    <div className="space-y-2 animate-slideUp">
+                      <Input
+                        placeholder="sk-ant-..."
+                        value={apiKey}
+                        onChange={(e) => setApiKey(e.target.value)}
+                        type="password"
+                      />
+                      <Button
+                        size="sm"
+                        className="w-full justify-center"
+                        onClick={handleApiKeySubmit}
+                        loading={loading}
+                        disabled={!apiKey.trim()}
+                      >
+                        Salvar API Key
+                      </Button>
+                    </div>
+                  )}
                 </>
               )}
 
@@ -237,6 +320,95 @@ export function AuthModal({ isOpen, onClose }: AuthModalProps) {
               )}
             </>
           )}
+
+          {/* ─── Local Flow ─── */}
+          {provider === 'local' && (
+            <>
+              {localModels.length === 0 ? (
+                <>
+                  <p className="text-xs text-text-muted text-center">
+                    Ollama ou servidor compatível com OpenAI. Nada sai da sua rede.
+                  </p>
+                  <div className="flex rounded-lg bg-bg-elevated p-1">
+                    {(['ollama', 'openai'] as const).map((value) => (
+                      <button
+                        key={value}
+                        onClick={() => {
+                          setLocalApi(value);
+                          setLocalUrl(value === 'ollama' ? 'http://localhost:11434' : 'http://localhost:1234/v1');
+                        }}
+                        className={`flex-1 py-1 text-[11px] font-medium rounded-md transition-colors cursor-pointer ${
+                          localApi === value
+                            ? 'bg-bg-card text-text-primary shadow-sm'
+                            : 'text-text-muted hover:text-text-secondary'
+                        }`}
+                      >
+                        {value === 'ollama' ? 'Ollama' : 'OpenAI-compatível'}
+                      </button>
+                    ))}
+                  </div>
+                  <Input
+                    placeholder="http://localhost:11434"
+                    value={localUrl}
+                    onChange={(e) => setLocalUrl(e.target.value)}
+                    icon={<Server className="w-4 h-4" />}
+                  />
+                  {localApi === 'openai' && (
+                    <Input
+                      placeholder="API key (opcional)"
+                      value={localKey}
+                      onChange={(e) => setLocalKey(e.target.value)}
+                      type="password"
+                    />
+                  )}
+                  <Button
+                    className="w-full justify-center"
+                    icon={<Cpu className="w-4 h-4" />}
+                    onClick={handleLocalConnect}
+                    loading={loading}
+                    disabled={!localUrl.trim()}
+                  >
+                    Conectar e listar modelos
+                  </Button>
+                </>
+              ) : (
+                <div className="space-y-3 animate-slideUp">
+                  <p className="text-xs text-text-muted text-center">
+                    Escolha o modelo que o agente vai usar:
+                  </p>
+                  <div className="max-h-48 overflow-y-auto space-y-1">
+                    {localModels.map((name) => (
+                      <button
+                        key={name}
+                        onClick={() => setLocalModel(name)}
+                        className={`w-full text-left px-3 py-2 rounded-md text-xs font-mono transition-colors cursor-pointer border ${
+                          localModel === name
+                            ? 'border-brand bg-brand/10 text-text-primary'
+                            : 'border-transparent text-text-secondary hover:bg-bg-elevated'
+                        }`}
+                      >
+                        {name}
+                      </button>
+                    ))}
+                  </div>
+                  <Button
+                    className="w-full justify-center"
+                    onClick={handleLocalModelConfirm}
+                    loading={loading}
+                    disabled={!localModel}
+                  >
+                    Usar {localModel || 'modelo'}
+                  </Button>
+                  <button
+                    onClick={() => { setLocalModels([]); setError(''); }}
+                    className="w-full text-center text-[10px] text-text-muted hover:text-text-secondary transition-colors cursor-pointer"
+                  >
+                    Voltar
+                  </button>
+                </div>
+              )}
+            </>
+          )}
         </div>
 
         <p className="text-[10px] text-text-muted mt-6 flex items-center gap-1">
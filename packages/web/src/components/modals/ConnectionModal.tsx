@@ -1,8 +1,14 @@
 import { useState, useEffect } from 'react';
-import { Eye, EyeOff, CheckCircle2, XCircle, Database, Server, Lock, Globe } from 'lucide-react';
+import { Eye, EyeOff, CheckCircle2, XCircle, Database, Server, Lock, Globe, Timer, ShieldOff } from 'lucide-react';
 import { Modal, Button, Input } from '../ui';
 import { api } from '../../lib/api';
 
+// "billing, public.users.password" → ["billing", "public.users.password"]
+function splitPatterns(text: string): string[] | undefined {
+  const patterns = text.split(/[,\n]/).map(p => p.trim()).filter(Boolean);
+  return patterns.length > 0 ? patterns : undefined;
+}
+
 interface ConnectionModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -23,6 +29,10 @@ export function ConnectionModal({ isOpen, onClose, onConnect }: ConnectionModalP
   const [testStatus, setTestStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle');
   const [testMessage, setTestMessage] = useState('');
   const [saving, setSaving] = useState(false);
+  const [timeoutSeconds, setTimeoutSeconds] = useState('');
+  const [maxCost, setMaxCost] = useState('');
+  const [allowPatterns, setAllowPatterns] = useState('');
+  const [denyPatterns, setDenyPatterns] = useState('');
 
   // Sync fields → URL
   useEffect(() => {
@@ -75,7 +85,16 @@ export function ConnectionModal({ isOpen, onClose, onConnect }: ConnectionModalP
     if (!name.trim() || !url.trim()) return;
     setSaving(true);
     try {
-      await api.connections.create({ name: name.trim(), url });
+      await api.connections.create({
+        name: name.trim(),
+        url,
+        statementTimeoutMs: timeoutSeconds ? Math.round(Number(timeoutSeconds) * 1000) : undefined,
+        maxQueryCost: maxCost ? Number(maxCost) : undefined,
+      });
+      const access = { allow: splitPatterns(allowPatterns), deny: splitPatterns(denyPatterns) };
+      if (access.allow || access.deny) {
+        await api.connections.setAccess(name.trim(), access);
+      }
       onConnect(name.trim(), url);
       // Don't auto-reset/close to allow user to see success or if they want to add another? 
       // User flow: usually close.
@@ -98,6 +117,10 @@ export function ConnectionModal({ isOpen, onClose, onConnect }: ConnectionModalP
     setUser('postgres');
     setPassword('');
     setUseSSL(false);
+    setTimeoutSeconds('');
+    setMaxCost('');
+    setAllowPatterns('');
+    setDenyPatterns('');
     setTestStatus('idle');
     setTestMessage('');
   };
@@ -249,6 +272,57 @@ export function ConnectionModal({ isOpen, onClose, onConnect }: ConnectionModalP
           </div>
         )}
 
+        {/* Limits */}
+        <div>
+          <div className="flex items-center gap-2 text-text-secondary text-xs uppercase tracking-wider font-semibold mb-3">
+            <Timer className="w-3 h-3" /> Limites (opcional)
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              label="Timeout (s)"
+              type="number"
+              min="0"
+              placeholder="ex: 30"
+              value={timeoutSeconds}
+              onChange={(e) => setTimeoutSeconds(e.target.value)}
+            />
+            <Input
+              label="Custo máx. (EXPLAIN)"
+              type="number"
+              min="0"
+              placeholder="ex: 100000"
+              value={maxCost}
+              onChange={(e) => setMaxCost(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {/* Access policy */}
+        <div>
+          <div className="flex items-center gap-2 text-text-secondary text-xs uppercase tracking-wider font-semibold mb-3">
+            <ShieldOff className="w-3 h-3" /> Acesso (opcional)
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              label="Liberar apenas"
+              placeholder="ex: public, sales.*"
+              value={allowPatterns}
+              onChange={(e) => setAllowPatterns(e.target.value)}
+              className="font-mono text-xs"
+            />
+            <Input
+              label="Bloquear"
+              placeholder="ex: billing, public.users.senha_hash"
+              value={denyPatterns}
+              onChange={(e) => setDenyPatterns(e.target.value)}
+              className="font-mono text-xs"
+            />
+          </div>
+          <p className="text-xs text-text-muted mt-2">
+            schema, schema.tabela ou schema.tabela.coluna, separados por vírgula. Objetos bloqueados somem do schema e queries que os citem são recusadas.
+          </p>
+        </div>
+
         {/* Footer Actions */}
         <div className="flex items-center justify-between pt-4 border-t border-border mt-6">
            <div className="flex items-center gap-2">
@@ -1,9 +1,9 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-import { X, ZoomIn, ZoomOut, Maximize2, Filter, Search } from 'lucide-react';
+import { X, ZoomIn, ZoomOut, Maximize2, Filter, Search, Route, Copy } from 'lucide-react';
 import { Button, Input } from '../ui';
 import { useAppStore } from '../../stores/app-store';
 import { api } from '../../lib/api';
-import type { RelationGraph as RelationGraphType, RelationNode, RelationEdge } from '../../types';
+import type { RelationGraph as RelationGraphType, RelationNode, RelationEdge, JoinPathResult } from '../../types';
 
 interface GraphNode extends RelationNode {
   x: number;
@@ -44,15 +44,25 @@ export function RelationGraph({ isOpen, onClose }: RelationGraphProps) {
 
   // Camera state
   const cameraRef = useRef({ x: 0, y: 0, zoom: 1 });
-  const dragRef = useRef<{ type: 'pan' | 'node'; nodeIdx: number; startX: number; startY: number; origX: number; origY: number } | null>(null);
+  const dragRef = useRef<{ type: 'pan' | 'node'; nodeIdx: number; startX: number; startY: number; origX: number; origY: number; moved: boolean } | null>(null);
   // hoveredNode as ref to avoid React re-renders on every mousemove
   const hoveredNodeRef = useRef<number>(-1);
   // Refs for values needed inside draw without causing re-renders
   const activeSchemasRef = useRef<Set<string>>(new Set());
   const searchRef = useRef('');
+  // Path mode: click two tables to highlight the FK join path between them
+  const [pathMode, setPathMode] = useState(false);
+  const [pathEnds, setPathEnds] = useState<string[]>([]);
+  const [pathResult, setPathResult] = useState<JoinPathResult | null>(null);
+  const [pathError, setPathError] = useState<string | null>(null);
+  const [selectedPath, setSelectedPath] = useState(0);
+  const pathModeRef = useRef(false);
+  // Nodes/edges on the selected path; null = no highlight
+  const highlightRef = useRef<{ nodes: Set<string>; edges: Set<string> } | null>(null);
   // Keep refs in sync
   activeSchemasRef.current = activeSchemas;
   searchRef.current = search;
+  pathModeRef.current = pathMode;
 
   // Canvas size cache to avoid setting width/height every frame
   const canvasSizeRef = useRef({ w: 0, h: 0 });
@@ -211,23 +221,35 @@ export function RelationGraph({ isOpen, onClose }: RelationGraphProps) {
       nodes.filter(n => currentActiveSchemas.has(n.schema)).map(n => n.id)
     );
 
+    const highlight = highlightRef.current;
+
+    // Parallel FKs between the same pair of tables get separate curves
+    const pairCounts = new Map<string, number>();
+
     // Draw edges
     for (const edge of edges) {
       if (!visibleIds.has(edge.from) || !visibleIds.has(edge.to)) continue;
+      const pairKey = [edge.from, edge.to].sort().join('|');
+      const parallelIdx = pairCounts.get(pairKey) ?? 0;
+      pairCounts.set(pairKey, parallelIdx + 1);
+      const isComposite = edge.fromColumns.length > 1;
       const si = nodeMap.get(edge.from)!;
       const ti = nodeMap.get(edge.to)!;
       const source = nodes[si];
       const target = nodes[ti];
 
       const isHighlighted = hoveredNode >= 0 && (si === hoveredNode || ti === hoveredNode);
+      const onPath = highlight?.edges.has(edge.id) ?? false;
+      const edgeColor = onPath ? '#F59E0B' : isHighlighted ? '#10B981' : '#52525B';
+      ctx.globalAlpha = highlight && !onPath ? 0.2 : 1;
 
       ctx.beginPath();
       const midX = (source.x + target.x) / 2;
-      const midY = (source.y + target.y) / 2 - 30;
+      const midY = (source.y + target.y) / 2 - 30 - parallelIdx * 25;
       ctx.moveTo(source.x, source.y);
       ctx.quadraticCurveTo(midX, midY, target.x, target.y);
-      ctx.strokeStyle = isHighlighted ? '#10B981' : '#52525B';
-      ctx.lineWidth = isHighlighted ? 2 : 1;
+      ctx.strokeStyle = edgeColor;
+      ctx.lineWidth = (onPath ? 2.5 : isHighlighted ? 2 : 1) + (isComposite ? 0.75 : 0);
       ctx.stroke();
 
       // Arrow at target
@@ -238,16 +260,17 @@ export function RelationGraph({ isOpen, onClose }: RelationGraphProps) {
       ctx.lineTo(target.x - arrowSize * Math.cos(angle - 0.3), target.y - arrowSize * Math.sin(angle - 0.3));
       ctx.lineTo(target.x - arrowSize * Math.cos(angle + 0.3), target.y - arrowSize * Math.sin(angle + 0.3));
       ctx.closePath();
-      ctx.fillStyle = isHighlighted ? '#10B981' : '#52525B';
+      ctx.fillStyle = edgeColor;
       ctx.fill();
 
       // Edge label
-      if (isHighlighted) {
+      if (isHighlighted || onPath) {
         ctx.font = '10px Inter, sans-serif';
         ctx.fillStyle = '#A1A1AA';
         ctx.textAlign = 'center';
         ctx.fillText(edge.label, midX, midY - 5);
       }
+      ctx.globalAlpha = 1;
     }
 
     // Draw nodes
@@ -256,6 +279,8 @@ export function RelationGraph({ isOpen, onClose }: RelationGraphProps) {
       const isHovered = i === hoveredNode;
       const isSearchMatch = currentSearch && node.label.toLowerCase().includes(currentSearch.toLowerCase());
       const color = getSchemaColor(node.schema);
+      const onPath = highlight?.nodes.has(node.id) ?? false;
+      ctx.globalAlpha = highlight && !onPath ? 0.35 : 1;
 
       const x = node.x - node.width / 2;
       const y = node.y - node.height / 2;
@@ -271,8 +296,8 @@ export function RelationGraph({ isOpen, onClose }: RelationGraphProps) {
       ctx.roundRect(x, y, node.width, node.height, 8);
       ctx.fillStyle = isHovered ? '#27272A' : '#18181B';
       ctx.fill();
-      ctx.strokeStyle = isSearchMatch ? '#F59E0B' : color;
-      ctx.lineWidth = isHovered || isSearchMatch ? 2 : 1;
+      ctx.strokeStyle = isSearchMatch || onPath ? '#F59E0B' : color;
+      ctx.lineWidth = isHovered || isSearchMatch || onPath ? 2 : 1;
       ctx.stroke();
       ctx.shadowBlur = 0;
 
@@ -287,6 +312,7 @@ export function RelationGraph({ isOpen, onClose }: RelationGraphProps) {
       ctx.font = '9px Inter, sans-serif';
       ctx.fillStyle = '#71717A';
       ctx.fillText(`${node.columnCount} cols • ${node.rowCount > 1000 ? `${(node.rowCount / 1000).toFixed(1)}k` : node.rowCount} rows`, node.x, node.y + 10);
+      ctx.globalAlpha = 1;
     });
 
     ctx.restore();
@@ -368,16 +394,17 @@ export function RelationGraph({ isOpen, onClose }: RelationGraphProps) {
 
     if (nodeIdx >= 0) {
       const n = nodesRef.current[nodeIdx];
-      dragRef.current = { type: 'node', nodeIdx, startX: worldX, startY: worldY, origX: n.x, origY: n.y };
+      dragRef.current = { type: 'node', nodeIdx, startX: worldX, startY: worldY, origX: n.x, origY: n.y, moved: false };
       n.dragging = true;
     } else {
-      dragRef.current = { type: 'pan', nodeIdx: -1, startX: e.clientX, startY: e.clientY, origX: cameraRef.current.x, origY: cameraRef.current.y };
+      dragRef.current = { type: 'pan', nodeIdx: -1, startX: e.clientX, startY: e.clientY, origX: cameraRef.current.x, origY: cameraRef.current.y, moved: false };
     }
   }, [getWorldPos, findNodeAt]);
 
   const handleMouseMove = useCallback((e: React.MouseEvent) => {
     const drag = dragRef.current;
     if (drag) {
+      drag.moved = true;
       if (drag.type === 'node') {
         const { worldX, worldY } = getWorldPos(e.clientX, e.clientY);
         const n = nodesRef.current[drag.nodeIdx];
@@ -402,8 +429,14 @@ export function RelationGraph({ isOpen, onClose }: RelationGraphProps) {
   }, [getWorldPos, findNodeAt, draw]);
 
   const handleMouseUp = useCallback(() => {
-    if (dragRef.current?.type === 'node') {
-      nodesRef.current[dragRef.current.nodeIdx].dragging = false;
+    const drag = dragRef.current;
+    if (drag?.type === 'node') {
+      const node = nodesRef.current[drag.nodeIdx];
+      node.dragging = false;
+      // A click (no drag) picks the path endpoints; a third click starts over
+      if (!drag.moved && pathModeRef.current) {
+        setPathEnds(prev => (prev.length >= 2 ? [node.id] : prev[0] === node.id ? prev : [...prev, node.id]));
+      }
     }
     dragRef.current = null;
   }, []);
@@ -463,6 +496,46 @@ export function RelationGraph({ isOpen, onClose }: RelationGraphProps) {
     draw();
   }, [activeSchemas, search, draw]);
 
+  // Fetch the join path once both endpoints are picked
+  useEffect(() => {
+    setPathError(null);
+    setPathResult(null);
+    if (pathEnds.length < 2) return;
+
+    let cancelled = false;
+    api.schema.joinPath(pathEnds[0], pathEnds[1])
+      .then((result) => {
+        if (cancelled) return;
+        setPathResult(result);
+        setSelectedPath(0);
+      })
+      .catch((err) => {
+        if (!cancelled) setPathError(err instanceof Error ? err.message : 'Erro ao buscar caminho');
+      });
+    return () => { cancelled = true; };
+  }, [pathEnds]);
+
+  useEffect(() => {
+    const path = pathResult?.paths[selectedPath];
+    if (path) {
+      highlightRef.current = {
+        nodes: new Set(path.tables),
+        // Edge ids are "<table holding the FK>:<constraint>"
+        edges: new Set(path.steps.map(step => `${step.direction === 'forward' ? step.from : step.to}:${step.constraint}`)),
+      };
+    } else if (pathEnds.length > 0) {
+      highlightRef.current = { nodes: new Set(pathEnds), edges: new Set() };
+    } else {
+      highlightRef.current = null;
+    }
+    draw();
+  }, [pathResult, selectedPath, pathEnds, draw]);
+
+  const togglePathMode = () => {
+    setPathMode(prev => !prev);
+    setPathEnds([]);
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -499,6 +572,14 @@ export function RelationGraph({ isOpen, onClose }: RelationGraphProps) {
               className="!py-1 !text-xs"
             />
           </div>
+          <Button
+            variant={pathMode ? 'primary' : 'ghost'}
+            size="sm"
+            icon={<Route className="w-3.5 h-3.5" />}
+            onClick={togglePathMode}
+          >
+            Caminho
+          </Button>
           <Button variant="ghost" size="sm" onClick={centerView}>
             <Maximize2 className="w-3.5 h-3.5" />
           </Button>
@@ -515,7 +596,16 @@ export function RelationGraph({ isOpen, onClose }: RelationGraphProps) {
       </div>
 
       {/* Canvas */}
-      <div ref={containerRef} className="flex-1 overflow-hidden">
+      <div ref={containerRef} className="flex-1 overflow-hidden relative">
+        {pathMode && (
+          <JoinPathPanel
+            ends={pathEnds}
+            result={pathResult}
+            error={pathError}
+            selected={selectedPath}
+            onSelect={setSelectedPath}
+          />
+        )}
         {loading ? (
           <div className="flex items-center justify-center h-full text-text-muted text-sm">
             Carregando grafo...
@@ -540,3 +630,62 @@ export function RelationGraph({ isOpen, onClose }: RelationGraphProps) {
     </div>
   );
 }
+
+// ─── Join path panel ───
+
+interface JoinPathPanelProps {
+  ends: string[];
+  result: JoinPathResult | null;
+  error: string | null;
+  selected: number;
+  onSelect: (index: number) => void;
+}
+
+function JoinPathPanel({ ends, result, error, selected, onSelect }: JoinPathPanelProps) {
+  const path = result?.paths[selected];
+
+  return (
+    <div className="absolute left-4 bottom-4 z-10 w-[420px] max-h-[60%] overflow-y-auto rounded-lg border border-border bg-bg-card/95 p-3 text-xs space-y-2 shadow-lg">
+      <div className="flex items-center gap-2 text-text-secondary">
+        <Route className="w-3.5 h-3.5 text-amber-500" />
+        {ends.length < 2
+          ? <span>Clique em {ends.length === 0 ? 'duas tabelas' : 'outra tabela'} para ver o caminho de JOIN.</span>
+          : <span className="font-mono truncate">{ends[0]} → {ends[1]}</span>}
+      </div>
+
+      {error && <p className="text-red-400">{error}</p>}
+
+      {result && result.paths.length === 0 && (
+        <p className="text-text-muted">Nenhum caminho por foreign keys entre as tabelas.</p>
+      )}
+
+      {result && result.ambiguous && (
+        <div className="flex items-center gap-1 flex-wrap">
+          <span className="text-amber-500 mr-1">JOIN ambíguo:</span>
+          {result.paths.map((_, i) => (
+            <button
+              key={i}
+              onClick={() => onSelect(i)}
+              className={`px-2 py-0.5 rounded cursor-pointer transition-colors ${i === selected ? 'bg-amber-500/20 text-amber-500' : 'bg-bg-elevated text-text-muted hover:text-text-primary'}`}
+            >
+              Caminho {i + 1}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {path && (
+        <div className="relative">
+          <pre className="p-2 pr-8 rounded bg-bg-base font-mono text-[11px] text-text-secondary whitespace-pre-wrap">{path.sql}</pre>
+          <button
+            onClick={() => navigator.clipboard.writeText(path.sql)}
+            title="Copiar"
+            className="absolute top-1.5 right-1.5 p-1 rounded text-text-muted hover:text-text-primary cursor-pointer"
+          >
+            <Copy className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef, useMemo } from 'react';
-import { Search, Table2, Zap, MessageSquare, PlugZap, Lock, FileCode2 } from 'lucide-react';
+import { Search, Table2, Zap, MessageSquare, PlugZap, Lock, FileCode2, GitCompare, BookOpen } from 'lucide-react';
 import { useAppStore } from '../../stores/app-store';
 
 interface CommandItem {
@@ -65,6 +65,20 @@ export function CommandPalette({ isOpen, onClose }: CommandPaletteProps) {
       category: 'command',
       action: () => { setActivePage('scripts'); onClose(); },
     });
+    result.push({
+      id: 'cmd-schema-diff',
+      label: 'Comparar schemas',
+      icon: <GitCompare className="w-4 h-4 text-text-muted" />,
+      category: 'command',
+      action: () => { setActivePage('schema-diff'); onClose(); },
+    });
+    result.push({
+      id: 'cmd-semantic',
+      label: 'Glossário e métricas',
+      icon: <BookOpen className="w-4 h-4 text-text-muted" />,
+      category: 'command',
+      action: () => { setActivePage('semantic'); onClose(); },
+    });
     result.push({
       id: 'cmd-connection',
       label: 'Nova Conexao',
@@ -1,5 +1,7 @@
 import { useState, useEffect, useRef, useCallback, useSyncExternalStore } from 'react';
-import type { ChatMessage } from '../types';
+import { api } from '../lib/api';
+import { useAppStore } from '../stores/app-store';
+import type { ChatMessage, ContextSelection, ConversationDetail, ResultPage, WritePreview } from '../types';
 
 const MAX_MESSAGES = 150;
 
@@ -12,6 +14,11 @@ interface IncomingSocketEvent {
   data?: unknown;
 }
 
+interface PendingPage {
+  resolve: (page: ResultPage) => void;
+  reject: (error: Error) => void;
+}
+
 interface RunStateData {
   phase?: string;
   busy?: boolean;
@@ -29,13 +36,47 @@ function isChatMessageType(type: string): type is ChatMessage['type'] {
     type === 'thinking' ||
     type === 'text' ||
     type === 'sql' ||
+    type === 'preview' ||
     type === 'executing' ||
     type === 'result' ||
     type === 'summary' ||
-    type === 'error'
+    type === 'error' ||
+    type === 'context'
   );
 }
 
+// Indicators and unfinished streamed text disappear when the next event or the end of the run arrives
+function isTransient(message: ChatMessage): boolean {
+  return message.type === 'thinking' || message.type === 'executing' || Boolean(message.streaming);
+}
+
+function pageKey(handle: string, offset: number): string {
+  return `${handle}:${offset}`;
+}
+
+// Saved results carry only a row sample and no cursor, so they render as a static table
+function conversationToMessages(conversation: ConversationDetail): ChatMessage[] {
+  const messages = conversation.entries.map((entry): ChatMessage => ({
+    id: nextId(),
+    type: entry.type,
+    content: entry.content,
+    data: entry.result
+      ? {
+          rows: entry.result.rows,
+          rowCount: entry.result.rowCount,
+          duration: entry.result.duration,
+          columns: entry.result.columns,
+          handle: null,
+          hasMore: false,
+          totalRows: entry.result.rows.length,
+        }
+      : undefined,
+    preview: entry.preview,
+    timestamp: new Date(entry.timestamp),
+  }));
+  return messages.slice(-MAX_MESSAGES);
+}
+
 function normalizeRunPhase(value: unknown): RunPhase {
   if (value === 'thinking' || value === 'executing' || value === 'summarizing') {
     return value;
@@ -59,9 +100,23 @@ export function useWebSocket() {
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout>>(undefined);
   const closedIntentionallyRef = useRef(false);
+  const pendingPagesRef = useRef(new Map<string, PendingPage>());
   // Keep stable refs for values used inside callbacks
   const isBusyRef = useRef(false);
   isBusyRef.current = isBusy;
+  const pendingConversation = useAppStore((s) => s.pendingConversation);
+
+  const loadConversation = useCallback((conversation: ConversationDetail) => {
+    setMessages(conversationToMessages(conversation));
+    useAppStore.getState().setActiveConversationId(conversation.id);
+  }, []);
+
+  // Conversation opened from the sidebar
+  useEffect(() => {
+    if (!pendingConversation) return;
+    loadConversation(pendingConversation);
+    useAppStore.getState().setPendingConversation(null);
+  }, [pendingConversation, loadConversation]);
 
   const setRunState = useCallback(
     (phase: RunPhase, busy: boolean, detail?: string) => {
@@ -71,9 +126,9 @@ export function useWebSocket() {
       if (!busy) {
         // Clear transient messages efficiently
         setMessages((prev) => {
-          const hasTransient = prev.some(m => m.type === 'thinking' || m.type === 'executing');
+          const hasTransient = prev.some(isTransient);
           if (!hasTransient) return prev; // No change needed, avoid re-render
-          return prev.filter((m) => m.type !== 'thinking' && m.type !== 'executing');
+          return prev.filter((m) => !isTransient(m));
         });
       }
     },
@@ -82,23 +137,16 @@ export function useWebSocket() {
 
   const addMessage = useCallback((msg: ChatMessage) => {
     setMessages((prev) => {
-      let nextMsg = msg;
-      if (msg.type === 'result' && msg.data?.rows && msg.data.rows.length > 100) {
-        nextMsg = {
-          ...msg,
-          data: {
-            ...msg.data,
-            rows: msg.data.rows.slice(0, 100),
-          },
-        };
+      // The final text replaces the streamed draft in place
+      const last = prev[prev.length - 1];
+      if (msg.type === 'text' && last?.streaming) {
+        return [...prev.slice(0, -1), { ...msg, id: last.id }];
       }
 
       // Only filter if there are transient messages
-      const hasTransient = prev.some(m => m.type === 'thinking' || m.type === 'executing');
-      const filtered = hasTransient
-        ? prev.filter((m) => m.type !== 'thinking' && m.type !== 'executing')
-        : prev;
-      const next = [...filtered, nextMsg];
+      const hasTransient = prev.some(isTransient);
+      const filtered = hasTransient ? prev.filter((m) => !isTransient(m)) : prev;
+      const next = [...filtered, msg];
 
       if (next.length > MAX_MESSAGES) {
         return next.slice(next.length - MAX_MESSAGES);
@@ -108,6 +156,24 @@ export function useWebSocket() {
     });
   }, []);
 
+  const appendDelta = useCallback((delta: string) => {
+    setMessages((prev) => {
+      const last = prev[prev.length - 1];
+      if (last?.streaming) {
+        return [...prev.slice(0, -1), { ...last, content: (last.content ?? '') + delta }];
+      }
+
+      const draft: ChatMessage = {
+        id: nextId(),
+        type: 'text',
+        content: delta,
+        streaming: true,
+        timestamp: new Date(),
+      };
+      return [...prev.filter((m) => !isTransient(m)), draft].slice(-MAX_MESSAGES);
+    });
+  }, []);
+
   const connect = useCallback(() => {
     try {
       const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
@@ -123,6 +189,11 @@ export function useWebSocket() {
         setIsConnected(false);
         setRunState('idle', false);
 
+        for (const pending of pendingPagesRef.current.values()) {
+          pending.reject(new Error('Conexao perdida. Tente novamente.'));
+        }
+        pendingPagesRef.current.clear();
+
         if (!closedIntentionallyRef.current) {
           console.log('[WS] Disconnected, reconnecting in 3s...');
           reconnectTimeoutRef.current = setTimeout(connect, 3000);
@@ -169,6 +240,36 @@ export function useWebSocket() {
             return;
           }
 
+          if (payload.type === 'conversation') {
+            const data = (payload.data ?? {}) as { id?: unknown };
+            if (typeof data.id === 'string') {
+              useAppStore.getState().setActiveConversationId(data.id);
+            }
+            return;
+          }
+
+          if (payload.type === 'result_page') {
+            const data = (payload.data ?? {}) as Partial<ResultPage> & { error?: string };
+            if (typeof data.handle !== 'string') return;
+
+            const key = pageKey(data.handle, data.offset ?? 0);
+            const pending = pendingPagesRef.current.get(key);
+            if (!pending) return;
+            pendingPagesRef.current.delete(key);
+
+            if (data.error) {
+              pending.reject(new Error(data.error));
+            } else {
+              pending.resolve(data as ResultPage);
+            }
+            return;
+          }
+
+          if (payload.type === 'text_delta') {
+            if (payload.content) appendDelta(payload.content);
+            return;
+          }
+
           if (!isChatMessageType(payload.type)) {
             return;
           }
@@ -179,11 +280,15 @@ export function useWebSocket() {
             setRunState('executing', true, 'Executando consulta...');
           }
 
+          const isPreview = payload.type === 'preview';
+          const isContext = payload.type === 'context';
           const msg: ChatMessage = {
             id: nextId(),
             type: payload.type,
             content: payload.content,
-            data: payload.data as ChatMessage['data'],
+            data: isPreview || isContext ? undefined : (payload.data as ChatMessage['data']),
+            preview: isPreview ? (payload.data as WritePreview) : undefined,
+            context: isContext ? (payload.data as ContextSelection) : undefined,
             timestamp: new Date(),
           };
           addMessage(msg);
@@ -198,11 +303,21 @@ export function useWebSocket() {
         reconnectTimeoutRef.current = setTimeout(connect, 3000);
       }
     }
-  }, [addMessage, setRunState]);
+  }, [addMessage, appendDelta, setRunState]);
 
   useEffect(() => {
     closedIntentionallyRef.current = false;
-    connect();
+    // Make sure the session cookie exists before the WS handshake, so chat and REST share state.
+    // A conversation still active on the server is restored (e.g. after a page refresh).
+    api.session()
+      .then(() => api.conversations.active())
+      .then((conversation) => {
+        if (conversation && !closedIntentionallyRef.current) loadConversation(conversation);
+      })
+      .catch(() => undefined)
+      .finally(() => {
+        if (!closedIntentionallyRef.current) connect();
+      });
     return () => {
       closedIntentionallyRef.current = true;
       if (reconnectTimeoutRef.current) {
@@ -210,7 +325,7 @@ export function useWebSocket() {
       }
       wsRef.current?.close();
     };
-  }, [connect]);
+  }, [connect, loadConversation]);
 
   const sendMessage = useCallback(
     (content: string): boolean => {
@@ -244,14 +359,34 @@ export function useWebSocket() {
     }
   }, []);
 
+  const fetchResultPage = useCallback(
+    (handle: string, offset: number, limit: number): Promise<ResultPage> => {
+      const ws = wsRef.current;
+      if (ws?.readyState !== WebSocket.OPEN) {
+        return Promise.reject(new Error('Chat desconectado.'));
+      }
+
+      return new Promise<ResultPage>((resolve, reject) => {
+        pendingPagesRef.current.get(pageKey(handle, offset))?.reject(new Error('Requisicao substituida.'));
+        pendingPagesRef.current.set(pageKey(handle, offset), { resolve, reject });
+        ws.send(JSON.stringify({ type: 'result_page', handle, offset, limit }));
+      });
+    },
+    []
+  );
+
   const clearMessages = useCallback(() => {
     setMessages([]);
+    useAppStore.getState().setActiveConversationId(null);
+    // The next message starts a new saved conversation
+    api.conversations.startNew().catch(() => undefined);
   }, []);
 
   return {
     messages,
     sendMessage,
     cancelRun,
+    fetchResultPage,
     isConnected,
     clearMessages,
     isBusy,
@@ -35,37 +35,79 @@ function put<T>(path: string, body?: unknown): Promise<T> {
   });
 }
 
+function patch<T>(path: string, body?: unknown): Promise<T> {
+  return request<T>(path, {
+    method: 'PATCH',
+    body: body ? JSON.stringify(body) : undefined,
+  });
+}
+
 function del<T>(path: string): Promise<T> {
   return request<T>(path, { method: 'DELETE' });
 }
 
 export const api = {
+  session: () => get<{ id: string }>('/session'),
   auth: {
-    status: () => get<{ authenticated: boolean; accountId?: string; provider?: 'openai' | 'anthropic' | null; model?: string | null }>('/auth/status'),
+    status: () => get<{ authenticated: boolean; accountId?: string; provider?: 'openai' | 'anthropic' | 'ollama' | null; model?: string | null }>('/auth/status'),
     login: () => post<{ authUrl: string }>('/auth/login'),
     logout: () => post<{ success: boolean }>('/auth/logout'),
-    setApiKey: (key: string) => post<{ success: boolean }>('/auth/apikey', { key }),
+    setApiKey: (key: string, provider: 'openai' | 'anthropic' = 'openai') =>
+      post<{ success: boolean; accountId: string; provider: 'openai' | 'anthropic'; available: string[] }>(
+        '/auth/apikey',
+        { key, provider }
+      ),
     anthropicLogin: () => post<{ authUrl: string }>('/auth/anthropic/login'),
     anthropicExchange: (code: string) => post<{ success: boolean; accountId: string }>('/auth/anthropic/exchange', { code }),
+    local: (data: { baseUrl: string; api: 'ollama' | 'openai'; apiKey?: string; model?: string }) =>
+      post<{ success: boolean; accountId: string; model: string | null; available: string[] }>('/auth/local', data),
     getModel: () => get<{ current: string | null; provider: string | null; available: string[] }>('/auth/model'),
     setModel: (model: string) => post<{ success: boolean; model: string }>('/auth/model', { model }),
   },
   connections: {
     list: () => get<any[]>('/connections'),
-    create: (data: { name: string; url: string }) => post<any>('/connections', data),
+    create: (data: { name: string; url: string; statementTimeoutMs?: number; maxQueryCost?: number }) =>
+      post<any>('/connections', data),
     remove: (name: string) => del<{ success: boolean }>(`/connections/${name}`),
     connect: (name: string) => post<{ database: string; version: string; schemas: string[]; tableCount: number }>(`/connections/${name}/connect`),
     disconnect: (name: string) => post<{ success: boolean }>(`/connections/${name}/disconnect`),
     test: (url: string) => post<{ success: boolean; database: string; version: string }>('/connections/test', { url }),
+    getAccess: (name: string) =>
+      get<{ connection: string; policy: import('../types').AccessPolicy }>(`/connections/${encodeURIComponent(name)}/access`),
+    setAccess: (name: string, policy: import('../types').AccessPolicy) =>
+      put<{ connection: string; policy: import('../types').AccessPolicy }>(`/connections/${encodeURIComponent(name)}/access`, policy),
   },
   schema: {
     full: () => get<any>('/schema'),
     tables: () => get<any[]>('/schema/tables'),
     table: (schema: string, name: string) => get<any>(`/schema/tables/${schema}/${name}`),
     relations: () => get<any>('/schema/relations'),
+    joinPath: (from: string, to: string) =>
+      get<import('../types').JoinPathResult>(
+        `/schema/join-path?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`
+      ),
+    refresh: (options: { tables?: string[]; full?: boolean } = {}) =>
+      post<import('../types').SchemaRefreshResult>('/schema/refresh', options),
+    profile: (tables?: string[]) =>
+      post<import('../types').SchemaProfileResult>('/schema/profile', { tables }),
+    sensitivity: () => get<import('../types').SensitivityResponse>('/schema/sensitivity'),
+    updateSensitivity: (body: {
+      sensitivity?: Record<string, import('../types').SensitivityTag | 'none' | null>;
+      masking?: Partial<import('../types').MaskingPolicy>;
+    }) => put<import('../types').SensitivityResponse>('/schema/sensitivity', body),
+    snapshots: (connection: string) =>
+      get<import('../types').SchemaSnapshotInfo[]>(`/schema/snapshots?connection=${encodeURIComponent(connection)}`),
+    diff: (from: string, to: string, sql = false) =>
+      get<import('../types').SchemaDiff>(
+        `/schema/diff?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}${sql ? '&sql=1' : ''}`
+      ),
   },
   query: {
-    execute: (sql: string) => post<{ rows: any[]; rowCount: number; duration: number; columns: string[] }>('/query/execute', { sql }),
+    execute: (sql: string, options: { timeoutMs?: number; pageSize?: number } = {}) =>
+      post<import('../types').QueryResult>('/query/execute', { sql, ...options }),
+    page: (handle: string, offset: number, limit: number) =>
+      get<import('../types').ResultPage>(`/query/results/${handle}?offset=${offset}&limit=${limit}`),
+    closeResult: (handle: string) => del<{ success: boolean }>(`/query/results/${handle}`),
     setReadOnly: (enabled: boolean) => post<{ readOnly: boolean }>('/query/read-only', { enabled }),
     history: () => get<any[]>('/query/history'),
     clearHistory: () => del<{ success: boolean }>('/query/history'),
@@ -76,4 +118,30 @@ export const api = {
     update: (id: string, data: { name?: string; sql?: string }) => put<import('../types').SqlScript>(`/scripts/${id}`, data),
     remove: (id: string) => del<{ success: boolean }>(`/scripts/${id}`),
   },
+  conversations: {
+    list: (all = false) =>
+      get<import('../types').ConversationSummary[]>(`/conversations${all ? '?all=1' : ''}`),
+    active: () => get<import('../types').ConversationDetail | null>('/conversations/active'),
+    open: (id: string) => post<import('../types').ConversationDetail>(`/conversations/${id}/open`),
+    rename: (id: string, title: string) =>
+      patch<import('../types').ConversationDetail>(`/conversations/${id}`, { title }),
+    remove: (id: string) => del<{ success: boolean }>(`/conversations/${id}`),
+    startNew: () => post<{ success: boolean }>('/conversations/new'),
+  },
+  semantic: {
+    get: (connection?: string) =>
+      get<import('../types').SemanticLayerResponse>(
+        `/semantic${connection ? `?connection=${encodeURIComponent(connection)}` : ''}`
+      ),
+    save: (layer: import('../types').SemanticLayer, connection?: string) =>
+      put<import('../types').SemanticLayerResponse>(
+        `/semantic${connection ? `?connection=${encodeURIComponent(connection)}` : ''}`,
+        layer
+      ),
+  },
+  usage: {
+    get: (days = 30) => get<import('../types').UsageReport>(`/usage?days=${days}`),
+    setBudgets: (budgets: import('../types').UsageBudgets) =>
+      put<{ budgets: import('../types').UsageBudgets }>('/usage/budgets', budgets),
+  },
 };
@@ -19,6 +19,7 @@ export function ChatPage() {
     messages,
     sendMessage,
     cancelRun,
+    fetchResultPage,
     clearMessages,
     isBusy,
     runPhase,
@@ -101,7 +102,7 @@ export function ChatPage() {
         ) : (
           <div className="space-y-8 max-w-4xl mx-auto pb-32">
             {messages.map((msg) => (
-              <ChatMessage key={msg.id} message={msg} />
+              <ChatMessage key={msg.id} message={msg} loadResultPage={fetchResultPage} />
             ))}
             <div ref={messagesEndRef} />
           </div>
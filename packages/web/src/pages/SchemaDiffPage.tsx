@@ -0,0 +1,266 @@
+import { useEffect, useState } from 'react';
+import {
+  ArrowLeft, ArrowRight, GitCompare, Copy, Table2, Eye,
+  Plus, Minus, PenLine,
+} from 'lucide-react';
+import { Badge, Button, Card } from '../components/ui';
+import { useAppStore } from '../stores/app-store';
+import { api } from '../lib/api';
+import type { DiffChange, SchemaDiff, SchemaSnapshotInfo, TableDiff } from '../types';
+
+const changeStyles: Record<DiffChange, { variant: 'success' | 'error' | 'warning'; label: string; icon: React.ReactNode }> = {
+  added: { variant: 'success', label: 'Adicionada', icon: <Plus className="w-3 h-3 text-emerald-400" /> },
+  removed: { variant: 'error', label: 'Removida', icon: <Minus className="w-3 h-3 text-red-400" /> },
+  changed: { variant: 'warning', label: 'Alterada', icon: <PenLine className="w-3 h-3 text-amber-500" /> },
+};
+
+const fieldLabels = { type: 'tipo', nullable: 'nullable', defaultValue: 'default' };
+
+export function SchemaDiffPage() {
+  const connections = useAppStore((s) => s.connections);
+  const activeConnection = useAppStore((s) => s.activeConnection);
+  const setActivePage = useAppStore((s) => s.setActivePage);
+
+  const [fromConn, setFromConn] = useState('');
+  const [toConn, setToConn] = useState(activeConnection?.name ?? '');
+  const [fromAt, setFromAt] = useState('');
+  const [toAt, setToAt] = useState('');
+  const [withSql, setWithSql] = useState(true);
+  const [diff, setDiff] = useState<SchemaDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const buildRef = (conn: string, at: string) => (at ? `${conn}@${at}` : conn);
+
+  const handleCompare = async () => {
+    if (!fromConn || !toConn) return;
+    setLoading(true);
+    setError(null);
+    setDiff(null);
+    try {
+      setDiff(await api.schema.diff(buildRef(fromConn, fromAt), buildRef(toConn, toAt), withSql));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao comparar schemas');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-6 animate-fadeIn">
+      <div className="max-w-4xl mx-auto">
+        <button
+          onClick={() => setActivePage('chat')}
+          className="flex items-center gap-1.5 text-sm text-text-muted hover:text-text-primary transition-colors mb-4 cursor-pointer"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Voltar
+        </button>
+
+        <div className="flex items-center gap-3 mb-6">
+          <GitCompare className="w-6 h-6 text-brand" />
+          <div>
+            <h1 className="text-xl font-bold">Comparar schemas</h1>
+            <p className="text-xs text-text-muted mt-1">
+              Diferenças entre conexões ou entre versões salvas do schema de uma conexão.
+            </p>
+          </div>
+        </div>
+
+        {/* Selection */}
+        <Card className="mb-6">
+          <div className="flex items-end gap-3">
+            <SchemaRefPicker
+              label="Origem"
+              connections={connections.map(c => c.name)}
+              connection={fromConn}
+              at={fromAt}
+              onConnectionChange={(name) => { setFromConn(name); setFromAt(''); }}
+              onAtChange={setFromAt}
+            />
+            <ArrowRight className="w-4 h-4 text-text-muted mb-3 shrink-0" />
+            <SchemaRefPicker
+              label="Destino"
+              connections={connections.map(c => c.name)}
+              connection={toConn}
+              at={toAt}
+              onConnectionChange={(name) => { setToConn(name); setToAt(''); }}
+              onAtChange={setToAt}
+            />
+          </div>
+          <div className="flex items-center justify-between mt-4">
+            <label className="flex items-center gap-2 text-xs text-text-secondary cursor-pointer">
+              <input type="checkbox" checked={withSql} onChange={(e) => setWithSql(e.target.checked)} />
+              Gerar SQL de migração (origem → destino)
+            </label>
+            <Button
+              size="sm"
+              icon={<GitCompare className="w-3.5 h-3.5" />}
+              onClick={handleCompare}
+              loading={loading}
+              disabled={!fromConn || !toConn}
+            >
+              Comparar
+            </Button>
+          </div>
+        </Card>
+
+        {error && (
+          <div className="mb-4 px-4 py-3 rounded-lg bg-red-500/5 border border-red-500/20">
+            <p className="text-sm text-red-400">{error}</p>
+          </div>
+        )}
+
+        {diff && <DiffResult diff={diff} />}
+      </div>
+    </div>
+  );
+}
+
+// ─── Ref picker (connection + saved snapshot) ───
+
+interface SchemaRefPickerProps {
+  label: string;
+  connections: string[];
+  connection: string;
+  at: string;
+  onConnectionChange: (name: string) => void;
+  onAtChange: (at: string) => void;
+}
+
+function SchemaRefPicker({ label, connections, connection, at, onConnectionChange, onAtChange }: SchemaRefPickerProps) {
+  const [snapshots, setSnapshots] = useState<SchemaSnapshotInfo[]>([]);
+
+  useEffect(() => {
+    if (!connection) {
+      setSnapshots([]);
+      return;
+    }
+    api.schema.snapshots(connection).then(setSnapshots).catch(() => setSnapshots([]));
+  }, [connection]);
+
+  const archived = snapshots.filter(s => !s.current);
+  const selectClass = 'w-full bg-white/5 border border-white/5 focus:border-brand/40 rounded-lg px-3 py-2 text-xs text-text-primary outline-none';
+
+  return (
+    <div className="flex-1 space-y-2">
+      <span className="text-[10px] font-semibold text-text-muted uppercase tracking-wider">{label}</span>
+      <select value={connection} onChange={(e) => onConnectionChange(e.target.value)} className={selectClass}>
+        <option value="">Selecione a conexão</option>
+        {connections.map(name => <option key={name} value={name}>{name}</option>)}
+      </select>
+      <select value={at} onChange={(e) => onAtChange(e.target.value)} disabled={!connection} className={selectClass}>
+        <option value="">Schema atual</option>
+        {archived.map(s => (
+          <option key={s.mappedAt} value={s.mappedAt}>
+            {new Date(s.mappedAt).toLocaleString('pt-BR')} ({s.tableCount} tabelas)
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+// ─── Result ───
+
+function DiffResult({ diff }: { diff: SchemaDiff }) {
+  const total = diff.summary.added + diff.summary.removed + diff.summary.changed;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-xs text-text-muted">
+        <span className="font-mono text-text-secondary">{diff.from.label}</span>
+        <ArrowRight className="w-3 h-3" />
+        <span className="font-mono text-text-secondary">{diff.to.label}</span>
+        <span className="ml-auto flex items-center gap-2">
+          <Badge variant="success" size="sm">+{diff.summary.added}</Badge>
+          <Badge variant="error" size="sm">-{diff.summary.removed}</Badge>
+          <Badge variant="warning" size="sm">~{diff.summary.changed}</Badge>
+        </span>
+      </div>
+
+      {total === 0 && (
+        <Card className="text-center text-sm text-text-muted">Nenhuma diferença entre os schemas.</Card>
+      )}
+
+      {diff.tables.map(table => (
+        <TableDiffCard key={`${table.schema}.${table.name}`} table={table} />
+      ))}
+
+      {diff.migrationSql && total > 0 && (
+        <Card className="!p-0 overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-border bg-bg-elevated/50">
+            <span className="text-xs font-semibold text-text-muted uppercase tracking-wider">SQL de migração</span>
+            <Button
+              size="sm"
+              variant="ghost"
+              icon={<Copy className="w-3.5 h-3.5" />}
+              onClick={() => navigator.clipboard.writeText(diff.migrationSql ?? '')}
+            >
+              Copiar
+            </Button>
+          </div>
+          <pre className="p-4 text-xs font-mono text-text-secondary overflow-x-auto whitespace-pre">
+            {diff.migrationSql}
+          </pre>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function TableDiffCard({ table }: { table: TableDiff }) {
+  const style = changeStyles[table.change];
+
+  return (
+    <Card className="!p-0 overflow-hidden">
+      <div className="flex items-center gap-2 px-4 py-2.5 border-b border-border/50">
+        {table.type === 'view'
+          ? <Eye className="w-4 h-4 text-text-muted" />
+          : <Table2 className="w-4 h-4 text-brand" />}
+        <span className="font-mono text-sm">{table.schema}.{table.name}</span>
+        <Badge variant={style.variant} size="sm" className="ml-auto">{style.label}</Badge>
+      </div>
+
+      {table.change === 'changed' && (
+        <ul className="px-4 py-2 space-y-1 text-xs font-mono">
+          {table.columns.map(col => (
+            <li key={`col-${col.name}`} className="flex items-center gap-2">
+              {changeStyles[col.change].icon}
+              <span className="text-text-primary">{col.name}</span>
+              {col.change === 'added' && <span className="text-text-muted">{col.to?.type}</span>}
+              {col.change === 'changed' && (
+                <span className="text-text-muted">
+                  {col.fields.map(field => (
+                    `${fieldLabels[field]}: ${String(col.from?.[field] ?? 'null')} → ${String(col.to?.[field] ?? 'null')}`
+                  )).join(' • ')}
+                </span>
+              )}
+            </li>
+          ))}
+          {table.indexes.map(idx => (
+            <li key={`idx-${idx.name}`} className="flex items-center gap-2">
+              {changeStyles[idx.change].icon}
+              <span className="text-text-secondary">índice {idx.name}</span>
+              <span className="text-text-muted">({(idx.to ?? idx.from)?.columns.join(', ')})</span>
+            </li>
+          ))}
+          {table.foreignKeys.map(({ change, foreignKey: fk }) => (
+            <li key={`fk-${change}-${fk.name}`} className="flex items-center gap-2">
+              {changeStyles[change].icon}
+              <span className="text-text-secondary">
+                FK ({fk.columns.join(', ')}) → {fk.referencedSchema}.{fk.referencedTable} ({fk.referencedColumns.join(', ')})
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {table.change === 'added' && table.table && (
+        <p className="px-4 py-2 text-xs text-text-muted">
+          {table.table.columns.length} colunas: {table.table.columns.map(c => c.name).join(', ')}
+        </p>
+      )}
+    </Card>
+  );
+}
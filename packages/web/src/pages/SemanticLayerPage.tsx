@@ -0,0 +1,262 @@
+import { useEffect, useState } from 'react';
+import { ArrowLeft, BookOpen, Plus, Save, Trash2, Sigma, BookA, Route } from 'lucide-react';
+import { Button, Card } from '../components/ui';
+import { useAppStore } from '../stores/app-store';
+import { api } from '../lib/api';
+import type { SemanticLayer } from '../types';
+
+// Synonyms are edited as comma-separated text and split only on save
+type Draft<T> = Omit<T, 'synonyms'> & { synonyms: string };
+
+interface SemanticDraft {
+  metrics: Draft<SemanticLayer['metrics'][number]>[];
+  glossary: Draft<SemanticLayer['glossary'][number]>[];
+  joins: SemanticLayer['joins'];
+}
+
+const emptyDraft: SemanticDraft = { metrics: [], glossary: [], joins: [] };
+
+function toDraft(layer: SemanticLayer): SemanticDraft {
+  return {
+    metrics: layer.metrics.map(m => ({ ...m, synonyms: (m.synonyms ?? []).join(', ') })),
+    glossary: layer.glossary.map(t => ({ ...t, synonyms: (t.synonyms ?? []).join(', ') })),
+    joins: layer.joins,
+  };
+}
+
+function splitSynonyms(text: string): string[] | undefined {
+  const synonyms = text.split(',').map(s => s.trim()).filter(Boolean);
+  return synonyms.length > 0 ? synonyms : undefined;
+}
+
+function fromDraft(draft: SemanticDraft): SemanticLayer {
+  return {
+    metrics: draft.metrics.map(m => ({ ...m, synonyms: splitSynonyms(m.synonyms) })),
+    glossary: draft.glossary.map(t => ({ ...t, synonyms: splitSynonyms(t.synonyms) })),
+    joins: draft.joins,
+  };
+}
+
+const inputClass = 'w-full bg-white/5 border border-white/5 focus:border-brand/40 rounded-lg px-3 py-2 text-xs text-text-primary placeholder:text-text-muted outline-none';
+
+export function SemanticLayerPage() {
+  const activeConnection = useAppStore((s) => s.activeConnection);
+  const setActivePage = useAppStore((s) => s.setActivePage);
+
+  const [draft, setDraft] = useState<SemanticDraft>(emptyDraft);
+  const [updatedAt, setUpdatedAt] = useState<string | undefined>();
+  const [dirty, setDirty] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const connection = activeConnection?.name;
+
+  useEffect(() => {
+    if (!connection) return;
+    setLoading(true);
+    setError(null);
+    api.semantic.get(connection)
+      .then(({ layer }) => {
+        setDraft(toDraft(layer));
+        setUpdatedAt(layer.updatedAt);
+        setDirty(false);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Erro ao carregar camada semântica'))
+      .finally(() => setLoading(false));
+  }, [connection]);
+
+  const update = (next: SemanticDraft) => {
+    setDraft(next);
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    if (!connection) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const { layer } = await api.semantic.save(fromDraft(draft), connection);
+      setDraft(toDraft(layer));
+      setUpdatedAt(layer.updatedAt);
+      setDirty(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro ao salvar camada semântica');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-6 animate-fadeIn">
+      <div className="max-w-4xl mx-auto">
+        <button
+          onClick={() => setActivePage('chat')}
+          className="flex items-center gap-1.5 text-sm text-text-muted hover:text-text-primary transition-colors mb-4 cursor-pointer"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Voltar
+        </button>
+
+        <div className="flex items-center gap-3 mb-6">
+          <BookOpen className="w-6 h-6 text-brand" />
+          <div className="flex-1">
+            <h1 className="text-xl font-bold">Glossário e métricas</h1>
+            <p className="text-xs text-text-muted mt-1">
+              Definições do time para {connection ? <span className="font-mono text-text-secondary">{connection}</span> : 'a conexão ativa'}.
+              O agente usa as métricas exatas e cita qual definição usou.
+              {updatedAt && ` Atualizado em ${new Date(updatedAt).toLocaleString('pt-BR')}.`}
+            </p>
+          </div>
+          <Button
+            size="sm"
+            icon={<Save className="w-3.5 h-3.5" />}
+            onClick={handleSave}
+            loading={saving}
+            disabled={!connection || !dirty}
+          >
+            Salvar
+          </Button>
+        </div>
+
+        {!connection && (
+          <Card className="text-center text-sm text-text-muted">Conecte a um banco para editar a camada semântica.</Card>
+        )}
+
+        {error && (
+          <div className="mb-4 px-4 py-3 rounded-lg bg-red-500/5 border border-red-500/20">
+            <p className="text-sm text-red-400">{error}</p>
+          </div>
+        )}
+
+        {connection && !loading && (
+          <div className="space-y-6">
+            {/* Metrics */}
+            <SectionCard
+              icon={<Sigma className="w-4 h-4 text-brand" />}
+              title="Métricas"
+              hint="Expressão SQL agregada + filtro aplicado sempre junto"
+              onAdd={() => update({ ...draft, metrics: [...draft.metrics, { name: '', expression: '', synonyms: '' }] })}
+            >
+              {draft.metrics.map((metric, i) => {
+                const set = (patch: Partial<typeof metric>) =>
+                  update({ ...draft, metrics: draft.metrics.map((m, j) => (j === i ? { ...m, ...patch } : m)) });
+                return (
+                  <EntryRow
+                    key={i}
+                    onRemove={() => update({ ...draft, metrics: draft.metrics.filter((_, j) => j !== i) })}
+                  >
+                    <div className="grid grid-cols-3 gap-2">
+                      <input className={inputClass} placeholder="Nome (ex.: receita)" value={metric.name} onChange={(e) => set({ name: e.target.value })} />
+                      <input className={`${inputClass} col-span-2 font-mono`} placeholder="sum(orders.total)" value={metric.expression} onChange={(e) => set({ expression: e.target.value })} />
+                      <input className={`${inputClass} col-span-2 font-mono`} placeholder="Filtro (ex.: orders.status = 'paid')" value={metric.filter ?? ''} onChange={(e) => set({ filter: e.target.value })} />
+                      <input className={inputClass} placeholder="Grão (ex.: por pedido)" value={metric.grain ?? ''} onChange={(e) => set({ grain: e.target.value })} />
+                      <input className={`${inputClass} col-span-2`} placeholder="Descrição" value={metric.description ?? ''} onChange={(e) => set({ description: e.target.value })} />
+                      <input className={inputClass} placeholder="Sinônimos (faturamento, vendas)" value={metric.synonyms} onChange={(e) => set({ synonyms: e.target.value })} />
+                    </div>
+                  </EntryRow>
+                );
+              })}
+            </SectionCard>
+
+            {/* Glossary */}
+            <SectionCard
+              icon={<BookA className="w-4 h-4 text-brand" />}
+              title="Glossário"
+              hint="O que os termos do negócio significam no banco"
+              onAdd={() => update({ ...draft, glossary: [...draft.glossary, { term: '', definition: '', synonyms: '' }] })}
+            >
+              {draft.glossary.map((term, i) => {
+                const set = (patch: Partial<typeof term>) =>
+                  update({ ...draft, glossary: draft.glossary.map((t, j) => (j === i ? { ...t, ...patch } : t)) });
+                return (
+                  <EntryRow
+                    key={i}
+                    onRemove={() => update({ ...draft, glossary: draft.glossary.filter((_, j) => j !== i) })}
+                  >
+                    <div className="grid grid-cols-3 gap-2">
+                      <input className={inputClass} placeholder="Termo (ex.: cliente ativo)" value={term.term} onChange={(e) => set({ term: e.target.value })} />
+                      <input className={`${inputClass} col-span-2`} placeholder="Definição" value={term.definition} onChange={(e) => set({ definition: e.target.value })} />
+                      <input className={`${inputClass} col-span-3`} placeholder="Sinônimos (separados por vírgula)" value={term.synonyms} onChange={(e) => set({ synonyms: e.target.value })} />
+                    </div>
+                  </EntryRow>
+                );
+              })}
+            </SectionCard>
+
+            {/* Preferred joins */}
+            <SectionCard
+              icon={<Route className="w-4 h-4 text-brand" />}
+              title="Joins preferidos"
+              hint="Como o time junta tabelas quando há mais de um caminho"
+              onAdd={() => update({ ...draft, joins: [...draft.joins, { from: '', to: '', on: '' }] })}
+            >
+              {draft.joins.map((join, i) => {
+                const set = (patch: Partial<typeof join>) =>
+                  update({ ...draft, joins: draft.joins.map((j, k) => (k === i ? { ...j, ...patch } : j)) });
+                return (
+                  <EntryRow
+                    key={i}
+                    onRemove={() => update({ ...draft, joins: draft.joins.filter((_, k) => k !== i) })}
+                  >
+                    <div className="grid grid-cols-2 gap-2">
+                      <input className={`${inputClass} font-mono`} placeholder="De (ex.: public.orders)" value={join.from} onChange={(e) => set({ from: e.target.value })} />
+                      <input className={`${inputClass} font-mono`} placeholder="Para (ex.: public.customers)" value={join.to} onChange={(e) => set({ to: e.target.value })} />
+                      <input className={`${inputClass} font-mono`} placeholder="ON orders.customer_id = customers.id" value={join.on} onChange={(e) => set({ on: e.target.value })} />
+                      <input className={inputClass} placeholder="Observação" value={join.note ?? ''} onChange={(e) => set({ note: e.target.value })} />
+                    </div>
+                  </EntryRow>
+                );
+              })}
+            </SectionCard>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ─── Building blocks ───
+
+interface SectionCardProps {
+  icon: React.ReactNode;
+  title: string;
+  hint: string;
+  onAdd: () => void;
+  children: React.ReactNode[];
+}
+
+function SectionCard({ icon, title, hint, onAdd, children }: SectionCardProps) {
+  return (
+    <Card className="!p-0 overflow-hidden">
+      <div className="flex items-center gap-2 px-4 py-2.5 border-b border-border/50">
+        {icon}
+        <span className="text-sm font-semibold">{title}</span>
+        <span className="text-[10px] text-text-muted">{hint}</span>
+        <Button size="sm" variant="ghost" className="ml-auto" icon={<Plus className="w-3.5 h-3.5" />} onClick={onAdd}>
+          Adicionar
+        </Button>
+      </div>
+      {children.length === 0 ? (
+        <p className="px-4 py-3 text-xs text-text-muted italic">Nada definido ainda.</p>
+      ) : (
+        <div className="divide-y divide-border/50">{children}</div>
+      )}
+    </Card>
+  );
+}
+
+function EntryRow({ onRemove, children }: { onRemove: () => void; children: React.ReactNode }) {
+  return (
+    <div className="flex items-start gap-2 px-4 py-3">
+      <div className="flex-1">{children}</div>
+      <button
+        onClick={onRemove}
+        title="Remover"
+        className="p-2 rounded-lg text-text-muted hover:text-red-400 hover:bg-white/5 transition-colors"
+      >
+        <Trash2 className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+}
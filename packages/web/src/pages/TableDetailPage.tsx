@@ -1,12 +1,29 @@
 import { useEffect, useState } from 'react';
 import {
   ArrowLeft, Table2, Eye, Key, Link2, Hash, Clock,
-  ChevronDown, ChevronRight,
+  ChevronDown, ChevronRight, ShieldCheck, Layers, Zap, BarChart3, Lock,
 } from 'lucide-react';
-import { Badge, Card, Spinner, Table } from '../components/ui';
+import { Badge, Button, Card, Spinner, Table } from '../components/ui';
 import { useAppStore } from '../stores/app-store';
 import { api } from '../lib/api';
-import type { TableInfo } from '../types';
+import type {
+  ColumnSensitivity, MaskMode, MaskingPolicy, SensitivityTag, TableInfo, TableProfile,
+} from '../types';
+
+const SENSITIVITY_TAGS: SensitivityTag[] = [
+  'email', 'document', 'phone', 'name', 'address', 'birthdate', 'financial', 'secret',
+];
+
+const MASK_MODE_LABELS: Record<MaskMode, string> = {
+  none: 'sem máscara',
+  partial: 'parcial',
+  redact: 'ocultar',
+};
+
+// Composite keys render as "(a, b)"
+function formatColumns(columns: string[]): string {
+  return columns.length === 1 ? columns[0] : `(${columns.join(', ')})`;
+}
 
 export function TableDetailPage() {
   const { selectedTable, setActivePage } = useAppStore();
@@ -19,7 +36,15 @@ export function TableDetailPage() {
     indexes: true,
     foreignKeys: true,
     referencedBy: true,
+    constraints: true,
+    triggers: true,
+    profile: true,
   });
+  const [profiling, setProfiling] = useState(false);
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const [sensitivity, setSensitivity] = useState<Record<string, ColumnSensitivity>>({});
+  const [policy, setPolicy] = useState<MaskingPolicy | null>(null);
+  const [privacyError, setPrivacyError] = useState<string | null>(null);
 
   useEffect(() => {
     if (!selectedTable) return;
@@ -31,16 +56,59 @@ export function TableDetailPage() {
       .finally(() => setLoading(false));
   }, [selectedTable]);
 
+  const applySensitivity = (result: { policy: MaskingPolicy; columns: ColumnSensitivity[] }) => {
+    setPolicy(result.policy);
+    setSensitivity(Object.fromEntries(result.columns.map(c => [c.key, c])));
+  };
+
+  useEffect(() => {
+    if (!selectedTable) return;
+    api.schema.sensitivity().then(applySensitivity).catch(console.error);
+  }, [selectedTable]);
+
+  // "auto" drops the override and falls back to the suggested tag
+  const updatePrivacy = async (body: Parameters<typeof api.schema.updateSensitivity>[0]) => {
+    setPrivacyError(null);
+    try {
+      applySensitivity(await api.schema.updateSensitivity(body));
+      if (selectedTable) {
+        setTable(await api.schema.table(selectedTable.schema, selectedTable.name));
+      }
+    } catch (error) {
+      setPrivacyError(error instanceof Error ? error.message : 'Erro ao salvar etiquetas de sensibilidade');
+    }
+  };
+
   const toggleSection = (section: keyof typeof expandedSections) => {
     setExpandedSections(prev => ({ ...prev, [section]: !prev[section] }));
   };
 
+  const runProfile = async () => {
+    if (!selectedTable) return;
+    setProfiling(true);
+    setProfileError(null);
+    try {
+      const key = `${selectedTable.schema}.${selectedTable.name}`;
+      const result = await api.schema.profile([key]);
+      if (result.failed.includes(key)) {
+        setProfileError('Não foi possível perfilar: sem estatísticas e a amostragem falhou.');
+      }
+      setTable(await api.schema.table(selectedTable.schema, selectedTable.name));
+    } catch (error) {
+      setProfileError(error instanceof Error ? error.message : 'Erro ao perfilar tabela');
+    } finally {
+      setProfiling(false);
+    }
+  };
+
   const loadSampleData = async () => {
     if (!selectedTable) return;
     setLoadingSample(true);
     try {
+      // Explicit columns: "*" is refused when the access policy hides some of them
+      const columns = (table?.columns ?? []).map(c => `"${c.name.replace(/"/g, '""')}"`).join(', ') || '*';
       const result = await api.query.execute(
-        `SELECT * FROM "${selectedTable.schema}"."${selectedTable.name}" LIMIT 20`
+        `SELECT ${columns} FROM "${selectedTable.schema}"."${selectedTable.name}" LIMIT 20`
       );
       setSampleData(result.rows);
     } catch (error) {
@@ -78,7 +146,10 @@ export function TableDetailPage() {
               {table.schema}.{table.name}
             </h1>
             <div className="flex items-center gap-2 mt-1">
-              {table.type === 'view' && <Badge variant="info">VIEW</Badge>}
+              {table.type === 'view' && (
+                <Badge variant="info">{table.materialized ? 'MATERIALIZED VIEW' : 'VIEW'}</Badge>
+              )}
+              {table.partition?.key && <Badge variant="default">PARTITIONED</Badge>}
               <span className="text-xs text-text-muted">
                 {table.columns.length} colunas
               </span>
@@ -112,12 +183,15 @@ export function TableDetailPage() {
                   <th className="px-4 py-2 text-left text-xs font-semibold text-text-muted">Tipo</th>
                   <th className="px-4 py-2 text-center text-xs font-semibold text-text-muted">Nullable</th>
                   <th className="px-4 py-2 text-left text-xs font-semibold text-text-muted">Default</th>
+                  <th className="px-4 py-2 text-left text-xs font-semibold text-text-muted">PII</th>
                   <th className="px-4 py-2 text-right text-xs font-semibold text-text-muted">Atributos</th>
                 </tr>
               </thead>
               <tbody>
                 {table.columns.map(col => {
-                  const fk = table.foreignKeys.find(f => f.column === col.name);
+                  const fk = table.foreignKeys.find(f => f.columns.includes(col.name));
+                  const fkColumn = fk?.referencedColumns[fk.columns.indexOf(col.name)];
+                  const columnKey = `${table.schema}.${table.name}.${col.name}`;
                   return (
                     <tr key={col.name} className="border-b border-border/50 hover:bg-bg-elevated/30 transition-colors">
                       <td className="px-4 py-2 font-mono text-sm">
@@ -140,14 +214,33 @@ export function TableDetailPage() {
                       <td className="px-4 py-2 font-mono text-xs text-text-muted max-w-[200px] truncate">
                         {col.defaultValue || '-'}
                       </td>
+                      <td className="px-4 py-2">
+                        <SensitivitySelect
+                          info={sensitivity[columnKey]}
+                          onChange={value => updatePrivacy({ sensitivity: { [columnKey]: value } })}
+                        />
+                      </td>
                       <td className="px-4 py-2 text-right">
                         <div className="flex items-center gap-1 justify-end">
                           {col.isPrimaryKey && <Badge variant="warning" size="sm">PK</Badge>}
                           {fk && (
-                            <Badge variant="info" size="sm">
-                              FK→{fk.referencedTable}.{fk.referencedColumn}
-                            </Badge>
+                            <span title={fk.columns.length > 1 ? `FK composta ${fk.name}` : fk.name}>
+                              <Badge variant="info" size="sm">
+                                FK→{fk.referencedTable}.{fkColumn}{fk.columns.length > 1 && ' (composta)'}
+                              </Badge>
+                            </span>
+                          )}
+                          {col.enumValues && (
+                            <span title={col.enumValues.join(', ')}>
+                              <Badge variant="default" size="sm">ENUM ({col.enumValues.length})</Badge>
+                            </span>
                           )}
+                          {col.generated && (
+                            <span title={col.generated}>
+                              <Badge variant="default" size="sm">GENERATED</Badge>
+                            </span>
+                          )}
+                          {col.identity && <Badge variant="default" size="sm">IDENTITY</Badge>}
                         </div>
                       </td>
                     </tr>
@@ -158,6 +251,82 @@ export function TableDetailPage() {
           </Card>
         )}
 
+        {/* Masking policy */}
+        {policy && (
+          <Card className="mb-4 text-xs">
+            <div className="flex items-center gap-3 flex-wrap">
+              <Lock className="w-3 h-3 text-amber-400" />
+              <span className="text-text-secondary">Máscara de colunas sensíveis:</span>
+              {(['results', 'llm'] as const).map(target => (
+                <label key={target} className="flex items-center gap-1.5 text-text-muted">
+                  {target === 'results' ? 'resultados e exportações' : 'enviado ao LLM'}
+                  <select
+                    value={policy[target]}
+                    onChange={e => updatePrivacy({ masking: { [target]: e.target.value as MaskMode } })}
+                    className="bg-bg-elevated border border-border rounded px-1.5 py-0.5 text-text-primary"
+                  >
+                    {(Object.keys(MASK_MODE_LABELS) as MaskMode[]).map(mode => (
+                      <option key={mode} value={mode}>{MASK_MODE_LABELS[mode]}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+            {privacyError && <p className="mt-2 text-red-400">{privacyError}</p>}
+          </Card>
+        )}
+
+        {/* Partitioning */}
+        {table.partition && (
+          <Card className="mb-4 text-xs space-y-1">
+            <div className="flex items-center gap-2">
+              <Layers className="w-3 h-3 text-text-muted" />
+              {table.partition.key ? (
+                <span>Particionada por <span className="font-mono">{table.partition.key}</span></span>
+              ) : (
+                <span>
+                  Partição de <span className="font-mono">{table.partition.parent}</span>
+                  {table.partition.bound && <span className="text-text-muted font-mono"> {table.partition.bound}</span>}
+                </span>
+              )}
+            </div>
+            {table.partition.children && table.partition.children.length > 0 && (
+              <p className="font-mono text-text-muted pl-5">{table.partition.children.join(', ')}</p>
+            )}
+          </Card>
+        )}
+
+        {/* Constraints */}
+        {(table.checkConstraints.length > 0 || table.uniqueConstraints.length > 0) && (
+          <>
+            <SectionHeader
+              title="Constraints"
+              count={table.checkConstraints.length + table.uniqueConstraints.length}
+              expanded={expandedSections.constraints}
+              onToggle={() => toggleSection('constraints')}
+            />
+            {expandedSections.constraints && (
+              <Card className="mb-4 space-y-2 animate-slideUp">
+                {table.uniqueConstraints.map(u => (
+                  <div key={u.name} className="flex items-center gap-2 text-xs">
+                    <ShieldCheck className="w-3 h-3 text-text-muted" />
+                    <span className="font-mono">{u.name}</span>
+                    <Badge variant="success" size="sm">UNIQUE</Badge>
+                    <span className="text-text-muted">({u.columns.join(', ')})</span>
+                  </div>
+                ))}
+                {table.checkConstraints.map(c => (
+                  <div key={c.name} className="flex items-center gap-2 text-xs">
+                    <ShieldCheck className="w-3 h-3 text-text-muted" />
+                    <span className="font-mono">{c.name}</span>
+                    <span className="font-mono text-text-muted truncate">{c.definition}</span>
+                  </div>
+                ))}
+              </Card>
+            )}
+          </>
+        )}
+
         {/* Indexes */}
         {table.indexes.length > 0 && (
           <>
@@ -183,6 +352,32 @@ export function TableDetailPage() {
           </>
         )}
 
+        {/* Triggers */}
+        {table.triggers.length > 0 && (
+          <>
+            <SectionHeader
+              title="Triggers"
+              count={table.triggers.length}
+              expanded={expandedSections.triggers}
+              onToggle={() => toggleSection('triggers')}
+            />
+            {expandedSections.triggers && (
+              <Card className="mb-4 space-y-2 animate-slideUp">
+                {table.triggers.map(trigger => (
+                  <div key={trigger.name} className="flex items-center gap-2 text-xs" title={trigger.definition}>
+                    <Zap className="w-3 h-3 text-text-muted" />
+                    <span className="font-mono">{trigger.name}</span>
+                    <Badge variant="info" size="sm">{trigger.timing} {trigger.events.join(' / ')}</Badge>
+                    <span className="text-text-muted">FOR EACH {trigger.level}</span>
+                    <span className="font-mono text-text-muted truncate">→ {trigger.function}()</span>
+                    {!trigger.enabled && <Badge variant="default" size="sm">desabilitado</Badge>}
+                  </div>
+                ))}
+              </Card>
+            )}
+          </>
+        )}
+
         {/* Foreign Keys */}
         {table.foreignKeys.length > 0 && (
           <>
@@ -194,13 +389,13 @@ export function TableDetailPage() {
             />
             {expandedSections.foreignKeys && (
               <Card className="mb-4 space-y-2 animate-slideUp">
-                {table.foreignKeys.map((fk, i) => (
-                  <div key={i} className="flex items-center gap-2 text-xs">
+                {table.foreignKeys.map(fk => (
+                  <div key={fk.name} className="flex items-center gap-2 text-xs" title={fk.name}>
                     <Link2 className="w-3 h-3 text-cyan-400" />
-                    <span className="font-mono">{fk.column}</span>
+                    <span className="font-mono">{formatColumns(fk.columns)}</span>
                     <span className="text-text-muted">→</span>
                     <span className="font-mono text-cyan-400">
-                      {fk.referencedSchema}.{fk.referencedTable}.{fk.referencedColumn}
+                      {fk.referencedSchema}.{fk.referencedTable}.{formatColumns(fk.referencedColumns)}
                     </span>
                   </div>
                 ))}
@@ -220,14 +415,14 @@ export function TableDetailPage() {
             />
             {expandedSections.referencedBy && (
               <Card className="mb-4 space-y-2 animate-slideUp">
-                {table.referencedBy.map((ref, i) => (
-                  <div key={i} className="flex items-center gap-2 text-xs">
+                {table.referencedBy.map(ref => (
+                  <div key={`${ref.referencedSchema}.${ref.referencedTable}.${ref.name}`} className="flex items-center gap-2 text-xs" title={ref.name}>
                     <Link2 className="w-3 h-3 text-amber-400" />
                     <span className="font-mono text-amber-400">
-                      {ref.referencedSchema}.{ref.referencedTable}.{ref.referencedColumn}
+                      {ref.referencedSchema}.{ref.referencedTable}.{formatColumns(ref.referencedColumns)}
                     </span>
                     <span className="text-text-muted">→</span>
-                    <span className="font-mono">{ref.column}</span>
+                    <span className="font-mono">{formatColumns(ref.columns)}</span>
                   </div>
                 ))}
               </Card>
@@ -235,6 +430,28 @@ export function TableDetailPage() {
           </>
         )}
 
+        {/* Data profile */}
+        <div className="flex items-center justify-between">
+          <SectionHeader
+            title="Perfil de dados"
+            count={table.profile ? Object.keys(table.profile.columns).length : 0}
+            expanded={expandedSections.profile}
+            onToggle={() => toggleSection('profile')}
+          />
+          <Button
+            size="sm"
+            variant="ghost"
+            icon={<BarChart3 className="w-3.5 h-3.5" />}
+            onClick={runProfile}
+            loading={profiling}
+            className="shrink-0 mb-2"
+          >
+            {table.profile ? 'Atualizar perfil' : 'Perfilar colunas'}
+          </Button>
+        </div>
+        {profileError && <p className="mb-2 text-xs text-red-400">{profileError}</p>}
+        {expandedSections.profile && table.profile && <ProfileCard profile={table.profile} />}
+
         {/* Sample Data */}
         <div className="mt-6 mb-8">
           {sampleData ? (
@@ -262,6 +479,67 @@ export function TableDetailPage() {
   );
 }
 
+function ProfileCard({ profile }: { profile: TableProfile }) {
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  const source = profile.sampledRows !== null ? `amostra de ${profile.sampledRows} linhas` : 'pg_stats';
+
+  return (
+    <Card className="mb-4 space-y-2 animate-slideUp">
+      {Object.entries(profile.columns).map(([column, stats]) => (
+        <div key={column} className="flex items-start gap-3 text-xs">
+          <span className="font-mono w-40 shrink-0 truncate" title={column}>{column}</span>
+          <span className="text-text-muted w-28 shrink-0">
+            {stats.distinct !== null ? `${stats.distinct.toLocaleString('pt-BR')} distintos` : '—'}
+            {stats.nullFraction > 0 && ` • ${percent(stats.nullFraction)} null`}
+          </span>
+          <div className="flex flex-wrap gap-1 min-w-0">
+            {stats.commonValues.slice(0, 8).map(v => (
+              <Badge key={v.value} variant="default" size="sm">
+                <span className="font-mono">{v.value}</span>
+                <span className="ml-1 opacity-60">{percent(v.frequency)}</span>
+              </Badge>
+            ))}
+            {stats.commonValues.length === 0 && stats.histogram && stats.histogram.length >= 2 && (
+              <span className="font-mono text-text-muted">
+                {stats.histogram[0]} .. {stats.histogram[stats.histogram.length - 1]}
+              </span>
+            )}
+          </div>
+        </div>
+      ))}
+      <p className="pt-1 text-[10px] text-text-muted">
+        Fonte: {source} • {new Date(profile.profiledAt).toLocaleString('pt-BR')}
+      </p>
+    </Card>
+  );
+}
+
+function SensitivitySelect({
+  info, onChange,
+}: {
+  info?: ColumnSensitivity; onChange: (value: SensitivityTag | 'none' | null) => void;
+}) {
+  // Columns without suggestion or override are not listed by the server
+  const current = info ?? { key: '', tag: null, suggested: null, source: null };
+
+  // Overrides to "none" keep source 'override' with a null tag
+  const value = current.source === 'override' ? current.tag ?? 'none' : 'auto';
+  const autoLabel = current.suggested ? `auto (${current.suggested})` : 'auto';
+
+  return (
+    <select
+      value={value}
+      onChange={e => onChange(e.target.value === 'auto' ? null : (e.target.value as SensitivityTag | 'none'))}
+      title={current.source === 'pattern' ? 'Sugerido pelos valores da coluna' : current.source === 'name' ? 'Sugerido pelo nome da coluna' : undefined}
+      className={`bg-bg-elevated border rounded px-1.5 py-0.5 text-xs ${current.tag ? 'border-amber-500/40 text-amber-400' : 'border-border text-text-muted'}`}
+    >
+      <option value="auto">{autoLabel}</option>
+      <option value="none">não sensível</option>
+      {SENSITIVITY_TAGS.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+    </select>
+  );
+}
+
 function SectionHeader({
   title, count, expanded, onToggle,
 }: {
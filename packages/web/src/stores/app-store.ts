@@ -1,16 +1,16 @@
 import { create } from 'zustand';
-import type { Connection, SchemaMap, TableInfo } from '../types';
+import type { Connection, ConversationDetail, SchemaMap, TableInfo } from '../types';
 import { api } from '../lib/api';
 
-export type SidebarTab = 'connections' | 'schema' | 'history' | 'scripts';
-export type ActivePage = 'chat' | 'query-editor' | 'table-detail' | 'scripts';
+export type SidebarTab = 'connections' | 'schema' | 'conversations' | 'history' | 'scripts';
+export type ActivePage = 'chat' | 'query-editor' | 'table-detail' | 'scripts' | 'schema-diff' | 'semantic';
 export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
 
 interface AppState {
   // Auth
   isAuthenticated: boolean;
   accountId: string | null;
-  provider: 'openai' | 'anthropic' | null;
+  provider: 'openai' | 'anthropic' | 'ollama' | null;
   model: string | null;
 
   // Connection
@@ -23,6 +23,11 @@ interface AppState {
   schemaMap: SchemaMap | null;
   isLoadingSchema: boolean;
 
+  // Conversations
+  activeConversationId: string | null;
+  // Conversation picked in the sidebar, waiting for the chat to load it
+  pendingConversation: ConversationDetail | null;
+
   // UI
   sidebarOpen: boolean;
   sidebarTab: SidebarTab;
@@ -32,7 +37,7 @@ interface AppState {
 
   // Actions
   setModel: (model: string | null) => void;
-  setAuthenticated: (status: boolean, accountId?: string, provider?: 'openai' | 'anthropic' | null) => void;
+  setAuthenticated: (status: boolean, accountId?: string, provider?: 'openai' | 'anthropic' | 'ollama' | null) => void;
   setConnections: (conns: Connection[]) => void;
   addConnection: (conn: Connection) => void;
   removeConnection: (name: string) => void;
@@ -41,6 +46,8 @@ interface AppState {
   setDbInfo: (info: { database: string; version: string; tableCount: number } | null) => void;
   setSchemaMap: (schema: SchemaMap | null) => void;
   setIsLoadingSchema: (loading: boolean) => void;
+  setActiveConversationId: (id: string | null) => void;
+  setPendingConversation: (conversation: ConversationDetail | null) => void;
   setActivePage: (page: ActivePage) => void;
   setSidebarTab: (tab: SidebarTab) => void;
   selectTable: (schema: string, name: string) => void;
@@ -65,6 +72,10 @@ export const useAppStore = create<AppState>((set) => ({
   schemaMap: null,
   isLoadingSchema: false,
 
+  // Conversations
+  activeConversationId: null,
+  pendingConversation: null,
+
   // UI
   sidebarOpen: true,
   sidebarTab: 'connections',
@@ -92,6 +103,8 @@ export const useAppStore = create<AppState>((set) => ({
   setDbInfo: (info) => set({ dbInfo: info }),
   setSchemaMap: (schema) => set({ schemaMap: schema }),
   setIsLoadingSchema: (loading) => set({ isLoadingSchema: loading }),
+  setActiveConversationId: (id) => set({ activeConversationId: id }),
+  setPendingConversation: (conversation) => set({ pendingConversation: conversation }),
   setActivePage: (page) => set({ activePage: page }),
   setSidebarTab: (tab) => set({ sidebarTab: tab }),
 
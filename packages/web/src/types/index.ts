@@ -12,19 +12,127 @@ export interface SchemaMap {
   version: string;
   schemas: string[];
   tables: TableInfo[];
+  sequences: SequenceInfo[];
+  routines: RoutineInfo[];
+  extensions: ExtensionInfo[];
   mappedAt: string;
 }
 
+export interface SequenceInfo {
+  schema: string;
+  name: string;
+  dataType: string;
+  ownedBy: string | null;
+}
+
+export interface RoutineInfo {
+  schema: string;
+  name: string;
+  kind: 'function' | 'procedure' | 'aggregate' | 'window';
+  arguments: string;
+  returnType: string | null;
+  language: string;
+  volatility: 'immutable' | 'stable' | 'volatile';
+  comment: string | null;
+}
+
+export interface ExtensionInfo {
+  name: string;
+  version: string;
+  schema: string;
+}
+
+export interface TriggerInfo {
+  name: string;
+  timing: 'BEFORE' | 'AFTER' | 'INSTEAD OF';
+  events: string[];
+  level: 'ROW' | 'STATEMENT';
+  function: string;
+  enabled: boolean;
+  definition: string;
+}
+
+export interface CheckConstraint {
+  name: string;
+  definition: string;
+}
+
+export interface UniqueConstraint {
+  name: string;
+  columns: string[];
+}
+
+export interface PartitionInfo {
+  strategy?: 'range' | 'list' | 'hash';
+  key?: string;
+  children?: string[];
+  parent?: string;
+  bound?: string;
+}
+
 export interface TableInfo {
   schema: string;
   name: string;
   type: 'table' | 'view';
+  materialized?: boolean;
   columns: ColumnInfo[];
   foreignKeys: ForeignKey[];
   referencedBy: ForeignKey[];
   indexes: IndexInfo[];
+  checkConstraints: CheckConstraint[];
+  uniqueConstraints: UniqueConstraint[];
+  triggers: TriggerInfo[];
+  partition?: PartitionInfo;
   estimatedRowCount: number;
   comment: string | null;
+  profile?: TableProfile | null; // only on the table detail endpoint
+}
+
+export interface ColumnProfile {
+  nullFraction: number;
+  distinct: number | null;
+  commonValues: { value: string; frequency: number }[];
+  histogram?: string[];
+  source: 'pg_stats' | 'sample';
+}
+
+export interface TableProfile {
+  columns: Record<string, ColumnProfile>;
+  sampledRows: number | null;
+  profiledAt: string;
+}
+
+export interface SchemaProfileResult {
+  profiled: string[];
+  failed: string[];
+  notFound: string[];
+}
+
+export interface AccessPolicy {
+  allow?: string[]; // "schema", "schema.table" or "schema.table.column", * as wildcard
+  deny?: string[];
+}
+
+export type SensitivityTag =
+  | 'email' | 'document' | 'phone' | 'name' | 'address' | 'birthdate' | 'financial' | 'secret';
+
+export type MaskMode = 'none' | 'partial' | 'redact';
+
+export interface MaskingPolicy {
+  results: MaskMode; // result grid and exports
+  llm: MaskMode; // rows sent to the model
+}
+
+export interface ColumnSensitivity {
+  key: string; // schema.table.column
+  tag: SensitivityTag | null;
+  suggested: SensitivityTag | null;
+  source: 'name' | 'pattern' | 'override' | null;
+}
+
+export interface SensitivityResponse {
+  policy: MaskingPolicy;
+  columns: ColumnSensitivity[];
 }
 
 export interface ColumnInfo {
@@ -34,13 +142,18 @@ export interface ColumnInfo {
   defaultValue: string | null;
   isPrimaryKey: boolean;
   comment: string | null;
+  enumValues?: string[];
+  generated?: string;
+  identity?: 'ALWAYS' | 'BY DEFAULT';
+  sequence?: string;
 }
 
 export interface ForeignKey {
-  column: string;
+  name: string;
+  columns: string[];
   referencedSchema: string;
   referencedTable: string;
-  referencedColumn: string;
+  referencedColumns: string[];
 }
 
 export interface IndexInfo {
@@ -50,6 +163,54 @@ export interface IndexInfo {
   isPrimary: boolean;
 }
 
+export interface SchemaRefreshResult {
+  refreshed?: string[];
+  added?: string[];
+  removed?: string[];
+  notFound?: string[];
+  unchanged?: number;
+  full: boolean;
+  tableCount: number;
+  mappedAt: string;
+}
+
+export type DiffChange = 'added' | 'removed' | 'changed';
+
+export interface ColumnDiff {
+  name: string;
+  change: DiffChange;
+  from?: ColumnInfo;
+  to?: ColumnInfo;
+  fields: ('type' | 'nullable' | 'defaultValue')[];
+}
+
+export interface TableDiff {
+  schema: string;
+  name: string;
+  type: 'table' | 'view';
+  change: DiffChange;
+  columns: ColumnDiff[];
+  foreignKeys: { change: 'added' | 'removed'; foreignKey: ForeignKey }[];
+  indexes: { name: string; change: DiffChange; from?: IndexInfo; to?: IndexInfo }[];
+  table?: TableInfo;
+}
+
+export interface SchemaDiff {
+  from: { label: string; database: string; mappedAt: string };
+  to: { label: string; database: string; mappedAt: string };
+  tables: TableDiff[];
+  summary: { added: number; removed: number; changed: number };
+  migrationSql?: string;
+}
+
+export interface SchemaSnapshotInfo {
+  connection: string;
+  database: string;
+  mappedAt: string;
+  tableCount: number;
+  current: boolean;
+}
+
 export interface TableSummary {
   schema: string;
   name: string;
@@ -74,11 +235,33 @@ export interface RelationNode {
 }
 
 export interface RelationEdge {
+  id: string;
   from: string;
   to: string;
   label: string;
-  fromColumn: string;
-  toColumn: string;
+  fromColumns: string[];
+  toColumns: string[];
+}
+
+export interface JoinStep {
+  from: string;
+  to: string;
+  constraint: string;
+  direction: 'forward' | 'reverse';
+  on: string;
+}
+
+export interface JoinPath {
+  tables: string[];
+  steps: JoinStep[];
+  sql: string;
+}
+
+export interface JoinPathResult {
+  from: string;
+  to: string;
+  paths: JoinPath[];
+  ambiguous: boolean;
 }
 
 export interface SqlScript {
@@ -89,11 +272,67 @@ export interface SqlScript {
   updatedAt: string;
 }
 
+export interface ConversationUsage {
+  prompt: number;
+  completion: number;
+  total: number;
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  connection: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  tokensUsed: ConversationUsage;
+}
+
+export interface ConversationEntry {
+  type: 'user' | 'text' | 'sql' | 'preview' | 'result' | 'error';
+  content?: string;
+  result?: {
+    rowCount: number;
+    columns: string[];
+    duration: number;
+    hasMore: boolean;
+    rows: Record<string, unknown>[];
+  };
+  preview?: WritePreview;
+  timestamp: string;
+}
+
+export interface ConversationDetail {
+  id: string;
+  title: string;
+  connection: string;
+  createdAt: string;
+  updatedAt: string;
+  entries: ConversationEntry[];
+  tokensUsed: ConversationUsage;
+}
+
 export interface QueryResult {
   rows: Record<string, unknown>[];
   rowCount: number;
   duration: number;
   columns: string[];
+  // Presentes quando a query foi executada com paginacao (cursor no servidor)
+  handle?: string | null;
+  offset?: number;
+  hasMore?: boolean;
+  totalRows?: number | null;
+  maskedColumns?: Record<string, SensitivityTag>;
+}
+
+export interface ResultPage {
+  handle: string;
+  rows: Record<string, unknown>[];
+  columns: string[];
+  offset: number;
+  hasMore: boolean;
+  totalRows: number | null;
+  duration: number;
 }
 
 export interface QueryHistoryEntry {
@@ -104,10 +343,106 @@ export interface QueryHistoryEntry {
   timestamp: string;
 }
 
+export interface PreviewStatement {
+  command: string;
+  sql: string;
+  relation: string | null;
+  rowsAffected: number;
+  keyColumns: string[];
+  columns: string[];
+  before: Record<string, unknown>[];
+  after: Record<string, unknown>[];
+}
+
+export interface WritePreview {
+  sql: string;
+  statements: PreviewStatement[];
+  totalRowsAffected: number;
+  duration: number;
+  error?: string;
+}
+
+// Tables sent to the agent for one run (token-budgeted schema context)
+export interface ContextSelection {
+  detailed: string[];
+  namesOnly: number;
+  omitted: number;
+  estimatedTokens: number;
+  tokenBudget: number;
+  metrics: string[]; // semantic-layer metrics matched by the question
+}
+
+// Per-connection semantic layer: team glossary, official metrics and preferred joins
+export interface GlossaryTerm {
+  term: string;
+  definition: string;
+  synonyms?: string[];
+}
+
+export interface MetricDefinition {
+  name: string;
+  expression: string;
+  filter?: string;
+  grain?: string;
+  description?: string;
+  synonyms?: string[];
+}
+
+export interface PreferredJoin {
+  from: string;
+  to: string;
+  on: string;
+  note?: string;
+}
+
+export interface SemanticLayer {
+  glossary: GlossaryTerm[];
+  metrics: MetricDefinition[];
+  joins: PreferredJoin[];
+  updatedAt?: string;
+}
+
+export interface SemanticLayerResponse {
+  connection: string;
+  layer: SemanticLayer;
+}
+
+export interface UsageTotals {
+  calls: number;
+  prompt: number;
+  completion: number;
+  total: number;
+  costUsd: number;
+  unpricedCalls: number; // calls to models missing from the price table
+}
+
+export interface UsageBudgets {
+  runTokens?: number;
+  conversationTokens?: number;
+  dailyTokens?: number;
+  dailyCostUsd?: number;
+}
+
+export interface UsageReport {
+  since: string;
+  days: number;
+  today: UsageTotals;
+  totals: UsageTotals;
+  byDay: Array<UsageTotals & { day: string }>;
+  byConnection: Array<UsageTotals & { connection: string }>;
+  byModel: Array<UsageTotals & { model: string }>;
+  byConversation: Array<UsageTotals & { conversationId: string }>;
+  recentRuns: Array<UsageTotals & { runId: string; connection: string; at: string }>;
+  budgets: UsageBudgets;
+}
+
 export interface ChatMessage {
   id: string;
-  type: 'user' | 'thinking' | 'text' | 'sql' | 'executing' | 'result' | 'summary' | 'error';
+  type: 'user' | 'thinking' | 'text' | 'sql' | 'preview' | 'executing' | 'result' | 'summary' | 'error' | 'context';
   content?: string;
   data?: QueryResult;
+  preview?: WritePreview;
+  context?: ContextSelection;
+  streaming?: boolean; // text still arriving as deltas
   timestamp: Date;
 }
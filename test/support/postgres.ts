@@ -0,0 +1,71 @@
+import { PGlite } from '@electric-sql/pglite';
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket';
+import { DatabaseConnector } from '@agentdb/core';
+import type { ConnectorOptions } from '@agentdb/core';
+
+export interface TestDatabase {
+  url: string;
+  connect(options?: ConnectorOptions): Promise<DatabaseConnector>;
+  stop(): Promise<void>;
+}
+
+/**
+ * Postgres embutido (PGlite) exposto no protocolo de rede, para que o
+ * DatabaseConnector real (pg.Pool) converse com ele como com um servidor.
+ * PGlite tem uma unica sessao: transacao aberta (ex.: cursor paginado) trava
+ * as demais conexoes ate terminar, entao testes devem fechar seus cursores.
+ */
+export async function startTestDatabase(seedSql: string): Promise<TestDatabase> {
+  const db = await PGlite.create();
+  await db.exec(seedSql);
+
+  const server = new PGLiteSocketServer({ db, host: '127.0.0.1', port: 0, maxConnections: 10 });
+  await server.start();
+  const url = `postgres://postgres@${server.getServerConn()}/postgres?sslmode=disable`;
+
+  const connectors: DatabaseConnector[] = [];
+  return {
+    url,
+    async connect(options = {}) {
+      const connector = new DatabaseConnector(url, options);
+      await connector.connect();
+      connectors.push(connector);
+      return connector;
+    },
+    async stop() {
+      for (const connector of connectors) await connector.disconnect();
+      // Handlers do socket consultam o PGlite ao fechar: espera os clientes sairem antes
+      for (let i = 0; i < 200 && server.getStats().activeConnections > 0; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      await server.stop();
+      await db.close();
+    },
+  };
+}
+
+export const SHOP_SEED = `
+  CREATE TABLE customers (
+    id serial PRIMARY KEY,
+    name text NOT NULL,
+    email text NOT NULL,
+    city text
+  );
+  CREATE TABLE orders (
+    id serial PRIMARY KEY,
+    customer_id int NOT NULL REFERENCES customers(id),
+    total numeric(10, 2) NOT NULL,
+    status text NOT NULL
+  );
+  CREATE VIEW customer_contacts AS SELECT id, name, email FROM customers;
+
+  INSERT INTO customers (name, email, city) VALUES
+    ('Ana', 'ana@example.com', 'Recife'),
+    ('Bruno', 'bruno@example.com', 'Curitiba'),
+    ('Carla', 'carla@example.com', 'Recife');
+  INSERT INTO orders (customer_id, total, status) VALUES
+    (1, 120.00, 'paid'),
+    (1, 80.50, 'paid'),
+    (2, 42.00, 'cancelled'),
+    (3, 310.00, 'paid');
+`;
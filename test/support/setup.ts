@@ -0,0 +1,16 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll } from 'vitest';
+
+// Config, caches e ledger ficam em ~/.agentdb: cada arquivo de teste ganha um HOME
+// proprio para nao tocar no do desenvolvedor nem vazar estado entre arquivos.
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'agentdb-test-'));
+process.env.HOME = home;
+process.env.USERPROFILE = home;
+delete process.env.AGENTDB_LLM_REPLAY;
+delete process.env.AGENTDB_LLM_RECORD;
+
+afterAll(() => {
+  fs.rmSync(home, { recursive: true, force: true });
+});
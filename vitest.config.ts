@@ -0,0 +1,18 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    // Testes rodam contra o fonte do core, sem precisar do build em dist/
+    alias: {
+      '@agentdb/core': fileURLToPath(new URL('./packages/core/src/index.ts', import.meta.url)),
+    },
+  },
+  test: {
+    include: ['packages/*/test/**/*.test.ts'],
+    setupFiles: ['./test/support/setup.ts'],
+    // PGlite sobe um Postgres em WASM por arquivo de teste
+    testTimeout: 30_000,
+    hookTimeout: 60_000,
+  },
+});